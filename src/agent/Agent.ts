@@ -2,9 +2,13 @@ import type { LLMProvider } from '../provider/LLMProvider';
 import type { MessageExtractor } from '../extractor/MessageExtractor';
 import type { Template } from '../template/types';
 import type { ChatMessage } from '../chat/types';
-import { MCPService } from '../mcp/MCPService';
+import { MCPService, type MCPServerToolOptions } from '../mcp/MCPService';
+import type { ToolCacheOptions } from '../mcp/toolCache';
+import type { MCPClientOptions } from '../mcp/client';
 import type { ToolDefinition } from '../tools/types';
 import { ChatSession, ChatSessionOptions } from '../session/ChatSession';
+import type { ChatStreamEvent, ChatStreamResult, ChatUsage } from '../session/streamEvents';
+import type { ToolApprovalDecision, ToolApprovalRequest } from '../session/toolApproval';
 import { MCPTransport } from '../mcp/types';
 
 export interface AgentConfig {
@@ -19,8 +23,10 @@ export interface AgentConfig {
   mcpServices?: Array<{
     label: string;
     transport: string | MCPTransport;
-  }>;
+  } & MCPServerToolOptions>;
   options?: ChatSessionOptions;
+  toolCache?: ToolCacheOptions;  // Reuse results of tools marked `cacheable`
+  mcpClient?: MCPClientOptions;  // Client info and keep-alive for the MCP servers
 }
 
 export interface AgentCapabilities {
@@ -30,6 +36,11 @@ export interface AgentCapabilities {
   parallelExecution: boolean;
 }
 
+export interface AgentExecutionOptions {
+  // Cancels the task, including model requests and running tools
+  signal?: AbortSignal;
+}
+
 export interface AgentState {
   isRunning: boolean;
   currentIteration: number;
@@ -37,6 +48,7 @@ export interface AgentState {
   lastToolCall?: string;
   lastMCPCall?: string;
   errors: string[];
+  usage?: ChatUsage;  // Token usage of the last task, once it reached the provider
 }
 
 export class Agent {
@@ -54,14 +66,14 @@ export class Agent {
     this.description = config.description;
     
     // Initialize MCP service
-    this.mcpService = new MCPService();
+    this.mcpService = new MCPService({ cache: config.toolCache, client: config.mcpClient });
     
     // Initialize capabilities
     this.capabilities = {
       canUseTools: !!(config.tools && config.tools.length > 0),
       canUseMCP: !!(config.mcpServices && config.mcpServices.length > 0),
       maxIterations: config.options?.maxAgenticIterations || 10,
-      parallelExecution: false // Can be enhanced later
+      parallelExecution: (config.options?.toolConcurrency || 1) > 1
     };
 
     // Initialize state
@@ -110,7 +122,7 @@ export class Agent {
   private mcpServices?: Array<{
     label: string;
     transport: string | MCPTransport;
-  }>;
+  } & MCPServerToolOptions>;
   private mcpInitialized = false;
 
   private async initializeMCPServices(): Promise<void> {
@@ -119,7 +131,8 @@ export class Agent {
     }
 
     for (const mcpConfig of this.mcpServices) {
-      await this.mcpService.initializeMcpTools(mcpConfig.label, mcpConfig.transport);
+      const { label, transport, ...toolOptions } = mcpConfig;
+      await this.mcpService.initializeMcpTools(label, transport, toolOptions);
     }
 
     this.mcpInitialized = true;
@@ -128,10 +141,11 @@ export class Agent {
   /**
    * Execute a task with the agent
    */
-  async execute(task: string, context?: Record<string, any>): Promise<string> {
+  async execute(task: string, context?: Record<string, any>, options: AgentExecutionOptions = {}): Promise<string> {
     this.state.isRunning = true;
     this.state.currentIteration = 0;
     this.state.errors = [];
+    this.state.usage = undefined;
 
     try {
       // Initialize MCP services if not already done
@@ -144,7 +158,12 @@ export class Agent {
       }
 
       // Execute with the session's agentic mode
-      const result = await this.session.chat(fullTask);
+      let result: string;
+      try {
+        result = await this.session.chat(fullTask, { signal: options.signal });
+      } finally {
+        this.state.usage = this.session.getTurnUsage();
+      }
       
       this.state.totalIterations = this.state.currentIteration;
       return result;
@@ -157,51 +176,116 @@ export class Agent {
   }
 
   /**
-   * Stream task execution with real-time updates
+   * Stream task execution with real-time updates; built on `streamEvents`
    */
   async stream(
     task: string,
     context?: Record<string, any>,
     onUpdate?: (data: {
-      type: 'content' | 'tool_call' | 'tool_result' | 'iteration' | 'error';
+      type: 'content' | 'tool_call' | 'tool_result' | 'approval_required' | 'iteration' | 'error';
       data: any;
       iteration: number;
-    }) => void
+    }) => void,
+    options: AgentExecutionOptions = {}
   ): Promise<string> {
+    for await (const event of this.streamEvents(task, context, options)) {
+      const iteration = this.state.currentIteration;
+      switch (event.type) {
+        case 'iteration':
+          onUpdate?.({ type: 'iteration', data: event.iteration, iteration });
+          break;
+        case 'content':
+          onUpdate?.({ type: 'content', data: event.delta, iteration });
+          break;
+        case 'tool_call_complete':
+          onUpdate?.({ type: 'tool_call', data: event.toolCall, iteration });
+          break;
+        case 'tool_result':
+          onUpdate?.({ type: 'tool_result', data: event.result, iteration });
+          break;
+        case 'approval_required':
+          onUpdate?.({ type: 'approval_required', data: event.requests, iteration });
+          break;
+        case 'error':
+          onUpdate?.({ type: 'error', data: event.error.message, iteration });
+          throw event.error;
+        case 'done':
+          return event.result.content;
+      }
+    }
+    return '';
+  }
+
+  /**
+   * Stream task execution as typed events, see `ChatSession.streamEvents`
+   */
+  async *streamEvents(
+    task: string,
+    context?: Record<string, any>,
+    options: AgentExecutionOptions = {}
+  ): AsyncGenerator<ChatStreamEvent, ChatStreamResult | undefined, undefined> {
     this.state.isRunning = true;
     this.state.currentIteration = 0;
     this.state.errors = [];
+    this.state.usage = undefined;
 
     try {
       // Initialize MCP services if not already done
       await this.initializeMCPServices();
+    } catch (error) {
+      const failure = error instanceof Error ? error : new Error(String(error));
+      this.state.errors.push(failure.message);
+      this.state.isRunning = false;
+      yield { type: 'error', error: failure };
+      return undefined;
+    }
 
-      let fullTask = task;
-      if (context) {
-        fullTask = `${task}\n\nContext: ${JSON.stringify(context, null, 2)}`;
-      }
+    let fullTask = task;
+    if (context) {
+      fullTask = `${task}\n\nContext: ${JSON.stringify(context, null, 2)}`;
+    }
 
-      const result = await this.session.stream(fullTask, {}, (chunk) => {
-        if (onUpdate) {
-          onUpdate({
-            type: chunk.type as any,
-            data: chunk.data,
-            iteration: this.state.currentIteration
-          });
+    let result: ChatStreamResult | undefined;
+    try {
+      for await (const event of this.session.streamEvents(fullTask, { signal: options.signal })) {
+        if (event.type === 'iteration') {
+          this.state.currentIteration = event.iteration;
+        } else if (event.type === 'done') {
+          result = event.result;
+          this.state.usage = { ...result.usage };
+          this.state.totalIterations = this.state.currentIteration;
+        } else if (event.type === 'error') {
+          this.state.errors.push(event.error.message);
         }
-      });
-
-      this.state.totalIterations = this.state.currentIteration;
+        yield event;
+      }
       return result;
+    } finally {
+      this.state.isRunning = false;
+    }
+  }
+
+  /**
+   * Tool calls the agent is paused on, waiting for approval
+   */
+  getPendingApprovals(): ToolApprovalRequest[] {
+    return this.session.getPendingApprovals();
+  }
+
+  /**
+   * Continue a task paused for tool approval, see `ChatSession.resolveApprovals`
+   */
+  async resolveApprovals(
+    decisions: Record<string, ToolApprovalDecision>,
+    options: AgentExecutionOptions = {}
+  ): Promise<string> {
+    this.state.isRunning = true;
+    this.state.errors = [];
+
+    try {
+      return await this.session.resolveApprovals(decisions, { signal: options.signal });
     } catch (error) {
       this.state.errors.push(error instanceof Error ? error.message : String(error));
-      if (onUpdate) {
-        onUpdate({
-          type: 'error',
-          data: error instanceof Error ? error.message : String(error),
-          iteration: this.state.currentIteration
-        });
-      }
       throw error;
     } finally {
       this.state.isRunning = false;
@@ -219,11 +303,19 @@ export class Agent {
   /**
    * Add an MCP service to the agent
    */
-  async addMCPService(label: string, transport: string | MCPTransport): Promise<void> {
-    await this.mcpService.initializeMcpTools(label, transport);
+  async addMCPService(label: string, transport: string | MCPTransport, options?: MCPServerToolOptions): Promise<void> {
+    await this.mcpService.initializeMcpTools(label, transport, options);
     this.capabilities.canUseMCP = true;
   }
 
+  /**
+   * Shut down the agent's MCP servers, ending stdio server processes. Their
+   * tools are removed; local tools stay available.
+   */
+  async close(): Promise<void> {
+    await this.mcpService.close();
+  }
+
   /**
    * Get available tools
    */
@@ -231,6 +323,27 @@ export class Agent {
     return this.mcpService.listTools();
   }
 
+  /**
+   * Tools this agent's session may use, see `ChatSession.getAvailableTools`
+   */
+  getAvailableTools(): ToolDefinition[] {
+    return this.session.getAvailableTools();
+  }
+
+  /**
+   * Enable tools matching glob patterns, such as `github.*`, mid-conversation
+   */
+  enableTools(...patterns: string[]): void {
+    this.session.enableTools(...patterns);
+  }
+
+  /**
+   * Disable tools matching glob patterns mid-conversation
+   */
+  disableTools(...patterns: string[]): void {
+    this.session.disableTools(...patterns);
+  }
+
   /**
    * Get agent capabilities
    */
@@ -270,6 +383,9 @@ export class Agent {
     if (options.maxAgenticIterations) {
       this.capabilities.maxIterations = options.maxAgenticIterations;
     }
+    if (options.toolConcurrency !== undefined) {
+      this.capabilities.parallelExecution = options.toolConcurrency > 1;
+    }
   }
 
   /**
@@ -1,8 +1,11 @@
-import { Agent, AgentConfig } from './Agent';
+import { Agent, AgentConfig, AgentExecutionOptions } from './Agent';
 import { MonitoringService } from '../monitoring/MonitoringService';
 import type { ChatMessage } from '../chat/types';
 import type { ToolDefinition } from '../tools/types';
 import type { MCPTransport } from '../mcp/types';
+import type { MCPServerToolOptions } from '../mcp/MCPService';
+import type { ChatStreamEvent, ChatStreamResult, ChatUsage } from '../session/streamEvents';
+import type { ToolApprovalDecision, ToolApprovalRequest } from '../session/toolApproval';
 import { v4 as uuidv4 } from 'uuid';
 
 export interface MonitoredAgentConfig extends AgentConfig {
@@ -18,6 +21,8 @@ export interface MonitoredAgentConfig extends AgentConfig {
 export class MonitoredAgent {
   private agent: Agent;
   private monitoringService: MonitoringService;
+  private providerName: string;
+  private model?: string;
   private enabledMetrics: {
     trackExecutions: boolean;
     trackTools: boolean;
@@ -28,6 +33,8 @@ export class MonitoredAgent {
   constructor(config: MonitoredAgentConfig) {
     this.agent = new Agent(config);
     this.monitoringService = config.monitoringService || new MonitoringService();
+    this.providerName = config.provider.name;
+    this.model = config.provider.getModel?.();
     
     this.enabledMetrics = {
       trackExecutions: config.enabledMetrics?.trackExecutions ?? true,
@@ -49,9 +56,9 @@ export class MonitoredAgent {
     return this.agent.description;
   }
 
-  async execute(task: string, context?: Record<string, any>): Promise<string> {
+  async execute(task: string, context?: Record<string, any>, options: AgentExecutionOptions = {}): Promise<string> {
     if (!this.enabledMetrics.trackExecutions) {
-      return this.agent.execute(task, context);
+      return this.agent.execute(task, context, options);
     }
 
     const requestId = uuidv4();
@@ -77,7 +84,7 @@ export class MonitoredAgent {
     let error: string | undefined;
 
     try {
-      result = await this.agent.execute(task, context);
+      result = await this.agent.execute(task, context, options);
       success = true;
       return result;
     } catch (err) {
@@ -97,12 +104,14 @@ export class MonitoredAgent {
           outputSize: toolResult.result ? JSON.stringify(toolResult.result).length : 0
         })) : undefined;
 
+      // Estimates only stand in when the task never reached the provider
+      const usage = this.agent.getState().usage;
       this.monitoringService.endRequest(
         requestId,
         success,
         result.length,
-        0, // Input tokens - would need provider integration for actual token counts
-        0, // Output tokens - would need provider integration for actual token counts
+        usage?.inputTokens ?? this.countTokens(task),
+        usage?.outputTokens ?? this.countTokens(result),
         toolCalls,
         error
       );
@@ -113,13 +122,51 @@ export class MonitoredAgent {
     task: string,
     context?: Record<string, any>,
     onUpdate?: (data: {
-      type: 'content' | 'tool_call' | 'tool_result' | 'iteration' | 'error';
+      type: 'content' | 'tool_call' | 'tool_result' | 'approval_required' | 'iteration' | 'error';
       data: any;
       iteration: number;
-    }) => void
+    }) => void,
+    options: AgentExecutionOptions = {}
   ): Promise<string> {
     if (!this.enabledMetrics.trackExecutions) {
-      return this.agent.stream(task, context, onUpdate);
+      return this.agent.stream(task, context, onUpdate, options);
+    }
+
+    for await (const event of this.streamEvents(task, context, options)) {
+      const iteration = this.agent.getState().currentIteration;
+      switch (event.type) {
+        case 'iteration':
+          onUpdate?.({ type: 'iteration', data: event.iteration, iteration });
+          break;
+        case 'content':
+          onUpdate?.({ type: 'content', data: event.delta, iteration });
+          break;
+        case 'tool_call_complete':
+          onUpdate?.({ type: 'tool_call', data: event.toolCall, iteration });
+          break;
+        case 'tool_result':
+          onUpdate?.({ type: 'tool_result', data: event.result, iteration });
+          break;
+        case 'approval_required':
+          onUpdate?.({ type: 'approval_required', data: event.requests, iteration });
+          break;
+        case 'error':
+          onUpdate?.({ type: 'error', data: event.error.message, iteration });
+          throw event.error;
+        case 'done':
+          return event.result.content;
+      }
+    }
+    return '';
+  }
+
+  async *streamEvents(
+    task: string,
+    context?: Record<string, any>,
+    options: AgentExecutionOptions = {}
+  ): AsyncGenerator<ChatStreamEvent, ChatStreamResult | undefined, undefined> {
+    if (!this.enabledMetrics.trackExecutions) {
+      return yield* this.agent.streamEvents(task, context, options);
     }
 
     const requestId = uuidv4();
@@ -140,59 +187,93 @@ export class MonitoredAgent {
       }
     );
 
-    const startTime = Date.now();
     let success = false;
-    let result = '';
+    let result: ChatStreamResult | undefined;
+    let usage: ChatUsage | undefined;
     let error: string | undefined;
 
     try {
-      result = await this.agent.stream(task, context, (data) => {
+      for await (const event of this.agent.streamEvents(task, context, options)) {
         // Track tool calls in real-time if enabled
-        if (this.enabledMetrics.trackTools && data.type === 'tool_call') {
+        if (this.enabledMetrics.trackTools && event.type === 'tool_call_complete') {
           this.monitoringService.trackToolCall(
             requestId,
-            data.data.name || 'unknown',
+            event.toolCall.name || 'unknown',
             0, // Duration not available in stream
             true, // Assume success for now
-            JSON.stringify(data.data.arguments || {}).length,
+            JSON.stringify(event.toolCall.arguments || {}).length,
             0 // Output size not available yet
           );
+        } else if (event.type === 'usage') {
+          usage = {
+            inputTokens: (usage?.inputTokens ?? 0) + event.usage.inputTokens,
+            outputTokens: (usage?.outputTokens ?? 0) + event.usage.outputTokens
+          };
+        } else if (event.type === 'done') {
+          success = true;
+          result = event.result;
+          usage = result.usage;
+        } else if (event.type === 'error') {
+          error = event.error.message;
         }
 
-        if (onUpdate) {
-          onUpdate(data);
-        }
-      });
-      success = true;
+        yield event;
+      }
       return result;
-    } catch (err) {
-      error = err instanceof Error ? err.message : String(err);
-      throw err;
     } finally {
+      const content = result?.content || '';
       this.monitoringService.endRequest(
         requestId,
         success,
-        result.length,
-        0, // Input tokens
-        0, // Output tokens
+        content.length,
+        usage?.inputTokens ?? this.countTokens(task),
+        usage?.outputTokens ?? this.countTokens(content),
         undefined, // Tool calls already tracked in streaming
         error
       );
     }
   }
 
+  private countTokens(text: string): number {
+    return this.monitoringService.countTokens(this.providerName, this.model, text);
+  }
+
+  getPendingApprovals(): ToolApprovalRequest[] {
+    return this.agent.getPendingApprovals();
+  }
+
+  async resolveApprovals(decisions: Record<string, ToolApprovalDecision>, options: AgentExecutionOptions = {}): Promise<string> {
+    return this.agent.resolveApprovals(decisions, options);
+  }
+
   addTool(tool: ToolDefinition): void {
     this.agent.addTool(tool);
   }
 
-  async addMCPService(label: string, transport: string | MCPTransport): Promise<void> {
-    return this.agent.addMCPService(label, transport);
+  async addMCPService(label: string, transport: string | MCPTransport, options?: MCPServerToolOptions): Promise<void> {
+    return this.agent.addMCPService(label, transport, options);
+  }
+
+  async close(): Promise<void> {
+    return this.agent.close();
   }
 
   getTools(): ToolDefinition[] {
     return this.agent.getTools();
   }
 
+  getAvailableTools(): ToolDefinition[] {
+    return this.agent.getAvailableTools();
+  }
+
+  enableTools(...patterns: string[]): void {
+    this.agent.enableTools(...patterns);
+  }
+
+  disableTools(...patterns: string[]): void {
+    this.agent.disableTools(...patterns);
+  }
+
   getCapabilities() {
     return this.agent.getCapabilities();
   }
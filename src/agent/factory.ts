@@ -1,8 +1,8 @@
-import { Agent, AgentConfig } from './Agent';
+import { Agent, AgentConfig, AgentExecutionOptions } from './Agent';
 import { OpenAIProvider, OpenAIConfig, GeminiProvider, GeminiConfig, ClaudeProvider, ClaudeConfig, MistralProvider, MistralConfig, GroqProvider, GroqConfig, OllamaProvider, OllamaConfig, NodeLlamaCppProvider, NodeLlamaCppConfig } from '../provider';
 import { OpenAIExtractor, GeminiExtractor, ClaudeExtractor, NodeLlamaCppExtractor } from '../extractor';
 import { templateRegistry } from '../template/defaultRegistry';
-import { MCPService } from '../mcp/MCPService';
+import { MCPService, type MCPServiceOptions } from '../mcp/MCPService';
 import { MCPTransport } from '../mcp/types';
 import type { Template } from '../template/types';
 import type { ToolDefinition } from '../tools/types';
@@ -324,8 +324,8 @@ export function createOllamaAgent(
 
 
 
-export function createMCPService(): MCPService {
-  return new MCPService();
+export function createMCPService(options: MCPServiceOptions = {}): MCPService {
+  return new MCPService(options);
 }
 
 function getDefaultTemplate(): Template {
@@ -365,7 +365,7 @@ export class AgentWorkflow {
     this.fallbackAgent = config.fallbackAgent;
   }
 
-  async execute(task: string, context?: Record<string, any>): Promise<Map<string, string>> {
+  async execute(task: string, context?: Record<string, any>, options: AgentExecutionOptions = {}): Promise<Map<string, string>> {
     const results = new Map<string, string>();
     
     if (this.parallel) {
@@ -374,7 +374,7 @@ export class AgentWorkflow {
         const agent = this.agents.get(agentId);
         if (!agent) throw new Error(`Agent ${agentId} not found`);
         
-        const result = await this.executeWithRetry(agent, task, context);
+        const result = await this.executeWithRetry(agent, task, context, options);
         return { agentId, result };
       });
       
@@ -390,7 +390,7 @@ export class AgentWorkflow {
         const agent = this.agents.get(agentId);
         if (!agent) throw new Error(`Agent ${agentId} not found`);
         
-        const result = await this.executeWithRetry(agent, task, currentContext);
+        const result = await this.executeWithRetry(agent, task, currentContext, options);
         results.set(agentId, result);
         
         // Update context for next agent
@@ -404,13 +404,20 @@ export class AgentWorkflow {
     return results;
   }
 
-  private async executeWithRetry(agent: Agent, task: string, context?: Record<string, any>): Promise<string> {
+  private async executeWithRetry(
+    agent: Agent,
+    task: string,
+    context: Record<string, any> | undefined,
+    options: AgentExecutionOptions
+  ): Promise<string> {
     let lastError: Error | null = null;
     
     for (let attempt = 0; attempt < this.maxRetries; attempt++) {
       try {
-        return await agent.execute(task, context);
+        return await agent.execute(task, context, options);
       } catch (error) {
+        // Cancellation is not a failure to retry or hand to the fallback
+        if (options.signal?.aborted) throw error;
         lastError = error instanceof Error ? error : new Error(String(error));
         console.warn(`Agent ${agent.id} failed attempt ${attempt + 1}: ${lastError.message}`);
       }
@@ -419,7 +426,7 @@ export class AgentWorkflow {
     // If all retries failed, try fallback agent
     if (this.fallbackAgent) {
       try {
-        return await this.fallbackAgent.execute(task, context);
+        return await this.fallbackAgent.execute(task, context, options);
       } catch (fallbackError) {
         throw new Error(`All agents failed. Last error: ${lastError?.message}, Fallback error: ${fallbackError}`);
       }
@@ -4,7 +4,7 @@ import { handleToolCallFromModelOutput } from "./toolCallHandler";
 import { MCPClient } from "../mcp/client";
 import { MCPTransport } from "../mcp";
 import { zodFromJsonSchema } from "../utils";
-import { MCPService } from "../mcp/MCPService";
+import { MCPService, type MCPServerToolOptions } from "../mcp/MCPService";
 import { StreamingToolCallBuffer } from "../extractor/streaming/streamingToolCallBuffer";
 import type {
   ChatMessage,
@@ -448,13 +448,13 @@ export function createChat(
     return new LegacyChatSession(modelId, contextParams, combineContentSegments, mcpService);
 }
 
-export async function initializeMcpTools(mcp: string | MCPTransport, mcpService?: MCPService) {
+export async function initializeMcpTools(mcp: string | MCPTransport, mcpService?: MCPService, options?: MCPServerToolOptions) {
     const service = mcpService || new MCPService();
-    await service.initializeMcpTools('default', mcp);
+    await service.initializeMcpTools('default', mcp, options);
     return service;
 }
 
-export async function initializeAllMcpTools(servers: { label: string; mcp: string | MCPTransport }[], mcpService?: MCPService) {
+export async function initializeAllMcpTools(servers: ({ label: string; mcp: string | MCPTransport } & MCPServerToolOptions)[], mcpService?: MCPService) {
     const service = mcpService || new MCPService();
     await service.initializeAllMcpTools(servers);
     return service;
@@ -36,14 +36,30 @@ export type ToolDefinition = {
 
 // Chat message types, including tool messages and multi-modal support
 export type ChatMessage =
-  | { role: 'system' | 'user' | 'assistant'; content: string | MessageContent }
+  | { role: 'system' | 'user'; content: string | MessageContent }
+  | AssistantMessage
   | ToolMessage;
 
+// Tool call made by the assistant; tool messages answer it by id
+export type AssistantToolCall = {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+};
+
+export type AssistantMessage = {
+  role: 'assistant';
+  content: string | MessageContent;
+  tool_calls?: AssistantToolCall[];
+};
+
 export type ToolMessage = {
   role: 'tool';
   name: string; // tool/function name
   content: string; // tool output or function call result
   args?: Record<string, any>; // arguments passed to the tool
+  tool_call_id?: string; // id of the assistant tool call this result answers
+  media?: MediaContent[]; // images and other media the tool returned, named in content
 };
 
 // Chat completion parameters
@@ -3,4 +3,5 @@ export * from './OpenAIExtractor';
 export * from './GeminiExtractor';
 export * from './ClaudeExtractor';
 export * from './NodeLlamaCppExtractor';
-export * from './streaming/StreamingExtractor';
\ No newline at end of file
+export * from './streaming/StreamingExtractor';
+export * from './streaming/nativeToolCallAssembler';
\ No newline at end of file
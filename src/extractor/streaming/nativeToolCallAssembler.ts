@@ -0,0 +1,101 @@
+/**
+ * NativeToolCallAssembler: rebuilds tool calls that providers stream through
+ * their native tool APIs rather than as text.
+ *
+ * Providers either send a complete call on `chunk.raw.toolCall`, or
+ * `chunk.toolCallDelta` fragments that share an index until the stream ends.
+ */
+import type { StreamChunk, ToolCallDelta } from '../../provider/LLMProvider';
+import type { ToolCall } from '../MessageExtractor';
+
+export type ToolCallStreamUpdate =
+  | { type: 'start'; id: string; name: string }
+  | { type: 'delta'; id: string; argumentsDelta: string }
+  | { type: 'complete'; toolCall: ToolCall };
+
+interface PendingToolCall {
+  id?: string;
+  name?: string;
+  arguments: string;
+  started: boolean;
+}
+
+export class NativeToolCallAssembler {
+  private pending = new Map<number, PendingToolCall>();
+
+  push(chunk: StreamChunk): ToolCallStreamUpdate[] {
+    if (chunk.toolCallDelta) {
+      return this.pushDelta(chunk.toolCallDelta);
+    }
+
+    const toolCall = chunk.raw?.toolCall;
+    if (!toolCall?.name) return [];
+    return toolCallUpdates({ ...toolCall, id: toolCall.id || `call_${Date.now()}` });
+  }
+
+  /**
+   * Complete every call still being streamed, in index order
+   */
+  finalize(): ToolCallStreamUpdate[] {
+    const updates: ToolCallStreamUpdate[] = [];
+    const indexes = Array.from(this.pending.keys()).sort((a, b) => a - b);
+
+    for (const index of indexes) {
+      const call = this.pending.get(index)!;
+      if (!call.name) {
+        throw new Error(`Streamed tool call at index ${index} has no name`);
+      }
+
+      let args: Record<string, any>;
+      try {
+        args = call.arguments.trim() ? JSON.parse(call.arguments) : {};
+      } catch {
+        throw new Error(`Invalid JSON arguments streamed for tool '${call.name}'`);
+      }
+
+      const id = call.id || `call_${index}_${Date.now()}`;
+      if (!call.started) updates.push({ type: 'start', id, name: call.name });
+      updates.push({
+        type: 'complete',
+        toolCall: { id, name: call.name, arguments: args, type: 'function', format: 'json' }
+      });
+    }
+
+    this.pending.clear();
+    return updates;
+  }
+
+  private pushDelta(delta: ToolCallDelta): ToolCallStreamUpdate[] {
+    let call = this.pending.get(delta.index);
+    if (!call) {
+      call = { arguments: '', started: false };
+      this.pending.set(delta.index, call);
+    }
+    if (delta.id) call.id = delta.id;
+    if (delta.name) call.name = delta.name;
+    if (delta.arguments) call.arguments += delta.arguments;
+
+    // Announce the call once its name is known, with any arguments buffered so far
+    if (!call.started) {
+      if (!call.name) return [];
+      call.id = call.id || `call_${delta.index}_${Date.now()}`;
+      call.started = true;
+      const updates: ToolCallStreamUpdate[] = [{ type: 'start', id: call.id, name: call.name }];
+      if (call.arguments) updates.push({ type: 'delta', id: call.id, argumentsDelta: call.arguments });
+      return updates;
+    }
+
+    return delta.arguments ? [{ type: 'delta', id: call.id!, argumentsDelta: delta.arguments }] : [];
+  }
+}
+
+/**
+ * Updates for a tool call that arrived complete
+ */
+export function toolCallUpdates(toolCall: ToolCall): ToolCallStreamUpdate[] {
+  const id = toolCall.id || `call_${Date.now()}`;
+  return [
+    { type: 'start', id, name: toolCall.name },
+    { type: 'complete', toolCall: { ...toolCall, id } }
+  ];
+}
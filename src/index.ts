@@ -12,6 +12,7 @@ export * as Agent from "./agent";
 export * as Provider from "./provider";
 export * as Extractor from "./extractor";
 export * as MCP from "./mcp";
+export * as Tools from "./tools";
 export * as Monitoring from "./monitoring";
 export * as Utils from "./utils";
 
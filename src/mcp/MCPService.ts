@@ -1,13 +1,48 @@
-import { MCPClient } from './client';
-import { MCPTransport } from './types';
-import { zodFromJsonSchema } from '../utils';
-import type { ToolDefinition } from '../tools/types';
+import { MCPClient, type MCPClientOptions } from './client';
+import {
+  MCPTransport,
+  MCPTool,
+  MCPServerCapabilities,
+  MCPResource,
+  MCPResourceTemplate,
+  MCPReadResourceResult,
+  MCPPrompt,
+  MCPGetPromptResult
+} from './types';
+import { resourceContentsToMessageContent, promptToChatMessages } from './content';
+import { mcpToolResult } from './toolResult';
+import type { ChatMessage, MessageContent } from '../chat/types';
+import { toolParametersSchema, zodFromJsonSchema } from '../utils';
+import type { ToolDefinition, ToolContext } from '../tools/types';
+import { abortable, throwIfAborted } from '../utils/abort';
+import type { ZodTypeAny } from 'zod';
+import type { MonitoringService } from '../monitoring/MonitoringService';
+import { MemoryToolCacheStore, toolCacheKey, type ToolCacheOptions, type ToolCacheStats, type ToolCacheStore } from './toolCache';
+
+export interface MCPServiceOptions {
+  cache?: ToolCacheOptions;               // Caches results of tools marked `cacheable`
+  monitoringService?: MonitoringService;  // Receives cache hits and misses
+  client?: MCPClientOptions;              // Client info, capabilities and keep-alive for every server
+}
+
+export interface MCPServerToolOptions {
+  // Which of the server's tools may be cached; defaults to those annotated `readOnlyHint`
+  cacheable?: boolean | ((tool: MCPTool) => boolean);
+  cacheTtlMs?: number;  // Overrides the cache's default TTL for the server's tools
+}
 
 export class MCPService {
   private tools: Map<string, ToolDefinition> = new Map();
   private mcpClients: Map<string, MCPClient> = new Map();
+  private mcpServerTools: Map<string, string[]> = new Map();
+  private cacheStore?: ToolCacheStore;
+  private cacheStats: ToolCacheStats = { hits: 0, misses: 0 };
 
-  constructor() {}
+  constructor(private options: MCPServiceOptions = {}) {
+    if (options.cache) {
+      this.cacheStore = options.cache.store || new MemoryToolCacheStore();
+    }
+  }
 
   /**
    * Register a local tool directly
@@ -16,46 +51,208 @@ export class MCPService {
     if (this.tools.has(tool.name)) {
       throw new Error(`Tool '${tool.name}' already registered.`);
     }
+    // Fail here rather than on every call the model makes
+    try {
+      toolParametersSchema(tool.schema);
+    } catch (error) {
+      throw new Error(`Invalid schema for tool '${tool.name}': ${error instanceof Error ? error.message : String(error)}`);
+    }
     this.tools.set(tool.name, tool);
   }
 
   /**
    * Initialize MCP tools from a single MCP server
    */
-  async initializeMcpTools(serverKey: string, mcp: string | MCPTransport): Promise<void> {
-    const client = new MCPClient(mcp);
-    this.mcpClients.set(serverKey, client);
-    
-    const tools = await client.listTools();
-    for (const tool of tools) {
-      this.registerTool({
-        name: tool.name,
-        description: tool.description,
-        schema: zodFromJsonSchema(tool.inputSchema),
-        handler: (args: any) => client.callTool(tool.name, args),
-      });
-    }
+  async initializeMcpTools(serverKey: string, mcp: string | MCPTransport, options: MCPServerToolOptions = {}): Promise<void> {
+    await this.connectMcpServer(serverKey, mcp, name => name, options);
   }
 
   /**
    * Initialize MCP tools from multiple MCP servers with prefixed names
    */
   async initializeAllMcpTools(
-    servers: { label: string; mcp: string | MCPTransport }[],
+    servers: ({ label: string; mcp: string | MCPTransport } & MCPServerToolOptions)[],
   ): Promise<void> {
-    for (const { label, mcp } of servers) {
-      const client = new MCPClient(mcp);
-      this.mcpClients.set(label, client);
-      
+    for (const { label, mcp, ...options } of servers) {
+      await this.connectMcpServer(label, mcp, name => `${label}.${name}`, options);
+    }
+  }
+
+  /**
+   * Get the client of a connected MCP server
+   */
+  getMcpClient(label: string): MCPClient | undefined {
+    return this.mcpClients.get(label);
+  }
+
+  /**
+   * Labels of connected MCP servers
+   */
+  listMcpServers(): string[] {
+    return Array.from(this.mcpClients.keys());
+  }
+
+  /**
+   * Capabilities a connected MCP server declared during initialization
+   */
+  getMcpServerCapabilities(label: string): MCPServerCapabilities | undefined {
+    return this.mcpClients.get(label)?.getServerCapabilities();
+  }
+
+  async listMcpResources(label: string): Promise<MCPResource[]> {
+    return this.requireMcpClient(label).listResources();
+  }
+
+  async listMcpResourceTemplates(label: string): Promise<MCPResourceTemplate[]> {
+    return this.requireMcpClient(label).listResourceTemplates();
+  }
+
+  async readMcpResource(label: string, uri: string): Promise<MCPReadResourceResult> {
+    return this.requireMcpClient(label).readResource(uri);
+  }
+
+  /**
+   * A resource's contents as message content, for attaching to a chat turn
+   */
+  async readMcpResourceContent(label: string, uri: string): Promise<MessageContent> {
+    const result = await this.readMcpResource(label, uri);
+    return resourceContentsToMessageContent(result.contents);
+  }
+
+  async subscribeMcpResource(label: string, uri: string, onUpdated: (uri: string) => void): Promise<() => Promise<void>> {
+    return this.requireMcpClient(label).subscribeResource(uri, onUpdated);
+  }
+
+  async listMcpPrompts(label: string): Promise<MCPPrompt[]> {
+    return this.requireMcpClient(label).listPrompts();
+  }
+
+  async getMcpPrompt(label: string, name: string, args: Record<string, string> = {}): Promise<MCPGetPromptResult> {
+    return this.requireMcpClient(label).getPrompt(name, args);
+  }
+
+  /**
+   * An MCP prompt instantiated as chat messages
+   */
+  async getMcpPromptMessages(label: string, name: string, args: Record<string, string> = {}): Promise<ChatMessage[]> {
+    return promptToChatMessages(await this.getMcpPrompt(label, name, args));
+  }
+
+  /**
+   * Ping every connected MCP server; resolves with the ones that failed
+   */
+  async pingMcpServers(): Promise<Record<string, Error>> {
+    const failures: Record<string, Error> = {};
+    await Promise.all(Array.from(this.mcpClients.entries()).map(async ([label, client]) => {
+      try {
+        await client.ping();
+      } catch (error) {
+        failures[label] = error instanceof Error ? error : new Error(String(error));
+      }
+    }));
+    return failures;
+  }
+
+  /**
+   * Close one MCP server and remove the tools it provided
+   */
+  async closeMcpServer(label: string): Promise<void> {
+    const client = this.mcpClients.get(label);
+    if (!client) return;
+
+    for (const name of this.mcpServerTools.get(label) || []) {
+      this.tools.delete(name);
+    }
+    this.mcpServerTools.delete(label);
+    this.mcpClients.delete(label);
+    await client.close();
+  }
+
+  /**
+   * Close every MCP server, removing their tools. Local tools stay registered.
+   * All servers are closed even when some fail; the failures are thrown after.
+   */
+  async close(): Promise<void> {
+    const labels = this.listMcpServers();
+    const results = await Promise.allSettled(labels.map(label => this.closeMcpServer(label)));
+    const failures = results
+      .map((result, index) => result.status === 'rejected'
+        ? `${labels[index]}: ${result.reason instanceof Error ? result.reason.message : String(result.reason)}`
+        : undefined)
+      .filter(Boolean);
+    if (failures.length > 0) {
+      throw new Error(`Failed to close MCP servers: ${failures.join('; ')}`);
+    }
+  }
+
+  private requireMcpClient(label: string): MCPClient {
+    const client = this.mcpClients.get(label);
+    if (!client) {
+      throw new Error(`MCP server '${label}' is not connected`);
+    }
+    return client;
+  }
+
+  private async connectMcpServer(
+    label: string,
+    mcp: string | MCPTransport,
+    toolName: (name: string) => string,
+    options: MCPServerToolOptions
+  ): Promise<void> {
+    if (this.mcpClients.has(label)) {
+      throw new Error(`MCP server '${label}' is already connected`);
+    }
+    const client = new MCPClient(mcp, this.options.client);
+    this.mcpClients.set(label, client);
+
+    const registered: string[] = [];
+    this.mcpServerTools.set(label, registered);
+    try {
       const tools = await client.listTools();
       for (const tool of tools) {
+        const outputSchema = this.toolOutputSchema(tool);
         this.registerTool({
-          name: `${label}.${tool.name}`,
+          name: toolName(tool.name),
           description: tool.description,
-          schema: zodFromJsonSchema(tool.inputSchema),
-          handler: (args: any) => client.callTool(tool.name, args),
+          schema: this.toolInputSchema(tool),
+          cacheable: typeof options.cacheable === 'function'
+            ? options.cacheable(tool)
+            : options.cacheable ?? tool.annotations?.readOnlyHint === true,
+          cacheTtlMs: options.cacheTtlMs,
+          handler: async (args: any, context?: ToolContext) =>
+            mcpToolResult(tool.name, await client.callTool(tool.name, args, { signal: context?.signal }), outputSchema),
         });
+        registered.push(toolName(tool.name));
       }
+    } catch (error) {
+      // Do not leave a half-connected server running
+      await this.closeMcpServer(label).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Convert an MCP tool's JSON Schema input to a zod schema. Keywords zod
+   * cannot express are left unchecked rather than failing the whole server;
+   * the server still validates its own arguments.
+   */
+  private toolInputSchema(tool: MCPTool): ZodTypeAny {
+    try {
+      return zodFromJsonSchema(tool.inputSchema, { unsupported: 'ignore' });
+    } catch (error) {
+      throw new Error(`Invalid input schema for MCP tool '${tool.name}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Convert an MCP tool's output schema, when it has one, to a zod schema
+   */
+  private toolOutputSchema(tool: MCPTool): ZodTypeAny | undefined {
+    if (!tool.outputSchema) return undefined;
+    try {
+      return zodFromJsonSchema(tool.outputSchema, { unsupported: 'ignore' });
+    } catch (error) {
+      throw new Error(`Invalid output schema for MCP tool '${tool.name}': ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
@@ -74,9 +271,10 @@ export class MCPService {
   }
 
   /**
-   * Execute a tool call
+   * Execute a tool call. Aborting the signal rejects right away, even when the
+   * handler ignores it.
    */
-  async executeTool(name: string, args: any): Promise<any> {
+  async executeTool(name: string, args: any, context: ToolContext = {}): Promise<any> {
     const tool = this.getTool(name);
     if (!tool) {
       throw new Error(`Tool '${name}' not found`);
@@ -84,7 +282,54 @@ export class MCPService {
 
     // Validate arguments using zod
     const parsedArgs = tool.schema.parse(args);
-    return await tool.handler(parsedArgs);
+    throwIfAborted(context.signal);
+
+    const key = toolCacheKey(name, parsedArgs);
+    const toolContext: ToolContext = { ...context, idempotencyKey: context.idempotencyKey ?? key };
+    if (!this.cacheStore || !tool.cacheable) {
+      return await abortable(Promise.resolve(tool.handler(parsedArgs, toolContext)), context.signal);
+    }
+    return await abortable(this.executeCached(tool, parsedArgs, key, toolContext, this.cacheStore), context.signal);
+  }
+
+  /**
+   * Cache hits and misses since the service was created
+   */
+  getCacheStats(): ToolCacheStats {
+    return { ...this.cacheStats };
+  }
+
+  async clearCache(): Promise<void> {
+    await this.cacheStore?.clear();
+  }
+
+  private async executeCached(
+    tool: ToolDefinition,
+    args: any,
+    key: string,
+    context: ToolContext,
+    store: ToolCacheStore
+  ): Promise<any> {
+    // The cache only saves work; a failing store never fails the call
+    const entry = await store.get(key).catch(() => undefined);
+    if (entry && (entry.expiresAt === undefined || entry.expiresAt > Date.now())) {
+      this.recordCacheLookup(tool.name, true);
+      return entry.value;
+    }
+    if (entry) await store.delete(key).catch(() => undefined);
+    this.recordCacheLookup(tool.name, false);
+
+    const value = await tool.handler(args, context);
+    // A result that arrives after the call was cancelled is still worth keeping
+    const ttl = tool.cacheTtlMs ?? this.options.cache?.defaultTtlMs;
+    await store.set(key, { value, ...(ttl !== undefined && { expiresAt: Date.now() + ttl }) }).catch(() => undefined);
+    return value;
+  }
+
+  private recordCacheLookup(toolName: string, hit: boolean): void {
+    if (hit) this.cacheStats.hits++;
+    else this.cacheStats.misses++;
+    this.options.monitoringService?.trackToolCache(toolName, hit);
   }
 
   /**
@@ -1,41 +1,345 @@
-import { MCPTool, MCPListToolsResponse, MCPInvokeToolResponse } from './types';
-import { HTTPTransport } from './transport';
-import { MCPTransport } from './types';
+import {
+  MCPTool,
+  MCPListToolsResponse,
+  MCPInvokeToolResponse,
+  MCPImplementation,
+  MCPClientCapabilities,
+  MCPServerCapabilities,
+  MCPInitializeResult,
+  MCPResource,
+  MCPResourceTemplate,
+  MCPReadResourceResult,
+  MCPPrompt,
+  MCPGetPromptResult
+} from './types';
+import { StreamableHTTPTransport } from './streamableHttpTransport';
+import { MCPTransport, MCPRequestOptions } from './types';
+import { abortable } from '../utils/abort';
+
+export const LATEST_PROTOCOL_VERSION = '2025-06-18';
+export const SUPPORTED_PROTOCOL_VERSIONS = [LATEST_PROTOCOL_VERSION, '2025-03-26', '2024-11-05'];
+
+const DEFAULT_CLIENT_INFO: MCPImplementation = { name: 'omniporton', version: '0.0.1' };
+
+export interface MCPClientOptions {
+  clientInfo?: MCPImplementation;         // Defaults to omniporton
+  capabilities?: MCPClientCapabilities;   // Defaults to none
+  protocolVersion?: string;               // Defaults to LATEST_PROTOCOL_VERSION
+  pingIntervalMs?: number;                // Ping the server this often once initialized; off by default
+  onPingError?: (error: Error) => void;   // A keep-alive ping failed or timed out
+}
 
 export class MCPClient {
   private transport: MCPTransport;
+  private nextId = 1;
+  private initializing?: Promise<MCPInitializeResult>;
+  private initializedGeneration?: number;
+  private initializeResult?: MCPInitializeResult;
+  private pingTimer?: NodeJS.Timeout;
+  private pingInFlight = false;
+  private closed = false;
+  private notificationListeners = new Set<(message: any) => void>();
+  private removeTransportListener?: () => void;
+  private subscriptions = new Map<string, Set<(uri: string) => void>>();
+  private removeSubscriptionListener?: () => void;
 
   /**
    * Construct with a transport (HTTP, SSE, Stdio, etc.)
-   * If given a string, use HTTPTransport by default.
+   * If given a string, use StreamableHTTPTransport by default.
    */
-  constructor(transportOrUrl: MCPTransport | string) {
+  constructor(transportOrUrl: MCPTransport | string, private options: MCPClientOptions = {}) {
     if (typeof transportOrUrl === 'string') {
-      this.transport = new HTTPTransport(transportOrUrl);
+      this.transport = new StreamableHTTPTransport(transportOrUrl);
     } else {
       this.transport = transportOrUrl;
     }
   }
 
   /**
-   * List available tools from the MCP server.
+   * Run the initialize handshake: agree on a protocol version, exchange
+   * capabilities, then send `notifications/initialized`. Requests call this
+   * first, so it only needs calling directly to connect early. Runs again when
+   * the transport reports a new server session.
    */
-  async listTools(): Promise<MCPTool[]> {
-    const req = { jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} };
-    const data: { result: MCPListToolsResponse } = await this.transport.send(req);
-    return data.result.tools;
+  async initialize(options: MCPRequestOptions = {}): Promise<MCPInitializeResult> {
+    if (this.closed) {
+      throw new Error('MCP client was closed');
+    }
+    const generation = this.transport.sessionGeneration;
+    if (!this.initializing || this.initializedGeneration !== generation) {
+      this.initializedGeneration = generation;
+      const handshake: Promise<MCPInitializeResult> = this.handshake().catch(error => {
+        if (this.initializing === handshake) this.initializing = undefined;
+        throw error;
+      });
+      this.initializing = handshake;
+    }
+    // The handshake is shared, so one caller aborting does not cancel it
+    return abortable(this.initializing, options.signal);
   }
 
   /**
-   * Call a tool on the MCP server.
+   * Send a request, initializing first. JSON-RPC errors are thrown.
+   */
+  async request(method: string, params: Record<string, any> = {}, options: MCPRequestOptions = {}): Promise<any> {
+    await this.initialize(options);
+    return this.send(method, params, options);
+  }
+
+  /**
+   * Send a notification, initializing first
+   */
+  async notify(method: string, params?: Record<string, any>): Promise<void> {
+    await this.initialize();
+    await this.transport.send({ jsonrpc: '2.0', method, ...(params && { params }) });
+  }
+
+  /**
+   * Receive the server's notifications, such as `notifications/tools/list_changed`.
+   * Returns a function removing the listener. Needs a transport that delivers
+   * notifications, like stdio or streamable HTTP.
    */
-  async callTool(name: string, args: Record<string, any>): Promise<MCPInvokeToolResponse> {
-    const req = {
-      jsonrpc: '2.0',
-      id: 2,
-      method: 'tools/call',
-      params: { name, arguments: args },
+  onNotification(listener: (message: any) => void): () => void {
+    if (!this.transport.addNotificationListener) {
+      throw new Error('The MCP transport does not deliver notifications');
+    }
+    this.notificationListeners.add(listener);
+    if (!this.removeTransportListener) {
+      this.removeTransportListener = this.transport.addNotificationListener(message => {
+        this.notificationListeners.forEach(notify => notify(message));
+      });
+    }
+    return () => {
+      this.notificationListeners.delete(listener);
+      if (this.notificationListeners.size === 0) {
+        this.removeTransportListener?.();
+        this.removeTransportListener = undefined;
+      }
     };
-    return (await this.transport.send(req)).result;
   }
-} 
\ No newline at end of file
+
+  /**
+   * List available tools from the MCP server, following pagination.
+   * Servers without the tools capability have none.
+   */
+  async listTools(options: MCPRequestOptions = {}): Promise<MCPTool[]> {
+    return this.listAll<MCPListToolsResponse, MCPTool>('tools', 'tools/list', page => page.tools, options);
+  }
+
+  /**
+   * List the server's resources; servers without the resources capability have none
+   */
+  async listResources(options: MCPRequestOptions = {}): Promise<MCPResource[]> {
+    return this.listAll<{ resources: MCPResource[]; nextCursor?: string }, MCPResource>('resources', 'resources/list', page => page.resources, options);
+  }
+
+  async listResourceTemplates(options: MCPRequestOptions = {}): Promise<MCPResourceTemplate[]> {
+    return this.listAll<{ resourceTemplates: MCPResourceTemplate[]; nextCursor?: string }, MCPResourceTemplate>(
+      'resources', 'resources/templates/list', page => page.resourceTemplates, options
+    );
+  }
+
+  async readResource(uri: string, options: MCPRequestOptions = {}): Promise<MCPReadResourceResult> {
+    return this.request('resources/read', { uri }, options);
+  }
+
+  /**
+   * Call `onUpdated` whenever the server reports the resource changed. Returns
+   * a function that unsubscribes this callback.
+   */
+  async subscribeResource(uri: string, onUpdated: (uri: string) => void, options: MCPRequestOptions = {}): Promise<() => Promise<void>> {
+    await this.initialize(options);
+    if (!this.getServerCapabilities()?.resources?.subscribe) {
+      throw new Error('MCP server does not support resource subscriptions');
+    }
+
+    let callbacks = this.subscriptions.get(uri);
+    if (!callbacks) {
+      this.removeSubscriptionListener ??= this.onNotification(message => {
+        if (message.method !== 'notifications/resources/updated') return;
+        const updated = message.params?.uri;
+        this.subscriptions.get(updated)?.forEach(callback => callback(updated));
+      });
+      callbacks = new Set();
+      this.subscriptions.set(uri, callbacks);
+      try {
+        await this.send('resources/subscribe', { uri }, options);
+      } catch (error) {
+        this.subscriptions.delete(uri);
+        this.releaseSubscriptionListener();
+        throw error;
+      }
+    }
+    callbacks.add(onUpdated);
+    return () => this.unsubscribeResource(uri, onUpdated);
+  }
+
+  /**
+   * Stop a callback, or all callbacks when none is given, receiving updates
+   * of a resource. The server is told once no callback is left.
+   */
+  async unsubscribeResource(uri: string, onUpdated?: (uri: string) => void): Promise<void> {
+    const callbacks = this.subscriptions.get(uri);
+    if (!callbacks) return;
+    if (onUpdated) callbacks.delete(onUpdated);
+    else callbacks.clear();
+    if (callbacks.size > 0) return;
+
+    this.subscriptions.delete(uri);
+    this.releaseSubscriptionListener();
+    if (!this.closed) await this.request('resources/unsubscribe', { uri });
+  }
+
+  /**
+   * List the server's prompts; servers without the prompts capability have none
+   */
+  async listPrompts(options: MCPRequestOptions = {}): Promise<MCPPrompt[]> {
+    return this.listAll<{ prompts: MCPPrompt[]; nextCursor?: string }, MCPPrompt>('prompts', 'prompts/list', page => page.prompts, options);
+  }
+
+  /**
+   * Instantiate a prompt with its arguments
+   */
+  async getPrompt(name: string, args: Record<string, string> = {}, options: MCPRequestOptions = {}): Promise<MCPGetPromptResult> {
+    return this.request('prompts/get', { name, arguments: args }, options);
+  }
+
+  /**
+   * Call a tool on the MCP server.
+   */
+  async callTool(name: string, args: Record<string, any>, options: MCPRequestOptions = {}): Promise<MCPInvokeToolResponse> {
+    return this.request('tools/call', { name, arguments: args }, options);
+  }
+
+  /**
+   * Check the server is responsive
+   */
+  async ping(options: MCPRequestOptions = {}): Promise<void> {
+    await this.request('ping', {}, options);
+  }
+
+  /**
+   * Stop the keep-alive and close the transport, shutting down a stdio server.
+   * Later requests throw.
+   */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    this.stopKeepAlive();
+    this.initializing = undefined;
+    this.subscriptions.clear();
+    this.notificationListeners.clear();
+    this.removeTransportListener?.();
+    this.removeTransportListener = undefined;
+    this.removeSubscriptionListener = undefined;
+    await this.transport.close?.();
+  }
+
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Capabilities the server declared; undefined before initialization
+   */
+  getServerCapabilities(): MCPServerCapabilities | undefined {
+    return this.initializeResult?.capabilities;
+  }
+
+  hasCapability(capability: keyof MCPServerCapabilities): boolean {
+    return !!this.initializeResult?.capabilities[capability];
+  }
+
+  getServerInfo(): MCPImplementation | undefined {
+    return this.initializeResult?.serverInfo;
+  }
+
+  getProtocolVersion(): string | undefined {
+    return this.initializeResult?.protocolVersion;
+  }
+
+  getInstructions(): string | undefined {
+    return this.initializeResult?.instructions;
+  }
+
+  private async handshake(): Promise<MCPInitializeResult> {
+    const protocolVersion = this.options.protocolVersion || LATEST_PROTOCOL_VERSION;
+    const result: MCPInitializeResult = await this.send('initialize', {
+      protocolVersion,
+      capabilities: this.options.capabilities || {},
+      clientInfo: this.options.clientInfo || DEFAULT_CLIENT_INFO
+    });
+
+    // Servers answer with the requested version or another they support
+    if (result.protocolVersion !== protocolVersion && !SUPPORTED_PROTOCOL_VERSIONS.includes(result.protocolVersion)) {
+      throw new Error(`MCP server requires unsupported protocol version '${result.protocolVersion}'`);
+    }
+    this.initializeResult = { ...result, capabilities: result.capabilities || {} };
+    await this.transport.send({ jsonrpc: '2.0', method: 'notifications/initialized' });
+    // A new server session has forgotten earlier subscriptions
+    for (const uri of this.subscriptions.keys()) {
+      await this.send('resources/subscribe', { uri }).catch(() => undefined);
+    }
+    this.startKeepAlive();
+    return this.initializeResult;
+  }
+
+  // Collect every page of a list method
+  private async listAll<Page extends { nextCursor?: string }, Item>(
+    capability: keyof MCPServerCapabilities,
+    method: string,
+    items: (page: Page) => Item[],
+    options: MCPRequestOptions
+  ): Promise<Item[]> {
+    await this.initialize(options);
+    if (!this.hasCapability(capability)) return [];
+
+    const all: Item[] = [];
+    let cursor: string | undefined;
+    do {
+      const page: Page = await this.send(method, cursor ? { cursor } : {}, options);
+      all.push(...(items(page) || []));
+      cursor = page.nextCursor;
+    } while (cursor);
+    return all;
+  }
+
+  private releaseSubscriptionListener(): void {
+    if (this.subscriptions.size > 0) return;
+    this.removeSubscriptionListener?.();
+    this.removeSubscriptionListener = undefined;
+  }
+
+  private async send(method: string, params: Record<string, any>, options: MCPRequestOptions = {}): Promise<any> {
+    const response = await this.transport.send({ jsonrpc: '2.0', id: this.nextId++, method, params }, options);
+    if (response?.error) {
+      throw new Error(`MCP request '${method}' failed: ${response.error.message} (code ${response.error.code})`);
+    }
+    return response?.result;
+  }
+
+  private startKeepAlive(): void {
+    const interval = this.options.pingIntervalMs;
+    if (!interval || this.pingTimer || this.closed) return;
+
+    this.pingTimer = setInterval(() => {
+      if (this.pingInFlight) return;
+      this.pingInFlight = true;
+      // A ping slower than the interval counts as failed
+      this.ping({ signal: AbortSignal.timeout(interval) })
+        .catch(error => {
+          if (!this.closed) this.options.onPingError?.(error instanceof Error ? error : new Error(String(error)));
+        })
+        .finally(() => {
+          this.pingInFlight = false;
+        });
+    }, interval);
+    // Keep-alive alone should not hold the process open
+    this.pingTimer.unref?.();
+  }
+
+  private stopKeepAlive(): void {
+    if (this.pingTimer) clearInterval(this.pingTimer);
+    this.pingTimer = undefined;
+  }
+}
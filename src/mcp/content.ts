@@ -0,0 +1,96 @@
+import type { ChatMessage, MediaContent, MediaType, MessageContent, TextContent } from '../chat/types';
+import type { MCPContent, MCPGetPromptResult, MCPResource, MCPResourceContents } from './types';
+
+type ContentPart = TextContent | MediaContent;
+
+/**
+ * A resource's contents as message content: text stays text, blobs become
+ * media typed by their MIME type
+ */
+export function resourceContentsToMessageContent(contents: MCPResourceContents[]): MessageContent {
+  return contents.map(resourceContentsPart);
+}
+
+/**
+ * MCP content blocks as message content. Resource links become a line of
+ * text naming the resource, since providers cannot fetch MCP URIs.
+ */
+export function mcpContentToMessageContent(content: MCPContent | MCPContent[]): MessageContent {
+  return (Array.isArray(content) ? content : [content]).map(mcpContentPart);
+}
+
+/**
+ * The messages of an instantiated MCP prompt as chat messages
+ */
+export function promptToChatMessages(prompt: MCPGetPromptResult): ChatMessage[] {
+  return prompt.messages.map(message => {
+    const part = mcpContentPart(message.content);
+    return { role: message.role, content: part.type === 'text' ? (part as TextContent).text : part };
+  });
+}
+
+/**
+ * A message with attachments after it, as the content of one chat turn
+ */
+export function appendContent(message: string | MessageContent, ...attachments: MessageContent[]): MessageContent {
+  return [...contentParts(message), ...attachments.flatMap(contentParts)];
+}
+
+function contentParts(content: string | MessageContent): ContentPart[] {
+  if (typeof content === 'string') return [{ type: 'text', text: content }];
+  return Array.isArray(content) ? content : [content];
+}
+
+function mcpContentPart(content: MCPContent): ContentPart {
+  switch (content.type) {
+    case 'text':
+      return { type: 'text', text: content.text };
+    case 'image':
+      return { type: 'image', data: content.data, mimeType: content.mimeType };
+    case 'audio':
+      return { type: 'audio', data: content.data, mimeType: content.mimeType };
+    case 'resource':
+      return resourceContentsPart(content.resource);
+    case 'resource_link':
+      return { type: 'text', text: describeResourceLink(content) };
+    default:
+      // Content types from newer protocol versions are passed on as JSON
+      return { type: 'text', text: JSON.stringify(content) };
+  }
+}
+
+function resourceContentsPart(contents: MCPResourceContents): ContentPart {
+  if ('text' in contents) {
+    return { type: 'text', text: contents.text };
+  }
+  const mimeType = contents.mimeType || 'application/octet-stream';
+  return {
+    type: mediaType(mimeType),
+    data: contents.blob,
+    mimeType,
+    filename: fileName(contents.uri),
+    metadata: { uri: contents.uri }
+  };
+}
+
+function mediaType(mimeType: string): MediaType {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  if (mimeType.startsWith('video/')) return 'video';
+  return 'document';
+}
+
+function fileName(uri: string): string | undefined {
+  const name = uri.replace(/[?#].*$/, '').split('/').pop();
+  if (!name) return undefined;
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+}
+
+function describeResourceLink(link: MCPResource): string {
+  const description = link.description ? ` (${link.description})` : '';
+  return `Resource ${link.title || link.name}${description}: ${link.uri}`;
+}
@@ -1,4 +1,10 @@
 export * from './transport';
+export * from './stdioTransport';
+export * from './streamableHttpTransport';
+export * from './sse';
 export * from './client';
 export * from './types';
-export * from './MCPService'; 
\ No newline at end of file
+export * from './MCPService';
+export * from './toolCache';
+export * from './content';
+export * from './toolResult'; 
\ No newline at end of file
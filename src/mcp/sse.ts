@@ -0,0 +1,68 @@
+// Server-Sent Events parsing for the HTTP transports
+
+export interface ServerSentEvent {
+  event: string;   // 'message' unless the server named it
+  data: string;
+  id?: string;     // Set when the event carried an id, for resuming with Last-Event-ID
+  retry?: number;  // Reconnection delay the server asked for, in ms
+}
+
+/**
+ * Read events from an SSE body until it ends. Breaking out of the loop
+ * cancels the body, closing the connection.
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let data: string[] = [];
+  let event: Omit<ServerSentEvent, 'data'> = { event: 'message' };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      // A trailing \r may be the first half of \r\n, so it waits for more
+      const pendingCr = buffer.endsWith('\r');
+      const lines = (pendingCr ? buffer.slice(0, -1) : buffer).split(/\r\n|\r|\n/);
+      buffer = (lines.pop() || '') + (pendingCr ? '\r' : '');
+
+      for (const line of lines) {
+        if (line === '') {
+          // A blank line ends the event. Events with only an id or retry are
+          // kept too, since they still move the resume point
+          if (data.length > 0 || event.id !== undefined || event.retry !== undefined) {
+            yield { ...event, data: data.join('\n') };
+          }
+          data = [];
+          event = { event: 'message' };
+          continue;
+        }
+        if (line.startsWith(':')) continue;
+
+        const colon = line.indexOf(':');
+        const field = colon < 0 ? line : line.slice(0, colon);
+        const value = colon < 0 ? '' : line.slice(colon + 1).replace(/^ /, '');
+        if (field === 'data') data.push(value);
+        else if (field === 'event') event.event = value;
+        else if (field === 'id' && !value.includes('\0')) event.id = value;
+        else if (field === 'retry' && /^\d+$/.test(value)) event.retry = Number(value);
+      }
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
+/**
+ * JSON-RPC messages in an event's data, which may hold a batch
+ */
+export function parseEventMessages(data: string): any[] {
+  try {
+    const parsed = JSON.parse(data);
+    return Array.isArray(parsed) ? parsed : [parsed];
+  } catch {
+    return [];
+  }
+}
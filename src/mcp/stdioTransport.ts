@@ -0,0 +1,313 @@
+import type { ChildProcessWithoutNullStreams } from 'child_process';
+import { MCPTransport, MCPRequestOptions } from './types';
+import { abortableSleep, createAbortError, throwIfAborted } from '../utils/abort';
+
+export interface StdioTransportOptions {
+  env?: NodeJS.ProcessEnv;
+  shell?: boolean;
+  cwd?: string;
+  maxRestarts?: number;        // Crashed servers are restarted by the next request; defaults to 3
+  restartDelayMs?: number;     // Wait before a restart; defaults to 1000
+  shutdownTimeoutMs?: number;  // Per step of close(): stdin closed, then SIGTERM; defaults to 2000
+  stderrLines?: number;        // Lines of stderr kept for getStderr() and errors; defaults to 50
+  onStderr?: (line: string) => void;
+  onNotification?: (message: any) => void;
+}
+
+interface PendingRequest {
+  requestId: any;  // The caller's id, restored on the response
+  resolve: (response: any) => void;
+  reject: (error: Error) => void;
+}
+
+const JSONRPC_METHOD_NOT_FOUND = -32601;
+
+/**
+ * Stdio Transport for MCP (local subprocess)
+ * Keeps one server process for all requests, exchanging newline-delimited
+ * JSON-RPC over stdin/stdout. Requests get ids of the transport's own, so
+ * concurrent calls are matched to their responses whatever ids callers use.
+ * The process keeps Node running until `close()`.
+ * Usage:
+ *   new StdioTransport('python3', ['./mcp_server.py'], { env: { ... }, cwd: '/path' })
+ */
+export class StdioTransport implements MCPTransport {
+  private child?: ChildProcessWithoutNullStreams;
+  private starting?: Promise<ChildProcessWithoutNullStreams>;
+  private pending = new Map<number, PendingRequest>();
+  private nextId = 1;
+  private stdoutBuffer = '';
+  private stderrBuffer = '';
+  private stderr: string[] = [];
+  private crashed = false;
+  private restarts = 0;
+  private closed = false;
+  private notificationListeners = new Set<(message: any) => void>();
+  sessionGeneration = 0;
+
+  constructor(
+    private command: string,
+    private args: string[] = [],
+    private options: StdioTransportOptions = {}
+  ) {}
+
+  /**
+   * Send a JSON-RPC message. Requests resolve with their response;
+   * notifications (no id) resolve once written.
+   */
+  async send(request: any, options: MCPRequestOptions = {}): Promise<any> {
+    throwIfAborted(options.signal);
+    const child = await this.ensureProcess();
+    throwIfAborted(options.signal);
+    if (this.closed) throw this.closedError();
+
+    if (request.id === undefined || request.id === null) {
+      this.write(child, request);
+      return undefined;
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const signal = options.signal;
+      const onAbort = () => {
+        this.pending.delete(id);
+        // The server may stop working on it; a late response is dropped
+        this.notifyCancelled(child, id);
+        reject(createAbortError(signal));
+      };
+      const settle = () => signal?.removeEventListener('abort', onAbort);
+
+      this.pending.set(id, {
+        requestId: request.id,
+        resolve: response => {
+          settle();
+          resolve(response);
+        },
+        reject: error => {
+          settle();
+          reject(error);
+        }
+      });
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      try {
+        this.write(child, { ...request, id });
+      } catch (error) {
+        this.pending.get(id)?.reject(error instanceof Error ? error : new Error(String(error)));
+        this.pending.delete(id);
+      }
+    });
+  }
+
+  /**
+   * Shut the server down: close its stdin, then SIGTERM, then SIGKILL, each
+   * after `shutdownTimeoutMs`. Pending requests fail; later sends throw.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    const child = this.child ?? await this.starting?.catch(() => undefined);
+    this.failPending(this.closedError());
+    if (!child || child.exitCode !== null || child.signalCode !== null) return;
+
+    const exited = new Promise<void>(resolve => child.once('close', () => resolve()));
+    const timeout = this.options.shutdownTimeoutMs ?? 2000;
+    child.stdin.end();
+    if (await settlesWithin(exited, timeout)) return;
+    child.kill('SIGTERM');
+    if (await settlesWithin(exited, timeout)) return;
+    child.kill('SIGKILL');
+    await exited;
+  }
+
+  addNotificationListener(listener: (message: any) => void): () => void {
+    this.notificationListeners.add(listener);
+    return () => {
+      this.notificationListeners.delete(listener);
+    };
+  }
+
+  isRunning(): boolean {
+    return !!this.child;
+  }
+
+  /**
+   * Most recent stderr lines of the server, oldest first
+   */
+  getStderr(): string[] {
+    return [...this.stderr];
+  }
+
+  private ensureProcess(): Promise<ChildProcessWithoutNullStreams> {
+    if (this.closed) {
+      return Promise.reject(this.closedError());
+    }
+    if (this.child) return Promise.resolve(this.child);
+    if (!this.starting) {
+      this.starting = this.start().finally(() => {
+        this.starting = undefined;
+      });
+    }
+    return this.starting;
+  }
+
+  private async start(): Promise<ChildProcessWithoutNullStreams> {
+    if (this.crashed) {
+      const maxRestarts = this.options.maxRestarts ?? 3;
+      if (this.restarts >= maxRestarts) {
+        throw new Error(`MCP server '${this.command}' crashed and was restarted ${this.restarts} times; giving up${this.stderrTail()}`);
+      }
+      this.restarts++;
+      await abortableSleep(this.options.restartDelayMs ?? 1000);
+    }
+
+    const { spawn } = await import('child_process');
+    const child = spawn(this.command, this.args, {
+      stdio: ['pipe', 'pipe', 'pipe'],
+      env: { ...process.env, ...this.options.env },
+      shell: this.options.shell ?? false,
+      cwd: this.options.cwd,
+    });
+    await new Promise<void>((resolve, reject) => {
+      child.once('spawn', () => {
+        child.off('error', reject);
+        resolve();
+      });
+      child.once('error', reject);
+    }).catch(error => {
+      throw new Error(`Failed to start MCP server '${this.command}': ${error instanceof Error ? error.message : String(error)}`);
+    });
+
+    this.stdoutBuffer = '';
+    this.stderrBuffer = '';
+    child.stdout.setEncoding('utf8');
+    child.stdout.on('data', (chunk: string) => this.readStdout(child, chunk));
+    child.stderr.setEncoding('utf8');
+    child.stderr.on('data', (chunk: string) => this.readStderr(chunk));
+    // Writes to a server that died fail here; the exit handler reports it
+    child.stdin.on('error', () => undefined);
+    child.on('error', error => this.failPending(error));
+    // 'close' comes after stdout is drained, so late responses still arrive
+    child.once('close', (code, signal) => this.handleExit(child, code, signal));
+
+    this.child = child;
+    return child;
+  }
+
+  private handleExit(child: ChildProcessWithoutNullStreams, code: number | null, signal: NodeJS.Signals | null): void {
+    if (this.child !== child) return;
+    this.child = undefined;
+    if (!this.closed) {
+      this.crashed = true;
+      // A restarted server starts without the client's session
+      this.sessionGeneration++;
+    }
+
+    const status = signal ? `signal ${signal}` : `code ${code}`;
+    this.failPending(new Error(`MCP server '${this.command}' exited with ${status}${this.stderrTail()}`));
+  }
+
+  private readStdout(child: ChildProcessWithoutNullStreams, chunk: string): void {
+    this.stdoutBuffer += chunk;
+    const lines = this.stdoutBuffer.split('\n');
+    this.stdoutBuffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      let message: any;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        // Servers may only write JSON-RPC to stdout; anything else is ignored
+        continue;
+      }
+      for (const item of Array.isArray(message) ? message : [message]) {
+        this.handleMessage(child, item);
+      }
+    }
+  }
+
+  private handleMessage(child: ChildProcessWithoutNullStreams, message: any): void {
+    if (!message || typeof message !== 'object') return;
+
+    if (message.method === undefined) {
+      const pending = this.pending.get(message.id);
+      if (!pending) return;
+      this.pending.delete(message.id);
+      this.restarts = 0;
+      pending.resolve({ ...message, id: pending.requestId });
+      return;
+    }
+
+    if (message.id === undefined || message.id === null) {
+      this.options.onNotification?.(message);
+      this.notificationListeners.forEach(listener => listener(message));
+      return;
+    }
+
+    // Requests from the server: only ping is supported
+    const response = message.method === 'ping'
+      ? { jsonrpc: '2.0', id: message.id, result: {} }
+      : { jsonrpc: '2.0', id: message.id, error: { code: JSONRPC_METHOD_NOT_FOUND, message: `Method not found: ${message.method}` } };
+    try {
+      this.write(child, response);
+    } catch {
+      // The server stopped reading, e.g. while shutting down; it expects no reply
+    }
+  }
+
+  private readStderr(chunk: string): void {
+    this.stderrBuffer += chunk;
+    const lines = this.stderrBuffer.split('\n');
+    this.stderrBuffer = lines.pop() || '';
+
+    const limit = this.options.stderrLines ?? 50;
+    for (const line of lines) {
+      this.stderr.push(line);
+      if (this.stderr.length > limit) this.stderr.shift();
+      this.options.onStderr?.(line);
+    }
+  }
+
+  private notifyCancelled(child: ChildProcessWithoutNullStreams, requestId: number): void {
+    try {
+      this.write(child, { jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId, reason: 'Request aborted' } });
+    } catch {
+      // The server is gone; nothing to cancel
+    }
+  }
+
+  private write(child: ChildProcessWithoutNullStreams, message: any): void {
+    if (!child.stdin.writable) {
+      throw new Error(`MCP server '${this.command}' is not accepting input`);
+    }
+    child.stdin.write(JSON.stringify(message) + '\n');
+  }
+
+  private failPending(error: Error): void {
+    const pending = Array.from(this.pending.values());
+    this.pending.clear();
+    for (const request of pending) request.reject(error);
+  }
+
+  private closedError(): Error {
+    return new Error(`MCP server '${this.command}' was closed`);
+  }
+
+  private stderrTail(): string {
+    const tail = this.stderr.slice(-10).join('\n').trim();
+    return tail ? `\nstderr:\n${tail}` : '';
+  }
+}
+
+// Whether the promise settled before the timeout
+async function settlesWithin(promise: Promise<void>, ms: number): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<boolean>(resolve => {
+    timer = setTimeout(() => resolve(false), ms);
+  });
+  try {
+    return await Promise.race([promise.then(() => true), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,330 @@
+import { MCPTransport, MCPRequestOptions } from './types';
+import { readServerSentEvents, parseEventMessages } from './sse';
+import { abortableSleep, createAbortError, isAbortError, throwIfAborted } from '../utils/abort';
+
+export interface StreamableHTTPTransportOptions {
+  headers?: Record<string, string>;  // Sent with every request, e.g. Authorization
+  // Keep a GET stream open for messages the server sends on its own; defaults
+  // to true while `onNotification` or a notification listener is set
+  listen?: boolean;
+  maxReconnects?: number;     // Attempts to resume a dropped stream; defaults to 3
+  reconnectDelayMs?: number;  // Wait before resuming unless the server sent `retry`; defaults to 1000
+  onNotification?: (message: any) => void;
+  onError?: (error: Error) => void;  // The GET stream failed for good, or a reply to the server did
+}
+
+const JSONRPC_METHOD_NOT_FOUND = -32601;
+const SESSION_HEADER = 'Mcp-Session-Id';
+const PROTOCOL_VERSION_HEADER = 'MCP-Protocol-Version';
+
+/**
+ * Streamable HTTP transport for MCP. Requests are POSTed; the server answers
+ * with JSON or an SSE stream that may carry notifications and its own requests
+ * before the response. Dropped streams resume with Last-Event-ID. The session
+ * id the server assigns on initialize is sent back on every request; when the
+ * server forgets it, the request fails and the client initializes again.
+ * Usage:
+ *   new MCPClient(new StreamableHTTPTransport('https://example.com/mcp', { headers: { Authorization: 'Bearer ...' } }))
+ */
+export class StreamableHTTPTransport implements MCPTransport {
+  private sessionId?: string;
+  private protocolVersion?: string;
+  private requests = new Set<AbortController>();
+  private listener?: AbortController;
+  private closed = false;
+  private initialized = false;
+  private notificationListeners = new Set<(message: any) => void>();
+  sessionGeneration = 0;
+
+  constructor(private url: string, private options: StreamableHTTPTransportOptions = {}) {}
+
+  /**
+   * Send a JSON-RPC message. Requests resolve with their response; other
+   * messages resolve once the server accepted them.
+   */
+  async send(request: any, options: MCPRequestOptions = {}): Promise<any> {
+    if (this.closed) throw this.closedError();
+    throwIfAborted(options.signal);
+
+    // Notifications and our replies to the server get 202 Accepted and no body
+    const isRequest = request.method !== undefined && request.id !== undefined && request.id !== null;
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(options.signal?.reason);
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    this.requests.add(controller);
+
+    try {
+      const response = await this.post(request, controller.signal);
+      if (!isRequest) {
+        await response.body?.cancel();
+        if (request.method === 'notifications/initialized') {
+          this.initialized = true;
+          this.startListening();
+        }
+        return undefined;
+      }
+
+      const message = (response.headers.get('content-type') || '').includes('text/event-stream')
+        ? await this.readResponseStream(response, request.id, controller.signal)
+        : this.takeResponse(await response.json(), request.id);
+      if (request.method === 'initialize' && message?.result?.protocolVersion) {
+        this.protocolVersion = message.result.protocolVersion;
+      }
+      return message;
+    } catch (error) {
+      if (this.closed) throw this.closedError();
+      if (options.signal?.aborted) {
+        // Dropping the connection does not cancel the request on the server
+        if (isRequest) this.notifyCancelled(request.id);
+        throw createAbortError(options.signal);
+      }
+      throw error;
+    } finally {
+      options.signal?.removeEventListener('abort', onAbort);
+      this.requests.delete(controller);
+    }
+  }
+
+  /**
+   * Stop the GET stream and in-flight requests, and end the session on the
+   * server. Later sends throw.
+   */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    this.listener?.abort();
+    this.requests.forEach(controller => controller.abort());
+
+    if (this.sessionId) {
+      // Servers may not allow ending sessions; either way the client is done
+      await fetch(this.url, { method: 'DELETE', headers: this.headers(), signal: AbortSignal.timeout(2000) })
+        .then(response => response.body?.cancel())
+        .catch(() => undefined);
+      this.sessionId = undefined;
+    }
+  }
+
+  addNotificationListener(listener: (message: any) => void): () => void {
+    this.notificationListeners.add(listener);
+    if (this.initialized) this.startListening();
+    return () => {
+      this.notificationListeners.delete(listener);
+      if (!this.wantsStream()) {
+        this.listener?.abort();
+        this.listener = undefined;
+      }
+    };
+  }
+
+  getSessionId(): string | undefined {
+    return this.sessionId;
+  }
+
+  isListening(): boolean {
+    return !!this.listener;
+  }
+
+  private async post(message: any, signal: AbortSignal): Promise<Response> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: this.headers({ 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' }),
+      body: JSON.stringify(message),
+      signal,
+    });
+    await this.checkResponse(response);
+
+    const sessionId = response.headers.get(SESSION_HEADER);
+    if (sessionId) this.sessionId = sessionId;
+    return response;
+  }
+
+  private async openStream(lastEventId: string | undefined, signal: AbortSignal): Promise<Response | undefined> {
+    const response = await fetch(this.url, {
+      method: 'GET',
+      headers: this.headers({ Accept: 'text/event-stream', ...(lastEventId !== undefined && { 'Last-Event-ID': lastEventId }) }),
+      signal,
+    });
+    // The server offers no stream here
+    if (response.status === 405) {
+      await response.body?.cancel();
+      return undefined;
+    }
+    await this.checkResponse(response);
+    return response;
+  }
+
+  private async checkResponse(response: Response): Promise<void> {
+    if (response.ok) return;
+    const text = await response.text().catch(() => '');
+
+    if (response.status === 404 && this.sessionId) {
+      this.expireSession();
+      throw new Error(`MCP session at ${this.url} expired; the next request starts a new one`);
+    }
+    throw new Error(`MCP server at ${this.url} responded with ${response.status} ${response.statusText}${text ? `: ${text}` : ''}`);
+  }
+
+  /**
+   * Read a POST's SSE stream until the response to `requestId`, handling
+   * other messages on the way and resuming the stream when it drops
+   */
+  private async readResponseStream(response: Response, requestId: any, signal: AbortSignal): Promise<any> {
+    const maxReconnects = this.options.maxReconnects ?? 3;
+    let body = response.body;
+    let lastEventId: string | undefined;
+    let retryMs: number | undefined;
+    let reconnects = 0;
+
+    while (true) {
+      let failure: unknown;
+      try {
+        if (body) {
+          for await (const event of readServerSentEvents(body)) {
+            if (event.id !== undefined) lastEventId = event.id;
+            if (event.retry !== undefined) retryMs = event.retry;
+            reconnects = 0;
+            for (const message of parseEventMessages(event.data)) {
+              if (isResponse(message) && message.id === requestId) return message;
+              this.handleMessage(message);
+            }
+          }
+        }
+      } catch (error) {
+        if (signal.aborted || isAbortError(error)) throw error;
+        failure = error;
+      }
+
+      // Only a stream with event ids can be resumed
+      if (lastEventId === undefined || reconnects >= maxReconnects) {
+        const reason = failure instanceof Error ? `: ${failure.message}` : '';
+        throw new Error(`MCP stream closed before the response to request ${requestId}${reason}`);
+      }
+      reconnects++;
+      await abortableSleep(retryMs ?? this.options.reconnectDelayMs ?? 1000, signal);
+      const resumed = await this.openStream(lastEventId, signal);
+      if (!resumed) {
+        throw new Error(`MCP stream closed before the response to request ${requestId}; the server cannot resume it`);
+      }
+      body = resumed.body;
+    }
+  }
+
+  // A JSON reply may be a batch holding other messages besides the response
+  private takeResponse(body: any, requestId: any): any {
+    const messages = Array.isArray(body) ? body : [body];
+    let response: any;
+    for (const message of messages) {
+      if (!response && isResponse(message) && message.id === requestId) response = message;
+      else this.handleMessage(message);
+    }
+    if (!response) {
+      throw new Error(`MCP server at ${this.url} sent no response to request ${requestId}`);
+    }
+    return response;
+  }
+
+  private startListening(): void {
+    if (!this.wantsStream() || this.listener || this.closed) return;
+
+    const controller = new AbortController();
+    this.listener = controller;
+    this.listen(controller.signal)
+      .catch(error => {
+        if (!controller.signal.aborted) this.options.onError?.(error instanceof Error ? error : new Error(String(error)));
+      })
+      .finally(() => {
+        if (this.listener === controller) this.listener = undefined;
+      });
+  }
+
+  /**
+   * Keep the GET stream open, resuming after drops, until closed, the server
+   * declines it, or it fails `maxReconnects` times in a row
+   */
+  private async listen(signal: AbortSignal): Promise<void> {
+    const maxReconnects = this.options.maxReconnects ?? 3;
+    let lastEventId: string | undefined;
+    let retryMs: number | undefined;
+    let failures = 0;
+
+    while (!signal.aborted) {
+      let failure: unknown;
+      try {
+        const response = await this.openStream(lastEventId, signal);
+        if (!response) return;
+        if (response.body) {
+          for await (const event of readServerSentEvents(response.body)) {
+            if (event.id !== undefined) lastEventId = event.id;
+            if (event.retry !== undefined) retryMs = event.retry;
+            failures = 0;
+            parseEventMessages(event.data).forEach(message => this.handleMessage(message));
+          }
+        }
+      } catch (error) {
+        // Also when the session expired; the next initialize opens a new stream
+        if (signal.aborted) return;
+        failure = error;
+      }
+
+      if (++failures > maxReconnects) {
+        const reason = failure instanceof Error ? `: ${failure.message}` : '';
+        throw new Error(`MCP event stream at ${this.url} closed ${failures} times in a row; giving up${reason}`);
+      }
+      await abortableSleep(retryMs ?? this.options.reconnectDelayMs ?? 1000, signal).catch(() => undefined);
+    }
+  }
+
+  private wantsStream(): boolean {
+    return this.options.listen ?? (!!this.options.onNotification || this.notificationListeners.size > 0);
+  }
+
+  private handleMessage(message: any): void {
+    if (!message || typeof message !== 'object' || isResponse(message)) return;
+
+    if (message.id === undefined || message.id === null) {
+      this.options.onNotification?.(message);
+      this.notificationListeners.forEach(listener => listener(message));
+      return;
+    }
+
+    // Requests from the server: only ping is supported
+    const reply = message.method === 'ping'
+      ? { jsonrpc: '2.0', id: message.id, result: {} }
+      : { jsonrpc: '2.0', id: message.id, error: { code: JSONRPC_METHOD_NOT_FOUND, message: `Method not found: ${message.method}` } };
+    this.send(reply).catch(error => {
+      if (!this.closed) this.options.onError?.(error instanceof Error ? error : new Error(String(error)));
+    });
+  }
+
+  private notifyCancelled(requestId: any): void {
+    if (this.closed) return;
+    this.send({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId, reason: 'Request aborted' } })
+      .catch(() => undefined);
+  }
+
+  private expireSession(): void {
+    this.sessionId = undefined;
+    this.protocolVersion = undefined;
+    this.initialized = false;
+    this.sessionGeneration++;
+    this.listener?.abort();
+    this.listener = undefined;
+  }
+
+  private headers(extra: Record<string, string> = {}): Record<string, string> {
+    return {
+      ...this.options.headers,
+      ...extra,
+      ...(this.sessionId && { [SESSION_HEADER]: this.sessionId }),
+      ...(this.protocolVersion && { [PROTOCOL_VERSION_HEADER]: this.protocolVersion }),
+    };
+  }
+
+  private closedError(): Error {
+    return new Error(`MCP server at ${this.url} was closed`);
+  }
+}
+
+function isResponse(message: any): boolean {
+  return !!message && typeof message === 'object' && message.method === undefined && message.id !== undefined;
+}
@@ -0,0 +1,145 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { canonicalJson } from '../utils/canonicalJson';
+
+export interface ToolCacheEntry {
+  value: any;
+  expiresAt?: number;  // Epoch milliseconds; never expires when unset
+}
+
+/**
+ * Where cached tool results live. Stores only keep entries; expiry is
+ * checked by the caller.
+ */
+export interface ToolCacheStore {
+  get(key: string): Promise<ToolCacheEntry | undefined>;
+  set(key: string, entry: ToolCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface ToolCacheOptions {
+  store?: ToolCacheStore;  // Defaults to a MemoryToolCacheStore
+  defaultTtlMs?: number;   // For cacheable tools without their own cacheTtlMs
+}
+
+export interface ToolCacheStats {
+  hits: number;
+  misses: number;
+}
+
+/**
+ * In-process store that evicts the least recently used entry once full
+ */
+export class MemoryToolCacheStore implements ToolCacheStore {
+  private entries = new Map<string, ToolCacheEntry>();
+
+  constructor(private maxEntries: number = 500) {
+    if (maxEntries < 1) throw new Error('MemoryToolCacheStore requires maxEntries >= 1');
+  }
+
+  async get(key: string): Promise<ToolCacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Map order doubles as recency order
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: ToolCacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+}
+
+const CACHE_SUFFIX = '.json';
+
+/**
+ * One JSON file per entry, named by a hash of the key, so results survive
+ * restarts. Values must be JSON serializable.
+ */
+export class FileToolCacheStore implements ToolCacheStore {
+  private tempCounter = 0;
+
+  constructor(private basePath: string = './tool-cache') {}
+
+  async get(key: string): Promise<ToolCacheEntry | undefined> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.entryPath(key), 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return undefined;
+      throw error;
+    }
+
+    try {
+      const { value, expiresAt } = JSON.parse(content);
+      return { value, expiresAt };
+    } catch {
+      // A corrupt entry is a miss; the next set replaces it
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: ToolCacheEntry): Promise<void> {
+    await fs.mkdir(this.basePath, { recursive: true });
+    const filePath = this.entryPath(key);
+    const tempPath = `${filePath}.${process.pid}.${++this.tempCounter}.tmp`;
+    try {
+      await fs.writeFile(tempPath, JSON.stringify({ key, ...entry }), 'utf8');
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.unlink(tempPath).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.unlink(this.entryPath(key)).catch((error: any) => {
+      if (error.code !== 'ENOENT') throw error;
+    });
+  }
+
+  async clear(): Promise<void> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.basePath);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return;
+      throw error;
+    }
+    await Promise.all(files
+      .filter(file => file.endsWith(CACHE_SUFFIX))
+      .map(file => fs.unlink(path.join(this.basePath, file)).catch(() => undefined)));
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.basePath, `${createHash('sha256').update(key).digest('hex')}${CACHE_SUFFIX}`);
+  }
+}
+
+/**
+ * Key for a call: the tool name plus its arguments with object keys sorted,
+ * so calls that differ only in key order share an entry
+ */
+export function toolCacheKey(toolName: string, args: unknown): string {
+  return `${toolName}:${canonicalJson(args)}`;
+}
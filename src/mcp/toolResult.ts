@@ -0,0 +1,51 @@
+import type { ZodTypeAny } from 'zod';
+import type { MessageContent } from '../chat/types';
+import type { ToolResultContent } from '../tools/types';
+import { extractText } from '../utils/media';
+import { mcpContentToMessageContent } from './content';
+import type { MCPInvokeToolResponse } from './types';
+
+/**
+ * Thrown for results the server marked `isError`; the message is the text
+ * the tool returned, so the model learns why the call failed
+ */
+export class MCPToolError extends Error {
+  constructor(
+    message: string,
+    readonly toolName: string,
+    readonly content: MessageContent
+  ) {
+    super(message);
+    this.name = 'MCPToolError';
+  }
+}
+
+/**
+ * Convert an MCP tool result to a tool result for the session. Failed calls
+ * throw; with an output schema, `structuredContent` must be present and match.
+ */
+export function mcpToolResult(toolName: string, response: MCPInvokeToolResponse, outputSchema?: ZodTypeAny): ToolResultContent {
+  const content = mcpContentToMessageContent(response?.content || []);
+
+  if (response?.isError) {
+    const text = extractText(content).trim();
+    throw new MCPToolError(text || response.error || `MCP tool '${toolName}' failed`, toolName, content);
+  }
+
+  let structuredContent = response?.structuredContent;
+  if (outputSchema) {
+    if (structuredContent === undefined) {
+      throw new Error(`MCP tool '${toolName}' returned no structured content for its output schema`);
+    }
+    const parsed = outputSchema.safeParse(structuredContent);
+    if (!parsed.success) {
+      const issues = parsed.error.issues
+        .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+        .join('; ');
+      throw new Error(`MCP tool '${toolName}' returned structured content that does not match its output schema: ${issues}`);
+    }
+    structuredContent = parsed.data;
+  }
+
+  return { type: 'tool_result', content, ...(structuredContent !== undefined && { structuredContent }) };
+}
@@ -1,19 +1,143 @@
 export interface MCPTool {
   name: string;
+  title?: string;
   description: string;
   inputSchema: any; // JSON Schema
+  outputSchema?: any; // JSON Schema of structuredContent in results
+  annotations?: MCPToolAnnotations;
+}
+
+// Hints the server gives about a tool's behavior; untrusted unless the server is
+export interface MCPToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;     // Does not modify its environment
+  destructiveHint?: boolean;  // May delete or overwrite data
+  idempotentHint?: boolean;   // Repeating a call has no further effect
+  openWorldHint?: boolean;    // Reaches outside systems such as the web
 }
 
 export interface MCPListToolsResponse {
   tools: MCPTool[];
+  nextCursor?: string;  // Set when more pages follow
 }
 
 export interface MCPInvokeToolResponse {
-  content: any;
+  content: MCPContent[];
+  structuredContent?: Record<string, any>;
+  isError?: boolean;  // The tool failed; content describes why
   error?: string;
 } 
 
+export interface MCPResource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  size?: number;  // In bytes, when known
+}
+
+// Parameterized resources; the URI template follows RFC 6570
+export interface MCPResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface MCPTextResourceContents {
+  uri: string;
+  mimeType?: string;
+  text: string;
+}
+
+export interface MCPBlobResourceContents {
+  uri: string;
+  mimeType?: string;
+  blob: string;  // Base64 encoded
+}
+
+export type MCPResourceContents = MCPTextResourceContents | MCPBlobResourceContents;
+
+export interface MCPReadResourceResult {
+  contents: MCPResourceContents[];
+}
+
+// Content blocks of prompt messages and tool results
+export type MCPContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string }
+  | { type: 'audio'; data: string; mimeType: string }
+  | { type: 'resource'; resource: MCPResourceContents }
+  | ({ type: 'resource_link' } & MCPResource);
+
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface MCPPrompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: MCPPromptArgument[];
+}
+
+export interface MCPPromptMessage {
+  role: 'user' | 'assistant';
+  content: MCPContent;
+}
+
+export interface MCPGetPromptResult {
+  description?: string;
+  messages: MCPPromptMessage[];
+}
+
+export interface MCPRequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface MCPImplementation {
+  name: string;
+  version: string;
+  title?: string;
+}
+
+// Features a server offers, from its initialize result
+export interface MCPServerCapabilities {
+  tools?: { listChanged?: boolean };
+  resources?: { subscribe?: boolean; listChanged?: boolean };
+  prompts?: { listChanged?: boolean };
+  logging?: Record<string, any>;
+  completions?: Record<string, any>;
+  experimental?: Record<string, any>;
+}
+
+// Features the client offers to the server
+export interface MCPClientCapabilities {
+  roots?: { listChanged?: boolean };
+  sampling?: Record<string, any>;
+  elicitation?: Record<string, any>;
+  experimental?: Record<string, any>;
+}
+
+export interface MCPInitializeResult {
+  protocolVersion: string;
+  capabilities: MCPServerCapabilities;
+  serverInfo: MCPImplementation;
+  instructions?: string;  // How to use the server, meant for the model
+}
+
 // MCP transport interface for pluggable transports (HTTP, SSE, Stdio, etc.)
 export interface MCPTransport {
-  send(request: any): Promise<any>;
+  send(request: any, options?: MCPRequestOptions): Promise<any>;
+  // Changes when the server loses its session, e.g. a restarted process, so
+  // clients know to initialize again
+  readonly sessionGeneration?: number;
+  // Receive notifications the server sends; returns a function removing the listener
+  addNotificationListener?(listener: (message: any) => void): () => void;
+  // Release connections or processes held by the transport
+  close?(): Promise<void>;
 } 
\ No newline at end of file
@@ -9,10 +9,12 @@ import {
   TimeRange,
   MetricsQuery,
   ToolCallMetric,
+  ToolCacheMetrics,
   AlertRule,
   MonitoringDashboard
 } from './types';
 import { estimateCost } from '../utils/cost';
+import { tokenizerRegistry, type TokenizerRegistry } from '../utils/tokenizer';
 import { MemoryStorage } from './storage/MemoryStorage';
 
 export class MonitoringService extends EventEmitter {
@@ -21,8 +23,10 @@ export class MonitoringService extends EventEmitter {
   private activeRequests: Map<string, Partial<RequestMetrics>> = new Map();
   private activeSessions: Map<string, Partial<SessionMetrics>> = new Map();
   private alertRules: Map<string, AlertRule> = new Map();
+  private tokenizers: TokenizerRegistry;
+  private toolCache = new Map<string, { hits: number; misses: number }>();
 
-  constructor(config?: Partial<MonitoringConfig>, storage?: MonitoringStorage) {
+  constructor(config?: Partial<MonitoringConfig>, storage?: MonitoringStorage, tokenizers?: TokenizerRegistry) {
     super();
     
     this.config = {
@@ -38,6 +42,7 @@ export class MonitoringService extends EventEmitter {
     };
 
     this.storage = storage || new MemoryStorage();
+    this.tokenizers = tokenizers || tokenizerRegistry;
     
     if (this.config.enabled) {
       this.startCleanupScheduler();
@@ -119,6 +124,13 @@ export class MonitoringService extends EventEmitter {
     this.checkAlerts(completedMetrics);
   }
 
+  /**
+   * Count tokens with the tokenizer registered for a provider/model
+   */
+  countTokens(provider: string, model: string | undefined, text: string): number {
+    return this.tokenizers.countTokens(provider, model, text);
+  }
+
   // Session Tracking
   startSession(sessionId: string, agentId: string): void {
     if (!this.config.enabled) return;
@@ -193,6 +205,32 @@ export class MonitoringService extends EventEmitter {
     this.emit('tool_call', { requestId, toolMetric });
   }
 
+  /**
+   * Count a lookup in a tool result cache
+   */
+  trackToolCache(toolName: string, hit: boolean): void {
+    if (!this.config.enabled || !this.config.trackTools) return;
+
+    const counts = this.toolCache.get(toolName) || { hits: 0, misses: 0 };
+    if (hit) counts.hits++;
+    else counts.misses++;
+    this.toolCache.set(toolName, counts);
+
+    this.emit('tool_cache', { toolName, hit });
+  }
+
+  getToolCacheMetrics(): ToolCacheMetrics {
+    const byTool: Record<string, { hits: number; misses: number }> = {};
+    let hits = 0;
+    let misses = 0;
+    for (const [toolName, counts] of this.toolCache) {
+      byTool[toolName] = { ...counts };
+      hits += counts.hits;
+      misses += counts.misses;
+    }
+    return { hits, misses, hitRate: hits + misses > 0 ? hits / (hits + misses) : 0, byTool };
+  }
+
   // Metrics Retrieval
   async getAgentMetrics(agentId: string, timeRange?: TimeRange): Promise<AgentMetrics> {
     return this.storage.getAgentMetrics(agentId, timeRange);
@@ -27,6 +27,13 @@ export interface ToolCallMetric {
   outputSize: number;
 }
 
+export interface ToolCacheMetrics {
+  hits: number;
+  misses: number;
+  hitRate: number;  // 0 when nothing was looked up
+  byTool: Record<string, { hits: number; misses: number }>;
+}
+
 export interface AgentMetrics {
   agentId: string;
   totalRequests: number;
@@ -80,7 +87,7 @@ export interface MonitoringConfig {
 // Removed over-engineered CostModel - cost calculation is now simple
 
 export interface MonitoringEvent {
-  type: 'request_start' | 'request_end' | 'tool_call' | 'error' | 'session_start' | 'session_end';
+  type: 'request_start' | 'request_end' | 'tool_call' | 'tool_cache' | 'error' | 'session_start' | 'session_end';
   timestamp: Date;
   agentId: string;
   sessionId?: string;
@@ -1,5 +1,6 @@
-import { LLMProvider, ProviderResponse, StreamChunk, CompletionParams } from './LLMProvider';
+import { LLMProvider, ProviderResponse, StreamChunk, StreamChunkHandler, CompletionParams } from './LLMProvider';
 import { HTTPRetryHandler, RetryOptions } from '../utils/RetryHandler';
+import { combineSignals, throwIfAborted } from '../utils/abort';
 
 export interface APIProviderConfig {
   apiKey?: string;
@@ -34,9 +35,9 @@ export abstract class BaseAPIProvider implements LLMProvider {
 
   abstract completion(params: CompletionParams): Promise<ProviderResponse>;
   
-  abstract stream?(params: CompletionParams, onChunk: (chunk: StreamChunk) => void): Promise<void>;
+  abstract stream?(params: CompletionParams, onChunk: StreamChunkHandler): Promise<void>;
 
-  // Common HTTP request method with retry logic
+  // Common HTTP request method with retry logic; until the response arrives, `options.signal` cancels it alongside the timeout
   protected async makeRequest(
     url: string,
     options: RequestInit,
@@ -44,6 +45,7 @@ export abstract class BaseAPIProvider implements LLMProvider {
   ): Promise<Response> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
+    const { signal, release } = combineSignals(controller.signal, options.signal ?? undefined);
     
     try {
       let lastResponse: Response | null = null;
@@ -52,7 +54,7 @@ export abstract class BaseAPIProvider implements LLMProvider {
         async () => {
           const response = await fetch(url, {
             ...options,
-            signal: controller.signal,
+            signal,
             headers: {
               'Content-Type': 'application/json',
               ...this.config.headers,
@@ -82,6 +84,7 @@ export abstract class BaseAPIProvider implements LLMProvider {
         () => lastResponse ? this.parseRetryAfter(lastResponse) : null,
         {
           operationName,
+          signal: options.signal ?? undefined,
           metadata: {
             url,
             method: options.method || 'GET',
@@ -93,6 +96,7 @@ export abstract class BaseAPIProvider implements LLMProvider {
       return response;
     } finally {
       clearTimeout(timeoutId);
+      release();
     }
   }
 
@@ -120,7 +124,7 @@ export abstract class BaseAPIProvider implements LLMProvider {
   protected async streamRequest(
     url: string,
     options: RequestInit,
-    onChunk: (chunk: StreamChunk) => void,
+    onChunk: StreamChunkHandler,
     operationName: string = 'Stream request'
   ): Promise<void> {
     const response = await this.makeRequest(url, options, operationName);
@@ -131,13 +135,17 @@ export abstract class BaseAPIProvider implements LLMProvider {
     
     const reader = response.body.getReader();
     const decoder = new TextDecoder();
+    // The body outlives makeRequest's signal, so an abort cancels the read here
+    const onAbort = () => reader.cancel(options.signal?.reason).catch(() => undefined);
+    options.signal?.addEventListener('abort', onAbort, { once: true });
     
     try {
       while (true) {
         const { done, value } = await reader.read();
+        throwIfAborted(options.signal ?? undefined);
         
         if (done) {
-          onChunk({ finished: true });
+          await onChunk({ finished: true });
           break;
         }
         
@@ -145,6 +153,7 @@ export abstract class BaseAPIProvider implements LLMProvider {
         this.processStreamChunk(chunk, onChunk);
       }
     } finally {
+      options.signal?.removeEventListener('abort', onAbort);
       reader.releaseLock();
     }
   }
@@ -1,4 +1,4 @@
-import type { LLMProvider, CompletionParams, ProviderResponse, StreamChunk } from './LLMProvider';
+import type { LLMProvider, CompletionParams, ProviderResponse, StreamChunkHandler, TokenUsage } from './LLMProvider';
 import type { ChatMessage } from '../chat/types';
 import { HTTPRetryHandler } from '../utils/RetryHandler';
 import { toClaudeFormat } from '../providers/multimodal';
@@ -53,7 +53,14 @@ export class ClaudeProvider implements LLMProvider {
       requestBody.tool_choice = this.formatToolChoice(params.tool_choice);
     }
 
-    const response = await this.makeRequest('messages', requestBody);
+    // Structured output is a forced call to a tool whose input is the reply
+    const format = params.response_format;
+    if (format) {
+      requestBody.tools = [{ name: format.name, description: format.description, input_schema: format.schema }];
+      requestBody.tool_choice = { type: 'tool', name: format.name };
+    }
+
+    const response = await this.makeRequest('messages', requestBody, params.signal);
     
     let textContent = '';
     let toolCalls: any[] = [];
@@ -62,6 +69,8 @@ export class ClaudeProvider implements LLMProvider {
       for (const content of response.content) {
         if (content.type === 'text') {
           textContent += content.text;
+        } else if (content.type === 'tool_use' && format) {
+          textContent = JSON.stringify(content.input ?? {});
         } else if (content.type === 'tool_use') {
           toolCalls.push({
             id: content.id,
@@ -81,15 +90,11 @@ export class ClaudeProvider implements LLMProvider {
         toolCalls: toolCalls.length > 0 ? toolCalls : undefined
       },
       finished: response.stop_reason === 'end_turn' || response.stop_reason === 'max_tokens',
-      usage: response.usage ? {
-        prompt_tokens: response.usage.input_tokens,
-        completion_tokens: response.usage.output_tokens,
-        total_tokens: response.usage.input_tokens + response.usage.output_tokens
-      } : undefined
+      usage: response.usage ? this.formatUsage(response.usage) : undefined
     };
   }
   
-  async stream(params: CompletionParams, onChunk: (chunk: StreamChunk) => void): Promise<void> {
+  async stream(params: CompletionParams, onChunk: StreamChunkHandler): Promise<void> {
     const { system, messages } = this.formatMessages(params.messages);
     const requestBody: any = {
       model: this.config.model,
@@ -118,6 +123,7 @@ export class ClaudeProvider implements LLMProvider {
             'anthropic-version': this.config.version || '2023-06-01',
           },
           body: JSON.stringify(requestBody),
+          signal: params.signal,
         });
 
         if (!response.ok) {
@@ -129,6 +135,7 @@ export class ClaudeProvider implements LLMProvider {
       },
       {
         operationName: 'Claude API streaming',
+        signal: params.signal,
         metadata: { 
           model: this.config.model,
           streaming: true
@@ -143,6 +150,8 @@ export class ClaudeProvider implements LLMProvider {
 
     const decoder = new TextDecoder();
     let buffer = '';
+    // Input tokens arrive with message_start, the output total with message_delta
+    const usage = { input_tokens: 0, output_tokens: 0 };
     
     try {
       while (true) {
@@ -158,10 +167,11 @@ export class ClaudeProvider implements LLMProvider {
           
           const data = line.slice(6); // Remove 'data: ' prefix
           if (data === '[DONE]') {
-            onChunk({
+            await onChunk({
               content: '',
               raw: { type: 'message_stop' },
-              finished: true
+              finished: true,
+              usage: this.formatUsage(usage)
             });
             break;
           }
@@ -169,13 +179,17 @@ export class ClaudeProvider implements LLMProvider {
           try {
             const parsed = JSON.parse(data);
             
-            if (parsed.type === 'content_block_start') {
+            if (parsed.type === 'message_start') {
+              Object.assign(usage, parsed.message?.usage);
+            } else if (parsed.type === 'message_delta') {
+              Object.assign(usage, parsed.usage);
+            } else if (parsed.type === 'content_block_start') {
               if (parsed.content_block.type === 'text') {
                 // Text content block started
                 continue;
               } else if (parsed.content_block.type === 'tool_use') {
                 // Tool use block started
-                onChunk({
+                await onChunk({
                   content: '',
                   raw: {
                     ...parsed,
@@ -187,23 +201,40 @@ export class ClaudeProvider implements LLMProvider {
                       format: 'anthropic_tool_use'
                     }
                   },
-                  finished: false
+                  finished: false,
+                  toolCallDelta: {
+                    index: parsed.index,
+                    id: parsed.content_block.id,
+                    name: parsed.content_block.name
+                  }
                 });
               }
             } else if (parsed.type === 'content_block_delta') {
               if (parsed.delta.type === 'text_delta') {
-                onChunk({
+                await onChunk({
                   content: parsed.delta.text,
                   token: parsed.delta.text,
                   raw: parsed,
                   finished: false
                 });
+              } else if (parsed.delta.type === 'input_json_delta') {
+                // Tool input arrives as partial JSON after the block starts
+                await onChunk({
+                  content: '',
+                  raw: parsed,
+                  finished: false,
+                  toolCallDelta: {
+                    index: parsed.index,
+                    arguments: parsed.delta.partial_json
+                  }
+                });
               }
             } else if (parsed.type === 'message_stop') {
-              onChunk({
+              await onChunk({
                 content: '',
                 raw: parsed,
-                finished: true
+                finished: true,
+                usage: this.formatUsage(usage)
               });
               break;
             }
@@ -217,6 +248,16 @@ export class ClaudeProvider implements LLMProvider {
     }
   }
   
+  private formatUsage(usage: { input_tokens?: number; output_tokens?: number }): TokenUsage {
+    const input = usage.input_tokens || 0;
+    const output = usage.output_tokens || 0;
+    return {
+      prompt_tokens: input,
+      completion_tokens: output,
+      total_tokens: input + output
+    };
+  }
+  
   private extractTextContent(content: string | import('../chat/types').MessageContent): string {
     if (typeof content === 'string') {
       return content;
@@ -250,20 +291,42 @@ export class ClaudeProvider implements LLMProvider {
           content: toClaudeFormat(message.content)
         });
       } else if (message.role === 'assistant') {
-        chatMessages.push({
-          role: 'assistant',
-          content: toClaudeFormat(message.content)
-        });
+        if (message.tool_calls?.length) {
+          const text = this.extractTextContent(message.content);
+          chatMessages.push({
+            role: 'assistant',
+            content: [
+              ...(text.trim() ? [{ type: 'text', text }] : []),
+              ...message.tool_calls.map(toolCall => ({
+                type: 'tool_use',
+                id: toolCall.id,
+                name: toolCall.name,
+                input: toolCall.arguments
+              }))
+            ]
+          });
+        } else {
+          chatMessages.push({
+            role: 'assistant',
+            content: toClaudeFormat(message.content)
+          });
+        }
       } else if (message.role === 'tool') {
-        const toolMessage = message as any;
-        chatMessages.push({
-          role: 'user',
-          content: [{
-            type: 'tool_result',
-            tool_use_id: toolMessage.name, // This should be the tool call ID
-            content: message.content
-          }]
-        });
+        // Tool results may carry images; other media stay named in the text
+        const images = (message.media || []).filter(media => media.type === 'image' && media.data && media.mimeType);
+        const toolResult = {
+          type: 'tool_result',
+          tool_use_id: message.tool_call_id ?? message.name,
+          content: images.length > 0 ? toClaudeFormat([{ type: 'text', text: message.content }, ...images]) : message.content
+        };
+        // Results of one assistant turn go back together in a single user message
+        const previous = chatMessages[chatMessages.length - 1];
+        if (previous?.role === 'user' && Array.isArray(previous.content)
+          && previous.content.every((block: any) => block.type === 'tool_result')) {
+          previous.content.push(toolResult);
+        } else {
+          chatMessages.push({ role: 'user', content: [toolResult] });
+        }
       }
     }
     
@@ -277,7 +340,7 @@ export class ClaudeProvider implements LLMProvider {
     return tools.map(tool => ({
       name: tool.name || tool.function?.name,
       description: tool.description || tool.function?.description,
-      input_schema: tool.parameters || tool.function?.parameters || {
+      input_schema: tool.input_schema || tool.parameters || tool.function?.parameters || {
         type: 'object',
         properties: {},
         required: []
@@ -301,7 +364,7 @@ export class ClaudeProvider implements LLMProvider {
     return { type: 'auto' };
   }
   
-  private async makeRequest(endpoint: string, body: any) {
+  private async makeRequest(endpoint: string, body: any, signal?: AbortSignal) {
     return this.retryHandler.execute(
       async () => {
         const response = await fetch(`${this.config.baseURL}/v1/${endpoint}`, {
@@ -312,6 +375,7 @@ export class ClaudeProvider implements LLMProvider {
             'anthropic-version': this.config.version || '2023-06-01',
           },
           body: JSON.stringify(body),
+          signal,
         });
         
         if (!response.ok) {
@@ -323,6 +387,7 @@ export class ClaudeProvider implements LLMProvider {
       },
       {
         operationName: 'Claude API request',
+        signal,
         metadata: { 
           model: this.config.model,
           endpoint: `${this.config.baseURL}/v1/${endpoint}`
@@ -339,6 +404,14 @@ export class ClaudeProvider implements LLMProvider {
     return true;
   }
   
+  supportsStructuredOutput(): boolean {
+    return true;
+  }
+  
+  getModel(): string {
+    return this.config.model;
+  }
+  
   configure(options: Record<string, any>): void {
     this.config = { ...this.config, ...options };
   }
@@ -1,7 +1,8 @@
-import type { LLMProvider, CompletionParams, ProviderResponse, StreamChunk } from './LLMProvider';
+import type { LLMProvider, CompletionParams, ProviderResponse, StreamChunkHandler, TokenUsage, ResponseFormat } from './LLMProvider';
 import type { ChatMessage } from '../chat/types';
 import { HTTPRetryHandler } from '../utils/RetryHandler';
 import { toGeminiFormat } from '../providers/multimodal';
+import { geminiParametersSchema } from '../tools/ToolSchemaAdapter';
 
 export interface GeminiConfig {
   apiKey: string;
@@ -42,6 +43,7 @@ export class GeminiProvider implements LLMProvider {
         topP: params.top_p,
         maxOutputTokens: params.max_tokens,
         stopSequences: params.stop,
+        ...this.formatResponseFormat(params.response_format),
       },
       tools: params.tools ? this.formatTools(params.tools) : undefined,
       toolConfig: params.tool_choice && params.tool_choice !== 'auto' ? {
@@ -51,7 +53,7 @@ export class GeminiProvider implements LLMProvider {
       } : undefined,
     };
 
-    const response = await this.makeRequest('generateContent', requestBody);
+    const response = await this.makeRequest('generateContent', requestBody, params.signal);
     
     if (!response.candidates || response.candidates.length === 0) {
       throw new Error('No candidates returned from Gemini API');
@@ -87,15 +89,11 @@ export class GeminiProvider implements LLMProvider {
         toolCalls: toolCalls.length > 0 ? toolCalls : undefined
       },
       finished: candidate.finishReason === 'STOP' || candidate.finishReason === 'MAX_TOKENS',
-      usage: response.usageMetadata ? {
-        prompt_tokens: response.usageMetadata.promptTokenCount,
-        completion_tokens: response.usageMetadata.candidatesTokenCount,
-        total_tokens: response.usageMetadata.totalTokenCount
-      } : undefined
+      usage: response.usageMetadata ? this.formatUsage(response.usageMetadata) : undefined
     };
   }
   
-  async stream(params: CompletionParams, onChunk: (chunk: StreamChunk) => void): Promise<void> {
+  async stream(params: CompletionParams, onChunk: StreamChunkHandler): Promise<void> {
     const formattedMessages = this.formatMessages(params.messages);
     const requestBody = {
       contents: formattedMessages,
@@ -121,6 +119,7 @@ export class GeminiProvider implements LLMProvider {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify(requestBody),
+          signal: params.signal,
         });
 
         if (!response.ok) {
@@ -132,6 +131,7 @@ export class GeminiProvider implements LLMProvider {
       },
       {
         operationName: 'Gemini API streaming',
+        signal: params.signal,
         metadata: { 
           model: this.config.model,
           streaming: true
@@ -168,7 +168,7 @@ export class GeminiProvider implements LLMProvider {
               if (content?.parts) {
                 for (const part of content.parts) {
                   if (part.text) {
-                    onChunk({
+                    await onChunk({
                       content: part.text,
                       token: part.text,
                       raw: data,
@@ -176,7 +176,7 @@ export class GeminiProvider implements LLMProvider {
                     });
                   }
                   if (part.functionCall) {
-                    onChunk({
+                    await onChunk({
                       content: '',
                       raw: {
                         ...data,
@@ -195,10 +195,11 @@ export class GeminiProvider implements LLMProvider {
               }
               
               if (candidate.finishReason === 'STOP' || candidate.finishReason === 'MAX_TOKENS') {
-                onChunk({
+                await onChunk({
                   content: '',
                   raw: data,
-                  finished: true
+                  finished: true,
+                  usage: data.usageMetadata ? this.formatUsage(data.usageMetadata) : undefined
                 });
                 break;
               }
@@ -213,6 +214,14 @@ export class GeminiProvider implements LLMProvider {
     }
   }
   
+  private formatUsage(usageMetadata: any): TokenUsage {
+    return {
+      prompt_tokens: usageMetadata.promptTokenCount,
+      completion_tokens: usageMetadata.candidatesTokenCount,
+      total_tokens: usageMetadata.totalTokenCount
+    };
+  }
+  
   private formatMessages(messages: ChatMessage[]) {
     const contents: any[] = [];
     
@@ -229,23 +238,33 @@ export class GeminiProvider implements LLMProvider {
           parts: toGeminiFormat(message.content)
         });
       } else if (message.role === 'assistant') {
+        // A turn that only calls tools has no text part
+        const parts: any[] = typeof message.content === 'string' && !message.content.trim()
+          ? []
+          : toGeminiFormat(message.content);
+        for (const toolCall of message.tool_calls || []) {
+          parts.push({ functionCall: { name: toolCall.name, args: toolCall.arguments } });
+        }
         contents.push({
           role: 'model',
-          parts: toGeminiFormat(message.content)
+          parts
         });
       } else if (message.role === 'tool') {
-        const toolMessage = message as any;
-        contents.push({
-          role: 'function',
-          parts: [{
-            functionResponse: {
-              name: toolMessage.name,
-              response: {
-                content: message.content
-              }
+        // Gemini pairs responses with calls by name and order, one turn for all of them
+        const part = {
+          functionResponse: {
+            name: message.name,
+            response: {
+              content: message.content
             }
-          }]
-        });
+          }
+        };
+        const previous = contents[contents.length - 1];
+        if (previous?.role === 'function') {
+          previous.parts.push(part);
+        } else {
+          contents.push({ role: 'function', parts: [part] });
+        }
       }
     }
     
@@ -253,7 +272,7 @@ export class GeminiProvider implements LLMProvider {
   }
   
   private formatTools(tools: any[]) {
-    return tools.map(tool => ({
+    return tools.map(tool => tool.functionDeclarations ? tool : ({
       functionDeclarations: [{
         name: tool.name || tool.function?.name,
         description: tool.description || tool.function?.description,
@@ -262,7 +281,14 @@ export class GeminiProvider implements LLMProvider {
     }));
   }
   
-  private async makeRequest(endpoint: string, body: any) {
+  // responseSchema takes the same OpenAPI subset as function parameters
+  private formatResponseFormat(format?: ResponseFormat) {
+    if (!format) return {};
+    const responseSchema = geminiParametersSchema(format.schema);
+    return { responseMimeType: 'application/json', ...(responseSchema && { responseSchema }) };
+  }
+  
+  private async makeRequest(endpoint: string, body: any, signal?: AbortSignal) {
     return this.retryHandler.execute(
       async () => {
         const response = await fetch(`${this.config.baseURL}/models/${this.config.model}:${endpoint}?key=${this.config.apiKey}`, {
@@ -271,6 +297,7 @@ export class GeminiProvider implements LLMProvider {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify(body),
+          signal,
         });
         
         if (!response.ok) {
@@ -282,6 +309,7 @@ export class GeminiProvider implements LLMProvider {
       },
       {
         operationName: 'Gemini API request',
+        signal,
         metadata: { 
           model: this.config.model,
           endpoint: `${this.config.baseURL}/models/${this.config.model}:${endpoint}`
@@ -302,6 +330,14 @@ export class GeminiProvider implements LLMProvider {
     return true;
   }
   
+  supportsStructuredOutput(): boolean {
+    return true;
+  }
+  
+  getModel(): string {
+    return this.config.model;
+  }
+  
   configure(options: Record<string, any>): void {
     this.config = { ...this.config, ...options };
   }
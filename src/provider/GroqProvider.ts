@@ -1,4 +1,4 @@
-import type { LLMProvider, CompletionParams, ProviderResponse, StreamChunk } from './LLMProvider';
+import type { LLMProvider, CompletionParams, ProviderResponse, StreamChunkHandler, TokenUsage } from './LLMProvider';
 import type { ChatMessage } from '../chat/types';
 import { HTTPRetryHandler } from '../utils/RetryHandler';
 
@@ -43,7 +43,7 @@ export class GroqProvider implements LLMProvider {
       stream: false,
     };
 
-    const response = await this.makeRequest('chat/completions', requestBody);
+    const response = await this.makeRequest('chat/completions', requestBody, params.signal);
     
     if (!response.choices || response.choices.length === 0) {
       throw new Error('No choices returned from Groq API');
@@ -70,15 +70,11 @@ export class GroqProvider implements LLMProvider {
         toolCalls: toolCalls.length > 0 ? toolCalls : undefined
       },
       finished: choice.finish_reason === 'stop' || choice.finish_reason === 'length',
-      usage: response.usage ? {
-        prompt_tokens: response.usage.prompt_tokens,
-        completion_tokens: response.usage.completion_tokens,
-        total_tokens: response.usage.total_tokens
-      } : undefined
+      usage: response.usage ? this.formatUsage(response.usage) : undefined
     };
   }
   
-  async stream(params: CompletionParams, onChunk: (chunk: StreamChunk) => void): Promise<void> {
+  async stream(params: CompletionParams, onChunk: StreamChunkHandler): Promise<void> {
     const requestBody = {
       model: this.config.model,
       messages: this.formatMessages(params.messages),
@@ -100,6 +96,7 @@ export class GroqProvider implements LLMProvider {
             'Authorization': `Bearer ${this.config.apiKey}`,
           },
           body: JSON.stringify(requestBody),
+          signal: params.signal,
         });
 
         if (!response.ok) {
@@ -111,6 +108,7 @@ export class GroqProvider implements LLMProvider {
       },
       {
         operationName: 'Groq API streaming',
+        signal: params.signal,
         metadata: { 
           model: this.config.model,
           streaming: true
@@ -140,7 +138,7 @@ export class GroqProvider implements LLMProvider {
           
           const data = line.slice(6);
           if (data === '[DONE]') {
-            onChunk({
+            await onChunk({
               content: '',
               raw: { type: 'done' },
               finished: true
@@ -156,7 +154,7 @@ export class GroqProvider implements LLMProvider {
               const delta = choice.delta;
               
               if (delta.content) {
-                onChunk({
+                await onChunk({
                   content: delta.content,
                   token: delta.content,
                   raw: parsed,
@@ -167,7 +165,7 @@ export class GroqProvider implements LLMProvider {
               if (delta.tool_calls) {
                 for (const toolCall of delta.tool_calls) {
                   if (toolCall.function) {
-                    onChunk({
+                    await onChunk({
                       content: '',
                       raw: {
                         ...parsed,
@@ -185,11 +183,14 @@ export class GroqProvider implements LLMProvider {
                 }
               }
               
+              // Groq reports stream usage under x_groq on the final chunk
               if (choice.finish_reason === 'stop' || choice.finish_reason === 'length') {
-                onChunk({
+                const usage = parsed.x_groq?.usage || parsed.usage;
+                await onChunk({
                   content: '',
                   raw: parsed,
-                  finished: true
+                  finished: true,
+                  usage: usage ? this.formatUsage(usage) : undefined
                 });
                 break;
               }
@@ -204,14 +205,32 @@ export class GroqProvider implements LLMProvider {
     }
   }
   
+  private formatUsage(usage: any): TokenUsage {
+    return {
+      prompt_tokens: usage.prompt_tokens,
+      completion_tokens: usage.completion_tokens,
+      total_tokens: usage.total_tokens
+    };
+  }
+  
   private formatMessages(messages: ChatMessage[]) {
     return messages.map(message => {
       if (message.role === 'tool') {
-        const toolMessage = message as any;
         return {
           role: 'tool',
           content: message.content,
-          tool_call_id: toolMessage.name // This should be the tool call ID
+          tool_call_id: message.tool_call_id ?? message.name
+        };
+      }
+      if (message.role === 'assistant' && message.tool_calls?.length) {
+        return {
+          role: 'assistant',
+          content: message.content,
+          tool_calls: message.tool_calls.map(toolCall => ({
+            id: toolCall.id,
+            type: 'function',
+            function: { name: toolCall.name, arguments: JSON.stringify(toolCall.arguments) }
+          }))
         };
       }
       return {
@@ -232,7 +251,7 @@ export class GroqProvider implements LLMProvider {
     }));
   }
   
-  private async makeRequest(endpoint: string, body: any) {
+  private async makeRequest(endpoint: string, body: any, signal?: AbortSignal) {
     return this.retryHandler.execute(
       async () => {
         const response = await fetch(`${this.config.baseURL}/openai/v1/${endpoint}`, {
@@ -242,6 +261,7 @@ export class GroqProvider implements LLMProvider {
             'Authorization': `Bearer ${this.config.apiKey}`,
           },
           body: JSON.stringify(body),
+          signal,
         });
         
         if (!response.ok) {
@@ -253,6 +273,7 @@ export class GroqProvider implements LLMProvider {
       },
       {
         operationName: 'Groq API request',
+        signal,
         metadata: { 
           model: this.config.model,
           endpoint: `${this.config.baseURL}/openai/v1/${endpoint}`
@@ -269,6 +290,10 @@ export class GroqProvider implements LLMProvider {
     return true;
   }
   
+  getModel(): string {
+    return this.config.model;
+  }
+  
   configure(options: Record<string, any>): void {
     this.config = { ...this.config, ...options };
   }
@@ -1,15 +1,20 @@
 import type { ChatMessage } from '../chat/types';
+import type { Tokenizer } from '../utils/tokenizer';
+import type { JsonSchema } from '../utils/jsonSchema';
+import type { GrammarInput } from '../utils/gbnf';
+
+export interface TokenUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
 
 export interface ProviderResponse {
   content?: string;
   tokens?: string[];
   raw?: any;
   finished?: boolean;
-  usage?: {
-    prompt_tokens?: number;
-    completion_tokens?: number;
-    total_tokens?: number;
-  };
+  usage?: TokenUsage;
 }
 
 export interface StreamChunk {
@@ -17,8 +22,33 @@ export interface StreamChunk {
   token?: string;
   raw?: any;
   finished?: boolean;
+  // Set on the final chunk by providers that report usage for streams
+  usage?: TokenUsage;
+  // Fragment of a natively streamed tool call; fragments of one call share an index
+  toolCallDelta?: ToolCallDelta;
 }
 
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  name?: string;
+  // Next piece of the JSON-encoded arguments
+  arguments?: string;
+}
+
+/**
+ * Request for a JSON reply matching `schema`. Providers that support it
+ * return the JSON document as the `completion` content.
+ */
+export interface ResponseFormat {
+  name: string;
+  schema: JsonSchema;
+  description?: string;
+}
+
+// Providers await the handler, so a slow consumer slows down reading the response
+export type StreamChunkHandler = (chunk: StreamChunk) => void | Promise<void>;
+
 export interface CompletionParams {
   messages: ChatMessage[];
   max_tokens?: number;
@@ -28,6 +58,12 @@ export interface CompletionParams {
   stream?: boolean;
   tools?: any[];
   tool_choice?: 'auto' | 'none' | 'required' | string;
+  // Only sent to providers whose supportsStructuredOutput() is true
+  response_format?: ResponseFormat;
+  // Constrains sampling of local models; applied by NodeLlamaCppProvider
+  grammar?: GrammarInput;
+  // Cancels the request, including a stream in progress
+  signal?: AbortSignal;
   [key: string]: any;
 }
 
@@ -37,11 +73,19 @@ export interface LLMProvider {
   
   completion(params: CompletionParams): Promise<ProviderResponse>;
   
-  stream?(params: CompletionParams, onChunk: (chunk: StreamChunk) => void): Promise<void>;
+  stream?(params: CompletionParams, onChunk: StreamChunkHandler): Promise<void>;
   
   supportsTools?(): boolean;
   supportsStreaming?(): boolean;
   supportsMultiModal?(): boolean;
+  // Whether `response_format` is enforced by the provider's own API
+  supportsStructuredOutput?(): boolean;
+  
+  // Tokenizer matching the model's vocabulary, when the provider can supply one
+  getTokenizer?(): Tokenizer | undefined;
+  
+  // Model the requests are sent to; used for token counting and cost estimates
+  getModel?(): string | undefined;
   
   // Provider-specific configuration
   configure?(options: Record<string, any>): void;
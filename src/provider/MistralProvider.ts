@@ -1,4 +1,4 @@
-import type { LLMProvider, CompletionParams, ProviderResponse, StreamChunk } from './LLMProvider';
+import type { LLMProvider, CompletionParams, ProviderResponse, StreamChunkHandler, TokenUsage } from './LLMProvider';
 import type { ChatMessage } from '../chat/types';
 import { HTTPRetryHandler } from '../utils/RetryHandler';
 
@@ -45,7 +45,7 @@ export class MistralProvider implements LLMProvider {
       stream: false,
     };
 
-    const response = await this.makeRequest(requestBody);
+    const response = await this.makeRequest(requestBody, params.signal);
     
     if (!response.choices || response.choices.length === 0) {
       throw new Error('No choices returned from Mistral API');
@@ -72,15 +72,11 @@ export class MistralProvider implements LLMProvider {
         toolCalls: toolCalls.length > 0 ? toolCalls : undefined
       },
       finished: choice.finish_reason === 'stop' || choice.finish_reason === 'length',
-      usage: response.usage ? {
-        prompt_tokens: response.usage.prompt_tokens,
-        completion_tokens: response.usage.completion_tokens,
-        total_tokens: response.usage.total_tokens
-      } : undefined
+      usage: response.usage ? this.formatUsage(response.usage) : undefined
     };
   }
   
-  async stream(params: CompletionParams, onChunk: (chunk: StreamChunk) => void): Promise<void> {
+  async stream(params: CompletionParams, onChunk: StreamChunkHandler): Promise<void> {
     const requestBody = {
       model: this.config.model,
       messages: this.formatMessages(params.messages),
@@ -102,6 +98,7 @@ export class MistralProvider implements LLMProvider {
             'Authorization': `Bearer ${this.config.apiKey}`,
           },
           body: JSON.stringify(requestBody),
+          signal: params.signal,
         });
 
         if (!response.ok) {
@@ -113,6 +110,7 @@ export class MistralProvider implements LLMProvider {
       },
       {
         operationName: 'Mistral API streaming',
+        signal: params.signal,
         metadata: { 
           model: this.config.model,
           streaming: true
@@ -142,7 +140,7 @@ export class MistralProvider implements LLMProvider {
           
           const data = line.slice(6);
           if (data === '[DONE]') {
-            onChunk({
+            await onChunk({
               content: '',
               raw: { type: 'done' },
               finished: true
@@ -158,7 +156,7 @@ export class MistralProvider implements LLMProvider {
               const delta = choice.delta;
               
               if (delta.content) {
-                onChunk({
+                await onChunk({
                   content: delta.content,
                   token: delta.content,
                   raw: parsed,
@@ -169,7 +167,7 @@ export class MistralProvider implements LLMProvider {
               if (delta.tool_calls) {
                 for (const toolCall of delta.tool_calls) {
                   if (toolCall.function) {
-                    onChunk({
+                    await onChunk({
                       content: '',
                       raw: {
                         ...parsed,
@@ -188,10 +186,12 @@ export class MistralProvider implements LLMProvider {
               }
               
               if (choice.finish_reason === 'stop' || choice.finish_reason === 'length') {
-                onChunk({
+                const usage = parsed.usage;
+                await onChunk({
                   content: '',
                   raw: parsed,
-                  finished: true
+                  finished: true,
+                  usage: usage ? this.formatUsage(usage) : undefined
                 });
                 break;
               }
@@ -206,14 +206,32 @@ export class MistralProvider implements LLMProvider {
     }
   }
   
+  private formatUsage(usage: any): TokenUsage {
+    return {
+      prompt_tokens: usage.prompt_tokens,
+      completion_tokens: usage.completion_tokens,
+      total_tokens: usage.total_tokens
+    };
+  }
+  
   private formatMessages(messages: ChatMessage[]) {
     return messages.map(message => {
       if (message.role === 'tool') {
-        const toolMessage = message as any;
         return {
           role: 'tool',
           content: message.content,
-          tool_call_id: toolMessage.name // This should be the tool call ID
+          tool_call_id: message.tool_call_id ?? message.name
+        };
+      }
+      if (message.role === 'assistant' && message.tool_calls?.length) {
+        return {
+          role: 'assistant',
+          content: message.content,
+          tool_calls: message.tool_calls.map(toolCall => ({
+            id: toolCall.id,
+            type: 'function',
+            function: { name: toolCall.name, arguments: JSON.stringify(toolCall.arguments) }
+          }))
         };
       }
       return {
@@ -234,7 +252,7 @@ export class MistralProvider implements LLMProvider {
     }));
   }
   
-  private async makeRequest(body: any) {
+  private async makeRequest(body: any, signal?: AbortSignal) {
     return this.retryHandler.execute(
       async () => {
         const response = await fetch(`${this.config.baseURL}/${this.config.endpoint}`, {
@@ -244,6 +262,7 @@ export class MistralProvider implements LLMProvider {
             'Authorization': `Bearer ${this.config.apiKey}`,
           },
           body: JSON.stringify(body),
+          signal,
         });
         
         if (!response.ok) {
@@ -255,6 +274,7 @@ export class MistralProvider implements LLMProvider {
       },
       {
         operationName: 'Mistral API request',
+        signal,
         metadata: { 
           model: this.config.model,
           endpoint: `${this.config.baseURL}/${this.config.endpoint}`
@@ -271,6 +291,10 @@ export class MistralProvider implements LLMProvider {
     return true;
   }
   
+  getModel(): string {
+    return this.config.model;
+  }
+  
   configure(options: Record<string, any>): void {
     this.config = { ...this.config, ...options };
   }
@@ -1,7 +1,10 @@
-import { LLMProvider, ProviderResponse, StreamChunk, CompletionParams } from './LLMProvider';
+import { LLMProvider, ProviderResponse, StreamChunkHandler, CompletionParams, TokenUsage } from './LLMProvider';
 import { HTTPRetryHandler } from '../utils/RetryHandler';
 import type { ChatMessage } from '../chat/types';
+import { LlamaCppTokenizer } from '../utils/tokenizer';
+import { throwIfAborted } from '../utils/abort';
 import { validateMediaForProvider } from '../providers/multimodal';
+import { grammarToGbnf, jsonSchemaToGbnf } from '../utils/gbnf';
 
 export interface NodeLlamaCppConfig {
   modelPath: string;
@@ -42,6 +45,7 @@ export class NodeLlamaCppProvider implements LLMProvider {
   private chatSession: any; // LlamaChatSession instance
   private capabilities: ModelCapabilities;
   private isInitialized: boolean = false;
+  private tokenizer?: LlamaCppTokenizer;
 
   constructor(config: NodeLlamaCppConfig) {
     this.config = {
@@ -171,6 +175,32 @@ export class NodeLlamaCppProvider implements LLMProvider {
     return true;
   }
 
+  supportsStructuredOutput(): boolean {
+    return true;
+  }
+
+  getTokenizer(): LlamaCppTokenizer | undefined {
+    // Available once the model has been loaded by the first request
+    if (!this.tokenizer && this.isInitialized && this.model) {
+      this.tokenizer = new LlamaCppTokenizer(this.model);
+    }
+    return this.tokenizer;
+  }
+
+  // Counted with the model's own vocabulary since node-llama-cpp doesn't report usage
+  private countUsage(prompt: string, response: string, generated?: number): TokenUsage | undefined {
+    const tokenizer = this.getTokenizer();
+    if (!tokenizer) return undefined;
+
+    const promptTokens = tokenizer.countTokens(prompt);
+    const completionTokens = generated ?? tokenizer.countTokens(response);
+    return {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens
+    };
+  }
+
   private validateMultiModalContent(messages: ChatMessage[]): void {
     const hasImages = messages.some(msg => {
       if (typeof msg.content === 'string') return false;
@@ -255,35 +285,36 @@ export class NodeLlamaCppProvider implements LLMProvider {
       this.validateMultiModalContent(params.messages);
 
       const prompt = this.formatMessagesForLlama(params.messages);
+      const grammar = await this.createGrammar(params);
       
       // Use LlamaChatSession API
       const response = await this.chatSession.prompt(prompt, {
+        grammar,
         maxTokens: params.max_tokens || 1000,
         temperature: this.config.temperature,
         topK: this.config.topK,
         topP: this.config.topP,
         repeatPenalty: this.config.repeatPenalty,
-        seed: this.config.seed
+        seed: this.config.seed,
+        signal: params.signal
       });
+      throwIfAborted(params.signal);
 
       return {
         content: response || '',
-        usage: {
-          prompt_tokens: 0, // node-llama-cpp doesn't expose token counts directly
-          completion_tokens: 0,
-          total_tokens: 0
-        },
+        usage: this.countUsage(prompt, response || ''),
         raw: { response },
         finished: true
       };
     }, {
-      operationName: 'node-llama-cpp completion'
+      operationName: 'node-llama-cpp completion',
+      signal: params.signal
     });
   }
 
   async stream(
     params: CompletionParams,
-    onChunk?: (chunk: StreamChunk) => void
+    onChunk?: StreamChunkHandler
   ): Promise<void> {
     if (!this.isInitialized) {
       await this.initialize();
@@ -294,9 +325,11 @@ export class NodeLlamaCppProvider implements LLMProvider {
       this.validateMultiModalContent(params.messages);
 
       const prompt = this.formatMessagesForLlama(params.messages);
+      const grammar = await this.createGrammar(params);
       
       let fullResponse = '';
       let tokensGenerated = 0;
+      let delivered: Promise<void> = Promise.resolve();
       
       const response = await this.context.evaluate({
         inputText: prompt,
@@ -306,31 +339,50 @@ export class NodeLlamaCppProvider implements LLMProvider {
         topP: this.config.topP,
         repeatPenalty: this.config.repeatPenalty,
         seed: this.config.seed,
+        grammar,
+        signal: params.signal,
         onToken: (token: string) => {
+          // Generation stops at the signal; tokens already queued are dropped
+          if (params.signal?.aborted) return;
+
           fullResponse += token;
           tokensGenerated++;
           
+          // onToken can't wait for the handler, so deliveries are chained in order
           if (onChunk) {
-            onChunk({
+            delivered = delivered.then(() => onChunk({
               content: token,
               finished: false
-            });
+            }));
           }
         }
       });
 
+      await delivered;
+      throwIfAborted(params.signal);
+
       // Send final chunk
       if (onChunk) {
-        onChunk({
+        await onChunk({
           content: '',
-          finished: true
+          finished: true,
+          usage: this.countUsage(prompt, fullResponse, tokensGenerated)
         });
       }
     }, {
-      operationName: 'node-llama-cpp streaming'
+      operationName: 'node-llama-cpp streaming',
+      signal: params.signal
     });
   }
 
+  // A grammar given explicitly wins over the one a response format implies
+  private async createGrammar(params: CompletionParams): Promise<any> {
+    const gbnf = params.grammar
+      ? grammarToGbnf(params.grammar)
+      : params.response_format ? jsonSchemaToGbnf(params.response_format.schema) : undefined;
+    return gbnf === undefined ? undefined : this.llama.createGrammar({ grammar: gbnf });
+  }
+
   async dispose(): Promise<void> {
     try {
       if (this.context) {
@@ -339,6 +391,7 @@ export class NodeLlamaCppProvider implements LLMProvider {
       if (this.model) {
         await this.model.dispose();
       }
+      this.tokenizer = undefined;
       this.isInitialized = false;
     } catch (error) {
       console.warn('Error disposing node-llama-cpp resources:', error);
@@ -1,4 +1,4 @@
-import type { LLMProvider, CompletionParams, ProviderResponse, StreamChunk } from './LLMProvider';
+import type { LLMProvider, CompletionParams, ProviderResponse, StreamChunkHandler, TokenUsage } from './LLMProvider';
 import type { ChatMessage } from '../chat/types';
 
 export interface OllamaConfig {
@@ -36,10 +36,11 @@ export class OllamaProvider implements LLMProvider {
         stop: params.stop,
       },
       tools: params.tools ? this.formatTools(params.tools) : undefined,
+      format: params.response_format?.schema,
       stream: false,
     };
 
-    const response = await this.makeRequest('api/chat', requestBody);
+    const response = await this.makeRequest('api/chat', requestBody, params.signal);
     
     if (!response.message) {
       throw new Error('No message returned from Ollama API');
@@ -66,15 +67,11 @@ export class OllamaProvider implements LLMProvider {
         toolCalls: toolCalls.length > 0 ? toolCalls : undefined
       },
       finished: response.done === true,
-      usage: response.prompt_eval_count ? {
-        prompt_tokens: response.prompt_eval_count,
-        completion_tokens: response.eval_count,
-        total_tokens: (response.prompt_eval_count || 0) + (response.eval_count || 0)
-      } : undefined
+      usage: this.formatUsage(response)
     };
   }
   
-  async stream(params: CompletionParams, onChunk: (chunk: StreamChunk) => void): Promise<void> {
+  async stream(params: CompletionParams, onChunk: StreamChunkHandler): Promise<void> {
     const requestBody = {
       model: this.config.model,
       messages: this.formatMessages(params.messages),
@@ -94,6 +91,7 @@ export class OllamaProvider implements LLMProvider {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify(requestBody),
+      signal: params.signal,
     });
 
     if (!response.ok) {
@@ -127,7 +125,7 @@ export class OllamaProvider implements LLMProvider {
               const message = parsed.message;
               
               if (message.content) {
-                onChunk({
+                await onChunk({
                   content: message.content,
                   token: message.content,
                   raw: parsed,
@@ -137,7 +135,7 @@ export class OllamaProvider implements LLMProvider {
               
               if (message.tool_calls) {
                 for (const toolCall of message.tool_calls) {
-                  onChunk({
+                  await onChunk({
                     content: '',
                     raw: {
                       ...parsed,
@@ -156,10 +154,11 @@ export class OllamaProvider implements LLMProvider {
             }
             
             if (parsed.done === true) {
-              onChunk({
+              await onChunk({
                 content: '',
                 raw: parsed,
-                finished: true
+                finished: true,
+                usage: this.formatUsage(parsed)
               });
               break;
             }
@@ -173,14 +172,35 @@ export class OllamaProvider implements LLMProvider {
     }
   }
   
+  // Counts come with the final (done) response; prompt_eval_count is left out when the prompt was cached
+  private formatUsage(response: any): TokenUsage | undefined {
+    if (response.prompt_eval_count === undefined && response.eval_count === undefined) {
+      return undefined;
+    }
+    return {
+      prompt_tokens: response.prompt_eval_count || 0,
+      completion_tokens: response.eval_count || 0,
+      total_tokens: (response.prompt_eval_count || 0) + (response.eval_count || 0)
+    };
+  }
+  
   private formatMessages(messages: ChatMessage[]) {
     return messages.map(message => {
       if (message.role === 'tool') {
-        const toolMessage = message as any;
         return {
           role: 'tool',
           content: message.content,
-          name: toolMessage.name
+          name: message.name
+        };
+      }
+      // Ollama has no call ids; results follow their calls in order
+      if (message.role === 'assistant' && message.tool_calls?.length) {
+        return {
+          role: 'assistant',
+          content: message.content,
+          tool_calls: message.tool_calls.map(toolCall => ({
+            function: { name: toolCall.name, arguments: toolCall.arguments }
+          }))
         };
       }
       return {
@@ -201,13 +221,14 @@ export class OllamaProvider implements LLMProvider {
     }));
   }
   
-  private async makeRequest(endpoint: string, body: any) {
+  private async makeRequest(endpoint: string, body: any, signal?: AbortSignal) {
     const response = await fetch(`${this.config.baseURL}/${endpoint}`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify(body),
+      signal,
     });
     
     if (!response.ok) {
@@ -230,6 +251,14 @@ export class OllamaProvider implements LLMProvider {
     // Depends on the specific model (e.g., llava supports vision)
     return true;
   }
+
+  supportsStructuredOutput(): boolean {
+    return true;
+  }
+  
+  getModel(): string {
+    return this.config.model;
+  }
   
   configure(options: Record<string, any>): void {
     this.config = { ...this.config, ...options };
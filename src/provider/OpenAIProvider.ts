@@ -1,4 +1,4 @@
-import { LLMProvider, ProviderResponse, StreamChunk, CompletionParams } from './LLMProvider';
+import { LLMProvider, ProviderResponse, StreamChunkHandler, CompletionParams, ResponseFormat } from './LLMProvider';
 import { HTTPRetryHandler } from '../utils/RetryHandler';
 import { toOpenAIFormat } from '../providers/multimodal';
 import type { ChatMessage } from '../chat/types';
@@ -35,8 +35,9 @@ export class OpenAIProvider implements LLMProvider {
       stop: params.stop,
       tools: params.tools,
       tool_choice: params.tool_choice,
+      response_format: this.formatResponseFormat(params.response_format),
       stream: false
-    });
+    }, params.signal);
 
     const choice = response.choices[0];
     
@@ -48,7 +49,7 @@ export class OpenAIProvider implements LLMProvider {
     };
   }
 
-  async stream(params: CompletionParams, onChunk: (chunk: StreamChunk) => void): Promise<void> {
+  async stream(params: CompletionParams, onChunk: StreamChunkHandler): Promise<void> {
     const response = await this.retryHandler.execute(
       async () => {
         const response = await fetch(this.getEndpoint(), {
@@ -63,8 +64,10 @@ export class OpenAIProvider implements LLMProvider {
             stop: params.stop,
             tools: params.tools,
             tool_choice: params.tool_choice,
-            stream: true
-          })
+            stream: true,
+            stream_options: { include_usage: true }
+          }),
+          signal: params.signal
         });
 
         if (!response.ok) {
@@ -76,6 +79,7 @@ export class OpenAIProvider implements LLMProvider {
       },
       {
         operationName: 'OpenAI API streaming',
+        signal: params.signal,
         metadata: { 
           model: this.config.model,
           streaming: true
@@ -105,10 +109,10 @@ export class OpenAIProvider implements LLMProvider {
 
             try {
               const chunk = JSON.parse(data);
-              const delta = chunk.choices[0]?.delta;
+              const delta = chunk.choices?.[0]?.delta;
               
               if (delta?.content) {
-                onChunk({
+                await onChunk({
                   content: delta.content,
                   raw: chunk,
                   finished: chunk.choices[0]?.finish_reason !== null
@@ -117,10 +121,28 @@ export class OpenAIProvider implements LLMProvider {
 
               if (delta?.tool_calls) {
                 // Handle tool calls in streaming
-                onChunk({
+                for (const toolCall of delta.tool_calls) {
+                  await onChunk({
+                    content: '',
+                    raw: { ...chunk, tool_calls: delta.tool_calls },
+                    finished: false,
+                    toolCallDelta: {
+                      index: toolCall.index ?? 0,
+                      id: toolCall.id,
+                      name: toolCall.function?.name,
+                      arguments: toolCall.function?.arguments
+                    }
+                  });
+                }
+              }
+
+              // With include_usage, the last chunk has no choices and carries the usage
+              if (chunk.usage) {
+                await onChunk({
                   content: '',
-                  raw: { ...chunk, tool_calls: delta.tool_calls },
-                  finished: false
+                  raw: chunk,
+                  finished: true,
+                  usage: chunk.usage
                 });
               }
             } catch (e) {
@@ -134,13 +156,14 @@ export class OpenAIProvider implements LLMProvider {
     }
   }
 
-  private async makeRequest(data: any): Promise<any> {
+  private async makeRequest(data: any, signal?: AbortSignal): Promise<any> {
     return this.retryHandler.execute(
       async () => {
         const response = await fetch(this.getEndpoint(), {
           method: 'POST',
           headers: this.getHeaders(),
-          body: JSON.stringify(data)
+          body: JSON.stringify(data),
+          signal
         });
 
         if (!response.ok) {
@@ -152,6 +175,7 @@ export class OpenAIProvider implements LLMProvider {
       },
       {
         operationName: 'OpenAI API completion',
+        signal,
         metadata: { 
           model: this.config.model,
           endpoint: this.getEndpoint()
@@ -181,10 +205,27 @@ export class OpenAIProvider implements LLMProvider {
     return true;
   }
 
+  supportsStructuredOutput(): boolean {
+    return true;
+  }
+
+  getModel(): string {
+    return this.config.model;
+  }
+
   configure(options: Record<string, any>): void {
     Object.assign(this.config, options);
   }
 
+  // Not strict: strict mode rejects optional properties, which zod schemas often have
+  private formatResponseFormat(format?: ResponseFormat) {
+    if (!format) return undefined;
+    return {
+      type: 'json_schema',
+      json_schema: { name: format.name, description: format.description, schema: format.schema, strict: false }
+    };
+  }
+
   private formatMessages(messages: ChatMessage[]): any[] {
     return messages.map(message => {
       const formattedContent = toOpenAIFormat(message.content);
@@ -194,12 +235,17 @@ export class OpenAIProvider implements LLMProvider {
         content: formattedContent
       };
       
-      // Handle tool message properties
-      if (message.role === 'tool' && 'name' in message) {
-        result.name = message.name;
+      // Pair tool calls and their results by id
+      if (message.role === 'assistant' && message.tool_calls?.length) {
+        result.content = formattedContent || null;
+        result.tool_calls = message.tool_calls.map(toolCall => ({
+          id: toolCall.id,
+          type: 'function',
+          function: { name: toolCall.name, arguments: JSON.stringify(toolCall.arguments) }
+        }));
       }
-      if (message.role === 'tool' && 'args' in message && message.args) {
-        result.args = message.args;
+      if (message.role === 'tool') {
+        result.tool_call_id = message.tool_call_id ?? message.name;
       }
       
       return result;
@@ -1,21 +1,55 @@
-import type { LLMProvider, CompletionParams } from '../provider';
+import type { LLMProvider, CompletionParams, TokenUsage } from '../provider';
 import type { MessageExtractor, ExtractedSegment, ToolCall } from '../extractor';
 import type { Template } from '../template/types';
 import type { ChatMessage, MessageContent } from '../chat/types';
 import { extractText, isMultiModal } from '../utils/media';
 import type { MCPService } from '../mcp/MCPService';
+import { appendContent } from '../mcp/content';
 import { StreamingExtractor } from '../extractor/streaming/StreamingExtractor';
+import { NativeToolCallAssembler, toolCallUpdates, type ToolCallStreamUpdate } from '../extractor/streaming/nativeToolCallAssembler';
 import { MonitoringService } from '../monitoring/MonitoringService';
 import { v4 as uuidv4 } from 'uuid';
 import { estimateCost } from '../utils/cost';
+import { toolSchemaAdapterRegistry, isToolInScope, selectToolsInScope, toolResultMessage, type ToolSchemaAdapterRegistry, type ToolScopeOptions } from '../tools';
+import type { ToolDefinition } from '../tools/types';
+import type { SessionStorage, SessionData } from './storage';
+import { applyContextStrategies, TokenBudgetStrategy, type ContextStrategy, type ContextTrimReport, type MessageTokenCounter } from './contextWindow';
+import { getContextLimit } from '../utils/contextLimits';
+import { tokenizerRegistry, countMessageTokens, type Tokenizer } from '../utils/tokenizer';
+import { SummaryMemory, applySummary, type ConversationSummary, type SummaryMemoryOptions } from './summaryMemory';
+import { abortable, combineSignals, throwIfAborted } from '../utils/abort';
+import { runWithConcurrency } from '../utils/concurrency';
+import { EventChannel, type ChatStreamEvent, type ChatStreamResult, type ChatUsage } from './streamEvents';
+import { requiresApproval, deniedToolResult, type PendingToolApprovals, type ToolApprovalDecision, type ToolApprovalRequest } from './toolApproval';
+import { StructuredOutputError, parseStructuredOutput, structuredOutputInstructions, structuredRepairPrompt, structuredResponseFormat, type StructuredChatOptions } from './structuredOutput';
+import type { z, ZodTypeAny } from 'zod';
 
 export interface ChatSessionOptions {
   maxToolCalls?: number;
-  toolCallTimeout?: number;
+  toolCallTimeout?: number;   // Per call, counted from when the call starts
+  toolConcurrency?: number;   // Tool calls from one model turn run at once; defaults to 1 (sequential)
   agenticMode?: boolean;
   maxAgenticIterations?: number;
   onToolCall?: (toolCall: ToolCall, result: any) => void;
   onError?: (error: Error) => void;
+  // Decides approvals inline; without it a turn pauses until `resolveApprovals`
+  onApprovalRequest?: (request: ToolApprovalRequest) => Promise<ToolApprovalDecision> | ToolApprovalDecision;
+  toolSchemaAdapters?: ToolSchemaAdapterRegistry;
+  toolScope?: ToolScopeOptions;  // Which registered tools the model is offered and may call
+  storage?: SessionStorage;
+  autoSave?: {
+    enabled?: boolean;     // Defaults to true when a storage is set
+    debounceMs?: number;   // 0 saves at the end of every turn
+  };
+  contextWindow?: {
+    strategies?: ContextStrategy[];  // Defaults to token-budget trimming when the window is known
+    maxTokens?: number;              // Overrides provider config and the model table
+    reserveTokens?: number;          // Kept free for the response; defaults to max_tokens or a quarter of the window
+    countTokens?: MessageTokenCounter;
+    onTrim?: (report: ContextTrimReport) => void;
+  };
+  summarization?: SummaryMemoryOptions;
+  tokenizer?: Tokenizer;  // Defaults to the provider's tokenizer or the registry entry for its model
   monitoring?: {
     enabled?: boolean;
     trackTokens?: boolean;
@@ -31,15 +65,31 @@ export interface ToolCallResult {
   arguments: Record<string, any>;
   result?: any;
   error?: string;
+  denied?: boolean;
   timestamp: number;
 }
 
+type ToolCallOutcome =
+  | { result: any; duration: number }
+  | { error: Error }
+  | { denied: true; reason?: string };
+
 export class ChatSession {
   private history: ChatMessage[] = [];
   private toolCallResults: ToolCallResult[] = [];
   private options: ChatSessionOptions;
   private monitoringService?: MonitoringService;
   private sessionStartTime: Date;
+  private createdAt: Date;
+  private saveTimer?: ReturnType<typeof setTimeout>;
+  private pendingSave: Promise<void> = Promise.resolve();
+  private summary?: ConversationSummary;
+  private summaryMemory?: SummaryMemory;
+  private tokenCounts = new WeakMap<ChatMessage, { tokenizer: Tokenizer; count: number }>();
+  // Token usage of the current turn, summed over every provider request it makes
+  private requestUsage: ChatUsage = { inputTokens: 0, outputTokens: 0 };
+  private promptTokens = 0;
+  private pendingApprovals?: PendingToolApprovals;
 
   constructor(
     public id: string,
@@ -68,22 +118,68 @@ export class ChatSession {
       ...options
     };
     this.sessionStartTime = new Date();
+    this.createdAt = this.sessionStartTime;
     this.monitoringService = monitoringService;
+    if (this.options.summarization) {
+      this.summaryMemory = new SummaryMemory(this.options.summarization);
+    }
     
     if (this.isMonitoringEnabled() && this.monitoringService && this.agentId) {
       this.monitoringService.startSession(this.id, this.agentId);
     }
   }
 
+  /**
+   * Rehydrate a session saved to storage. Saved options are restored and
+   * overridden by `options`; the storage is kept for further saves.
+   */
+  static async resume(
+    sessionId: string,
+    storage: SessionStorage,
+    provider: LLMProvider,
+    extractor: MessageExtractor,
+    template: Template,
+    mcpService?: MCPService,
+    options: ChatSessionOptions = {},
+    monitoringService?: MonitoringService
+  ): Promise<ChatSession> {
+    const data = await storage.loadSession(sessionId);
+    if (!data) {
+      throw new Error(`Session '${sessionId}' not found in storage`);
+    }
+
+    const session = new ChatSession(
+      sessionId,
+      provider,
+      extractor,
+      template,
+      mcpService,
+      data.history,
+      { ...data.options, ...options, storage },
+      data.agentId,
+      monitoringService
+    );
+    session.toolCallResults = [...(data.toolCallResults || [])];
+    session.summary = data.summary;
+    session.pendingApprovals = data.pendingApprovals;
+    session.createdAt = data.metadata.createdAt;
+    return session;
+  }
+
   async chat(message: string | MessageContent, params: Partial<CompletionParams> = {}): Promise<string> {
     const requestId = uuidv4();
     const startTime = Date.now();
+    this.requestUsage = { inputTokens: 0, outputTokens: 0 };
     
     if (this.isMonitoringEnabled()) {
       this.trackRequestStart(requestId, message, params);
     }
     
+    const turnStart = this.history.length;
+    
     try {
+      throwIfAborted(params.signal);
+      this.assertNoPendingApprovals();
       this.addMessage({ role: 'user', content: message });
       
       let response: string;
@@ -103,20 +199,125 @@ export class ChatSession {
       if (this.isMonitoringEnabled()) {
         this.trackRequestEnd(requestId, '', startTime, false, error);
       }
+      this.rollbackCancelledTurn(turnStart, params.signal);
       
       throw error;
+    } finally {
+      if (!params.signal?.aborted) await this.updateSummary();
+      await this.autoSave();
+    }
+  }
+
+  /**
+   * Ask for a reply matching a zod schema and return it parsed and validated.
+   * Invalid replies are sent back with the validation errors until
+   * `maxRepairAttempts` runs out, then a StructuredOutputError is thrown.
+   */
+  async chatStructured<T extends ZodTypeAny>(
+    message: string | MessageContent,
+    schema: T,
+    options: StructuredChatOptions = {},
+    params: Partial<CompletionParams> = {}
+  ): Promise<z.infer<T>> {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+    this.requestUsage = { inputTokens: 0, outputTokens: 0 };
+
+    if (this.isMonitoringEnabled()) {
+      this.trackRequestStart(requestId, message, params);
+    }
+
+    const turnStart = this.history.length;
+
+    try {
+      throwIfAborted(params.signal);
+      this.assertNoPendingApprovals();
+      this.addMessage({ role: 'user', content: message });
+
+      const { data, rawText } = await this.structuredTurn(schema, options, params);
+
+      if (this.isMonitoringEnabled()) {
+        this.trackRequestEnd(requestId, rawText, startTime, true);
+      }
+
+      return data;
+
+    } catch (error) {
+      if (this.isMonitoringEnabled()) {
+        this.trackRequestEnd(requestId, '', startTime, false, error);
+      }
+      this.rollbackCancelledTurn(turnStart, params.signal);
+
+      throw error;
+    } finally {
+      if (!params.signal?.aborted) await this.updateSummary();
+      await this.autoSave();
+    }
+  }
+
+  // Repair rounds stay out of the history; only the last reply is recorded
+  private async structuredTurn(
+    schema: ZodTypeAny,
+    options: StructuredChatOptions,
+    params: Partial<CompletionParams>
+  ): Promise<{ data: any; rawText: string }> {
+    const { wrapped, ...responseFormat } = structuredResponseFormat(schema, options);
+    const mode = options.mode ?? 'auto';
+    const native = mode !== 'prompt' && this.provider.supportsStructuredOutput?.() === true;
+    if (mode === 'native' && !native) {
+      throw new Error(`Provider '${this.getProviderName()}' has no native structured output`);
+    }
+
+    // A copy, as prepared messages may be the history itself
+    const messages = [...this.prepareMessages(params)];
+    if (!native) {
+      messages.push({ role: 'system', content: structuredOutputInstructions(responseFormat.schema) });
+    }
+
+    const maxAttempts = (options.maxRepairAttempts ?? 2) + 1;
+    let rawText = '';
+    for (let attempt = 1; ; attempt++) {
+      throwIfAborted(params.signal);
+      const response = await this.provider.completion({
+        messages: [...messages],
+        ...(native && { response_format: responseFormat }),
+        ...params
+      });
+      rawText = response.content || '';
+      this.recordUsage(response.usage, rawText);
+
+      const parsed = parseStructuredOutput(rawText, schema, wrapped);
+      if (parsed.success) {
+        this.addMessage({ role: 'assistant', content: rawText });
+        return { data: parsed.data, rawText };
+      }
+
+      if (attempt >= maxAttempts) {
+        this.addMessage({ role: 'assistant', content: rawText });
+        throw new StructuredOutputError(
+          `Reply did not match the schema after ${attempt} attempt(s): ${parsed.error}`,
+          rawText,
+          parsed.issues,
+          attempt
+        );
+      }
+      messages.push(
+        { role: 'assistant', content: rawText },
+        { role: 'user', content: structuredRepairPrompt(parsed.error) }
+      );
     }
   }
 
   private async singleTurnChat(params: Partial<CompletionParams>): Promise<string> {
     const response = await this.provider.completion({
-      messages: this.history,
+      messages: this.prepareMessages(params),
       tools: this.mcpService ? this.getToolsForProvider() : undefined,
       ...params
     });
+    this.recordUsage(response.usage, response.content);
 
     const segments = this.extractor.extract(response.raw);
-    return this.processSegments(segments);
+    return this.processSegments(segments, params.signal);
   }
 
   private async agenticChat(params: Partial<CompletionParams>): Promise<string> {
@@ -124,18 +325,20 @@ export class ChatSession {
     let iterations = 0;
     
     while (iterations < (this.options.maxAgenticIterations || 5)) {
+      throwIfAborted(params.signal);
       const response = await this.provider.completion({
-        messages: this.history,
+        messages: this.prepareMessages(params),
         tools: this.mcpService ? this.getToolsForProvider() : undefined,
         ...params
       });
+      this.recordUsage(response.usage, response.content);
 
       const segments = this.extractor.extract(response.raw);
-      const result = await this.processSegments(segments);
+      const result = await this.processSegments(segments, params.signal);
       
-      // If no tool calls were made, we're done
+      // If no tool calls were made, or they wait for approval, we're done
       const hasToolCalls = segments.some(s => s.type === 'tool_call');
-      if (!hasToolCalls) {
+      if (!hasToolCalls || this.pendingApprovals) {
         finalResponse = result;
         break;
       }
@@ -146,100 +349,303 @@ export class ChatSession {
     return finalResponse;
   }
 
+  /**
+   * Stream a reply through a callback; built on `streamEvents`
+   */
   async stream(
     message: string | MessageContent,
     params: Partial<CompletionParams> = {},
     onChunk?: (data: { type: 'content' | 'tool_call' | 'tool_result', data: any }) => void
   ): Promise<string> {
+    for await (const event of this.streamEvents(message, params)) {
+      switch (event.type) {
+        case 'content':
+          onChunk?.({ type: 'content', data: event.delta });
+          break;
+        case 'tool_call_complete':
+          onChunk?.({ type: 'tool_call', data: event.toolCall });
+          break;
+        case 'tool_result':
+          onChunk?.({ type: 'tool_result', data: event.result });
+          break;
+        case 'error':
+          throw event.error;
+        case 'done':
+          return event.result.content;
+      }
+    }
+    return '';
+  }
+
+  /**
+   * Tool calls the current turn is paused on, empty when nothing waits
+   */
+  getPendingApprovals(): ToolApprovalRequest[] {
+    return this.pendingApprovals ? this.pendingApprovals.requests.map(request => ({ ...request })) : [];
+  }
+
+  /**
+   * Continue a turn paused for approval, with a decision for every pending
+   * request keyed by tool call id. Denied calls are answered with a result
+   * saying so. In agentic mode the model then gets the results and its reply
+   * is returned, as from `chat`; otherwise the reply is empty.
+   */
+  async resolveApprovals(
+    decisions: Record<string, ToolApprovalDecision>,
+    params: Partial<CompletionParams> = {}
+  ): Promise<string> {
+    const pending = this.pendingApprovals;
+    if (!pending) {
+      throw new Error(`Session '${this.id}' has no tool calls waiting for approval`);
+    }
+    const missing = pending.requests.filter(request => !decisions[request.toolCallId]);
+    if (missing.length > 0) {
+      throw new Error(`Missing approval decisions for tool calls: ${missing.map(request => request.toolCallId).join(', ')}`);
+    }
+
     const requestId = uuidv4();
     const startTime = Date.now();
+    this.requestUsage = { inputTokens: 0, outputTokens: 0 };
+
+    if (this.isMonitoringEnabled()) {
+      this.trackRequestStart(requestId, '', params);
+    }
+
+    const turnStart = this.history.length;
+    this.pendingApprovals = undefined;
+
+    try {
+      throwIfAborted(params.signal);
+      await this.executeToolCalls(pending.toolCalls, params.signal, undefined, decisions);
+      const response = this.options.agenticMode ? await this.agenticChat(params) : '';
+
+      if (this.isMonitoringEnabled()) {
+        this.trackRequestEnd(requestId, response, startTime, true);
+      }
+
+      return response;
+
+    } catch (error) {
+      if (this.isMonitoringEnabled()) {
+        this.trackRequestEnd(requestId, '', startTime, false, error);
+      }
+      if (params.signal?.aborted) {
+        // Cancelling leaves the calls waiting, as before
+        this.rollbackCancelledTurn(turnStart, params.signal);
+        this.pendingApprovals = pending;
+      }
+
+      throw error;
+    } finally {
+      if (!params.signal?.aborted) await this.updateSummary();
+      await this.autoSave();
+    }
+  }
+
+  /**
+   * Stream a reply as typed events:
+   *
+   *   for await (const event of session.streamEvents('Hi')) { ... }
+   *
+   * The provider is read only as fast as events are consumed, and leaving the
+   * loop early cancels the turn. Failures end the stream with an `error` event
+   * rather than throwing; the iterator returns the aggregated result.
+   */
+  async *streamEvents(
+    message: string | MessageContent,
+    params: Partial<CompletionParams> = {}
+  ): AsyncGenerator<ChatStreamEvent, ChatStreamResult | undefined, undefined> {
+    const stop = new AbortController();
+    const channel = new EventChannel<ChatStreamEvent>();
+    let result: ChatStreamResult | undefined;
+    let finished = false;
+
+    const { signal, release } = combineSignals(params.signal, stop.signal);
+    const run = this.runStream(message, { ...params, signal }, event => channel.push(event))
+      .then(
+        value => {
+          result = value;
+          return channel.push({ type: 'done', result: value });
+        },
+        error => channel.push({ type: 'error', error: error instanceof Error ? error : new Error(String(error)) })
+      )
+      .finally(() => {
+        release();
+        channel.close();
+      });
+
+    try {
+      for await (const event of channel) {
+        if (event.type === 'done' || event.type === 'error') finished = true;
+        yield event;
+      }
+      return result;
+    } finally {
+      if (!finished) {
+        stop.abort();
+        channel.close();
+      }
+      await run;
+    }
+  }
+
+  private async runStream(
+    message: string | MessageContent,
+    params: Partial<CompletionParams>,
+    emit: (event: ChatStreamEvent) => Promise<void>
+  ): Promise<ChatStreamResult> {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+    this.requestUsage = { inputTokens: 0, outputTokens: 0 };
     
     if (this.isMonitoringEnabled()) {
       this.trackRequestStart(requestId, message, params);
     }
     
+    const turnStart = this.history.length;
+    
     try {
+      throwIfAborted(params.signal);
+      this.assertNoPendingApprovals();
       this.addMessage({ role: 'user', content: message });
       
       if (!this.provider.stream) {
         throw new Error('Provider does not support streaming');
       }
 
-      const streamingExtractor = new StreamingExtractor({
-        baseExtractor: this.extractor
-      });
-
-      let finalContent = '';
-      const pendingToolCalls: ToolCall[] = [];
-      const toolCallsUsed: string[] = [];
+      // In agentic mode tool results go back to the model until it answers without tools
+      const maxIterations = this.options.agenticMode ? (this.options.maxAgenticIterations || 5) : 1;
+      let content = '';
+      const toolCalls: ToolCall[] = [];
+      const toolResults: ToolCallResult[] = [];
 
-      const monitoredOnChunk = (data: { type: 'content' | 'tool_call' | 'tool_result', data: any }) => {
-        if (this.isMonitoringEnabled()) {
-          if (data.type === 'tool_call') {
-            toolCallsUsed.push(data.data.name);
-            this.trackToolCall(requestId, data.data, Date.now() - startTime);
-          } else if (data.type === 'tool_result') {
-            this.trackToolResult(requestId, data.data);
-          }
+      for (let iteration = 0; iteration < maxIterations; iteration++) {
+        throwIfAborted(params.signal);
+        if (this.options.agenticMode) {
+          await emit({ type: 'iteration', iteration });
         }
-        onChunk?.(data);
-      };
 
-      await this.provider.stream({
-        messages: this.history,
-        tools: this.mcpService ? this.getToolsForProvider() : undefined,
-        ...params
-      }, async (chunk) => {
-        const segments = streamingExtractor.pushToken(chunk.token || chunk.content || '');
-        
-        for (const segment of segments) {
-          if (segment.type === 'content') {
-            finalContent += segment.data;
-            monitoredOnChunk({ type: 'content', data: segment.data });
-          } else if (segment.type === 'tool_call') {
-            const toolCall = segment.data as ToolCall;
-            pendingToolCalls.push(toolCall);
-            monitoredOnChunk({ type: 'tool_call', data: toolCall });
-          }
-        }
-      });
-
-      // Process any finalized tool calls
-      const finalSegments = streamingExtractor.finalize();
-      for (const segment of finalSegments) {
-        if (segment.type === 'tool_call') {
-          pendingToolCalls.push(segment.data as ToolCall);
-        }
-      }
-
-      // Execute tool calls in order
-      if (pendingToolCalls.length > 0) {
-        await this.executeToolCalls(pendingToolCalls, (result) => {
-          monitoredOnChunk({ type: 'tool_result', data: result });
-        });
-      }
+        const turn = await this.streamIteration(params, emit, requestId, startTime);
+        content = turn.content;
+        toolCalls.push(...turn.toolCalls);
+        toolResults.push(...turn.toolResults);
 
-      // Add assistant message with content
-      if (finalContent.trim()) {
-        this.addMessage({ role: 'assistant', content: finalContent });
+        if (turn.toolCalls.length === 0 || this.pendingApprovals) break;
       }
       
       if (this.isMonitoringEnabled()) {
-        this.trackRequestEnd(requestId, finalContent, startTime, true);
+        this.trackRequestEnd(requestId, content, startTime, true);
       }
 
-      return finalContent;
+      return {
+        content,
+        toolCalls,
+        toolResults,
+        usage: { ...this.requestUsage },
+        ...(this.pendingApprovals && { pendingApprovals: this.getPendingApprovals() })
+      };
       
     } catch (error) {
       if (this.isMonitoringEnabled()) {
         this.trackRequestEnd(requestId, '', startTime, false, error);
       }
+      this.rollbackCancelledTurn(turnStart, params.signal);
       
       throw error;
+    } finally {
+      if (!params.signal?.aborted) await this.updateSummary();
+      await this.autoSave();
+    }
+  }
+
+  /**
+   * One streamed provider request and the tool calls it makes
+   */
+  private async streamIteration(
+    params: Partial<CompletionParams>,
+    emit: (event: ChatStreamEvent) => Promise<void>,
+    requestId: string,
+    startTime: number
+  ): Promise<{ content: string; toolCalls: ToolCall[]; toolResults: ToolCallResult[] }> {
+    const streamingExtractor = new StreamingExtractor({
+      baseExtractor: this.extractor
+    });
+    const nativeToolCalls = new NativeToolCallAssembler();
+
+    let finalContent = '';
+    let streamedText = '';
+    let streamUsage: TokenUsage | undefined;
+    const pendingToolCalls: ToolCall[] = [];
+    const toolResults: ToolCallResult[] = [];
+
+    const emitSegments = async (segments: ExtractedSegment[]) => {
+      for (const segment of segments) {
+        if (segment.type === 'content') {
+          finalContent += segment.data;
+          await emit({ type: 'content', delta: segment.data });
+        } else if (segment.type === 'tool_call') {
+          await emitToolCallUpdates(toolCallUpdates(segment.data as ToolCall));
+        }
+      }
+    };
+
+    const emitToolCallUpdates = async (updates: ToolCallStreamUpdate[]) => {
+      for (const update of updates) {
+        if (update.type === 'start') {
+          await emit({ type: 'tool_call_start', id: update.id, name: update.name });
+        } else if (update.type === 'delta') {
+          await emit({ type: 'tool_call_delta', id: update.id, argumentsDelta: update.argumentsDelta });
+        } else {
+          pendingToolCalls.push(update.toolCall);
+          if (this.isMonitoringEnabled()) {
+            this.trackToolCall(requestId, update.toolCall, Date.now() - startTime);
+          }
+          await emit({ type: 'tool_call_complete', toolCall: update.toolCall });
+        }
+      }
+    };
+
+    await this.provider.stream!({
+      messages: this.prepareMessages(params),
+      tools: this.mcpService ? this.getToolsForProvider() : undefined,
+      ...params
+    }, async (chunk) => {
+      const text = chunk.token || chunk.content || '';
+      streamedText += text;
+      if (chunk.usage) streamUsage = chunk.usage;
+
+      await emitSegments(streamingExtractor.pushToken(text));
+      await emitToolCallUpdates(nativeToolCalls.push(chunk));
+    });
+    const usage = this.recordUsage(streamUsage, streamedText);
+    // Providers may return quietly once the signal stops their stream
+    throwIfAborted(params.signal);
+
+    // Flush anything the extractors still buffer
+    await emitSegments(streamingExtractor.finalize());
+    await emitToolCallUpdates(nativeToolCalls.finalize());
+    await emit({ type: 'usage', usage });
+
+    const toolCalls = this.addAssistantTurn(finalContent, pendingToolCalls);
+
+    // Execute tool calls in order
+    if (toolCalls.length > 0) {
+      const approvals = await this.executeToolCalls(toolCalls, params.signal, async (result) => {
+        toolResults.push(result);
+        if (this.isMonitoringEnabled()) {
+          this.trackToolResult(requestId, result);
+        }
+        await emit({ type: 'tool_result', result });
+      });
+      if (approvals.length > 0) {
+        await emit({ type: 'approval_required', requests: approvals });
+      }
     }
+
+    return { content: finalContent, toolCalls, toolResults };
   }
 
-  private async processSegments(segments: ExtractedSegment[]): Promise<string> {
+  private async processSegments(segments: ExtractedSegment[], signal?: AbortSignal): Promise<string> {
     let assistantContent = '';
     const toolCalls: ToolCall[] = [];
     
@@ -252,113 +658,311 @@ export class ChatSession {
       }
     }
 
-    // Add assistant message with content (before tool calls)
-    if (assistantContent.trim()) {
-      this.addMessage({ role: 'assistant', content: assistantContent });
-    }
+    // Without tools to run, the calls are not recorded, so no result goes unanswered
+    const calls = this.addAssistantTurn(assistantContent, this.mcpService ? toolCalls : []);
 
     // Execute tool calls in order
-    if (toolCalls.length > 0 && this.mcpService) {
-      await this.executeToolCalls(toolCalls);
+    if (calls.length > 0) {
+      await this.executeToolCalls(calls, signal);
     }
 
     return assistantContent;
   }
 
+  /**
+   * Record the assistant's reply together with the tool calls it makes, so
+   * providers can pair each tool result with its call. Returns the calls with
+   * their ids, generating one where the model gave none.
+   */
+  private addAssistantTurn(content: string, toolCalls: ToolCall[]): ToolCall[] {
+    const calls = toolCalls.map(toolCall => ({ ...toolCall, id: toolCall.id || `call_${uuidv4()}` }));
+
+    if (calls.length > 0) {
+      this.addMessage({
+        role: 'assistant',
+        content,
+        tool_calls: calls.map(toolCall => ({ id: toolCall.id, name: toolCall.name, arguments: toolCall.arguments }))
+      });
+    } else if (content.trim()) {
+      this.addMessage({ role: 'assistant', content });
+    }
+    return calls;
+  }
+
+  /**
+   * Run the calls of one model turn. When some need approval and no
+   * `onApprovalRequest` handler decides them, nothing runs: the calls are held
+   * as pending approvals and the requests returned.
+   */
   private async executeToolCalls(
     toolCalls: ToolCall[], 
-    onResult?: (result: ToolCallResult) => void
-  ): Promise<void> {
+    signal?: AbortSignal,
+    onResult?: (result: ToolCallResult) => void | Promise<void>,
+    decisions: Record<string, ToolApprovalDecision> = {}
+  ): Promise<ToolApprovalRequest[]> {
+    const requests = this.approvalRequests(toolCalls, decisions);
+    if (requests.length > 0) {
+      const onApprovalRequest = this.options.onApprovalRequest;
+      if (!onApprovalRequest) {
+        this.pendingApprovals = { toolCalls, requests };
+        return requests;
+      }
+
+      decisions = { ...decisions };
+      for (const request of requests) {
+        decisions[request.toolCallId] = await abortable(Promise.resolve().then(() => onApprovalRequest(request)), signal);
+      }
+    }
+
+    // Edited calls run, and are recorded, with the caller's arguments
+    const calls = toolCalls.map(toolCall => {
+      const decision = decisions[this.toolCallId(toolCall)];
+      return decision?.action === 'edit' ? { ...toolCall, arguments: decision.arguments } : toolCall;
+    });
+    const concurrency = this.options.toolConcurrency || 1;
+
+    for (const batch of this.toolCallBatches(calls)) {
+      throwIfAborted(signal);
+      const outcomes = runWithConcurrency(
+        batch.map(toolCall => () => this.runToolCall(toolCall, signal, decisions[this.toolCallId(toolCall)])),
+        concurrency
+      );
+
+      // Results are recorded in call order, whichever call finishes first
+      for (let i = 0; i < batch.length; i++) {
+        await this.recordToolOutcome(batch[i], await outcomes[i], signal, onResult);
+      }
+    }
+    return [];
+  }
+
+  private approvalRequests(toolCalls: ToolCall[], decisions: Record<string, ToolApprovalDecision>): ToolApprovalRequest[] {
+    const requests: ToolApprovalRequest[] = [];
     for (const toolCall of toolCalls) {
-      try {
-        if (!this.mcpService) {
-          throw new Error('MCP service not available');
-        }
+      const tool = this.mcpService?.getTool(toolCall.name);
+      // Calls to tools out of scope fail anyway, there is nothing to approve
+      if (!requiresApproval(tool) || !isToolInScope(toolCall.name, this.options.toolScope)) continue;
+      if (decisions[this.toolCallId(toolCall)]) continue;
+      requests.push({
+        toolCallId: this.toolCallId(toolCall),
+        toolName: toolCall.name,
+        arguments: toolCall.arguments,
+        ...(tool?.risk && { risk: tool.risk })
+      });
+    }
+    return requests;
+  }
+
+  // Calls recorded by addAssistantTurn always have ids
+  private toolCallId(toolCall: ToolCall): string {
+    return toolCall.id || toolCall.name;
+  }
 
-        const startTime = Date.now();
-        const result = await Promise.race([
-          this.mcpService.executeTool(toolCall.name, toolCall.arguments),
-          new Promise((_, reject) => 
-            setTimeout(() => reject(new Error('Tool call timeout')), this.options.toolCallTimeout)
-          )
-        ]);
-
-        const toolResult: ToolCallResult = {
-          id: toolCall.id || `call_${Date.now()}`,
-          name: toolCall.name,
-          arguments: toolCall.arguments,
-          result,
-          timestamp: Date.now() - startTime
-        };
-
-        this.toolCallResults.push(toolResult);
-        this.options.onToolCall?.(toolCall, result);
-        onResult?.(toolResult);
-
-        // Add tool message to conversation
-        this.addMessage({
-          role: 'tool',
-          name: toolCall.name,
-          content: typeof result === 'string' ? result : JSON.stringify(result),
-          args: toolCall.arguments
-        } as any);
-
-      } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-        
-        const toolResult: ToolCallResult = {
-          id: toolCall.id || `call_${Date.now()}`,
-          name: toolCall.name,
-          arguments: toolCall.arguments,
-          error: errorMsg,
-          timestamp: Date.now()
-        };
-
-        this.toolCallResults.push(toolResult);
-        this.options.onError?.(error instanceof Error ? error : new Error(errorMsg));
-        onResult?.(toolResult);
-
-        // Add error message to conversation
-        this.addMessage({
-          role: 'assistant',
-          content: `Error executing ${toolCall.name}: ${errorMsg}`
-        });
+  /**
+   * Split calls into batches that may run concurrently; a tool that is not
+   * parallel safe gets a batch of its own, so it never overlaps another call
+   */
+  private toolCallBatches(toolCalls: ToolCall[]): ToolCall[][] {
+    const batches: ToolCall[][] = [];
+    let current: ToolCall[] = [];
+
+    for (const toolCall of toolCalls) {
+      if (this.mcpService?.getTool(toolCall.name)?.parallelSafe === false) {
+        if (current.length > 0) batches.push(current);
+        batches.push([toolCall]);
+        current = [];
+      } else {
+        current.push(toolCall);
       }
     }
+    if (current.length > 0) batches.push(current);
+    return batches;
   }
 
-  private getToolsForProvider(): any[] {
-    if (!this.mcpService) return [];
-    
-    const tools = this.mcpService.listTools();
-    
-    // Convert to provider-specific format
-    if (this.provider.name === 'openai') {
-      return tools.map(tool => ({
-        type: 'function',
-        function: {
-          name: tool.name,
-          description: tool.description,
-          parameters: this.zodToJsonSchema(tool.schema)
-        }
-      }));
+  /**
+   * Execute one call under its own timeout; failures are returned, not thrown
+   */
+  private async runToolCall(toolCall: ToolCall, signal?: AbortSignal, decision?: ToolApprovalDecision): Promise<ToolCallOutcome> {
+    if (decision?.action === 'deny') {
+      return { denied: true, reason: decision.reason };
     }
 
-    // Default format
-    return tools.map(tool => ({
-      name: tool.name,
-      description: tool.description,
-      parameters: this.zodToJsonSchema(tool.schema)
-    }));
+    const timeout = new AbortController();
+    const timer = setTimeout(() => timeout.abort(new Error('Tool call timeout')), this.options.toolCallTimeout);
+    const { signal: toolSignal, release } = combineSignals(signal, timeout.signal);
+    const startTime = Date.now();
+
+    try {
+      if (!this.mcpService) {
+        throw new Error('MCP service not available');
+      }
+      if (!isToolInScope(toolCall.name, this.options.toolScope)) {
+        throw new Error(`Tool '${toolCall.name}' is not enabled for this session`);
+      }
+
+      const result = await this.mcpService.executeTool(toolCall.name, toolCall.arguments, { signal: toolSignal });
+      return { result, duration: Date.now() - startTime };
+    } catch (error) {
+      return { error: error instanceof Error ? error : new Error('Unknown error') };
+    } finally {
+      clearTimeout(timer);
+      release();
+    }
   }
 
-  private zodToJsonSchema(schema: any): any {
-    // Simple conversion - in real implementation, use zod-to-json-schema
-    return {
-      type: 'object',
-      properties: {},
-      required: []
+  private async recordToolOutcome(
+    toolCall: ToolCall,
+    outcome: ToolCallOutcome,
+    signal?: AbortSignal,
+    onResult?: (result: ToolCallResult) => void | Promise<void>
+  ): Promise<void> {
+    if ('result' in outcome) {
+      const toolResult: ToolCallResult = {
+        id: toolCall.id || `call_${Date.now()}`,
+        name: toolCall.name,
+        arguments: toolCall.arguments,
+        result: outcome.result,
+        timestamp: outcome.duration
+      };
+
+      this.toolCallResults.push(toolResult);
+      this.options.onToolCall?.(toolCall, outcome.result);
+      await onResult?.(toolResult);
+
+      // Add tool message to conversation
+      this.addMessage({
+        role: 'tool',
+        name: toolCall.name,
+        ...toolResultMessage(outcome.result),
+        args: toolCall.arguments,
+        tool_call_id: toolCall.id
+      });
+      return;
+    }
+
+    if ('denied' in outcome) {
+      const content = deniedToolResult(toolCall.name, outcome.reason);
+      const toolResult: ToolCallResult = {
+        id: toolCall.id || `call_${Date.now()}`,
+        name: toolCall.name,
+        arguments: toolCall.arguments,
+        error: content,
+        denied: true,
+        timestamp: Date.now()
+      };
+
+      this.toolCallResults.push(toolResult);
+      await onResult?.(toolResult);
+      this.addMessage({
+        role: 'tool',
+        name: toolCall.name,
+        content,
+        args: toolCall.arguments,
+        tool_call_id: toolCall.id
+      });
+      return;
+    }
+
+    // A cancelled turn ends here; the caller rolls the history back
+    if (signal?.aborted) throw outcome.error;
+    const errorMsg = outcome.error.message;
+
+    const toolResult: ToolCallResult = {
+      id: toolCall.id || `call_${Date.now()}`,
+      name: toolCall.name,
+      arguments: toolCall.arguments,
+      error: errorMsg,
+      timestamp: Date.now()
     };
+
+    this.toolCallResults.push(toolResult);
+    this.options.onError?.(outcome.error);
+    await onResult?.(toolResult);
+
+    // The error answers the call, so the model sees which call failed
+    this.addMessage({
+      role: 'tool',
+      name: toolCall.name,
+      content: `Error executing ${toolCall.name}: ${errorMsg}`,
+      args: toolCall.arguments,
+      tool_call_id: toolCall.id
+    });
+  }
+
+  /**
+   * Drop everything a cancelled turn added, its user message included, so the
+   * history never ends in a tool call without a result or a half-streamed reply
+   */
+  private rollbackCancelledTurn(turnStart: number, signal?: AbortSignal): void {
+    if (signal?.aborted && this.history.length > turnStart) {
+      this.history.splice(turnStart);
+      // Calls held by the turn went with it
+      this.pendingApprovals = undefined;
+    }
+  }
+
+  private assertNoPendingApprovals(): void {
+    if (this.pendingApprovals) {
+      throw new Error(`Session '${this.id}' has tool calls waiting for approval; call resolveApprovals first`);
+    }
+  }
+
+  /**
+   * Messages to send for the next request, after the context window strategies
+   */
+  private prepareMessages(params: Partial<CompletionParams>): ChatMessage[] {
+    const config = this.options.contextWindow || {};
+    const countTokens = config.countTokens || ((message: ChatMessage) => this.countMessageTokens(message));
+    const limit = config.maxTokens ?? this.getContextLimit();
+    const strategies = config.strategies ?? (limit ? [new TokenBudgetStrategy()] : []);
+    let messages = applySummary(this.history, this.summary);
+
+    if (strategies.length > 0) {
+      const reserve = config.reserveTokens ?? params.max_tokens ?? (limit ? Math.floor(limit / 4) : 0);
+      const applied = applyContextStrategies(messages, strategies, {
+        maxTokens: limit ? Math.max(limit - reserve, 0) : undefined,
+        countTokens
+      });
+      messages = applied.messages;
+
+      if (applied.report.dropped.length > 0 || applied.report.elided.length > 0) {
+        config.onTrim?.(applied.report);
+      }
+    }
+
+    this.promptTokens = messages.reduce((total, message) => total + countTokens(message), 0);
+    return messages;
+  }
+
+  private getContextLimit(): number | undefined {
+    const config = (this.provider as any).config || {};
+    return config.contextLength || config.contextSize || getContextLimit(this.getProviderName(), this.getProviderModel());
+  }
+
+  getTokenizer(): Tokenizer {
+    return this.options.tokenizer
+      || this.provider.getTokenizer?.()
+      || tokenizerRegistry.getTokenizer(this.getProviderName(), this.getProviderModel());
+  }
+
+  // Messages are immutable once in the history, so counts are cached per tokenizer
+  private countMessageTokens(message: ChatMessage): number {
+    const tokenizer = this.getTokenizer();
+    const cached = this.tokenCounts.get(message);
+    if (cached && cached.tokenizer === tokenizer) return cached.count;
+
+    const count = countMessageTokens(tokenizer, message);
+    this.tokenCounts.set(message, { tokenizer, count });
+    return count;
+  }
+
+  private getToolsForProvider(): any[] {
+    if (!this.mcpService) return [];
+    
+    // Convert to the provider's native tool format
+    const adapters = this.options.toolSchemaAdapters || toolSchemaAdapterRegistry;
+    const tools = selectToolsInScope(this.mcpService.listTools(), this.options.toolScope, this.history);
+    return adapters.formatTools(this.provider.name, tools);
   }
 
   addMessage(message: ChatMessage): void {
@@ -373,13 +977,171 @@ export class ChatSession {
     return [...this.toolCallResults];
   }
 
+  /**
+   * Token usage of the current or last turn: what the provider reported, or
+   * tokenizer estimates for requests it reported none for
+   */
+  getTurnUsage(): ChatUsage {
+    return { ...this.requestUsage };
+  }
+
   clearHistory(): void {
     this.history = [];
     this.toolCallResults = [];
+    this.summary = undefined;
+    // The paused calls belong to the cleared conversation
+    this.pendingApprovals = undefined;
   }
 
   updateOptions(options: Partial<ChatSessionOptions>): void {
     this.options = { ...this.options, ...options };
+    if (options.summarization) {
+      this.summaryMemory = new SummaryMemory(options.summarization);
+    }
+  }
+
+  // Tool scope methods
+
+  /**
+   * Registered tools this session may use, before any `maxTools` selection
+   */
+  getAvailableTools(): ToolDefinition[] {
+    if (!this.mcpService) return [];
+    return this.mcpService.listTools().filter(tool => isToolInScope(tool.name, this.options.toolScope));
+  }
+
+  /**
+   * Offer tools matching the patterns from the next request on, overriding
+   * allow and deny lists; saved with the session options
+   */
+  enableTools(...patterns: string[]): void {
+    this.addToolOverrides(patterns, true);
+  }
+
+  disableTools(...patterns: string[]): void {
+    this.addToolOverrides(patterns, false);
+  }
+
+  private addToolOverrides(patterns: string[], enabled: boolean): void {
+    const scope = this.options.toolScope || {};
+    // A newer override for the same pattern replaces the older one
+    const overrides = (scope.overrides || []).filter(override => !patterns.includes(override.pattern));
+    this.options.toolScope = {
+      ...scope,
+      overrides: [...overrides, ...patterns.map(pattern => ({ pattern, enabled }))]
+    };
+  }
+
+  // Summary memory methods
+
+  getSummary(): ConversationSummary | undefined {
+    return this.summary ? { ...this.summary } : undefined;
+  }
+
+  /**
+   * Fold older turns into the summary now, without waiting for the token threshold
+   */
+  async summarize(): Promise<ConversationSummary | undefined> {
+    if (!this.summaryMemory) {
+      throw new Error('No summarization configured for this session');
+    }
+    this.summary = await this.summaryMemory.summarize(this.history, this.summary);
+    return this.getSummary();
+  }
+
+  private async updateSummary(): Promise<void> {
+    if (!this.summaryMemory || !this.summaryMemory.shouldSummarize(this.history, this.summary)) return;
+
+    try {
+      this.summary = await this.summaryMemory.summarize(this.history, this.summary);
+    } catch (error) {
+      // Keep the previous summary; the next turn will try again
+      const message = error instanceof Error ? error.message : String(error);
+      this.options.onError?.(new Error(`Failed to summarize session '${this.id}': ${message}`));
+    }
+  }
+
+  // Persistence methods
+
+  /**
+   * Write the session to its storage now, cancelling any pending autosave
+   */
+  async save(): Promise<void> {
+    const storage = this.options.storage;
+    if (!storage) {
+      throw new Error('No storage configured for this session');
+    }
+
+    this.cancelScheduledSave();
+    // Serialize saves so an older snapshot never lands after a newer one
+    const snapshot = this.toSessionData();
+    const save = this.pendingSave.catch(() => undefined).then(() => storage.saveSession(this.id, snapshot));
+    this.pendingSave = save;
+    return save;
+  }
+
+  /**
+   * Run a pending debounced save immediately
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      await this.save();
+    } else {
+      await this.pendingSave;
+    }
+  }
+
+  toSessionData(): SessionData {
+    const { storage, tokenizer, toolSchemaAdapters, contextWindow, summarization, onToolCall, onError, onApprovalRequest, ...options } = this.options;
+    const model = this.getModelName();
+
+    return {
+      id: this.id,
+      agentId: this.agentId,
+      history: this.getHistory(),
+      toolCallResults: this.getToolCallResults(),
+      ...(this.summary && { summary: this.getSummary() }),
+      ...(this.pendingApprovals && { pendingApprovals: JSON.parse(JSON.stringify(this.pendingApprovals)) }),
+      metadata: {
+        createdAt: this.createdAt,
+        updatedAt: new Date(),
+        provider: this.getProviderName(),
+        ...(model !== 'unknown' && { model }),
+        messageCount: this.history.length
+      },
+      // Only plain values survive a round trip through storage
+      options: JSON.parse(JSON.stringify(options))
+    };
+  }
+
+  private async autoSave(): Promise<void> {
+    const { storage, autoSave } = this.options;
+    if (!storage || autoSave?.enabled === false) return;
+
+    const debounceMs = autoSave?.debounceMs ?? 0;
+    if (debounceMs <= 0) {
+      await this.save().catch(error => this.reportSaveError(error));
+      return;
+    }
+
+    this.cancelScheduledSave();
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.save().catch(error => this.reportSaveError(error));
+    }, debounceMs);
+  }
+
+  private cancelScheduledSave(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+  }
+
+  // A failed autosave should not fail the turn that triggered it
+  private reportSaveError(error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    this.options.onError?.(new Error(`Failed to save session '${this.id}': ${message}`));
   }
 
   // Multi-modal helper methods
@@ -409,6 +1171,48 @@ export class ChatSession {
     this.addMessage({ role, content });
   }
 
+  /**
+   * The message followed by the contents of MCP resources, as the content of
+   * one turn for `chat` or `stream`
+   */
+  async attachMcpResources(
+    message: string | MessageContent,
+    ...resources: Array<{ server: string; uri: string }>
+  ): Promise<MessageContent> {
+    const contents = await Promise.all(resources.map(({ server, uri }) => this.requireMcpService().readMcpResourceContent(server, uri)));
+    return appendContent(message, ...contents);
+  }
+
+  /**
+   * Instantiate an MCP prompt and add its messages to the history
+   */
+  async addMcpPrompt(server: string, name: string, args: Record<string, string> = {}): Promise<ChatMessage[]> {
+    const messages = await this.requireMcpService().getMcpPromptMessages(server, name, args);
+    messages.forEach(message => this.addMessage(message));
+    return messages;
+  }
+
+  /**
+   * Run a turn from an MCP prompt: earlier prompt messages go into the history
+   * and the final user message is sent
+   */
+  async chatMcpPrompt(server: string, name: string, args: Record<string, string> = {}, params: Partial<CompletionParams> = {}): Promise<string> {
+    const messages = await this.requireMcpService().getMcpPromptMessages(server, name, args);
+    const last = messages[messages.length - 1];
+    if (!last || last.role !== 'user') {
+      throw new Error(`MCP prompt '${name}' does not end with a user message`);
+    }
+    messages.slice(0, -1).forEach(message => this.addMessage(message));
+    return this.chat(last.content, params);
+  }
+
+  private requireMcpService(): MCPService {
+    if (!this.mcpService) {
+      throw new Error('MCP service not available');
+    }
+    return this.mcpService;
+  }
+
   /**
    * Check if the session supports multi-modal content
    */
@@ -474,7 +1278,7 @@ export class ChatSession {
     if (!this.monitoringService) return;
     
     const duration = Date.now() - startTime;
-    const { inputTokens, outputTokens } = this.estimateTokenUsage(response);
+    const { inputTokens, outputTokens } = this.requestUsage;
     const cost = estimateCost(this.getProviderName(), this.getModelName(), inputTokens, outputTokens);
     
     // Get recent tool calls for this request
@@ -552,18 +1356,23 @@ export class ChatSession {
   }
 
   private getModelName(): string {
-    return (this.provider as any).model || 'unknown';
+    return this.getProviderModel() || 'unknown';
   }
 
-  private estimateTokenUsage(response: string): { inputTokens: number; outputTokens: number } {
-    const avgCharsPerToken = 4;
-    const lastUserMessage = this.history[this.history.length - 1];
-    const inputText = this.extractTextFromContent(lastUserMessage?.content || '');
-    
-    return {
-      inputTokens: Math.ceil(inputText.length / avgCharsPerToken),
-      outputTokens: Math.ceil(response.length / avgCharsPerToken)
+  private getProviderModel(): string | undefined {
+    return this.provider.getModel?.();
+  }
+
+  // Every request of a turn is billed for its whole prompt. Usage reported by
+  // the provider wins; the tokenizer estimate covers providers that report none.
+  private recordUsage(usage: TokenUsage | undefined, output: string = ''): ChatUsage {
+    const recorded = {
+      inputTokens: usage?.prompt_tokens ?? this.promptTokens,
+      outputTokens: usage?.completion_tokens ?? this.getTokenizer().countTokens(output)
     };
+    this.requestUsage.inputTokens += recorded.inputTokens;
+    this.requestUsage.outputTokens += recorded.outputTokens;
+    return recorded;
   }
 
   // Removed old estimateCost method - now using simplified cost utility
@@ -621,6 +1430,9 @@ export class ChatSession {
 
   // Override destroy to properly end session monitoring
   destroy(): void {
+    if (this.saveTimer) {
+      this.save().catch(error => this.reportSaveError(error));
+    }
     if (this.isMonitoringEnabled() && this.monitoringService) {
       this.monitoringService.endSession(this.id);
     }
@@ -0,0 +1,204 @@
+import type { ChatMessage } from '../chat/types';
+import { HeuristicTokenizer, countMessageTokens } from '../utils/tokenizer';
+
+export type MessageTokenCounter = (message: ChatMessage) => number;
+
+export interface ContextBudget {
+  /** Tokens available for the prompt; undefined when the model's window is unknown */
+  maxTokens?: number;
+  countTokens: MessageTokenCounter;
+}
+
+export interface ContextStrategyResult {
+  messages: ChatMessage[];
+  dropped: ChatMessage[];
+  elided: ChatMessage[];
+}
+
+/**
+ * Decides which part of the history is sent to the provider. Strategies never
+ * modify the session history itself, only the messages for one request.
+ */
+export interface ContextStrategy {
+  readonly name: string;
+  apply(messages: ChatMessage[], budget: ContextBudget): ContextStrategyResult;
+}
+
+export interface ContextTrimReport {
+  strategies: string[];
+  originalCount: number;
+  keptCount: number;
+  dropped: ChatMessage[];
+  elided: ChatMessage[];
+  estimatedTokens: number;
+  maxTokens?: number;
+}
+
+const heuristicTokenizer = new HeuristicTokenizer();
+
+/**
+ * Rough token count: ~4 characters per token plus per-message overhead
+ */
+export function estimateMessageTokens(message: ChatMessage): number {
+  return countMessageTokens(heuristicTokenizer, message);
+}
+
+/**
+ * Keep the last `maxMessages` messages, system prompts included
+ */
+export class SlidingWindowStrategy implements ContextStrategy {
+  readonly name = 'sliding-window';
+
+  constructor(private maxMessages: number) {
+    if (maxMessages < 1) throw new Error('SlidingWindowStrategy requires maxMessages >= 1');
+  }
+
+  apply(messages: ChatMessage[]): ContextStrategyResult {
+    const start = Math.max(messages.length - this.maxMessages, 0);
+    return withoutOrphanedToolResults(messages.slice(start), messages.slice(0, start));
+  }
+}
+
+/**
+ * Keep every system message plus the last `n` other messages
+ */
+export class KeepSystemAndLastNStrategy implements ContextStrategy {
+  readonly name = 'keep-system-last-n';
+
+  constructor(private n: number) {
+    if (n < 1) throw new Error('KeepSystemAndLastNStrategy requires n >= 1');
+  }
+
+  apply(messages: ChatMessage[]): ContextStrategyResult {
+    const conversation = messages.filter(message => message.role !== 'system');
+    const keep = new Set(conversation.slice(-this.n));
+    return partition(messages, message => message.role === 'system' || keep.has(message));
+  }
+}
+
+/**
+ * Keep system messages and as many recent messages as fit in the token budget.
+ * The newest message is always kept, even when it alone exceeds the budget.
+ */
+export class TokenBudgetStrategy implements ContextStrategy {
+  readonly name = 'token-budget';
+
+  apply(messages: ChatMessage[], budget: ContextBudget): ContextStrategyResult {
+    if (budget.maxTokens === undefined || countAll(messages, budget) <= budget.maxTokens) {
+      return { messages, dropped: [], elided: [] };
+    }
+
+    let used = messages
+      .filter(message => message.role === 'system')
+      .reduce((total, message) => total + budget.countTokens(message), 0);
+
+    const keep = new Set<ChatMessage>();
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const message = messages[i];
+      if (message.role === 'system') continue;
+      const tokens = budget.countTokens(message);
+      if (keep.size > 0 && used + tokens > budget.maxTokens) break;
+      keep.add(message);
+      used += tokens;
+    }
+
+    return partition(messages, message => message.role === 'system' || keep.has(message));
+  }
+}
+
+export interface ToolResultElisionOptions {
+  /** Most recent tool results left untouched (default 1) */
+  keepLast?: number;
+  placeholder?: (message: ChatMessage) => string;
+}
+
+/**
+ * Replace the content of older tool results with a short placeholder
+ */
+export class ToolResultElisionStrategy implements ContextStrategy {
+  readonly name = 'tool-result-elision';
+  private keepLast: number;
+  private placeholder: (message: ChatMessage) => string;
+
+  constructor(options: ToolResultElisionOptions = {}) {
+    this.keepLast = options.keepLast ?? 1;
+    this.placeholder = options.placeholder
+      || (message => `[Result of ${(message as any).name || 'tool'} elided]`);
+  }
+
+  apply(messages: ChatMessage[]): ContextStrategyResult {
+    const toolIndexes = messages
+      .map((message, index) => (message.role === 'tool' ? index : -1))
+      .filter(index => index >= 0);
+    const elide = new Set(toolIndexes.slice(0, Math.max(toolIndexes.length - this.keepLast, 0)));
+
+    const elided: ChatMessage[] = [];
+    const result = messages.map((message, index) => {
+      if (!elide.has(index)) return message;
+      elided.push(message);
+      return { ...message, content: this.placeholder(message) } as ChatMessage;
+    });
+
+    return { messages: result, dropped: [], elided };
+  }
+}
+
+/**
+ * Run strategies in order, each on the output of the previous one
+ */
+export function applyContextStrategies(
+  messages: ChatMessage[],
+  strategies: ContextStrategy[],
+  budget: ContextBudget
+): { messages: ChatMessage[]; report: ContextTrimReport } {
+  let current = messages;
+  const dropped: ChatMessage[] = [];
+  const elided: ChatMessage[] = [];
+
+  for (const strategy of strategies) {
+    const result = strategy.apply(current, budget);
+    current = result.messages;
+    dropped.push(...result.dropped);
+    elided.push(...result.elided);
+  }
+
+  return {
+    messages: current,
+    report: {
+      strategies: strategies.map(strategy => strategy.name),
+      originalCount: messages.length,
+      keptCount: current.length,
+      dropped,
+      elided,
+      estimatedTokens: countAll(current, budget),
+      maxTokens: budget.maxTokens
+    }
+  };
+}
+
+function countAll(messages: ChatMessage[], budget: ContextBudget): number {
+  return messages.reduce((total, message) => total + budget.countTokens(message), 0);
+}
+
+function partition(messages: ChatMessage[], keep: (message: ChatMessage) => boolean): ContextStrategyResult {
+  const kept: ChatMessage[] = [];
+  const dropped: ChatMessage[] = [];
+  for (const message of messages) {
+    (keep(message) ? kept : dropped).push(message);
+  }
+  return withoutOrphanedToolResults(kept, dropped);
+}
+
+// A tool result whose preceding turn was dropped has nothing to answer
+function withoutOrphanedToolResults(kept: ChatMessage[], dropped: ChatMessage[]): ContextStrategyResult {
+  if (dropped.length === 0) return { messages: kept, dropped, elided: [] };
+
+  const messages = [...kept];
+  const orphaned: ChatMessage[] = [];
+  const first = messages.findIndex(message => message.role !== 'system');
+  while (first >= 0 && first < messages.length - 1 && messages[first].role === 'tool') {
+    orphaned.push(...messages.splice(first, 1));
+  }
+
+  return { messages, dropped: [...dropped, ...orphaned], elided: [] };
+}
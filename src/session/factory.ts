@@ -28,16 +28,20 @@ export interface SessionConfig {
   mcpService?: MCPService;
   monitoringService?: MonitoringService;
   options?: ChatSessionOptions;
-  storage?: {
+  storage?: SessionStorage | {
     type: 'memory' | 'file' | 'database';
     config?: {
       basePath?: string;        // For file storage
       connectionString?: string; // For database storage
     };
   };
+  resume?: boolean;             // Restore sessionId from storage if it was saved before
 }
 
-export function createChatSession(config: SessionConfig): ChatSession {
+export function createChatSession(config: SessionConfig & { resume: true }): Promise<ChatSession>;
+export function createChatSession(config: SessionConfig & { resume?: false }): ChatSession;
+export function createChatSession(config: SessionConfig): ChatSession | Promise<ChatSession>;
+export function createChatSession(config: SessionConfig): ChatSession | Promise<ChatSession> {
   const { 
     sessionId, 
     agentId = sessionId,
@@ -48,12 +52,15 @@ export function createChatSession(config: SessionConfig): ChatSession {
     mcpService, 
     monitoringService,
     options = {},
-    storage
+    storage,
+    resume = false
   } = config;
 
   // Create storage instance based on configuration
   let sessionStorage: SessionStorage | undefined;
-  if (storage) {
+  if (storage && isSessionStorage(storage)) {
+    sessionStorage = storage;
+  } else if (storage) {
     switch (storage.type) {
       case 'memory':
         sessionStorage = new MemorySessionStorage();
@@ -189,25 +196,55 @@ export function createChatSession(config: SessionConfig): ChatSession {
   }
 
   const service = mcpService || new MCPService();
+  const sessionOptions: ChatSessionOptions = sessionStorage ? { ...options, storage: sessionStorage } : options;
   
   // Create ChatSession with integrated monitoring
-  return new ChatSession(
+  const createSession = () => new ChatSession(
     sessionId,
     llmProvider,
     extractor,
     sessionTemplate,
     service,
     [],
-    options,
+    sessionOptions,
     agentId,
     monitoringService
   );
+
+  if (resume) {
+    if (!sessionStorage) {
+      throw new Error('Resuming a session requires storage in config');
+    }
+    const storageToResume = sessionStorage;
+    return (async () => {
+      // Start fresh when nothing was saved under this id yet
+      const saved = await storageToResume.loadSession(sessionId);
+      if (!saved) return createSession();
+      return ChatSession.resume(
+        sessionId,
+        storageToResume,
+        llmProvider,
+        extractor,
+        sessionTemplate,
+        service,
+        options,
+        monitoringService
+      );
+    })();
+  }
+
+  return createSession();
 }
 
 // Convenience function for creating monitored sessions
-export function createMonitoredChatSession(config: SessionConfig & {
+type MonitoredSessionConfig = SessionConfig & {
   monitoringOptions?: ChatSessionOptions['monitoring'];
-}): ChatSession {
+};
+
+export function createMonitoredChatSession(config: MonitoredSessionConfig & { resume: true }): Promise<ChatSession>;
+export function createMonitoredChatSession(config: MonitoredSessionConfig & { resume?: false }): ChatSession;
+export function createMonitoredChatSession(config: MonitoredSessionConfig): ChatSession | Promise<ChatSession>;
+export function createMonitoredChatSession(config: MonitoredSessionConfig): ChatSession | Promise<ChatSession> {
   const { monitoringOptions, ...sessionConfig } = config;
   
   const options = sessionConfig.options || {};
@@ -250,6 +287,10 @@ export function createDatabaseStorage(connectionString: string): DatabaseSession
   return new DatabaseSessionStorage(connectionString);
 }
 
+function isSessionStorage(storage: NonNullable<SessionConfig['storage']>): storage is SessionStorage {
+  return typeof (storage as SessionStorage).saveSession === 'function';
+}
+
 function getDefaultTemplate(): Template {
   return {
     name: 'default',
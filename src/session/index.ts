@@ -1,4 +1,9 @@
 export * from './ChatSession';
 export * from './ChatSessionRegistry';
 export * from './storage';
+export * from './contextWindow';
+export * from './summaryMemory';
+export * from './streamEvents';
+export * from './toolApproval';
+export * from './structuredOutput';
 export * from './factory';
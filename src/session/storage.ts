@@ -1,4 +1,10 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { Database as SqliteDatabase } from 'better-sqlite3';
 import type { ChatMessage } from '../chat/types';
+import type { ToolCallResult } from './ChatSession';
+import type { ConversationSummary } from './summaryMemory';
+import type { PendingToolApprovals } from './toolApproval';
 
 export interface SessionStorage {
   saveSession(sessionId: string, data: SessionData): Promise<void>;
@@ -12,6 +18,9 @@ export interface SessionData {
   id: string;
   agentId?: string;
   history: ChatMessage[];
+  toolCallResults?: ToolCallResult[];
+  summary?: ConversationSummary;
+  pendingApprovals?: PendingToolApprovals;
   metadata: {
     createdAt: Date;
     updatedAt: Date;
@@ -67,59 +76,397 @@ export class MemorySessionStorage implements SessionStorage {
   }
 }
 
+/**
+ * Stores each session as a JSON file under `basePath`. Writes go to a temp file
+ * and are renamed into place, and operations on the same session are serialized
+ * so concurrent writers in one process never interleave.
+ */
 export class FileSessionStorage implements SessionStorage {
+  private queues = new Map<string, Promise<void>>();
+  private tempCounter = 0;
+
   constructor(private basePath: string = './sessions') {}
 
   async saveSession(sessionId: string, data: SessionData): Promise<void> {
-    // File storage implementation would go here
-    // For now, we'll just log that it's not implemented
-    console.warn('FileSessionStorage not fully implemented yet');
+    const session: SessionData = {
+      ...data,
+      metadata: {
+        ...data.metadata,
+        updatedAt: new Date()
+      }
+    };
+
+    await this.enqueue(sessionId, async () => {
+      await fs.mkdir(this.basePath, { recursive: true });
+      const filePath = this.sessionPath(sessionId);
+      const tempPath = `${filePath}.${process.pid}.${++this.tempCounter}${TEMP_SUFFIX}`;
+      try {
+        await fs.writeFile(tempPath, JSON.stringify(session, null, 2), 'utf8');
+        await fs.rename(tempPath, filePath);
+      } catch (error) {
+        await fs.unlink(tempPath).catch(() => undefined);
+        throw error;
+      }
+    });
   }
 
   async loadSession(sessionId: string): Promise<SessionData | null> {
-    console.warn('FileSessionStorage not fully implemented yet');
-    return null;
+    // Wait for pending writes so callers read their own saves
+    await this.queues.get(sessionId);
+    return this.readSessionFile(this.sessionPath(sessionId));
   }
 
   async deleteSession(sessionId: string): Promise<void> {
-    console.warn('FileSessionStorage not fully implemented yet');
+    await this.enqueue(sessionId, () => removeFile(this.sessionPath(sessionId)));
   }
 
   async listSessions(): Promise<string[]> {
-    console.warn('FileSessionStorage not fully implemented yet');
-    return [];
+    const files = await this.listFiles();
+    return files
+      .filter(file => file.endsWith(SESSION_SUFFIX))
+      .map(file => decodeURIComponent(file.slice(0, -SESSION_SUFFIX.length)));
   }
 
   async cleanup(olderThan: Date): Promise<number> {
-    console.warn('FileSessionStorage not fully implemented yet');
-    return 0;
+    let deletedCount = 0;
+
+    for (const file of await this.listFiles()) {
+      const filePath = path.join(this.basePath, file);
+      const stats = await fs.stat(filePath).catch(() => null);
+      if (!stats || stats.mtime >= olderThan) continue;
+
+      // Leftover temp files from interrupted writes
+      if (file.endsWith(TEMP_SUFFIX)) {
+        await removeFile(filePath);
+        continue;
+      }
+      if (!file.endsWith(SESSION_SUFFIX)) continue;
+
+      const sessionId = decodeURIComponent(file.slice(0, -SESSION_SUFFIX.length));
+      await this.enqueue(sessionId, async () => {
+        // The file may have been rewritten since it was listed
+        const data = await this.readSessionFile(filePath).catch(() => null);
+        const updatedAt = data?.metadata?.updatedAt;
+        const lastActivity = updatedAt instanceof Date && !isNaN(updatedAt.getTime()) ? updatedAt : stats.mtime;
+        if (lastActivity < olderThan) {
+          await removeFile(filePath);
+          deletedCount++;
+        }
+      });
+    }
+
+    return deletedCount;
+  }
+
+  private sessionPath(sessionId: string): string {
+    return path.join(this.basePath, `${encodeURIComponent(sessionId)}${SESSION_SUFFIX}`);
+  }
+
+  private async listFiles(): Promise<string[]> {
+    try {
+      return await fs.readdir(this.basePath);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  private async readSessionFile(filePath: string): Promise<SessionData | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+
+    try {
+      return reviveSessionData(JSON.parse(content));
+    } catch (e) {
+      throw new Error(`Failed to parse session file at ${filePath}: ${e}`);
+    }
+  }
+
+  private enqueue(sessionId: string, operation: () => Promise<void>): Promise<void> {
+    const previous = this.queues.get(sessionId) || Promise.resolve();
+    const current = previous.catch(() => undefined).then(operation);
+    const tail = current.catch(() => undefined);
+    this.queues.set(sessionId, tail);
+    tail.then(() => {
+      if (this.queues.get(sessionId) === tail) {
+        this.queues.delete(sessionId);
+      }
+    });
+    return current;
+  }
+}
+
+const SESSION_SUFFIX = '.json';
+const TEMP_SUFFIX = '.tmp';
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * JSON turns Dates into ISO strings; turn the metadata ones back into Dates
+ */
+function reviveSessionData(data: any): SessionData {
+  const metadata: Record<string, any> = { ...data.metadata };
+  for (const [key, value] of Object.entries(metadata)) {
+    if (typeof value === 'string' && ISO_DATE_PATTERN.test(value)) {
+      metadata[key] = new Date(value);
+    }
+  }
+  const session = { ...data, metadata } as SessionData;
+  if (data.summary) {
+    session.summary = { ...data.summary, updatedAt: new Date(data.summary.updatedAt) };
+  }
+  return session;
+}
+
+async function removeFile(filePath: string): Promise<void> {
+  try {
+    await fs.unlink(filePath);
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') throw error;
   }
 }
 
+/**
+ * Embedded SQLite storage. `connectionString` is a database file path or
+ * `:memory:`, optionally prefixed with `sqlite:`. The schema is created and
+ * migrated on first use.
+ */
 export class DatabaseSessionStorage implements SessionStorage {
+  private database?: Promise<SqliteDatabase>;
+
   constructor(private connectionString: string) {}
 
   async saveSession(sessionId: string, data: SessionData): Promise<void> {
-    // Database storage implementation would go here
-    console.warn('DatabaseSessionStorage not fully implemented yet');
+    const db = await this.getDatabase();
+    const { createdAt, updatedAt, provider, model, messageCount, ...extra } = data.metadata;
+    const now = Date.now();
+
+    db.transaction(() => {
+      db.prepare(`
+        INSERT INTO sessions (id, agent_id, provider, model, message_count, created_at, updated_at, metadata, options, tool_call_results, summary, pending_approvals)
+        VALUES (@id, @agentId, @provider, @model, @messageCount, @createdAt, @updatedAt, @metadata, @options, @toolCallResults, @summary, @pendingApprovals)
+        ON CONFLICT(id) DO UPDATE SET
+          agent_id = excluded.agent_id,
+          provider = excluded.provider,
+          model = excluded.model,
+          message_count = excluded.message_count,
+          created_at = excluded.created_at,
+          updated_at = excluded.updated_at,
+          metadata = excluded.metadata,
+          options = excluded.options,
+          tool_call_results = excluded.tool_call_results,
+          summary = excluded.summary,
+          pending_approvals = excluded.pending_approvals
+      `).run({
+        id: sessionId,
+        agentId: data.agentId ?? null,
+        provider,
+        model: model ?? null,
+        messageCount,
+        createdAt: toTimestamp(createdAt, now),
+        updatedAt: now,
+        metadata: JSON.stringify(extra),
+        options: data.options === undefined ? null : JSON.stringify(data.options),
+        toolCallResults: data.toolCallResults === undefined ? null : JSON.stringify(data.toolCallResults),
+        summary: data.summary === undefined ? null : JSON.stringify(data.summary),
+        pendingApprovals: data.pendingApprovals === undefined ? null : JSON.stringify(data.pendingApprovals)
+      });
+
+      db.prepare('DELETE FROM messages WHERE session_id = ?').run(sessionId);
+      const insertMessage = db.prepare('INSERT INTO messages (session_id, position, role, message) VALUES (?, ?, ?, ?)');
+      data.history.forEach((message, position) => {
+        insertMessage.run(sessionId, position, message.role, JSON.stringify(message));
+      });
+    })();
   }
 
   async loadSession(sessionId: string): Promise<SessionData | null> {
-    console.warn('DatabaseSessionStorage not fully implemented yet');
-    return null;
+    const db = await this.getDatabase();
+    const row = db.prepare('SELECT * FROM sessions WHERE id = ?').get(sessionId) as SessionRow | undefined;
+    if (!row) return null;
+
+    const messages = db.prepare('SELECT message FROM messages WHERE session_id = ? ORDER BY position')
+      .all(sessionId) as Array<{ message: string }>;
+
+    const session: SessionData = {
+      id: row.id,
+      history: messages.map(({ message }) => JSON.parse(message)),
+      metadata: {
+        ...reviveSessionData({ metadata: JSON.parse(row.metadata) }).metadata,
+        createdAt: new Date(row.created_at),
+        updatedAt: new Date(row.updated_at),
+        provider: row.provider,
+        messageCount: row.message_count
+      }
+    };
+    if (row.agent_id !== null) session.agentId = row.agent_id;
+    if (row.model !== null) session.metadata.model = row.model;
+    if (row.options !== null) session.options = JSON.parse(row.options);
+    if (row.tool_call_results !== null) session.toolCallResults = JSON.parse(row.tool_call_results);
+    if (row.summary !== null) {
+      const summary = JSON.parse(row.summary);
+      session.summary = { ...summary, updatedAt: new Date(summary.updatedAt) };
+    }
+    if (row.pending_approvals !== null) session.pendingApprovals = JSON.parse(row.pending_approvals);
+    return session;
   }
 
   async deleteSession(sessionId: string): Promise<void> {
-    console.warn('DatabaseSessionStorage not fully implemented yet');
+    const db = await this.getDatabase();
+    db.prepare('DELETE FROM sessions WHERE id = ?').run(sessionId);
   }
 
   async listSessions(): Promise<string[]> {
-    console.warn('DatabaseSessionStorage not fully implemented yet');
-    return [];
+    const db = await this.getDatabase();
+    const rows = db.prepare('SELECT id FROM sessions ORDER BY created_at, id').all() as Array<{ id: string }>;
+    return rows.map(row => row.id);
+  }
+
+  async listSessionsByAgent(agentId: string): Promise<string[]> {
+    const db = await this.getDatabase();
+    const rows = db.prepare('SELECT id FROM sessions WHERE agent_id = ? ORDER BY updated_at DESC, id')
+      .all(agentId) as Array<{ id: string }>;
+    return rows.map(row => row.id);
   }
 
   async cleanup(olderThan: Date): Promise<number> {
-    console.warn('DatabaseSessionStorage not fully implemented yet');
-    return 0;
+    const db = await this.getDatabase();
+    return db.prepare('DELETE FROM sessions WHERE updated_at < ?').run(olderThan.getTime()).changes;
+  }
+
+  async close(): Promise<void> {
+    if (!this.database) return;
+    const db = await this.database;
+    this.database = undefined;
+    db.close();
+  }
+
+  private getDatabase(): Promise<SqliteDatabase> {
+    if (!this.database) {
+      this.database = this.openDatabase();
+      // Allow a later call to retry after a failed open
+      this.database.catch(() => {
+        this.database = undefined;
+      });
+    }
+    return this.database;
   }
+
+  private async openDatabase(): Promise<SqliteDatabase> {
+    const filename = this.connectionString.replace(/^sqlite:(\/\/)?/, '');
+    if (!filename) {
+      throw new Error('DatabaseSessionStorage requires a database file path or :memory:');
+    }
+
+    const Database = await loadSqlite();
+    let db: SqliteDatabase;
+    try {
+      if (filename !== ':memory:') {
+        await fs.mkdir(path.dirname(path.resolve(filename)), { recursive: true });
+      }
+      db = new Database(filename);
+    } catch (error) {
+      throw new Error(`Failed to open SQLite database '${filename}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    db.pragma('foreign_keys = ON');
+    if (filename !== ':memory:') {
+      db.pragma('journal_mode = WAL');
+    }
+    migrate(db);
+    return db;
+  }
+}
+
+/**
+ * better-sqlite3 is an optional peer dependency, loaded only when a
+ * DatabaseSessionStorage is first used
+ */
+async function loadSqlite(): Promise<typeof import('better-sqlite3')> {
+  try {
+    return (await import('better-sqlite3')).default;
+  } catch (error) {
+    // require() and import() report a missing package with different codes
+    const code = (error as NodeJS.ErrnoException)?.code;
+    if (code === 'MODULE_NOT_FOUND' || code === 'ERR_MODULE_NOT_FOUND') {
+      throw new Error('DatabaseSessionStorage requires the better-sqlite3 package; install it with `npm install better-sqlite3`');
+    }
+    throw error;
+  }
+}
+
+interface SessionRow {
+  id: string;
+  agent_id: string | null;
+  provider: string;
+  model: string | null;
+  message_count: number;
+  created_at: number;
+  updated_at: number;
+  metadata: string;
+  options: string | null;
+  tool_call_results: string | null;
+  summary: string | null;
+  pending_approvals: string | null;
+}
+
+/**
+ * Schema migrations, applied in order and tracked through `PRAGMA user_version`.
+ * Append new entries; never edit one that has shipped.
+ */
+const SQLITE_MIGRATIONS: string[] = [
+  `
+  CREATE TABLE sessions (
+    id TEXT PRIMARY KEY,
+    agent_id TEXT,
+    provider TEXT NOT NULL,
+    model TEXT,
+    message_count INTEGER NOT NULL DEFAULT 0,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    metadata TEXT NOT NULL DEFAULT '{}',
+    options TEXT
+  );
+  CREATE TABLE messages (
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    role TEXT NOT NULL,
+    message TEXT NOT NULL,
+    PRIMARY KEY (session_id, position)
+  );
+  CREATE INDEX idx_sessions_agent_id ON sessions(agent_id);
+  CREATE INDEX idx_sessions_updated_at ON sessions(updated_at);
+  `,
+  `
+  ALTER TABLE sessions ADD COLUMN tool_call_results TEXT;
+  `,
+  `
+  ALTER TABLE sessions ADD COLUMN summary TEXT;
+  `,
+  `
+  ALTER TABLE sessions ADD COLUMN pending_approvals TEXT;
+  `
+];
+
+function migrate(db: SqliteDatabase): void {
+  const current = db.pragma('user_version', { simple: true }) as number;
+  if (current > SQLITE_MIGRATIONS.length) {
+    throw new Error(`Session database schema version ${current} is newer than this library supports (${SQLITE_MIGRATIONS.length})`);
+  }
+
+  for (let version = current; version < SQLITE_MIGRATIONS.length; version++) {
+    db.transaction(() => {
+      db.exec(SQLITE_MIGRATIONS[version]);
+      db.pragma(`user_version = ${version + 1}`);
+    })();
+  }
+}
+
+function toTimestamp(value: Date | string | undefined, fallback: number): number {
+  const time = value instanceof Date ? value.getTime() : value ? new Date(value).getTime() : NaN;
+  return isNaN(time) ? fallback : time;
 }
\ No newline at end of file
@@ -0,0 +1,89 @@
+import type { ToolCall } from '../extractor';
+import type { ToolCallResult } from './ChatSession';
+import type { ToolApprovalRequest } from './toolApproval';
+
+export interface ChatUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Aggregate of a streamed turn, returned by the iterator and sent with `done`
+ */
+export interface ChatStreamResult {
+  // Content of the last provider request, as `chat` returns in agentic mode
+  content: string;
+  toolCalls: ToolCall[];
+  toolResults: ToolCallResult[];
+  usage: ChatUsage;
+  // Set when the turn paused for approval, see `ChatSession.resolveApprovals`
+  pendingApprovals?: ToolApprovalRequest[];
+}
+
+export type ChatStreamEvent =
+  // Start of a provider request in agentic mode, counting from 0
+  | { type: 'iteration'; iteration: number }
+  | { type: 'content'; delta: string }
+  | { type: 'tool_call_start'; id: string; name: string }
+  | { type: 'tool_call_delta'; id: string; argumentsDelta: string }
+  | { type: 'tool_call_complete'; toolCall: ToolCall }
+  | { type: 'tool_result'; result: ToolCallResult }
+  | { type: 'approval_required'; requests: ToolApprovalRequest[] }
+  // Usage of one provider request
+  | { type: 'usage'; usage: ChatUsage }
+  | { type: 'done'; result: ChatStreamResult }
+  | { type: 'error'; error: Error };
+
+/**
+ * Hands events from a producer to an async iterator one at a time. `push`
+ * resolves once the consumer has taken the event, so a producer that awaits
+ * it never runs more than one event ahead.
+ */
+export class EventChannel<T> implements AsyncIterable<T> {
+  private queue: Array<{ value: T; taken: () => void }> = [];
+  private waiting?: (result: IteratorResult<T>) => void;
+  private closed = false;
+
+  push(value: T): Promise<void> {
+    if (this.closed) return Promise.resolve();
+
+    return new Promise(resolve => {
+      const waiting = this.waiting;
+      if (waiting) {
+        this.waiting = undefined;
+        waiting({ value, done: false });
+        resolve();
+      } else {
+        this.queue.push({ value, taken: resolve });
+      }
+    });
+  }
+
+  /**
+   * End the iteration; events nobody took are dropped and their producers released
+   */
+  close(): void {
+    this.closed = true;
+    for (const item of this.queue.splice(0)) item.taken();
+
+    const waiting = this.waiting;
+    this.waiting = undefined;
+    waiting?.({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    return { next: () => this.next() };
+  }
+
+  private next(): Promise<IteratorResult<T>> {
+    const item = this.queue.shift();
+    if (item) {
+      item.taken();
+      return Promise.resolve({ value: item.value, done: false });
+    }
+    if (this.closed) return Promise.resolve({ value: undefined, done: true });
+    return new Promise(resolve => {
+      this.waiting = resolve;
+    });
+  }
+}
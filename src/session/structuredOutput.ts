@@ -0,0 +1,88 @@
+import type { ZodIssue, ZodTypeAny } from 'zod';
+import type { ResponseFormat } from '../provider/LLMProvider';
+import { zodToJsonSchema, type JsonSchema } from '../utils/jsonSchema';
+
+export interface StructuredChatOptions {
+  name?: string;  // Schema name sent to the provider; defaults to 'response'
+  description?: string;
+  // 'auto' uses the provider's structured output when it has one, 'prompt'
+  // always describes the schema in the prompt, 'native' fails without support
+  mode?: 'auto' | 'native' | 'prompt';
+  maxRepairAttempts?: number;  // Requests after an invalid reply; defaults to 2
+}
+
+/**
+ * Thrown when no reply parsed and validated against the schema. `rawText` is
+ * the last reply; `issues` is empty when it was not JSON at all.
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    readonly rawText: string,
+    readonly issues: ZodIssue[],
+    readonly attempts: number
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+export type StructuredParseResult =
+  | { success: true; data: any }
+  | { success: false; error: string; issues: ZodIssue[] };
+
+/**
+ * The response format for a schema. Providers want an object at the root, so
+ * other schemas are wrapped in `{ value }`; `parseStructuredOutput` unwraps them.
+ */
+export function structuredResponseFormat(schema: ZodTypeAny, options: StructuredChatOptions = {}): ResponseFormat & { wrapped: boolean } {
+  const jsonSchema = zodToJsonSchema(schema, { refStrategy: 'none' });
+  const wrapped = jsonSchema.type !== 'object';
+  return {
+    name: options.name || 'response',
+    description: options.description,
+    schema: wrapped
+      ? { type: 'object', properties: { value: jsonSchema }, required: ['value'], additionalProperties: false }
+      : jsonSchema,
+    wrapped
+  };
+}
+
+export function structuredOutputInstructions(schema: JsonSchema): string {
+  return 'Reply with only a JSON document matching this JSON Schema, without any other text:\n'
+    + JSON.stringify(schema, null, 2);
+}
+
+export function structuredRepairPrompt(error: string): string {
+  return `Your reply did not match the schema: ${error}\nReply again with only the corrected JSON document.`;
+}
+
+export function parseStructuredOutput(text: string, schema: ZodTypeAny, wrapped = false): StructuredParseResult {
+  let json: any;
+  try {
+    json = JSON.parse(extractJson(text));
+  } catch (error) {
+    return { success: false, error: `invalid JSON (${error instanceof Error ? error.message : String(error)})`, issues: [] };
+  }
+
+  const parsed = schema.safeParse(wrapped && json && typeof json === 'object' && 'value' in json ? json.value : json);
+  if (parsed.success) {
+    return { success: true, data: parsed.data };
+  }
+  const error = parsed.error.issues
+    .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('; ');
+  return { success: false, error, issues: parsed.error.issues };
+}
+
+// Models often wrap JSON in a code fence or a sentence; take the document inside
+function extractJson(text: string): string {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenced) return fenced[1].trim();
+
+  const start = trimmed.search(/[[{]/);
+  if (start < 0) return trimmed;
+  const end = Math.max(trimmed.lastIndexOf('}'), trimmed.lastIndexOf(']'));
+  return end > start ? trimmed.slice(start, end + 1) : trimmed;
+}
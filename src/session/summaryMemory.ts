@@ -0,0 +1,117 @@
+import type { ChatMessage } from '../chat/types';
+import type { LLMProvider, CompletionParams } from '../provider';
+import { extractText } from '../utils/media';
+import { estimateMessageTokens, type MessageTokenCounter } from './contextWindow';
+
+export interface ConversationSummary {
+  content: string;
+  /** Number of leading history messages folded into the summary */
+  summarizedCount: number;
+  updatedAt: Date;
+}
+
+export interface SummaryMemoryOptions {
+  /** Provider that writes the summary, typically a cheaper model than the session's */
+  provider: LLMProvider;
+  /** Summarize once the unsummarized conversation exceeds this many tokens */
+  triggerTokens: number;
+  /** Recent messages always sent verbatim (default 6) */
+  keepRecentMessages?: number;
+  countTokens?: MessageTokenCounter;
+  instructions?: string;
+  completionParams?: Partial<CompletionParams>;
+}
+
+const DEFAULT_INSTRUCTIONS = 'You maintain a running summary of a conversation between a user and an assistant. ' +
+  'Update the summary with the new messages. Keep names, decisions, open questions and tool results that later turns may need. ' +
+  'Reply with the summary only.';
+
+/**
+ * Folds older turns of a conversation into a rolling summary written by a
+ * secondary provider. The history itself is never modified; the summary only
+ * replaces the covered messages in what is sent to the model.
+ */
+export class SummaryMemory {
+  private keepRecentMessages: number;
+  private countTokens: MessageTokenCounter;
+
+  constructor(private options: SummaryMemoryOptions) {
+    if (options.triggerTokens <= 0) {
+      throw new Error('SummaryMemory requires triggerTokens > 0');
+    }
+    this.keepRecentMessages = options.keepRecentMessages ?? 6;
+    this.countTokens = options.countTokens || estimateMessageTokens;
+  }
+
+  shouldSummarize(history: ChatMessage[], summary?: ConversationSummary): boolean {
+    const pending = history
+      .slice(summary?.summarizedCount ?? 0)
+      .filter(message => message.role !== 'system');
+    const tokens = pending.reduce((total, message) => total + this.countTokens(message), 0);
+    return tokens > this.options.triggerTokens && this.summaryEnd(history, summary) > (summary?.summarizedCount ?? 0);
+  }
+
+  /**
+   * Fold every message before the recent window into the summary.
+   * Returns the previous summary when there is nothing new to fold.
+   */
+  async summarize(history: ChatMessage[], summary?: ConversationSummary): Promise<ConversationSummary | undefined> {
+    const start = summary?.summarizedCount ?? 0;
+    const end = this.summaryEnd(history, summary);
+    const messages = history.slice(start, end).filter(message => message.role !== 'system');
+    if (messages.length === 0) return summary;
+
+    const transcript = messages.map(formatMessage).join('\n');
+    const prompt = summary
+      ? `Current summary:\n${summary.content}\n\nNew messages:\n${transcript}`
+      : `Messages:\n${transcript}`;
+
+    const response = await this.options.provider.completion({
+      ...this.options.completionParams,
+      messages: [
+        { role: 'system', content: this.options.instructions || DEFAULT_INSTRUCTIONS },
+        { role: 'user', content: prompt }
+      ]
+    });
+
+    const content = (response.content || '').trim();
+    if (!content) {
+      throw new Error(`Summary provider '${this.options.provider.name}' returned an empty summary`);
+    }
+
+    return { content, summarizedCount: end, updatedAt: new Date() };
+  }
+
+  // Index where the verbatim window starts, never splitting a tool result from its turn
+  private summaryEnd(history: ChatMessage[], summary?: ConversationSummary): number {
+    let end = Math.max(history.length - this.keepRecentMessages, summary?.summarizedCount ?? 0);
+    while (end > 0 && end < history.length && history[end].role === 'tool') {
+      end--;
+    }
+    return Math.max(end, summary?.summarizedCount ?? 0);
+  }
+}
+
+/**
+ * Messages to send with the summary standing in for the turns it covers.
+ * System messages from the covered range are kept in front.
+ */
+export function applySummary(history: ChatMessage[], summary?: ConversationSummary): ChatMessage[] {
+  if (!summary || summary.summarizedCount === 0) return history;
+
+  const covered = history.slice(0, summary.summarizedCount);
+  return [
+    ...covered.filter(message => message.role === 'system'),
+    { role: 'system', content: `Summary of the earlier conversation:\n${summary.content}` },
+    ...history.slice(summary.summarizedCount)
+  ];
+}
+
+function formatMessage(message: ChatMessage): string {
+  const text = typeof message.content === 'string' ? message.content : extractText(message.content);
+  const speaker = message.role === 'tool' ? `tool ${message.name || ''}`.trim() : message.role;
+  const calls = message.role === 'assistant' && message.tool_calls?.length
+    ? ` [called ${message.tool_calls.map(toolCall => toolCall.name).join(', ')}]`
+    : '';
+  return `${speaker}: ${text}${calls}`;
+}
@@ -0,0 +1,35 @@
+import type { ToolCall } from '../extractor';
+import type { ToolDefinition, ToolRisk } from '../tools';
+
+/**
+ * A tool call waiting for the caller to approve, edit or deny it
+ */
+export interface ToolApprovalRequest {
+  toolCallId: string;
+  toolName: string;
+  arguments: Record<string, any>;
+  risk?: ToolRisk;
+}
+
+export type ToolApprovalDecision =
+  | { action: 'approve' }
+  | { action: 'edit'; arguments: Record<string, any> }  // Run with these arguments instead
+  | { action: 'deny'; reason?: string };                 // Reported to the model as the tool result
+
+/**
+ * Tool calls of a turn paused for approval. All calls of the turn are held,
+ * not only the ones that need approval, so results stay in call order.
+ */
+export interface PendingToolApprovals {
+  toolCalls: ToolCall[];
+  requests: ToolApprovalRequest[];
+}
+
+export function requiresApproval(tool?: ToolDefinition): boolean {
+  if (!tool) return false;
+  return tool.requiresApproval ?? tool.risk === 'high';
+}
+
+export function deniedToolResult(toolName: string, reason?: string): string {
+  return `Tool call to ${toolName} was denied by the user${reason ? `: ${reason}` : ''}`;
+}
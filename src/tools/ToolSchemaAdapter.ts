@@ -0,0 +1,278 @@
+import type { ToolDefinition } from './types';
+import { toolParametersSchema, type JsonSchema } from '../utils/jsonSchema';
+
+/**
+ * Converts tool definitions into the shape a provider expects in its request body
+ */
+export interface ToolSchemaAdapter {
+  formatTools(tools: ToolDefinition[]): any[];
+}
+
+export class ToolSchemaAdapterRegistry {
+  private adapters = new Map<string, ToolSchemaAdapter>();
+  private fallback: ToolSchemaAdapter;
+
+  constructor(fallback: ToolSchemaAdapter = genericToolSchemaAdapter) {
+    this.fallback = fallback;
+  }
+
+  registerAdapter(providerName: string, adapter: ToolSchemaAdapter): void {
+    this.adapters.set(providerName, adapter);
+  }
+
+  removeAdapter(providerName: string): void {
+    this.adapters.delete(providerName);
+  }
+
+  hasAdapter(providerName: string): boolean {
+    return this.adapters.has(providerName);
+  }
+
+  listAdapters(): string[] {
+    return Array.from(this.adapters.keys());
+  }
+
+  /**
+   * Adapter for a provider, or the generic one when none is registered
+   */
+  getAdapter(providerName: string): ToolSchemaAdapter {
+    return this.adapters.get(providerName) || this.fallback;
+  }
+
+  formatTools(providerName: string, tools: ToolDefinition[]): any[] {
+    if (tools.length === 0) return [];
+    return this.getAdapter(providerName).formatTools(tools);
+  }
+}
+
+/**
+ * `{ name, description, parameters }` - used when a provider has no adapter
+ */
+export const genericToolSchemaAdapter: ToolSchemaAdapter = {
+  formatTools: (tools) => tools.map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    parameters: toolParametersSchema(tool.schema)
+  }))
+};
+
+/**
+ * OpenAI chat completions format, also accepted by Mistral, Groq and Ollama
+ */
+export const openAIToolSchemaAdapter: ToolSchemaAdapter = {
+  formatTools: (tools) => tools.map(tool => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: toolParametersSchema(tool.schema)
+    }
+  }))
+};
+
+export const claudeToolSchemaAdapter: ToolSchemaAdapter = {
+  formatTools: (tools) => tools.map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    input_schema: toolParametersSchema(tool.schema)
+  }))
+};
+
+/**
+ * Gemini takes a single tool entry holding every function declaration
+ */
+export const geminiToolSchemaAdapter: ToolSchemaAdapter = {
+  formatTools: (tools) => [{
+    functionDeclarations: tools.map(tool => {
+      const parameters = geminiParametersSchema(toolParametersSchema(tool.schema));
+      return {
+        name: tool.name,
+        description: tool.description,
+        ...(parameters ? { parameters } : {})
+      };
+    })
+  }]
+};
+
+// Keywords Gemini accepts from its OpenAPI 3.0 schema subset
+const GEMINI_NUMBER_FORMATS = ['float', 'double', 'int32', 'int64'];
+const GEMINI_STRING_FORMATS = ['enum', 'date-time'];
+const GEMINI_MAX_REF_DEPTH = 8;
+
+/**
+ * Rewrite tool parameters into the OpenAPI subset Gemini accepts: references are
+ * inlined, `additionalProperties` and other unsupported keywords are dropped, and
+ * `enum` is only kept on strings. Returns undefined for an object without
+ * properties, since Gemini rejects empty parameter objects.
+ */
+export function geminiParametersSchema(schema: JsonSchema): JsonSchema | undefined {
+  const converted = toGeminiSchema(schema, schema, []);
+  if (converted.type === 'object' && Object.keys(converted.properties || {}).length === 0) {
+    return undefined;
+  }
+  return converted;
+}
+
+function toGeminiSchema(node: any, root: JsonSchema, refStack: string[]): JsonSchema {
+  if (node === true || !node || typeof node !== 'object') {
+    return {};
+  }
+
+  if (typeof node.$ref === 'string') {
+    const { $ref, ...siblings } = node;
+    if (refStack.includes($ref) || refStack.length >= GEMINI_MAX_REF_DEPTH) {
+      // Gemini has no references, so recursive schemas are cut off here
+      return { type: 'object', ...pickDescription(siblings) };
+    }
+    const target = resolvePointer(root, $ref);
+    if (target === undefined) {
+      throw new Error(`Cannot resolve $ref '${$ref}' in tool parameters`);
+    }
+    return toGeminiSchema({ ...target, ...siblings }, root, [...refStack, $ref]);
+  }
+
+  if (Array.isArray(node.allOf) && node.allOf.length > 0) {
+    const { allOf, ...rest } = node;
+    const parts = allOf.map((part: any) => part && typeof part.$ref === 'string' && !refStack.includes(part.$ref)
+      ? resolvePointer(root, part.$ref) : part);
+    return toGeminiSchema(parts.reduce(mergeSchemas, rest), root, refStack);
+  }
+
+  const result: JsonSchema = {};
+  let nullable = node.nullable === true;
+
+  const types: string[] = Array.isArray(node.type) ? node.type : node.type ? [node.type] : [];
+  if (types.includes('null')) nullable = true;
+  const nonNull = types.filter(type => type !== 'null');
+
+  if (nonNull.length > 1) {
+    result.anyOf = nonNull.map(type => toGeminiSchema({ ...node, type, nullable: false }, root, refStack));
+    if (nullable) result.nullable = true;
+    return withAnnotations(result, node);
+  }
+
+  const variants = node.anyOf || node.oneOf;
+  if (Array.isArray(variants)) {
+    const branches = variants.filter((branch: any) => !(branch && branch.type === 'null'));
+    if (branches.length < variants.length) nullable = true;
+    if (branches.length === 1) {
+      const single = toGeminiSchema(branches[0], root, refStack);
+      if (nullable) single.nullable = true;
+      return withAnnotations(single, node);
+    }
+    result.anyOf = branches.map((branch: any) => toGeminiSchema(branch, root, refStack));
+    if (nullable) result.nullable = true;
+    return withAnnotations(result, node);
+  }
+
+  let type = nonNull[0];
+  const values: any[] | undefined = Array.isArray(node.enum) ? node.enum
+    : node.const !== undefined ? [node.const] : undefined;
+  let allowedValues: string | undefined;
+
+  if (values) {
+    if (values.includes(null)) nullable = true;
+    const nonNullValues = values.filter(value => value !== null);
+    if (nonNullValues.length > 0 && nonNullValues.every(value => typeof value === 'string') && (!type || type === 'string')) {
+      type = 'string';
+      result.enum = nonNullValues;
+    } else if (nonNullValues.length > 0) {
+      allowedValues = `Allowed values: ${nonNullValues.map(value => JSON.stringify(value)).join(', ')}`;
+      if (!type) type = inferType(nonNullValues[0]);
+    }
+  }
+
+  if (!type) {
+    if (node.properties) type = 'object';
+    else if (node.items || node.prefixItems) type = 'array';
+  }
+  if (type) result.type = type;
+
+  switch (type) {
+    case 'string':
+      if (GEMINI_STRING_FORMATS.includes(node.format)) result.format = node.format;
+      copyKeys(node, result, ['minLength', 'maxLength', 'pattern']);
+      break;
+    case 'number':
+    case 'integer':
+      if (GEMINI_NUMBER_FORMATS.includes(node.format)) result.format = node.format;
+      copyKeys(node, result, ['minimum', 'maximum']);
+      break;
+    case 'array': {
+      const items = Array.isArray(node.prefixItems) ? node.prefixItems[0]
+        : Array.isArray(node.items) ? node.items[0] : node.items;
+      result.items = toGeminiSchema(items, root, refStack);
+      copyKeys(node, result, ['minItems', 'maxItems']);
+      break;
+    }
+    case 'object': {
+      const properties: Record<string, JsonSchema> = {};
+      for (const [key, value] of Object.entries(node.properties || {})) {
+        properties[key] = toGeminiSchema(value, root, refStack);
+      }
+      result.properties = properties;
+      if (Array.isArray(node.required)) {
+        const required = node.required.filter((key: string) => key in properties);
+        if (required.length > 0) result.required = required;
+      }
+      break;
+    }
+  }
+
+  if (nullable) result.nullable = true;
+  withAnnotations(result, node);
+  if (allowedValues) {
+    result.description = result.description ? `${result.description} (${allowedValues})` : allowedValues;
+  }
+  return result;
+}
+
+function withAnnotations(result: JsonSchema, node: any): JsonSchema {
+  if (typeof node.title === 'string') result.title = node.title;
+  if (typeof node.description === 'string') result.description = node.description;
+  return result;
+}
+
+function pickDescription(node: any): JsonSchema {
+  return typeof node.description === 'string' ? { description: node.description } : {};
+}
+
+function copyKeys(from: any, to: JsonSchema, keys: string[]): void {
+  for (const key of keys) {
+    if (typeof from[key] === 'number' || typeof from[key] === 'string') {
+      to[key] = from[key];
+    }
+  }
+}
+
+function inferType(value: any): string {
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'object') return 'object';
+  return 'string';
+}
+
+function mergeSchemas(target: any, source: any): any {
+  if (!source || typeof source !== 'object') return target;
+  const merged = { ...source, ...target };
+  if (target.properties || source.properties) {
+    merged.properties = { ...source.properties, ...target.properties };
+  }
+  if (target.required || source.required) {
+    merged.required = Array.from(new Set([...(target.required || []), ...(source.required || [])]));
+  }
+  return merged;
+}
+
+function resolvePointer(root: JsonSchema, ref: string): any {
+  if (!ref.startsWith('#')) return undefined;
+  const path = ref.slice(1).split('/').filter(Boolean)
+    .map(segment => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'));
+  let current: any = root;
+  for (const segment of path) {
+    if (!current || typeof current !== 'object') return undefined;
+    current = current[segment];
+  }
+  return current;
+}
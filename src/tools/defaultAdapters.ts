@@ -0,0 +1,16 @@
+import {
+  ToolSchemaAdapterRegistry,
+  openAIToolSchemaAdapter,
+  claudeToolSchemaAdapter,
+  geminiToolSchemaAdapter
+} from './ToolSchemaAdapter';
+
+export const toolSchemaAdapterRegistry = new ToolSchemaAdapterRegistry();
+
+// Register built-in adapters by provider name (alphabetical order)
+toolSchemaAdapterRegistry.registerAdapter('claude', claudeToolSchemaAdapter);
+toolSchemaAdapterRegistry.registerAdapter('gemini', geminiToolSchemaAdapter);
+toolSchemaAdapterRegistry.registerAdapter('groq', openAIToolSchemaAdapter);
+toolSchemaAdapterRegistry.registerAdapter('mistral', openAIToolSchemaAdapter);
+toolSchemaAdapterRegistry.registerAdapter('ollama', openAIToolSchemaAdapter);
+toolSchemaAdapterRegistry.registerAdapter('openai', openAIToolSchemaAdapter);
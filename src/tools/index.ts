@@ -1 +1,5 @@
-export * from './types'; 
\ No newline at end of file
+export * from './types';
+export * from './ToolSchemaAdapter';
+export * from './defaultAdapters';
+export * from './toolScope';
+export * from './toolResult';
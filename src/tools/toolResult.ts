@@ -0,0 +1,35 @@
+import type { MediaContent } from '../chat/types';
+import type { ToolResultContent } from './types';
+
+export function isToolResultContent(value: any): value is ToolResultContent {
+  return !!value && typeof value === 'object' && value.type === 'tool_result' && 'content' in value;
+}
+
+/**
+ * How a tool's result appears in the history: text for every provider, with
+ * media kept beside it. Media are named in the text, so models that cannot
+ * see them know they exist.
+ */
+export function toolResultMessage(result: any): { content: string; media?: MediaContent[] } {
+  if (!isToolResultContent(result)) {
+    return { content: typeof result === 'string' ? result : JSON.stringify(result) };
+  }
+
+  const parts = Array.isArray(result.content) ? result.content : [result.content];
+  const text: string[] = [];
+  const media: MediaContent[] = [];
+  for (const part of parts) {
+    if (part.type === 'text') {
+      text.push(part.text);
+    } else {
+      media.push(part);
+      text.push(`[${part.type}${part.filename ? ` ${part.filename}` : ''}${part.mimeType ? ` (${part.mimeType})` : ''}]`);
+    }
+  }
+  // Structured results without a text rendering are sent as JSON
+  if (text.length === 0 && result.structuredContent) {
+    text.push(JSON.stringify(result.structuredContent));
+  }
+
+  return { content: text.join('\n'), ...(media.length > 0 && { media }) };
+}
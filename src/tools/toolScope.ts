@@ -0,0 +1,103 @@
+import type { ChatMessage } from '../chat/types';
+import type { ToolDefinition } from './types';
+import { extractText } from '../utils/media';
+
+/**
+ * Which registered tools a session offers the model. Patterns are globs on
+ * tool names, where `*` matches any run of characters: `github.*` covers every
+ * tool from the `github` server of `initializeAllMcpTools`.
+ */
+export interface ToolScopeOptions {
+  allow?: string[];  // Only matching tools; all tools when unset
+  deny?: string[];   // Removed even when allowed
+  // Runtime enable/disable calls, the last matching one wins over allow and deny
+  overrides?: Array<{ pattern: string; enabled: boolean }>;
+  maxTools?: number;  // Offer only the most relevant tools when more are in scope
+  selectTools?: ToolSelector;
+}
+
+export type ToolSelector = (
+  tools: ToolDefinition[],
+  context: { messages: ChatMessage[]; maxTools: number }
+) => ToolDefinition[];
+
+const patternCache = new Map<string, RegExp>();
+
+export function matchesToolPattern(name: string, pattern: string): boolean {
+  let regex = patternCache.get(pattern);
+  if (!regex) {
+    const source = pattern
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    regex = new RegExp(`^${source}$`);
+    patternCache.set(pattern, regex);
+  }
+  return regex.test(name);
+}
+
+export function isToolInScope(name: string, scope: ToolScopeOptions = {}): boolean {
+  const overrides = scope.overrides || [];
+  for (let i = overrides.length - 1; i >= 0; i--) {
+    if (matchesToolPattern(name, overrides[i].pattern)) return overrides[i].enabled;
+  }
+
+  if (scope.deny?.some(pattern => matchesToolPattern(name, pattern))) return false;
+  return !scope.allow || scope.allow.some(pattern => matchesToolPattern(name, pattern));
+}
+
+/**
+ * Tools to send with a request: those in scope, narrowed to the `maxTools`
+ * most relevant to the conversation when there are more
+ */
+export function selectToolsInScope(
+  tools: ToolDefinition[],
+  scope: ToolScopeOptions = {},
+  messages: ChatMessage[] = []
+): ToolDefinition[] {
+  const inScope = tools.filter(tool => isToolInScope(tool.name, scope));
+  if (scope.maxTools === undefined || inScope.length <= scope.maxTools) return inScope;
+
+  const select = scope.selectTools || selectRelevantTools;
+  return select(inScope, { messages, maxTools: scope.maxTools }).slice(0, scope.maxTools);
+}
+
+const RECENT_MESSAGES = 4;
+
+/**
+ * Default selector: rank tools by how many words of the recent conversation
+ * appear in their name and description. Ties keep registration order.
+ */
+export function selectRelevantTools(
+  tools: ToolDefinition[],
+  context: { messages: ChatMessage[]; maxTools: number }
+): ToolDefinition[] {
+  const recent = context.messages.filter(message => message.role !== 'system').slice(-RECENT_MESSAGES);
+  const query = new Set(recent.flatMap(message => words(
+    typeof message.content === 'string' ? message.content : extractText(message.content)
+  )));
+
+  return tools
+    .map((tool, index) => {
+      const toolWords = new Set(words(`${tool.name} ${tool.description}`));
+      let score = 0;
+      query.forEach(word => {
+        if (toolWords.has(word)) score++;
+      });
+      return { tool, index, score };
+    })
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, context.maxTools)
+    .map(({ tool }) => tool);
+}
+
+// Lowercase words of three or more letters, splitting snake_case, dotted and
+// camelCase names; a trailing 's' is dropped so plurals match
+function words(text: string): string[] {
+  return text
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length >= 3)
+    .map(word => word.replace(/s$/, ''));
+}
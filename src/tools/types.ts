@@ -1,8 +1,36 @@
 import type { ZodTypeAny } from "zod";
+import type { MessageContent } from "../chat/types";
+
+export type ToolContext = {
+  // Aborted when the chat turn that called the tool is cancelled
+  signal?: AbortSignal;
+  // Same for every call with the same tool and arguments, for handlers that deduplicate
+  idempotencyKey?: string;
+};
+
+export type ToolRisk = 'low' | 'medium' | 'high';
 
 export type ToolDefinition = {
   name: string;
   description: string;
   schema: ZodTypeAny;
-  handler: (args: any) => Promise<any> | any;
-}; 
\ No newline at end of file
+  handler: (args: any, context?: ToolContext) => Promise<any> | any;
+  // Set to false for tools that must not overlap with other calls; they run
+  // alone when a session executes tool calls concurrently (default true)
+  parallelSafe?: boolean;
+  risk?: ToolRisk;
+  // Calls wait for the caller's approval before running; defaults to true for high risk tools
+  requiresApproval?: boolean;
+  // Results may be reused for identical arguments when the service has a cache; for read-only tools
+  cacheable?: boolean;
+  cacheTtlMs?: number;  // Overrides the cache's default TTL
+};
+
+// A tool result with content beyond plain text, such as images from an MCP
+// tool. Sessions send its text to the model and attach its media to the tool
+// message for providers that accept them.
+export type ToolResultContent = {
+  type: 'tool_result';
+  content: MessageContent;
+  structuredContent?: Record<string, any>;  // Validated against the tool's output schema
+};
@@ -1,4 +1,5 @@
 import { Logger } from './Logger';
+import { abortableSleep, isAbortError, throwIfAborted } from './abort';
 
 export interface RetryOptions {
   maxAttempts?: number;
@@ -10,6 +11,13 @@ export interface RetryOptions {
   retryableErrorMessages?: string[];
 }
 
+export interface RetryExecutionContext {
+  operationName: string;
+  metadata?: Record<string, any>;
+  // Stops further attempts and cuts short the delay between them
+  signal?: AbortSignal;
+}
+
 export interface RetryContext {
   attempt: number;
   totalAttempts: number;
@@ -45,11 +53,12 @@ export class RetryHandler {
 
   async execute<T>(
     operation: () => Promise<T>,
-    context: { operationName: string; metadata?: Record<string, any> } = { operationName: 'unknown' }
+    context: RetryExecutionContext = { operationName: 'unknown' }
   ): Promise<T> {
     let lastError: Error | null = null;
     
     for (let attempt = 1; attempt <= this.options.maxAttempts; attempt++) {
+      throwIfAborted(context.signal);
       try {
         const result = await operation();
         
@@ -65,6 +74,7 @@ export class RetryHandler {
         return result;
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
+        if (isAbortError(lastError) || context.signal?.aborted) throw lastError;
         
         const isRetryable = this.isRetryableError(lastError);
         const isLastAttempt = attempt === this.options.maxAttempts;
@@ -92,7 +102,7 @@ export class RetryHandler {
           ...context.metadata
         });
         
-        await this.sleep(delay);
+        await abortableSleep(delay, context.signal);
       }
     }
     
@@ -178,7 +188,7 @@ export class HTTPRetryHandler extends RetryHandler {
   async executeWithRetryAfter<T>(
     operation: () => Promise<T>,
     getRetryAfter: () => number | null,
-    context: { operationName: string; metadata?: Record<string, any> } = { operationName: 'unknown' }
+    context: RetryExecutionContext = { operationName: 'unknown' }
   ): Promise<T> {
     return this.execute(async () => {
       try {
@@ -194,7 +204,7 @@ export class HTTPRetryHandler extends RetryHandler {
               retryAfterSeconds: retryAfter,
               ...context.metadata
             });
-            await this.sleep(retryAfterMs);
+            await abortableSleep(retryAfterMs, context.signal);
             return await operation();
           }
         }
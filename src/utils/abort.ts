@@ -0,0 +1,93 @@
+// Helpers for cancelling chats, streams and tool calls with an AbortSignal
+
+/**
+ * Error thrown when an operation is cancelled; named like the DOM AbortError
+ * so callers can check `error.name === 'AbortError'` for fetch and ours alike.
+ */
+export function createAbortError(signal?: AbortSignal): Error {
+  if (signal?.reason instanceof Error) return signal.reason;
+  const error = new Error(typeof signal?.reason === 'string' ? signal.reason : 'Operation aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw createAbortError(signal);
+}
+
+/**
+ * Settle with the promise, or reject as soon as the signal aborts. The
+ * underlying work is not stopped; pass the signal to it as well when it can.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(createAbortError(signal));
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+export interface CombinedSignal {
+  signal: AbortSignal | undefined;
+  // Detaches from the given signals; call once the operation has settled
+  release: () => void;
+}
+
+/**
+ * Signal that aborts when any of the given signals does. Its listeners stay
+ * on the given signals until `release` or an abort, so a long-lived signal
+ * shared by many calls does not collect one per call.
+ */
+export function combineSignals(...signals: Array<AbortSignal | undefined>): CombinedSignal {
+  const active = signals.filter((signal): signal is AbortSignal => !!signal);
+  if (active.length <= 1) return { signal: active[0], release: () => undefined };
+
+  const controller = new AbortController();
+  const aborted = active.find(signal => signal.aborted);
+  if (aborted) {
+    controller.abort(aborted.reason);
+    return { signal: controller.signal, release: () => undefined };
+  }
+
+  const release = () => active.forEach(signal => signal.removeEventListener('abort', onAbort));
+  const onAbort = (event: Event) => {
+    release();
+    controller.abort((event.target as AbortSignal).reason);
+  };
+  active.forEach(signal => signal.addEventListener('abort', onAbort, { once: true }));
+  return { signal: controller.signal, release };
+}
+
+/**
+ * Resolve after `ms`, or reject early when the signal aborts
+ */
+export function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  throwIfAborted(signal);
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError(signal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,26 @@
+/**
+ * Run tasks with at most `limit` in flight; each task starts once a slot is
+ * free. The returned promises are in task order and settle in any order.
+ */
+export function runWithConcurrency<T>(tasks: Array<() => Promise<T>>, limit: number): Promise<T>[] {
+  const max = Math.max(1, Math.floor(limit) || 1);
+  const queued: Array<() => void> = [];
+  let running = 0;
+
+  const release = () => {
+    running--;
+    queued.shift()?.();
+  };
+
+  return tasks.map(task => new Promise<T>((resolve, reject) => {
+    const start = () => {
+      running++;
+      Promise.resolve()
+        .then(task)
+        .then(resolve, reject)
+        .then(release);
+    };
+    if (running < max) start();
+    else queued.push(start);
+  }));
+}
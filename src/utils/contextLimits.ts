@@ -0,0 +1,63 @@
+// Context window sizes (in tokens) for common models, used to trim history
+// before it is sent. Unknown models fall back to the provider default.
+
+const MODEL_CONTEXT_LIMITS: Record<string, Record<string, number>> = {
+  openai: {
+    'gpt-4': 8192,
+    'gpt-4-turbo': 128000,
+    'gpt-4o': 128000,
+    'gpt-4o-mini': 128000,
+    'gpt-3.5-turbo': 16385,
+    'o1': 200000,
+    'o1-mini': 128000,
+    'o1-preview': 128000
+  },
+  claude: {
+    'claude-3-opus-20240229': 200000,
+    'claude-3-sonnet-20240229': 200000,
+    'claude-3-haiku-20240307': 200000,
+    'claude-3-5-sonnet-20241022': 200000
+  },
+  gemini: {
+    'gemini-1.5-pro': 2097152,
+    'gemini-1.5-flash': 1048576,
+    'gemini-pro': 32760
+  },
+  groq: {
+    'llama-3.1-70b-versatile': 131072,
+    'llama-3.1-8b-instant': 131072,
+    'mixtral-8x7b-32768': 32768,
+    'llama2-70b-4096': 4096
+  },
+  mistral: {
+    'mistral-large-latest': 128000,
+    'mistral-medium-latest': 128000,
+    'mistral-small-latest': 32000,
+    'mistral-medium': 32000
+  }
+};
+
+// Conservative defaults when the model is not in the table
+const PROVIDER_DEFAULT_LIMITS: Record<string, number> = {
+  ollama: 2048,
+  'node-llama-cpp': 4096
+};
+
+/**
+ * Context window for a provider/model pair, or undefined when unknown
+ */
+export function getContextLimit(provider: string, model?: string): number | undefined {
+  const fromTable = model ? MODEL_CONTEXT_LIMITS[provider]?.[model] : undefined;
+  return fromTable ?? PROVIDER_DEFAULT_LIMITS[provider];
+}
+
+/**
+ * Register or override the context window of a model
+ */
+export function setContextLimit(provider: string, model: string, limit: number): void {
+  if (!Number.isFinite(limit) || limit <= 0) {
+    throw new Error(`Invalid context limit for ${provider}/${model}: ${limit}`);
+  }
+  MODEL_CONTEXT_LIMITS[provider] = MODEL_CONTEXT_LIMITS[provider] || {};
+  MODEL_CONTEXT_LIMITS[provider][model] = limit;
+}
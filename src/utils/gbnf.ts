@@ -0,0 +1,321 @@
+import type { ZodTypeAny } from 'zod';
+import type { ToolDefinition } from '../tools/types';
+import { toolParametersSchema, zodToJsonSchema, type JsonSchema } from './jsonSchema';
+
+/**
+ * Grammar constraining what a local model may generate: raw GBNF, or a JSON
+ * Schema or zod schema compiled to GBNF
+ */
+export type GrammarInput =
+  | { type: 'gbnf'; grammar: string }
+  | { type: 'json_schema'; schema: JsonSchema }
+  | { type: 'zod'; schema: ZodTypeAny };
+
+export function grammarToGbnf(grammar: GrammarInput): string {
+  switch (grammar.type) {
+    case 'gbnf':
+      return grammar.grammar;
+    case 'json_schema':
+      return jsonSchemaToGbnf(grammar.schema);
+    case 'zod':
+      return zodToGbnf(grammar.schema);
+    default:
+      throw new Error(`Unknown grammar type '${(grammar as any).type}'`);
+  }
+}
+
+export function zodToGbnf(schema: ZodTypeAny): string {
+  return jsonSchemaToGbnf(zodToJsonSchema(schema));
+}
+
+/**
+ * Grammar for one call to any of `tools`, in the `{"function_call": {"name", "arguments"}}`
+ * form NodeLlamaCppExtractor reads
+ */
+export function toolCallGrammar(tools: ToolDefinition[]): GrammarInput {
+  if (tools.length === 0) {
+    throw new Error('toolCallGrammar requires at least one tool');
+  }
+
+  const calls = tools.map(tool => ({
+    type: 'object',
+    properties: {
+      name: { const: tool.name },
+      // Inlined, as references would resolve against this document's root
+      arguments: toolParametersSchema(tool.schema, { refStrategy: 'none' })
+    },
+    required: ['name', 'arguments']
+  }));
+  return {
+    type: 'json_schema',
+    schema: { type: 'object', properties: { function_call: { anyOf: calls } }, required: ['function_call'] }
+  };
+}
+
+/**
+ * Compile a JSON Schema to a GBNF grammar whose `root` rule matches JSON
+ * documents valid against it.
+ *
+ * Enforced: types, enum/const, properties and required (in declared order),
+ * items, tuples, minItems/maxItems, minLength/maxLength, anyOf/oneOf, object
+ * allOf, nullable and local $ref, including recursive ones. Declared objects
+ * get no extra properties. Constraints grammars cannot express well, such as
+ * `pattern`, `format` and numeric bounds, are left to validation afterwards.
+ */
+export function jsonSchemaToGbnf(schema: JsonSchema | boolean): string {
+  return new GbnfCompiler(schema).compile();
+}
+
+// Whitespace is bounded so sampling cannot wander off into it
+const PRIMITIVE_RULES: Record<string, string> = {
+  space: '| " " | "\\n" [ \\t]{0,20}',
+  boolean: '("true" | "false") space',
+  null: '"null" space',
+  'integral-part': '[0] | [1-9] [0-9]{0,15}',
+  'decimal-part': '[0-9]{1,16}',
+  number: '("-"? integral-part) ("." decimal-part)? ([eE] [-+]? integral-part)? space',
+  integer: '("-"? integral-part) space',
+  char: '[^"\\\\\\x7F\\x00-\\x1F] | [\\\\] (["\\\\bfnrt] | "u" [0-9a-fA-F]{4})',
+  string: '"\\"" char* "\\"" space',
+  value: 'object | array | string | number | boolean | null',
+  object: '"{" space (string ":" space value ("," space string ":" space value)*)? "}" space',
+  array: '"[" space (value ("," space value)*)? "]" space'
+};
+
+// Rules each primitive needs besides itself
+const PRIMITIVE_DEPENDENCIES: Record<string, string[]> = {
+  number: ['integral-part', 'decimal-part'],
+  integer: ['integral-part'],
+  string: ['char'],
+  value: ['object', 'array', 'string', 'number', 'boolean', 'null'],
+  object: ['string', 'value'],
+  array: ['value']
+};
+
+class GbnfCompiler {
+  private rules = new Map<string, string>();
+  private refRules = new Map<string, string>();
+
+  constructor(private root: JsonSchema | boolean) {}
+
+  compile(): string {
+    this.refRules.set('#', 'root');
+    this.rules.set('root', '');
+    this.rules.set('root', this.expression(this.root, 'root'));
+    this.primitive('space');
+
+    // root first, the rest in the order they were added
+    const { root, ...others } = Object.fromEntries(this.rules);
+    return [`root ::= ${root}`, ...Object.entries(others).map(([name, body]) => `${name} ::= ${body}`)].join('\n');
+  }
+
+  private expression(schema: JsonSchema | boolean, name: string): string {
+    if (schema === false) {
+      throw new Error(`Schema at '${name}' matches nothing and cannot be compiled to a grammar`);
+    }
+    if (schema === true || !schema || typeof schema !== 'object') {
+      return this.primitive('value');
+    }
+
+    if (typeof schema.$ref === 'string') {
+      return this.ref(schema.$ref);
+    }
+    if (schema.nullable === true) {
+      const { nullable, ...rest } = schema;
+      return `${this.rule(rest, `${name}-value`)} | ${this.primitive('null')}`;
+    }
+    if (schema.const !== undefined) {
+      return `${literal(JSON.stringify(schema.const))} space`;
+    }
+    if (Array.isArray(schema.enum)) {
+      return `(${schema.enum.map((value: any) => literal(JSON.stringify(value))).join(' | ')}) space`;
+    }
+
+    const variants = schema.anyOf || schema.oneOf;
+    if (Array.isArray(variants)) {
+      return variants.map((variant: JsonSchema, index: number) => this.rule(variant, `${name}-${index}`)).join(' | ');
+    }
+    if (Array.isArray(schema.allOf)) {
+      return this.expression(this.mergeAllOf(schema, name), name);
+    }
+
+    const types: string[] = Array.isArray(schema.type)
+      ? schema.type
+      : schema.type
+        ? [schema.type]
+        : schema.properties ? ['object'] : schema.items || schema.prefixItems ? ['array'] : [];
+    if (types.length === 0) {
+      return this.primitive('value');
+    }
+    if (types.length > 1) {
+      return types.map(type => this.rule({ ...schema, type }, `${name}-${type}`)).join(' | ');
+    }
+
+    switch (types[0]) {
+      case 'object':
+        return this.object(schema, name);
+      case 'array':
+        return this.array(schema, name);
+      case 'string':
+        return this.string(schema);
+      case 'number':
+      case 'integer':
+      case 'boolean':
+      case 'null':
+        return this.primitive(types[0]);
+      default:
+        throw new Error(`Unknown JSON Schema type '${types[0]}' at '${name}'`);
+    }
+  }
+
+  private object(schema: JsonSchema, name: string): string {
+    const properties: Array<[string, JsonSchema]> = Object.entries(schema.properties || {});
+    if (properties.length === 0) {
+      const additional = schema.additionalProperties;
+      if (additional === false) return '"{" space "}" space';
+      if (!additional || additional === true) return this.primitive('object');
+
+      const member = `${this.primitive('string')} ":" space ${this.rule(additional, `${name}-additional`)}`;
+      return `"{" space (${member} ("," space ${member})*)? "}" space`;
+    }
+
+    const required = new Set<string>(schema.required || []);
+    const member = ([key, property]: [string, JsonSchema]) =>
+      this.addRule(`${name}-${key}-kv`, `${literal(JSON.stringify(key))} space ":" space ${this.rule(property, `${name}-${key}`)}`);
+
+    const requiredMembers = properties.filter(([key]) => required.has(key)).map(member);
+    const optionalMembers = properties.filter(([key]) => !required.has(key)).map(member);
+    const optionalTail = (from: number) => optionalMembers.slice(from).map(kv => ` ("," space ${kv})?`).join('');
+
+    let body: string;
+    if (requiredMembers.length > 0) {
+      body = requiredMembers.join(' "," space ') + optionalTail(0);
+    } else {
+      // Any optional member may come first; the ones after it stay optional
+      body = `(${optionalMembers.map((kv, index) => `${kv}${optionalTail(index + 1)}`).join(' | ')})?`;
+    }
+    return `"{" space ${body} "}" space`;
+  }
+
+  private array(schema: JsonSchema, name: string): string {
+    const tuple: JsonSchema[] | undefined = Array.isArray(schema.prefixItems)
+      ? schema.prefixItems
+      : Array.isArray(schema.items) ? schema.items : undefined;
+    if (tuple) {
+      const items = tuple.map((item, index) => this.rule(item, `${name}-${index}`));
+      return items.length === 0 ? '"[" space "]" space' : `"[" space ${items.join(' "," space ')} "]" space`;
+    }
+
+    const item = this.rule(schema.items ?? true, `${name}-item`);
+    const min: number = schema.minItems ?? 0;
+    const max: number | undefined = schema.maxItems;
+    if (max === 0) return '"[" space "]" space';
+
+    const rest = `("," space ${item})${repetition(Math.max(min - 1, 0), max === undefined ? undefined : max - 1)}`;
+    const items = `${item} ${rest}`;
+    return `"[" space ${min > 0 ? items : `(${items})?`} "]" space`;
+  }
+
+  private string(schema: JsonSchema): string {
+    if (schema.minLength === undefined && schema.maxLength === undefined) {
+      return this.primitive('string');
+    }
+    this.primitive('char');
+    this.primitive('space');
+    return `"\\"" char${repetition(schema.minLength ?? 0, schema.maxLength)} "\\"" space`;
+  }
+
+  private mergeAllOf(schema: JsonSchema, name: string): JsonSchema {
+    const { allOf, ...rest } = schema;
+    return allOf.reduce((merged: JsonSchema, part: JsonSchema) => {
+      const resolved = typeof part.$ref === 'string' ? this.resolve(part.$ref) : part;
+      if (!resolved || typeof resolved !== 'object' || (resolved.type && resolved.type !== 'object' && !resolved.properties)) {
+        throw new Error(`Only object schemas can be combined with allOf at '${name}'`);
+      }
+      return {
+        ...merged,
+        ...resolved,
+        type: 'object',
+        properties: { ...merged.properties, ...resolved.properties },
+        required: [...(merged.required || []), ...(resolved.required || [])]
+      };
+    }, rest);
+  }
+
+  // A rule for the sub-schema, so recursive and repeated parts stay small
+  private rule(schema: JsonSchema | boolean, name: string): string {
+    if (schema === true || (schema && typeof schema === 'object' && Object.keys(schema).length === 0)) {
+      return this.primitive('value');
+    }
+    if (schema && typeof schema === 'object' && typeof schema.$ref === 'string') {
+      return this.ref(schema.$ref);
+    }
+    return this.addRule(name, this.expression(schema, name));
+  }
+
+  private ref(ref: string): string {
+    const existing = this.refRules.get(ref);
+    if (existing) return existing;
+
+    const name = this.uniqueName(ref.split('/').pop() || 'ref');
+    this.refRules.set(ref, name);
+    // Reserved before compiling the target, so recursion finds the name
+    this.rules.set(name, '');
+    this.rules.set(name, this.expression(this.resolve(ref), name));
+    return name;
+  }
+
+  private resolve(ref: string): JsonSchema {
+    if (!ref.startsWith('#')) {
+      throw new Error(`Unsupported $ref '${ref}': only local references can be compiled to a grammar`);
+    }
+    let target: any = this.root;
+    for (const segment of ref.slice(2).split('/').filter(Boolean)) {
+      const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+      target = target !== null && typeof target === 'object' ? target[key] : undefined;
+      if (target === undefined) {
+        throw new Error(`Cannot resolve $ref '${ref}'`);
+      }
+    }
+    return target;
+  }
+
+  private primitive(name: string): string {
+    if (!this.rules.has(name)) {
+      this.rules.set(name, PRIMITIVE_RULES[name]);
+      for (const dependency of [...(PRIMITIVE_DEPENDENCIES[name] || []), 'space']) {
+        if (dependency !== name) this.primitive(dependency);
+      }
+    }
+    return name;
+  }
+
+  private addRule(name: string, body: string): string {
+    const ruleName = this.uniqueName(name);
+    this.rules.set(ruleName, body);
+    return ruleName;
+  }
+
+  private uniqueName(name: string): string {
+    const base = name.replace(/[^a-zA-Z0-9-]+/g, '-') || 'rule';
+    let candidate = base;
+    for (let i = 1; this.rules.has(candidate) || PRIMITIVE_RULES[candidate] !== undefined; i++) {
+      candidate = `${base}${i}`;
+    }
+    return candidate;
+  }
+}
+
+function literal(text: string): string {
+  const escaped = text
+    .replace(/[\\"]/g, '\\$&')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+  return `"${escaped}"`;
+}
+
+function repetition(min: number, max?: number): string {
+  if (max === undefined) return min === 0 ? '*' : `{${min},}`;
+  return min === max ? `{${min}}` : `{${min},${max}}`;
+}
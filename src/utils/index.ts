@@ -3,7 +3,6 @@
  */
 import type { ModelId } from "../model";
 import { getModelContext } from "../model";
-import { z } from 'zod';
 
 // Export media utilities
 export * from './media';
@@ -12,6 +11,13 @@ export * from './media';
 export * from './RetryHandler';
 export * from './Logger';
 export * from './cost';
+export * from './contextLimits';
+export * from './jsonSchema';
+export * from './gbnf';
+export * from './tokenizer';
+export * from './abort';
+export * from './concurrency';
+export * from './canonicalJson';
 
 /**
  * Tokenize text using the specified model.
@@ -21,7 +27,7 @@ export async function tokenize(
   text: string,
 ): Promise<number[]> {
   const context = await getModelContext(modelId);
-  return await context.tokenize(text);
+  return Array.from(await (context.model ?? context).tokenize(text));
 }
 
 /**
@@ -32,26 +38,5 @@ export async function detokenize(
   tokens: number[],
 ): Promise<string> {
   const context = await getModelContext(modelId);
-  return await context.detokenize(tokens);
-}
-
-/**
- * Convert a JSON Schema to a zod schema (basic implementation).
- * Only supports type: object with string/number/boolean properties.
- */
-export function zodFromJsonSchema(schema: any): any {
-  if (schema.type === 'object' && schema.properties) {
-    const shape: Record<string, any> = {};
-    for (const [key, prop] of Object.entries(schema.properties)) {
-      const p = prop as any;
-      if (p.type === 'string') shape[key] = z.string();
-      else if (p.type === 'number' || p.type === 'integer') shape[key] = z.number();
-      else if (p.type === 'boolean') shape[key] = z.boolean();
-      else if (p.type === 'object') shape[key] = z.any(); // fallback
-      else shape[key] = z.any();
-    }
-    return z.object(shape);
-  }
-  // Fallback for non-object schemas
-  return z.any();
+  return await (context.model ?? context).detokenize(tokens);
 }
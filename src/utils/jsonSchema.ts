@@ -0,0 +1,585 @@
+import { z, ZodTypeAny } from 'zod';
+import { zodToJsonSchema as convertZodToJsonSchema } from 'zod-to-json-schema';
+import { canonicalJson } from './canonicalJson';
+
+/**
+ * Plain JSON Schema object (draft-07 shaped)
+ */
+export type JsonSchema = Record<string, any>;
+
+export interface ZodToJsonSchemaOptions {
+  /**
+   * How repeated and recursive sub-schemas are referenced:
+   * - 'root': `$ref` pointers resolved from the document root (default)
+   * - 'relative': relative JSON pointers
+   * - 'none': inline every occurrence (recursive schemas become `{}`)
+   */
+  refStrategy?: 'root' | 'relative' | 'none';
+  /** Named sub-schemas emitted under `definitions` and referenced by `$ref` */
+  definitions?: Record<string, ZodTypeAny>;
+}
+
+/**
+ * Convert a zod schema to a JSON Schema document.
+ * Handles objects, arrays, enums, unions, optionals, nullables, defaults,
+ * descriptions and nested/recursive references.
+ */
+export function zodToJsonSchema(schema: ZodTypeAny, options: ZodToJsonSchemaOptions = {}): JsonSchema {
+  const jsonSchema = convertZodToJsonSchema(schema, {
+    $refStrategy: options.refStrategy ?? 'root',
+    definitions: options.definitions ?? {},
+    target: 'jsonSchema7'
+  }) as JsonSchema;
+
+  // The meta-schema URI and an empty definitions map are noise for providers and tool consumers
+  const { $schema, ...rest } = jsonSchema;
+  if (rest.definitions && Object.keys(rest.definitions).length === 0) {
+    delete rest.definitions;
+  }
+  return rest;
+}
+
+/**
+ * Convert a tool's zod schema to a JSON Schema usable as function/tool parameters.
+ * Providers require an object at the top level: schemas that accept anything
+ * (e.g. `z.any()`) become an empty object schema, and other non-object
+ * schemas throw, since the model could never call the tool with them.
+ */
+export function toolParametersSchema(schema: ZodTypeAny | undefined, options: ZodToJsonSchemaOptions = {}): JsonSchema {
+  if (!schema) {
+    return { type: 'object', properties: {} };
+  }
+
+  const jsonSchema = zodToJsonSchema(schema, options);
+  if (jsonSchema.type === 'object') {
+    return jsonSchema;
+  }
+  const { $schema, description, ...constraints } = jsonSchema;
+  if (Object.keys(constraints).length === 0) {
+    return { type: 'object', properties: {}, ...(description !== undefined && { description }) };
+  }
+
+  const kind = jsonSchema.type ?? Object.keys(constraints).join('/');
+  throw new Error(`Tool parameters must be an object schema such as z.object({...}), got '${kind}'`);
+}
+
+export interface ZodFromJsonSchemaOptions {
+  /**
+   * What to do with keywords that cannot be expressed in zod
+   * (e.g. `if`/`then`/`else`, `unevaluatedProperties`):
+   * throw an error (default) or ignore them.
+   */
+  unsupported?: 'error' | 'ignore';
+}
+
+// Keywords we recognise but cannot translate faithfully
+const UNSUPPORTED_KEYWORDS = [
+  'if',
+  'then',
+  'else',
+  'dependentSchemas',
+  'unevaluatedProperties',
+  'unevaluatedItems',
+  '$dynamicRef',
+  '$recursiveRef',
+  'contentSchema'
+];
+
+// Keywords that carry no validation on their own
+const ANNOTATION_KEYWORDS = new Set([
+  '$schema',
+  '$id',
+  '$anchor',
+  '$dynamicAnchor',
+  '$recursiveAnchor',
+  '$vocabulary',
+  '$comment',
+  '$defs',
+  'definitions',
+  'title',
+  'description',
+  'default',
+  'examples',
+  'deprecated',
+  'readOnly',
+  'writeOnly',
+  'contentMediaType',
+  'contentEncoding'
+]);
+
+const OBJECT_KEYWORDS = ['properties', 'required', 'additionalProperties', 'patternProperties', 'propertyNames', 'minProperties', 'maxProperties', 'dependentRequired', 'dependencies'];
+const ARRAY_KEYWORDS = ['items', 'prefixItems', 'additionalItems', 'minItems', 'maxItems', 'uniqueItems', 'contains'];
+const STRING_KEYWORDS = ['minLength', 'maxLength', 'pattern', 'format'];
+const NUMBER_KEYWORDS = ['minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'multipleOf'];
+
+/**
+ * Convert a JSON Schema (draft-07 or 2020-12) to a zod schema.
+ *
+ * Supports types (including type arrays and OpenAPI `nullable`), enum/const,
+ * string formats and constraints, numeric bounds, arrays and tuples
+ * (`items`/`prefixItems`/`additionalItems`), objects (`required`,
+ * `additionalProperties`, `patternProperties`, `propertyNames`,
+ * `dependentRequired`), `allOf`/`anyOf`/`oneOf`/`not`, defaults,
+ * descriptions and local `$ref` resolution (`$defs`, `definitions`,
+ * JSON pointers, `$anchor` and `$id`), including recursive schemas.
+ *
+ * Keywords that cannot be expressed throw unless `unsupported: 'ignore'` is set.
+ */
+export function zodFromJsonSchema(schema: JsonSchema | boolean | undefined, options: ZodFromJsonSchemaOptions = {}): ZodTypeAny {
+  if (schema === undefined || schema === null) {
+    return z.any();
+  }
+  return new JsonSchemaConverter(schema, options).convert(schema, '#');
+}
+
+class JsonSchemaConverter {
+  private cache = new Map<object, ZodTypeAny>();
+  private inProgress = new Set<object>();
+  private anchors = new Map<string, JsonSchema>();
+
+  constructor(private root: JsonSchema | boolean, private options: ZodFromJsonSchemaOptions) {
+    this.collectAnchors(root, new Set());
+  }
+
+  convert(node: JsonSchema | boolean, path: string): ZodTypeAny {
+    if (node === true) return z.any();
+    if (node === false) return z.never();
+    if (!node || typeof node !== 'object' || Array.isArray(node)) {
+      throw new Error(`Invalid JSON Schema at ${path}: expected an object or boolean`);
+    }
+
+    const cached = this.cache.get(node);
+    if (cached) return cached;
+
+    // Recursive reference back into a schema that is still being built
+    if (this.inProgress.has(node)) {
+      return z.lazy(() => this.cache.get(node)!);
+    }
+
+    this.inProgress.add(node);
+    try {
+      const result = this.annotate(this.convertNode(node, path), node);
+      this.cache.set(node, result);
+      return result;
+    } finally {
+      this.inProgress.delete(node);
+    }
+  }
+
+  private convertNode(node: JsonSchema, path: string): ZodTypeAny {
+    this.checkUnsupported(node, path);
+
+    if (node.$ref !== undefined) {
+      return this.convertRef(node, path);
+    }
+
+    const parts: ZodTypeAny[] = [];
+    const base = this.convertType(node, path);
+    if (base) parts.push(base);
+
+    if (Array.isArray(node.allOf)) {
+      node.allOf.forEach((sub: JsonSchema, i: number) => parts.push(this.convert(sub, `${path}/allOf/${i}`)));
+    }
+    if (Array.isArray(node.anyOf)) {
+      parts.push(this.union(node.anyOf.map((sub: JsonSchema, i: number) => this.convert(sub, `${path}/anyOf/${i}`))));
+    }
+
+    let result: ZodTypeAny = parts.length === 0
+      ? z.any()
+      : parts.slice(1).reduce((acc: ZodTypeAny, part) => z.intersection(acc, part), parts[0]);
+
+    if (Array.isArray(node.oneOf)) {
+      const options = node.oneOf.map((sub: JsonSchema, i: number) => this.convert(sub, `${path}/oneOf/${i}`));
+      result = (parts.length === 0 ? this.union(options) : z.intersection(result, this.union(options)))
+        .superRefine((value: any, ctx: z.RefinementCtx) => {
+          const matches = options.filter((option: ZodTypeAny) => option.safeParse(value).success).length;
+          if (matches !== 1) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Value must match exactly one schema in oneOf (matched ${matches})` });
+          }
+        });
+    }
+
+    if (node.not !== undefined) {
+      const notSchema = this.convert(node.not, `${path}/not`);
+      result = result.superRefine((value: any, ctx: z.RefinementCtx) => {
+        if (notSchema.safeParse(value).success) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Value must not match the schema in not' });
+        }
+      });
+    }
+
+    return result;
+  }
+
+  private convertRef(node: JsonSchema, path: string): ZodTypeAny {
+    const target = this.resolveRef(node.$ref, path);
+    const refSchema = this.convert(target, typeof node.$ref === 'string' ? node.$ref : path);
+
+    // 2020-12 applies sibling keywords alongside $ref
+    const { $ref, ...siblings } = node;
+    const hasConstraints = Object.keys(siblings).some(key => !ANNOTATION_KEYWORDS.has(key) && key !== 'nullable');
+    if (!hasConstraints) {
+      return refSchema;
+    }
+    return z.intersection(refSchema, this.convertNode(siblings, path));
+  }
+
+  private convertType(node: JsonSchema, path: string): ZodTypeAny | null {
+    if (node.const !== undefined) {
+      return this.literal(node.const);
+    }
+    if (Array.isArray(node.enum)) {
+      return this.enumeration(node.enum);
+    }
+
+    const types: string[] = Array.isArray(node.type)
+      ? node.type
+      : node.type !== undefined
+        ? [node.type]
+        : this.inferTypes(node);
+
+    if (types.length === 0) {
+      return null;
+    }
+
+    return this.union(types.map(type => this.convertSingleType(type, node, path)));
+  }
+
+  // Without an explicit type, infer it from type-specific keywords
+  private inferTypes(node: JsonSchema): string[] {
+    const has = (keywords: string[]) => keywords.some(key => node[key] !== undefined);
+    if (has(OBJECT_KEYWORDS)) return ['object'];
+    if (has(ARRAY_KEYWORDS)) return ['array'];
+    if (has(STRING_KEYWORDS)) return ['string'];
+    if (has(NUMBER_KEYWORDS)) return ['number'];
+    return [];
+  }
+
+  private convertSingleType(type: string, node: JsonSchema, path: string): ZodTypeAny {
+    switch (type) {
+      case 'string':
+        return this.convertString(node, path);
+      case 'number':
+        return this.convertNumber(node, false);
+      case 'integer':
+        return this.convertNumber(node, true);
+      case 'boolean':
+        return z.boolean();
+      case 'null':
+        return z.null();
+      case 'array':
+        return this.convertArray(node, path);
+      case 'object':
+        return this.convertObject(node, path);
+      default:
+        throw new Error(`Unknown JSON Schema type '${type}' at ${path}`);
+    }
+  }
+
+  private convertString(node: JsonSchema, path: string): ZodTypeAny {
+    let schema = z.string();
+    if (typeof node.minLength === 'number') schema = schema.min(node.minLength);
+    if (typeof node.maxLength === 'number') schema = schema.max(node.maxLength);
+    if (typeof node.pattern === 'string') {
+      const pattern = this.patternRegExp(node.pattern, `${path}/pattern`);
+      if (pattern) schema = schema.regex(pattern);
+    }
+
+    // Unknown formats are annotations only, as in 2020-12
+    switch (node.format) {
+      case 'email':
+        return schema.email();
+      case 'uri':
+      case 'url':
+        return schema.url();
+      case 'uuid':
+        return schema.uuid();
+      case 'date-time':
+        return schema.datetime({ offset: true });
+      case 'date':
+        return schema.date();
+      case 'time':
+        return schema.time();
+      case 'duration':
+        return schema.duration();
+      case 'ipv4':
+        return schema.ip({ version: 'v4' });
+      case 'ipv6':
+        return schema.ip({ version: 'v6' });
+      default:
+        return schema;
+    }
+  }
+
+  private convertNumber(node: JsonSchema, integer: boolean): ZodTypeAny {
+    let schema = z.number();
+    if (integer) schema = schema.int();
+
+    if (typeof node.minimum === 'number') {
+      // Draft-04 style boolean exclusiveMinimum modifies minimum
+      schema = node.exclusiveMinimum === true ? schema.gt(node.minimum) : schema.gte(node.minimum);
+    }
+    if (typeof node.maximum === 'number') {
+      schema = node.exclusiveMaximum === true ? schema.lt(node.maximum) : schema.lte(node.maximum);
+    }
+    if (typeof node.exclusiveMinimum === 'number') schema = schema.gt(node.exclusiveMinimum);
+    if (typeof node.exclusiveMaximum === 'number') schema = schema.lt(node.exclusiveMaximum);
+    if (typeof node.multipleOf === 'number') schema = schema.multipleOf(node.multipleOf);
+
+    return schema;
+  }
+
+  private convertArray(node: JsonSchema, path: string): ZodTypeAny {
+    const tupleKeyword = Array.isArray(node.items) ? 'items' : Array.isArray(node.prefixItems) ? 'prefixItems' : null;
+    let schema: ZodTypeAny;
+
+    if (tupleKeyword) {
+      // Positional items; instances may be shorter than the prefix
+      const prefix: ZodTypeAny[] = node[tupleKeyword].map((sub: JsonSchema, i: number) => this.convert(sub, `${path}/${tupleKeyword}/${i}`));
+      const restKeyword = tupleKeyword === 'items' ? 'additionalItems' : 'items';
+      const restNode = node[restKeyword];
+      const rest = restNode === undefined ? null : this.convert(restNode, `${path}/${restKeyword}`);
+
+      schema = z.array(z.any()).superRefine((value, ctx) => {
+        value.forEach((item, i) => {
+          const itemSchema = i < prefix.length ? prefix[i] : rest;
+          if (itemSchema && !itemSchema.safeParse(item).success) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: [i], message: `Item ${i} does not match the schema` });
+          }
+        });
+      });
+    } else {
+      const items = node.items === undefined ? z.any() : this.convert(node.items, `${path}/items`);
+      let array = z.array(items);
+      if (typeof node.minItems === 'number') array = array.min(node.minItems);
+      if (typeof node.maxItems === 'number') array = array.max(node.maxItems);
+      schema = array;
+    }
+
+    const contains = node.contains === undefined ? null : this.convert(node.contains, `${path}/contains`);
+    const minContains = typeof node.minContains === 'number' ? node.minContains : 1;
+    const maxContains = typeof node.maxContains === 'number' ? node.maxContains : Infinity;
+
+    return schema.superRefine((value: any[], ctx: z.RefinementCtx) => {
+      if (tupleKeyword && typeof node.minItems === 'number' && value.length < node.minItems) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Array must contain at least ${node.minItems} items` });
+      }
+      if (tupleKeyword && typeof node.maxItems === 'number' && value.length > node.maxItems) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Array must contain at most ${node.maxItems} items` });
+      }
+      if (node.uniqueItems === true) {
+        const seen = new Set(value.map(item => canonicalJson(item)));
+        if (seen.size !== value.length) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Array items must be unique' });
+        }
+      }
+      if (contains) {
+        const count = value.filter(item => contains.safeParse(item).success).length;
+        if (count < minContains || count > maxContains) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Array must contain between ${minContains} and ${maxContains} matching items (found ${count})` });
+        }
+      }
+    });
+  }
+
+  private convertObject(node: JsonSchema, path: string): ZodTypeAny {
+    const properties: Record<string, JsonSchema> = node.properties || {};
+    const required = new Set<string>(Array.isArray(node.required) ? node.required : []);
+    const shape: Record<string, ZodTypeAny> = {};
+
+    for (const [key, propertySchema] of Object.entries(properties)) {
+      let property = this.convert(propertySchema, `${path}/properties/${escapePointer(key)}`);
+      const hasDefault = isSchemaObject(propertySchema) && propertySchema.default !== undefined;
+      if (!required.has(key) && !hasDefault) {
+        property = property.optional();
+      }
+      shape[key] = property;
+    }
+
+    // Required keys without a property schema still have to be present
+    for (const key of required) {
+      if (!(key in shape)) {
+        shape[key] = z.any().refine(value => value !== undefined, { message: 'Required' });
+      }
+    }
+
+    const object = z.object(shape);
+    const additional = node.additionalProperties;
+    const patterns: Array<[RegExp, ZodTypeAny]> = [];
+    // Keys may match a pattern that could not be compiled, so they are left unchecked
+    let skippedPatterns = false;
+    for (const [pattern, sub] of Object.entries(node.patternProperties || {})) {
+      const patternPath = `${path}/patternProperties/${escapePointer(pattern)}`;
+      const regex = this.patternRegExp(pattern, patternPath);
+      if (regex) patterns.push([regex, this.convert(sub as JsonSchema, patternPath)]);
+      else skippedPatterns = true;
+    }
+
+    let schema: ZodTypeAny;
+    if (patterns.length === 0 && !skippedPatterns) {
+      if (additional === false) {
+        schema = object.strict();
+      } else if (isSchemaObject(additional)) {
+        schema = object.catchall(this.convert(additional, `${path}/additionalProperties`));
+      } else {
+        schema = object.passthrough();
+      }
+    } else {
+      const additionalSchema = additional === undefined || additional === true
+        ? null
+        : this.convert(additional, `${path}/additionalProperties`);
+
+      schema = object.passthrough().superRefine((value: Record<string, any>, ctx: z.RefinementCtx) => {
+        for (const key of Object.keys(value)) {
+          if (Object.prototype.hasOwnProperty.call(properties, key)) continue;
+
+          const matching = patterns.filter(([pattern]) => pattern.test(key)).map(([, sub]) => sub);
+          const validators = matching.length > 0 ? matching : additionalSchema && !skippedPatterns ? [additionalSchema] : [];
+          for (const validator of validators) {
+            if (!validator.safeParse(value[key]).success) {
+              ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: `Property '${key}' does not match the schema` });
+            }
+          }
+        }
+      });
+    }
+
+    const propertyNames = node.propertyNames === undefined ? null : this.convert(node.propertyNames, `${path}/propertyNames`);
+    const dependentRequired: Record<string, string[]> = { ...node.dependentRequired };
+    for (const [key, dependency] of Object.entries(node.dependencies || {})) {
+      if (Array.isArray(dependency)) {
+        dependentRequired[key] = dependency;
+      } else if (this.options.unsupported !== 'ignore') {
+        throw new Error(`Unsupported JSON Schema keyword 'dependencies' (schema form) at ${path}`);
+      }
+    }
+
+    return schema.superRefine((value: Record<string, any>, ctx: z.RefinementCtx) => {
+      const keys = Object.keys(value);
+      if (typeof node.minProperties === 'number' && keys.length < node.minProperties) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Object must have at least ${node.minProperties} properties` });
+      }
+      if (typeof node.maxProperties === 'number' && keys.length > node.maxProperties) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Object must have at most ${node.maxProperties} properties` });
+      }
+      if (propertyNames) {
+        for (const key of keys) {
+          if (!propertyNames.safeParse(key).success) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: `Property name '${key}' is not allowed` });
+          }
+        }
+      }
+      for (const [key, dependents] of Object.entries(dependentRequired)) {
+        if (value[key] === undefined) continue;
+        for (const dependent of dependents) {
+          if (value[dependent] === undefined) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: [dependent], message: `Property '${dependent}' is required when '${key}' is present` });
+          }
+        }
+      }
+    });
+  }
+
+  private literal(value: any): ZodTypeAny {
+    if (value === null) return z.null();
+    if (['string', 'number', 'boolean'].includes(typeof value)) return z.literal(value);
+
+    const expected = canonicalJson(value);
+    return z.any().refine(candidate => canonicalJson(candidate) === expected, { message: `Value must equal ${expected}` });
+  }
+
+  private enumeration(values: any[]): ZodTypeAny {
+    if (values.length > 0 && values.every(value => typeof value === 'string')) {
+      return z.enum(values as [string, ...string[]]);
+    }
+    return this.union(values.map(value => this.literal(value)));
+  }
+
+  private union(options: ZodTypeAny[]): ZodTypeAny {
+    if (options.length === 0) return z.never();
+    if (options.length === 1) return options[0];
+    return z.union(options as [ZodTypeAny, ZodTypeAny, ...ZodTypeAny[]]);
+  }
+
+  private annotate(schema: ZodTypeAny, node: JsonSchema): ZodTypeAny {
+    let result = schema;
+    if (node.nullable === true) result = result.nullable();
+    if (node.default !== undefined) result = result.default(node.default);
+    if (typeof node.description === 'string') result = result.describe(node.description);
+    return result;
+  }
+
+  /**
+   * Compile a `pattern`; without the `u` flag when it only parses that way.
+   * A pattern that does not compile at all is skipped when unsupported is 'ignore'.
+   */
+  private patternRegExp(pattern: string, path: string): RegExp | undefined {
+    for (const flags of ['u', '']) {
+      try {
+        return new RegExp(pattern, flags);
+      } catch {
+        // Try the next flags
+      }
+    }
+    if (this.options.unsupported === 'ignore') return undefined;
+    throw new Error(`Invalid pattern '${pattern}' at ${path}`);
+  }
+
+  private checkUnsupported(node: JsonSchema, path: string): void {
+    if (this.options.unsupported === 'ignore') return;
+
+    for (const keyword of UNSUPPORTED_KEYWORDS) {
+      if (node[keyword] !== undefined) {
+        throw new Error(`Unsupported JSON Schema keyword '${keyword}' at ${path}`);
+      }
+    }
+  }
+
+  private resolveRef(ref: any, path: string): JsonSchema | boolean {
+    if (typeof ref !== 'string') {
+      throw new Error(`Invalid $ref at ${path}: expected a string`);
+    }
+
+    if (ref === '#' || ref.startsWith('#/')) {
+      let target: any = this.root;
+      for (const segment of ref.slice(2).split('/').filter(Boolean)) {
+        const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+        target = target !== null && typeof target === 'object' ? target[key] : undefined;
+        if (target === undefined) {
+          throw new Error(`Unresolvable $ref '${ref}' at ${path}`);
+        }
+      }
+      return target;
+    }
+
+    const anchor = this.anchors.get(ref) || this.anchors.get(ref.replace(/^#/, ''));
+    if (anchor) {
+      return anchor;
+    }
+
+    throw new Error(`Unsupported $ref '${ref}' at ${path}: only local references are supported`);
+  }
+
+  // Index `$anchor` and `$id` values so they can be used as $ref targets
+  private collectAnchors(node: any, seen: Set<object>): void {
+    if (!node || typeof node !== 'object' || seen.has(node)) return;
+    seen.add(node);
+
+    if (!Array.isArray(node)) {
+      if (typeof node.$anchor === 'string') this.anchors.set(node.$anchor, node);
+      if (typeof node.$id === 'string') this.anchors.set(node.$id, node);
+    }
+
+    for (const value of Object.values(node)) {
+      this.collectAnchors(value, seen);
+    }
+  }
+}
+
+function isSchemaObject(value: any): value is JsonSchema {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
@@ -0,0 +1,304 @@
+import { promises as fs } from 'fs';
+import type { ChatMessage } from '../chat/types';
+import type { ModelId } from '../model';
+import { getModelContext } from '../model';
+import { extractText } from './media';
+
+/**
+ * Counts tokens the way a model's vocabulary splits text
+ */
+export interface Tokenizer {
+  readonly name: string;
+  countTokens(text: string): number;
+  encode?(text: string): number[];
+}
+
+/**
+ * Character-based estimate for models without a known vocabulary
+ */
+export class HeuristicTokenizer implements Tokenizer {
+  readonly name = 'heuristic';
+
+  constructor(private charsPerToken: number = 4) {
+    if (charsPerToken <= 0) throw new Error('HeuristicTokenizer requires charsPerToken > 0');
+  }
+
+  countTokens(text: string): number {
+    return Math.ceil(text.length / this.charsPerToken);
+  }
+}
+
+export type BPEEncoding = 'cl100k_base' | 'o200k_base';
+
+// Pre-tokenization patterns of the tiktoken encodings; `(?i:...)` is spelled out since JS has no inline flags
+const CONTRACTIONS = "'(?:[sS]|[tT]|[rR][eE]|[vV][eE]|[mM]|[lL][lL]|[dD])";
+
+const BPE_ENCODINGS: Record<BPEEncoding, { pattern: string; specialTokens: Record<string, number> }> = {
+  cl100k_base: {
+    pattern: `${CONTRACTIONS}|[^\\r\\n\\p{L}\\p{N}]?\\p{L}+|\\p{N}{1,3}| ?[^\\s\\p{L}\\p{N}]+[\\r\\n]*|\\s*[\\r\\n]+|\\s+(?!\\S)|\\s+`,
+    specialTokens: {
+      '<|endoftext|>': 100257,
+      '<|fim_prefix|>': 100258,
+      '<|fim_middle|>': 100259,
+      '<|fim_suffix|>': 100260,
+      '<|endofprompt|>': 100276
+    }
+  },
+  o200k_base: {
+    pattern: [
+      `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]*[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]+(?:${CONTRACTIONS})?`,
+      `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]+[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]*(?:${CONTRACTIONS})?`,
+      '\\p{N}{1,3}',
+      ' ?[^\\s\\p{L}\\p{N}]+[\\r\\n/]*',
+      '\\s*[\\r\\n]+',
+      '\\s+(?!\\S)',
+      '\\s+'
+    ].join('|'),
+    specialTokens: {
+      '<|endoftext|>': 199999,
+      '<|endofprompt|>': 200018
+    }
+  }
+};
+
+export interface BPETokenizerOptions {
+  name: string;
+  /** Pre-tokenization regex source, compiled with the `gu` flags */
+  pattern: string;
+  specialTokens?: Record<string, number>;
+}
+
+const BPE_CACHE_LIMIT = 10000;
+
+/**
+ * Byte-level BPE tokenizer over a tiktoken-style rank table
+ */
+export class BPETokenizer implements Tokenizer {
+  readonly name: string;
+  private pattern: RegExp;
+  private specialPattern?: RegExp;
+  private specialTokens: Record<string, number>;
+  private cache = new Map<string, number[]>();
+
+  constructor(private ranks: Map<string, number>, options: BPETokenizerOptions) {
+    this.name = options.name;
+    this.pattern = new RegExp(options.pattern, 'gu');
+    this.specialTokens = options.specialTokens || {};
+
+    const specials = Object.keys(this.specialTokens);
+    if (specials.length > 0) {
+      this.specialPattern = new RegExp(specials.map(escapeRegExp).join('|'), 'g');
+    }
+  }
+
+  /**
+   * Load a `.tiktoken` vocabulary file (one `<base64 bytes> <rank>` pair per line)
+   */
+  static async fromFile(filePath: string, options: BPETokenizerOptions): Promise<BPETokenizer> {
+    const content = await fs.readFile(filePath, 'utf8');
+    const ranks = new Map<string, number>();
+
+    content.split('\n').forEach((line, index) => {
+      if (!line.trim()) return;
+      const [token, rank] = line.trim().split(/\s+/);
+      const value = Number(rank);
+      if (!token || !Number.isInteger(value)) {
+        throw new Error(`Invalid BPE vocabulary line ${index + 1} in ${filePath}`);
+      }
+      ranks.set(Buffer.from(token, 'base64').toString('latin1'), value);
+    });
+
+    return new BPETokenizer(ranks, options);
+  }
+
+  encode(text: string): number[] {
+    const tokens: number[] = [];
+    if (!this.specialPattern) {
+      this.encodeOrdinary(text, tokens);
+      return tokens;
+    }
+
+    let start = 0;
+    let match: RegExpExecArray | null;
+    this.specialPattern.lastIndex = 0;
+    while ((match = this.specialPattern.exec(text)) !== null) {
+      this.encodeOrdinary(text.slice(start, match.index), tokens);
+      tokens.push(this.specialTokens[match[0]]);
+      start = match.index + match[0].length;
+    }
+    this.encodeOrdinary(text.slice(start), tokens);
+    return tokens;
+  }
+
+  countTokens(text: string): number {
+    return this.encode(text).length;
+  }
+
+  private encodeOrdinary(text: string, tokens: number[]): void {
+    let match: RegExpExecArray | null;
+    this.pattern.lastIndex = 0;
+    while ((match = this.pattern.exec(text)) !== null) {
+      if (match[0].length === 0) {
+        this.pattern.lastIndex++;
+        continue;
+      }
+      tokens.push(...this.encodePiece(match[0]));
+    }
+  }
+
+  private encodePiece(piece: string): number[] {
+    const cached = this.cache.get(piece);
+    if (cached) return cached;
+
+    const bytes = Buffer.from(piece, 'utf8').toString('latin1');
+    const whole = this.ranks.get(bytes);
+    const tokens = whole !== undefined ? [whole] : this.bytePairMerge(bytes);
+
+    if (this.cache.size >= BPE_CACHE_LIMIT) this.cache.clear();
+    this.cache.set(piece, tokens);
+    return tokens;
+  }
+
+  // Repeatedly merge the adjacent pair with the lowest rank
+  private bytePairMerge(bytes: string): number[] {
+    const boundaries: number[] = [];
+    for (let i = 0; i <= bytes.length; i++) boundaries.push(i);
+
+    while (boundaries.length > 2) {
+      let best = -1;
+      let bestRank = Infinity;
+      for (let i = 0; i < boundaries.length - 2; i++) {
+        const rank = this.ranks.get(bytes.slice(boundaries[i], boundaries[i + 2]));
+        if (rank !== undefined && rank < bestRank) {
+          bestRank = rank;
+          best = i;
+        }
+      }
+      if (best < 0) break;
+      boundaries.splice(best + 1, 1);
+    }
+
+    const tokens: number[] = [];
+    for (let i = 0; i < boundaries.length - 1; i++) {
+      const part = bytes.slice(boundaries[i], boundaries[i + 1]);
+      const rank = this.ranks.get(part);
+      if (rank === undefined) {
+        throw new Error(`Byte sequence missing from ${this.name} vocabulary`);
+      }
+      tokens.push(rank);
+    }
+    return tokens;
+  }
+}
+
+/**
+ * Load a cl100k/o200k vocabulary from a local `.tiktoken` file
+ */
+export function loadBPETokenizer(encoding: BPEEncoding, filePath: string): Promise<BPETokenizer> {
+  const preset = BPE_ENCODINGS[encoding];
+  if (!preset) throw new Error(`Unknown BPE encoding '${encoding}'`);
+  return BPETokenizer.fromFile(filePath, { name: encoding, ...preset });
+}
+
+/**
+ * BPE encoding used by an OpenAI model, if known
+ */
+export function getBPEEncodingForModel(model: string): BPEEncoding | undefined {
+  if (/^(gpt-4o|gpt-4\.1|gpt-4\.5|o1|o3|o4)/.test(model)) return 'o200k_base';
+  if (/^(gpt-4|gpt-3\.5|text-embedding-3|text-embedding-ada-002)/.test(model)) return 'cl100k_base';
+  return undefined;
+}
+
+/**
+ * Uses a loaded node-llama-cpp model's own vocabulary
+ */
+export class LlamaCppTokenizer implements Tokenizer {
+  readonly name = 'node-llama-cpp';
+
+  constructor(private model: { tokenize(text: string): ArrayLike<number> }) {}
+
+  encode(text: string): number[] {
+    return Array.from(this.model.tokenize(text));
+  }
+
+  countTokens(text: string): number {
+    return this.model.tokenize(text).length;
+  }
+}
+
+/**
+ * Tokenizer for a model registered with `registerModel`
+ */
+export async function createLlamaCppTokenizer(modelId: ModelId): Promise<LlamaCppTokenizer> {
+  const context = await getModelContext(modelId);
+  return new LlamaCppTokenizer(context.model ?? context);
+}
+
+/**
+ * Picks a tokenizer by provider and model: an exact model registration first,
+ * then a loaded BPE encoding the model uses, then the provider default, and
+ * finally the heuristic fallback.
+ */
+export class TokenizerRegistry {
+  private modelTokenizers = new Map<string, Tokenizer>();
+  private providerTokenizers = new Map<string, Tokenizer>();
+  private encodings = new Map<BPEEncoding, Tokenizer>();
+
+  constructor(private fallback: Tokenizer = new HeuristicTokenizer()) {}
+
+  registerTokenizer(provider: string, tokenizer: Tokenizer, model?: string): void {
+    if (model) {
+      this.modelTokenizers.set(`${provider}:${model}`, tokenizer);
+    } else {
+      this.providerTokenizers.set(provider, tokenizer);
+    }
+  }
+
+  registerEncoding(encoding: BPEEncoding, tokenizer: Tokenizer): void {
+    this.encodings.set(encoding, tokenizer);
+  }
+
+  removeTokenizer(provider: string, model?: string): void {
+    if (model) {
+      this.modelTokenizers.delete(`${provider}:${model}`);
+    } else {
+      this.providerTokenizers.delete(provider);
+    }
+  }
+
+  getTokenizer(provider: string, model?: string): Tokenizer {
+    if (model) {
+      const exact = this.modelTokenizers.get(`${provider}:${model}`);
+      if (exact) return exact;
+
+      const encoding = getBPEEncodingForModel(model);
+      const bpe = encoding && this.encodings.get(encoding);
+      if (bpe) return bpe;
+    }
+    return this.providerTokenizers.get(provider) || this.fallback;
+  }
+
+  countTokens(provider: string, model: string | undefined, text: string): number {
+    return this.getTokenizer(provider, model).countTokens(text);
+  }
+}
+
+export const tokenizerRegistry = new TokenizerRegistry();
+
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Tokens of a chat message's text plus per-message formatting overhead
+ */
+export function countMessageTokens(tokenizer: Tokenizer, message: ChatMessage): number {
+  let text = typeof message.content === 'string' ? message.content : extractText(message.content);
+  // Tool calls are sent along with the text, so they take up the window too
+  if (message.role === 'assistant' && message.tool_calls?.length) {
+    text += JSON.stringify(message.tool_calls);
+  }
+  return tokenizer.countTokens(text) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
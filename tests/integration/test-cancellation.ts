@@ -0,0 +1,367 @@
+/**
+ * Offline tests for cancelling chats, streams, tools and provider requests
+ */
+
+import * as http from 'http';
+import { getEventListeners } from 'events';
+import { z } from 'zod';
+import { Agent, Provider, Utils, MCPService, createChatSession } from '../../dist/index.js';
+
+interface TestResult {
+  name: string;
+  success: boolean;
+  error?: string;
+  duration: number;
+  output?: any;
+}
+
+class TestRunner {
+  private results: TestResult[] = [];
+
+  async runTest(name: string, testFn: () => Promise<any>): Promise<void> {
+    const startTime = Date.now();
+    console.log(`🧪 Testing: ${name}`);
+
+    try {
+      const output = await testFn();
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: true,
+        duration,
+        output
+      });
+
+      console.log(`✅ ${name} - ${duration}ms`);
+      if (output && typeof output === 'string' && output.length < 200) {
+        console.log(`   Output: ${output}`);
+      }
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: false,
+        duration,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      console.log(`❌ ${name} - ${duration}ms`);
+      console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  printSummary(): void {
+    const successful = this.results.filter(r => r.success).length;
+    const total = this.results.length;
+
+    console.log('\n' + '='.repeat(60));
+    console.log('📊 CANCELLATION TEST SUMMARY');
+    console.log('='.repeat(60));
+    console.log(`✅ Successful: ${successful}/${total}`);
+    console.log(`❌ Failed: ${total - successful}/${total}`);
+
+    if (total - successful > 0) {
+      console.log('\n❌ FAILED TESTS:');
+      this.results
+        .filter(r => !r.success)
+        .forEach(r => console.log(`   - ${r.name}: ${r.error}`));
+    }
+
+    if (total - successful > 0) {
+      process.exit(1);
+    }
+  }
+}
+
+function assert(condition: any, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+const textExtractor = {
+  name: 'RecordedExtractor',
+  supportedFormats: ['text'],
+  extract: (raw: any) => typeof raw === 'string'
+    ? [{ type: 'content', data: raw }]
+    : [{ type: 'tool_call', data: raw.toolCall }]
+};
+
+/**
+ * Resolve once the signal aborts, like a request that only ends when cancelled
+ */
+function untilAborted(signal?: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    if (signal?.aborted) return reject(Utils.createAbortError(signal));
+    signal?.addEventListener('abort', () => reject(Utils.createAbortError(signal)), { once: true });
+  });
+}
+
+async function expectAbort(promise: Promise<any>): Promise<Error> {
+  try {
+    await promise;
+  } catch (error) {
+    assert(Utils.isAbortError(error), `expected an AbortError, got ${error}`);
+    return error as Error;
+  }
+  throw new Error('Expected the operation to be aborted');
+}
+
+async function main() {
+  console.log('🚀 Cancellation Tests');
+  console.log('====================\n');
+
+  const runner = new TestRunner();
+
+  // Test 1: Aborting a completion rolls back the turn
+  await runner.runTest('ChatSession - Abort Completion', async () => {
+    const provider = {
+      name: 'recorder',
+      type: 'api',
+      completion: (params: any) => untilAborted(params.signal)
+    };
+    const session = createChatSession({
+      sessionId: 'abort-completion',
+      provider: 'custom',
+      providerConfig: { provider, extractor: textExtractor }
+    });
+    session.addMessage({ role: 'system', content: 'be brief' });
+
+    const controller = new AbortController();
+    const pending = session.chat('hello', { signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+    await expectAbort(pending);
+
+    const history = session.getHistory();
+    assert(history.length === 1 && history[0].role === 'system', 'history should be back to the system prompt');
+    session.destroy();
+    return `${history.length} message(s) left`;
+  });
+
+  // Test 2: Aborting a running tool, even one that ignores the signal
+  await runner.runTest('ChatSession - Abort Tool Handler', async () => {
+    let handlerSignal: AbortSignal | undefined;
+    const provider = {
+      name: 'recorder',
+      type: 'api',
+      async completion() {
+        return { content: 'calling', raw: { toolCall: { id: 'call_1', name: 'slow', arguments: {} } } };
+      }
+    };
+    const mcpService = new MCPService();
+    mcpService.registerTool({
+      name: 'slow',
+      description: 'Never finishes',
+      schema: z.object({}),
+      handler: (_args: any, context: any) => {
+        handlerSignal = context?.signal;
+        return new Promise(() => {});
+      }
+    });
+    const session = createChatSession({
+      sessionId: 'abort-tool',
+      provider: 'custom',
+      providerConfig: { provider, extractor: textExtractor },
+      mcpService,
+      options: { agenticMode: true }
+    });
+
+    const controller = new AbortController();
+    const pending = session.chat('run the tool', { signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+    await expectAbort(pending);
+
+    assert(handlerSignal?.aborted, 'the handler should receive an aborted signal');
+    assert(session.getHistory().length === 0, 'no user message or tool call should remain');
+    assert(session.getToolCallResults().length === 0, 'a cancelled tool should not be recorded as failed');
+    session.destroy();
+    return 'rolled back';
+  });
+
+  // Test 3: Aborting a stream in progress
+  await runner.runTest('ChatSession - Abort Stream', async () => {
+    const provider = {
+      name: 'recorder',
+      type: 'api',
+      async completion() {
+        throw new Error('completion should not be called');
+      },
+      async stream(params: any, onChunk: (chunk: any) => void) {
+        onChunk({ content: 'partial ', finished: false });
+        await untilAborted(params.signal);
+      }
+    };
+    const session = createChatSession({
+      sessionId: 'abort-stream',
+      provider: 'custom',
+      providerConfig: { provider, extractor: textExtractor }
+    });
+
+    const controller = new AbortController();
+    const chunks: string[] = [];
+    const pending = session.stream('stream it', { signal: controller.signal }, chunk => {
+      if (chunk.type === 'content') {
+        chunks.push(chunk.data);
+        controller.abort();
+      }
+    });
+    await expectAbort(pending);
+
+    assert(chunks.length === 1, 'content before the abort should still be delivered');
+    assert(session.getHistory().length === 0, 'a half-streamed reply should not be kept');
+    session.destroy();
+    return chunks.join('');
+  });
+
+  // Test 4: An already aborted signal never reaches the provider
+  await runner.runTest('ChatSession - Pre-aborted Signal', async () => {
+    let calls = 0;
+    const provider = {
+      name: 'recorder',
+      type: 'api',
+      async completion() {
+        calls++;
+        return { content: 'hi', raw: 'hi' };
+      }
+    };
+    const session = createChatSession({
+      sessionId: 'pre-aborted',
+      provider: 'custom',
+      providerConfig: { provider, extractor: textExtractor }
+    });
+
+    const controller = new AbortController();
+    controller.abort();
+    await expectAbort(session.chat('hello', { signal: controller.signal }));
+
+    assert(calls === 0, 'the provider should not be called');
+    assert(session.getHistory().length === 0, 'nothing should be added to the history');
+    session.destroy();
+    return 'skipped';
+  });
+
+  // Test 5: Retries stop on abort, including during the backoff delay
+  await runner.runTest('RetryHandler - Abort Between Attempts', async () => {
+    const handler = new Utils.RetryHandler({ maxAttempts: 5, baseDelay: 10000, jitter: false });
+    const controller = new AbortController();
+    let attempts = 0;
+
+    const started = Date.now();
+    const pending = handler.execute(async () => {
+      attempts++;
+      throw new Error('network error');
+    }, { operationName: 'test', signal: controller.signal });
+    setTimeout(() => controller.abort(), 20);
+    await expectAbort(pending);
+
+    assert(attempts === 1, `expected 1 attempt, got ${attempts}`);
+    assert(Date.now() - started < 5000, 'the backoff delay should be cut short');
+    return `${attempts} attempt(s)`;
+  });
+
+  // Test 6: The signal reaches the provider's fetch
+  await runner.runTest('OpenAIProvider - Abort Request', async () => {
+    const server = http.createServer(() => {
+      // Never respond
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as any;
+
+    try {
+      const provider = new Provider.OpenAIProvider({
+        apiKey: 'test',
+        model: 'gpt-4o-mini',
+        baseURL: `http://127.0.0.1:${port}/v1`
+      });
+      const controller = new AbortController();
+      const pending = provider.completion({ messages: [{ role: 'user', content: 'hi' }], signal: controller.signal });
+      setTimeout(() => controller.abort(), 50);
+      await expectAbort(pending);
+    } finally {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    }
+    return 'aborted';
+  });
+
+  // Test 7: Agent.execute forwards the signal
+  await runner.runTest('Agent - Abort Execute', async () => {
+    const agent = new Agent.Agent({
+      id: 'agent-1',
+      name: 'Canceller',
+      description: 'Waits until cancelled',
+      provider: { name: 'recorder', type: 'api', completion: (params: any) => untilAborted(params.signal) } as any,
+      extractor: textExtractor as any,
+      template: { name: 'default', content: '' } as any,
+      systemPrompt: 'be brief'
+    });
+
+    const controller = new AbortController();
+    const pending = agent.execute('wait', undefined, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+    await expectAbort(pending);
+
+    assert(!agent.isRunning(), 'the agent should no longer be running');
+    assert(agent.getHistory().length === 1, 'only the system prompt should remain');
+    return 'aborted';
+  });
+
+  // Test 8: Calls sharing one long-lived signal leave no listeners on it
+  await runner.runTest('combineSignals - Released Listeners', async () => {
+    const sessionWide = new AbortController();
+    for (let i = 0; i < 20; i++) {
+      Utils.combineSignals(sessionWide.signal, new AbortController().signal).release();
+    }
+    assert(getEventListeners(sessionWide.signal, 'abort').length === 0, 'released signals should detach');
+
+    const responses = () => [
+      { content: 'calling', raw: { toolCall: { id: 'call_1', name: 'lookup', arguments: {} } } },
+      { content: 'done', raw: 'done' }
+    ];
+    let queue = responses();
+    const provider = {
+      name: 'recorder',
+      type: 'api',
+      async completion() {
+        return queue.shift();
+      }
+    };
+    const mcpService = new MCPService();
+    mcpService.registerTool({ name: 'lookup', description: 'Look up', schema: z.object({}), handler: () => 'found' });
+    const session = createChatSession({
+      sessionId: 'shared-signal',
+      provider: 'custom',
+      providerConfig: { provider, extractor: textExtractor },
+      mcpService,
+      options: { agenticMode: true }
+    });
+    for (let i = 0; i < 5; i++) {
+      queue = responses();
+      await session.chat('look it up', { signal: sessionWide.signal });
+      queue = responses();
+      for await (const _event of session.streamEvents('look it up', { signal: sessionWide.signal })) {
+        // Drain the stream
+      }
+    }
+    session.destroy();
+    const listeners = getEventListeners(sessionWide.signal, 'abort').length;
+    assert(listeners === 0, `expected no listeners on the shared signal, got ${listeners}`);
+
+    const perCall = new AbortController();
+    const combined = Utils.combineSignals(sessionWide.signal, perCall.signal);
+    sessionWide.abort('stopped');
+    assert(combined.signal?.aborted && combined.signal.reason === 'stopped', 'the combined signal should abort with the reason');
+    assert(getEventListeners(perCall.signal, 'abort').length === 0, 'an abort should detach from the other signals');
+    return `${listeners} listeners after 10 turns`;
+  });
+
+  runner.printSummary();
+}
+
+// Run the tests
+main().catch(error => {
+  console.error('💥 Cancellation tests failed:', error);
+  process.exit(1);
+});
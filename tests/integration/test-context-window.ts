@@ -0,0 +1,279 @@
+/**
+ * Offline tests for context window strategies and summary memory
+ */
+
+import { Session, Utils, createChatSession } from '../../dist/index.js';
+
+interface TestResult {
+  name: string;
+  success: boolean;
+  error?: string;
+  duration: number;
+  output?: any;
+}
+
+class TestRunner {
+  private results: TestResult[] = [];
+
+  async runTest(name: string, testFn: () => Promise<any>): Promise<void> {
+    const startTime = Date.now();
+    console.log(`🧪 Testing: ${name}`);
+
+    try {
+      const output = await testFn();
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: true,
+        duration,
+        output
+      });
+
+      console.log(`✅ ${name} - ${duration}ms`);
+      if (output && typeof output === 'string' && output.length < 200) {
+        console.log(`   Output: ${output}`);
+      }
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: false,
+        duration,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      console.log(`❌ ${name} - ${duration}ms`);
+      console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  printSummary(): void {
+    const successful = this.results.filter(r => r.success).length;
+    const total = this.results.length;
+
+    console.log('\n' + '='.repeat(60));
+    console.log('📊 CONTEXT WINDOW TEST SUMMARY');
+    console.log('='.repeat(60));
+    console.log(`✅ Successful: ${successful}/${total}`);
+    console.log(`❌ Failed: ${total - successful}/${total}`);
+
+    if (total - successful > 0) {
+      console.log('\n❌ FAILED TESTS:');
+      this.results
+        .filter(r => !r.success)
+        .forEach(r => console.log(`   - ${r.name}: ${r.error}`));
+    }
+
+    if (total - successful > 0) {
+      process.exit(1);
+    }
+  }
+}
+
+function assert(condition: any, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function conversation(turns: number): any[] {
+  const messages: any[] = [{ role: 'system', content: 'You are helpful.' }];
+  for (let i = 1; i <= turns; i++) {
+    messages.push({ role: 'user', content: `question ${i}` });
+    messages.push({ role: 'tool', name: 'lookup', content: `result ${i} `.repeat(20) });
+    messages.push({ role: 'assistant', content: `answer ${i}` });
+  }
+  return messages;
+}
+
+const countByMessage = () => 10;
+
+async function main() {
+  console.log('🚀 Context Window Tests');
+  console.log('======================\n');
+
+  const runner = new TestRunner();
+
+  // Test 1: Sliding window
+  await runner.runTest('SlidingWindowStrategy - Keeps Last Messages', async () => {
+    const messages = conversation(3);
+    const result = new Session.SlidingWindowStrategy(4).apply(messages);
+
+    assert(result.messages.length === 4, `expected 4 messages, got ${result.messages.length}`);
+    assert(result.messages[3] === messages[messages.length - 1], 'newest message should be kept');
+    assert(result.dropped.length === messages.length - 4, 'dropped messages should be reported');
+
+    return `${result.dropped.length} dropped`;
+  });
+
+  // Test 2: System prompt survives, orphaned tool results are dropped
+  await runner.runTest('KeepSystemAndLastNStrategy - System Prompt and Orphans', async () => {
+    const messages = conversation(3);
+    const result = new Session.KeepSystemAndLastNStrategy(2).apply(messages);
+    const roles = result.messages.map((message: any) => message.role).join(',');
+
+    assert(roles === 'system,assistant', `tool result without its question should be dropped, got ${roles}`);
+    assert(result.dropped.length === messages.length - 2, 'orphaned tool result should be reported as dropped');
+
+    return roles;
+  });
+
+  // Test 3: Token budget
+  await runner.runTest('TokenBudgetStrategy - Fits Budget', async () => {
+    const messages = conversation(3);
+    const strategy = new Session.TokenBudgetStrategy();
+
+    const untouched = strategy.apply(messages, { countTokens: countByMessage });
+    assert(untouched.messages === messages, 'no budget should leave messages untouched');
+
+    const trimmed = strategy.apply(messages, { maxTokens: 40, countTokens: countByMessage });
+    assert(trimmed.messages.length === 4, `expected system + 3 messages, got ${trimmed.messages.length}`);
+    assert(trimmed.messages[0].role === 'system', 'system prompt should be kept');
+    assert(trimmed.messages[1].role === 'user', 'window should start at a user turn');
+
+    const tight = strategy.apply(messages, { maxTokens: 1, countTokens: countByMessage });
+    assert(tight.messages[tight.messages.length - 1] === messages[messages.length - 1], 'newest message should always be kept');
+
+    return `${trimmed.dropped.length} dropped`;
+  });
+
+  // Test 4: Tool result elision
+  await runner.runTest('ToolResultElisionStrategy - Elides Older Results', async () => {
+    const messages = conversation(3);
+    const result = new Session.ToolResultElisionStrategy({ keepLast: 1 }).apply(messages);
+    const tools = result.messages.filter((message: any) => message.role === 'tool');
+
+    assert(result.elided.length === 2, `expected 2 elided results, got ${result.elided.length}`);
+    assert(tools[0].content === '[Result of lookup elided]', `unexpected placeholder ${tools[0].content}`);
+    assert(tools[2].content.startsWith('result 3'), 'latest result should be kept');
+    assert(messages[2].content.startsWith('result 1'), 'original history should not be modified');
+
+    return tools[0].content;
+  });
+
+  // Test 5: Context limit table
+  await runner.runTest('Context Limits - Table Lookup', async () => {
+    assert(Utils.getContextLimit('openai', 'gpt-4') === 8192, 'known model should resolve');
+    assert(Utils.getContextLimit('ollama', 'unknown-model') === 2048, 'provider default should apply');
+    assert(Utils.getContextLimit('custom', 'unknown-model') === undefined, 'unknown providers have no limit');
+
+    Utils.setContextLimit('custom', 'tiny', 512);
+    assert(Utils.getContextLimit('custom', 'tiny') === 512, 'registered limits should resolve');
+
+    return 'limits resolved';
+  });
+
+  // Test 6: ChatSession applies strategies and reports trimming
+  await runner.runTest('ChatSession - Trims Before Completion', async () => {
+    const sent: any[][] = [];
+    const reports: any[] = [];
+    const provider = {
+      name: 'recorder',
+      type: 'local',
+      async completion(params: any) {
+        sent.push(params.messages);
+        return { content: 'ok', raw: 'ok' };
+      }
+    };
+    const extractor = {
+      name: 'TextExtractor',
+      supportedFormats: ['text'],
+      extract: (raw: any) => [{ type: 'content', data: String(raw) }]
+    };
+
+    const session = createChatSession({
+      sessionId: 'context',
+      provider: 'custom',
+      providerConfig: { provider, extractor },
+      options: {
+        contextWindow: {
+          strategies: [new Session.KeepSystemAndLastNStrategy(2)],
+          onTrim: (report: any) => reports.push(report)
+        }
+      }
+    });
+    session.addMessage({ role: 'system', content: 'Be brief.' });
+
+    await session.chat('one');
+    await session.chat('two');
+
+    const last = sent[sent.length - 1];
+    assert(last.length === 3, `expected system + 2 messages, got ${last.length}`);
+    assert(last[2].content === 'two', 'latest user message should be sent');
+    assert(session.getHistory().length === 5, 'session history should keep every message');
+    assert(reports.length === 1 && reports[0].dropped.length === 1, 'onTrim should report the dropped message');
+
+    return `${reports[0].keptCount}/${reports[0].originalCount} sent`;
+  });
+
+  // Test 7: Summary memory replaces older turns
+  await runner.runTest('SummaryMemory - Rolling Summary and Resume', async () => {
+    const sent: any[][] = [];
+    const summaryRequests: any[] = [];
+    const provider = {
+      name: 'recorder',
+      type: 'local',
+      async completion(params: any) {
+        sent.push(params.messages);
+        return { content: 'ok', raw: 'ok' };
+      }
+    };
+    const summarizer = {
+      name: 'summarizer',
+      type: 'local',
+      async completion(params: any) {
+        summaryRequests.push(params.messages);
+        return { content: `summary #${summaryRequests.length}` };
+      }
+    };
+    const extractor = {
+      name: 'TextExtractor',
+      supportedFormats: ['text'],
+      extract: (raw: any) => [{ type: 'content', data: String(raw) }]
+    };
+    const storage = new Session.MemorySessionStorage();
+    const config: any = {
+      sessionId: 'summarized',
+      provider: 'custom',
+      providerConfig: { provider, extractor },
+      storage,
+      options: {
+        summarization: { provider: summarizer, triggerTokens: 30, keepRecentMessages: 2, countTokens: countByMessage }
+      }
+    };
+
+    const session = createChatSession(config);
+    session.addMessage({ role: 'system', content: 'Be brief.' });
+    await session.chat('one');
+    assert(!session.getSummary(), 'below the threshold nothing should be summarized');
+
+    await session.chat('two');
+    const summary = session.getSummary();
+    assert(summary && summary.content === 'summary #1', 'crossing the threshold should summarize');
+    assert(summary!.summarizedCount === 3, `expected 3 covered messages, got ${summary!.summarizedCount}`);
+    assert(summaryRequests[0][1].content.includes('user: one'), 'older turns should be sent to the summarizer');
+
+    await session.chat('three');
+    const last = sent[sent.length - 1];
+    assert(last[0].content === 'Be brief.', 'system prompt should stay first');
+    assert(last[1].content.includes('summary #'), 'summary should replace covered turns');
+    assert(!last.some((message: any) => message.content === 'one'), 'covered turns should not be sent');
+    assert(session.getHistory().length === 7, 'original messages should stay in the history');
+
+    const resumed = await createChatSession({ ...config, resume: true });
+    assert(resumed.getSummary()?.content === session.getSummary()!.content, 'resume should restore the summary');
+    assert(resumed.getSummary()!.updatedAt instanceof Date, 'summary timestamp should be a Date');
+
+    return session.getSummary()!.content;
+  });
+
+  runner.printSummary();
+}
+
+// Run the tests
+main().catch(error => {
+  console.error('💥 Context window tests failed:', error);
+  process.exit(1);
+});
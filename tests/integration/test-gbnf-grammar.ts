@@ -0,0 +1,436 @@
+/**
+ * Offline tests for compiling JSON Schema and zod schemas to GBNF grammars
+ */
+
+import { z } from 'zod';
+import { Utils, Provider, Extractor } from '../../dist/index.js';
+
+interface TestResult {
+  name: string;
+  success: boolean;
+  error?: string;
+  duration: number;
+  output?: any;
+}
+
+class TestRunner {
+  private results: TestResult[] = [];
+
+  async runTest(name: string, testFn: () => Promise<any>): Promise<void> {
+    const startTime = Date.now();
+    console.log(`🧪 Testing: ${name}`);
+
+    try {
+      const output = await testFn();
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: true,
+        duration,
+        output
+      });
+
+      console.log(`✅ ${name} - ${duration}ms`);
+      if (output && typeof output === 'string' && output.length < 200) {
+        console.log(`   Output: ${output}`);
+      }
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: false,
+        duration,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      console.log(`❌ ${name} - ${duration}ms`);
+      console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  printSummary(): void {
+    const successful = this.results.filter(r => r.success).length;
+    const total = this.results.length;
+
+    console.log('\n' + '='.repeat(60));
+    console.log('📊 GBNF GRAMMAR TEST SUMMARY');
+    console.log('='.repeat(60));
+    console.log(`✅ Successful: ${successful}/${total}`);
+    console.log(`❌ Failed: ${total - successful}/${total}`);
+
+    if (total - successful > 0) {
+      console.log('\n❌ FAILED TESTS:');
+      this.results
+        .filter(r => !r.success)
+        .forEach(r => console.log(`   - ${r.name}: ${r.error}`));
+    }
+
+    if (total - successful > 0) {
+      process.exit(1);
+    }
+  }
+}
+
+function assert(condition: any, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+/**
+ * Minimal GBNF recognizer, enough to check that compiled grammars accept
+ * exactly the documents they should. Rules are one per line.
+ */
+type Atom = { lit: string } | { cls: { negated: boolean; ranges: Array<[string, string]> } } | { ref: string } | { group: Item[][] };
+type Item = { atom: Atom; min: number; max: number };
+
+class GbnfRecognizer {
+  private rules = new Map<string, Item[][]>();
+  private memo = new Map<string, Set<number>>();
+  private text = '';
+
+  constructor(grammar: string) {
+    for (const line of grammar.split('\n')) {
+      const match = line.match(/^([a-zA-Z0-9-]+) ::= (.*)$/);
+      if (!match) throw new Error(`Malformed rule: ${line}`);
+      const parser = { source: match[2], pos: 0 };
+      this.rules.set(match[1], parseAlternatives(parser));
+      if (parser.pos < parser.source.length) throw new Error(`Trailing input in rule ${match[1]}`);
+    }
+    for (const alternatives of this.rules.values()) this.checkRefs(alternatives);
+  }
+
+  accepts(text: string): boolean {
+    this.text = text;
+    this.memo.clear();
+    return this.rule('root', 0).has(text.length);
+  }
+
+  private checkRefs(alternatives: Item[][]): void {
+    for (const item of alternatives.flat()) {
+      if ('ref' in item.atom && !this.rules.has(item.atom.ref)) throw new Error(`Undefined rule ${item.atom.ref}`);
+      if ('group' in item.atom) this.checkRefs(item.atom.group);
+    }
+  }
+
+  private rule(name: string, pos: number): Set<number> {
+    const key = `${name}@${pos}`;
+    let ends = this.memo.get(key);
+    if (!ends) {
+      this.memo.set(key, new Set());
+      ends = this.alternatives(this.rules.get(name)!, pos);
+      this.memo.set(key, ends);
+    }
+    return ends;
+  }
+
+  private alternatives(alternatives: Item[][], pos: number): Set<number> {
+    const ends = new Set<number>();
+    for (const sequence of alternatives) {
+      for (const end of this.sequence(sequence, 0, pos)) ends.add(end);
+    }
+    return ends;
+  }
+
+  private sequence(sequence: Item[], index: number, pos: number): Set<number> {
+    if (index === sequence.length) return new Set([pos]);
+    const ends = new Set<number>();
+    for (const next of this.repeat(sequence[index], pos)) {
+      for (const end of this.sequence(sequence, index + 1, next)) ends.add(end);
+    }
+    return ends;
+  }
+
+  private repeat(item: Item, pos: number): Set<number> {
+    const results = new Set<number>(item.min === 0 ? [pos] : []);
+    let frontier = new Set([pos]);
+    for (let count = 1; count <= item.max && frontier.size > 0; count++) {
+      const next = new Set<number>();
+      for (const start of frontier) {
+        for (const end of this.atom(item.atom, start)) next.add(end);
+      }
+      if (count >= item.min) {
+        if ([...next].every(end => results.has(end))) break;
+        next.forEach(end => results.add(end));
+      }
+      frontier = next;
+    }
+    return results;
+  }
+
+  private atom(atom: Atom, pos: number): Set<number> {
+    if ('lit' in atom) return this.text.startsWith(atom.lit, pos) ? new Set([pos + atom.lit.length]) : new Set();
+    if ('ref' in atom) return this.rule(atom.ref, pos);
+    if ('group' in atom) return this.alternatives(atom.group, pos);
+
+    const char = this.text[pos];
+    if (char === undefined) return new Set();
+    const inRange = atom.cls.ranges.some(([from, to]) => char >= from && char <= to);
+    return inRange !== atom.cls.negated ? new Set([pos + 1]) : new Set();
+  }
+}
+
+function parseAlternatives(parser: { source: string; pos: number }): Item[][] {
+  const alternatives: Item[][] = [[]];
+  while (parser.pos < parser.source.length) {
+    const char = parser.source[parser.pos];
+    if (char === ' ') {
+      parser.pos++;
+    } else if (char === '|') {
+      parser.pos++;
+      alternatives.push([]);
+    } else if (char === ')') {
+      break;
+    } else {
+      const atom = parseAtom(parser);
+      const [min, max] = parseRepetition(parser);
+      alternatives[alternatives.length - 1].push({ atom, min, max });
+    }
+  }
+  return alternatives;
+}
+
+function parseAtom(parser: { source: string; pos: number }): Atom {
+  const char = parser.source[parser.pos];
+  if (char === '(') {
+    parser.pos++;
+    const group = parseAlternatives(parser);
+    if (parser.source[parser.pos++] !== ')') throw new Error('Unclosed group');
+    return { group };
+  }
+  if (char === '"') {
+    parser.pos++;
+    let lit = '';
+    while (parser.source[parser.pos] !== '"') {
+      if (parser.pos >= parser.source.length) throw new Error('Unclosed literal');
+      lit += readChar(parser);
+    }
+    parser.pos++;
+    return { lit };
+  }
+  if (char === '[') {
+    parser.pos++;
+    const negated = parser.source[parser.pos] === '^';
+    if (negated) parser.pos++;
+    const ranges: Array<[string, string]> = [];
+    while (parser.source[parser.pos] !== ']') {
+      if (parser.pos >= parser.source.length) throw new Error('Unclosed class');
+      const from = readChar(parser);
+      if (parser.source[parser.pos] === '-' && parser.source[parser.pos + 1] !== ']') {
+        parser.pos++;
+        ranges.push([from, readChar(parser)]);
+      } else {
+        ranges.push([from, from]);
+      }
+    }
+    parser.pos++;
+    return { cls: { negated, ranges } };
+  }
+  const name = parser.source.slice(parser.pos).match(/^[a-zA-Z0-9-]+/);
+  if (!name) throw new Error(`Unexpected '${char}' at ${parser.pos} in ${parser.source}`);
+  parser.pos += name[0].length;
+  return { ref: name[0] };
+}
+
+function readChar(parser: { source: string; pos: number }): string {
+  const char = parser.source[parser.pos++];
+  if (char !== '\\') return char;
+  const escaped = parser.source[parser.pos++];
+  if (escaped === 'x') {
+    const code = parser.source.slice(parser.pos, parser.pos + 2);
+    parser.pos += 2;
+    return String.fromCharCode(parseInt(code, 16));
+  }
+  return ({ n: '\n', r: '\r', t: '\t' } as Record<string, string>)[escaped] ?? escaped;
+}
+
+function parseRepetition(parser: { source: string; pos: number }): [number, number] {
+  const char = parser.source[parser.pos];
+  if (char === '*') { parser.pos++; return [0, Infinity]; }
+  if (char === '+') { parser.pos++; return [1, Infinity]; }
+  if (char === '?') { parser.pos++; return [0, 1]; }
+  const braces = parser.source.slice(parser.pos).match(/^\{(\d+)(,(\d*))?\}/);
+  if (!braces) return [1, 1];
+  parser.pos += braces[0].length;
+  const min = Number(braces[1]);
+  return [min, braces[2] === undefined ? min : braces[3] === '' ? Infinity : Number(braces[3])];
+}
+
+function expectDocuments(grammar: string, accepted: string[], rejected: string[]): string {
+  const recognizer = new GbnfRecognizer(grammar);
+  for (const text of accepted) assert(recognizer.accepts(text), `grammar should accept ${text}`);
+  for (const text of rejected) assert(!recognizer.accepts(text), `grammar should reject ${text}`);
+  return `${accepted.length} accepted, ${rejected.length} rejected`;
+}
+
+async function main() {
+  console.log('🚀 GBNF Grammar Tests');
+  console.log('====================\n');
+
+  const runner = new TestRunner();
+
+  // Test 1: Objects keep required properties and declared order
+  await runner.runTest('jsonSchemaToGbnf - Objects', async () => {
+    const grammar = Utils.jsonSchemaToGbnf({
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        age: { type: 'integer' },
+        tags: { type: 'array', items: { type: 'string' } }
+      },
+      required: ['name']
+    });
+    assert(grammar.startsWith('root ::= '), 'root should be the first rule');
+    return expectDocuments(grammar, [
+      '{"name":"Ada","age":36,"tags":["x","y"]}',
+      '{ "name": "Ada" }',
+      '{"name":"A\\"da","tags":[]}',
+      '{"name":"Ada","age":-3}'
+    ], [
+      '{"age":36}',
+      '{"name":"Ada","extra":1}',
+      '{"name":5}',
+      '{"name":"Ada","age":3.5}',
+      '{"name":"Ada",}',
+      '{"name":"Ada"} trailing'
+    ]);
+  });
+
+  // Test 2: With no required properties, any subset in order is valid
+  await runner.runTest('jsonSchemaToGbnf - Optional Properties', async () => {
+    const grammar = Utils.jsonSchemaToGbnf({
+      type: 'object',
+      properties: { a: { type: 'string' }, b: { type: 'number' }, c: { type: 'boolean' } }
+    });
+    return expectDocuments(grammar, ['{}', '{"b":1.5e3}', '{"a":"x","c":true}', '{"a":"x","b":1,"c":false}'], ['{,"b":1}', '{"c":true,"a":"x"}', '{"b":1,}']);
+  });
+
+  // Test 3: enum, const, nullable, type lists and unions
+  await runner.runTest('jsonSchemaToGbnf - Values and Unions', async () => {
+    const grammar = Utils.jsonSchemaToGbnf({
+      type: 'object',
+      properties: {
+        level: { enum: ['low', 'high', 3] },
+        kind: { const: 'event' },
+        note: { type: 'string', nullable: true },
+        id: { type: ['integer', 'string'] },
+        payload: { anyOf: [{ type: 'null' }, { type: 'object', properties: { x: { type: 'number' } }, required: ['x'] }] }
+      },
+      required: ['level', 'kind', 'note', 'id', 'payload']
+    });
+    return expectDocuments(grammar, [
+      '{"level":"low","kind":"event","note":null,"id":7,"payload":null}',
+      '{"level":3,"kind":"event","note":"hi","id":"a7","payload":{"x":1}}'
+    ], [
+      '{"level":"medium","kind":"event","note":null,"id":7,"payload":null}',
+      '{"level":"low","kind":"other","note":null,"id":7,"payload":null}',
+      '{"level":"low","kind":"event","note":null,"id":true,"payload":null}',
+      '{"level":"low","kind":"event","note":null,"id":7,"payload":{}}'
+    ]);
+  });
+
+  // Test 4: Array bounds, tuples and string lengths
+  await runner.runTest('jsonSchemaToGbnf - Arrays and Strings', async () => {
+    const bounded = Utils.jsonSchemaToGbnf({ type: 'array', items: { type: 'integer' }, minItems: 1, maxItems: 3 });
+    expectDocuments(bounded, ['[1]', '[1, 2, 3]'], ['[]', '[1,2,3,4]', '[1,]']);
+
+    const tuple = Utils.jsonSchemaToGbnf({ type: 'array', prefixItems: [{ type: 'string' }, { type: 'boolean' }] });
+    expectDocuments(tuple, ['["a",true]'], ['["a"]', '[true,"a"]']);
+
+    const code = Utils.jsonSchemaToGbnf({ type: 'string', minLength: 2, maxLength: 3 });
+    return expectDocuments(code, ['"ab"', '"abc"', '"\\u00e9t"'], ['"a"', '"abcd"']);
+  });
+
+  // Test 5: Recursive zod schemas compile through $ref
+  await runner.runTest('zodToGbnf - Recursive Schema', async () => {
+    type Node = { label: string; children: Node[] };
+    const node: z.ZodType<Node> = z.lazy(() => z.object({ label: z.string(), children: z.array(node) }));
+    const grammar = Utils.zodToGbnf(z.object({ tree: node }));
+    return expectDocuments(grammar, [
+      '{"tree":{"label":"a","children":[]}}',
+      '{"tree":{"label":"a","children":[{"label":"b","children":[{"label":"c","children":[]}]}]}}'
+    ], [
+      '{"tree":{"label":"a"}}',
+      '{"tree":{"label":"a","children":[{"label":1,"children":[]}]}}'
+    ]);
+  });
+
+  // Test 6: Grammar inputs resolve to GBNF; schemas that cannot compile are refused
+  await runner.runTest('grammarToGbnf - Inputs and Errors', async () => {
+    const raw = 'root ::= "yes" | "no"';
+    assert(Utils.grammarToGbnf({ type: 'gbnf', grammar: raw }) === raw, 'raw GBNF should pass through');
+    const fromZod = Utils.grammarToGbnf({ type: 'zod', schema: z.enum(['yes', 'no']) });
+    expectDocuments(fromZod, ['"yes"', '"no"'], ['"maybe"']);
+
+    const failures = [
+      () => Utils.jsonSchemaToGbnf(false),
+      () => Utils.jsonSchemaToGbnf({ $ref: 'https://example.com/schema.json' }),
+      () => Utils.grammarToGbnf({ type: 'regex' } as any)
+    ];
+    for (const failure of failures) {
+      try {
+        failure();
+      } catch {
+        continue;
+      }
+      throw new Error('Expected the grammar to be refused');
+    }
+    return 'ok';
+  });
+
+  // Test 7: Tool call grammars produce calls the llama.cpp extractor reads
+  await runner.runTest('toolCallGrammar - Tool Calls', async () => {
+    const grammar = Utils.grammarToGbnf(Utils.toolCallGrammar([
+      { name: 'weather', description: 'Weather for a city', schema: z.object({ city: z.string() }), handler: () => 'sunny' },
+      { name: 'time', description: 'Current time', schema: z.object({}), handler: () => 'noon' }
+    ]));
+    const call = '{"function_call":{"name":"weather","arguments":{"city":"Oslo"}}}';
+    expectDocuments(grammar, [call, '{"function_call":{"name":"time","arguments":{}}}'], [
+      '{"function_call":{"name":"stocks","arguments":{}}}',
+      '{"function_call":{"name":"weather","arguments":{}}}'
+    ]);
+
+    const segments = new Extractor.NodeLlamaCppExtractor().extract({ content: call });
+    const segment = segments.find((candidate: any) => candidate.type === 'tool_call');
+    assert(segment && segment.data.name === 'weather' && segment.data.arguments.city === 'Oslo', `unexpected segments ${JSON.stringify(segments)}`);
+    return segment.data;
+  });
+
+  // Test 8: NodeLlamaCppProvider hands the compiled grammar to node-llama-cpp
+  await runner.runTest('NodeLlamaCppProvider - Grammar Parameter', async () => {
+    const provider: any = new Provider.NodeLlamaCppProvider({ modelPath: 'offline.gguf' });
+    const prompts: any[] = [];
+    provider.isInitialized = true;
+    provider.llama = { createGrammar: async (options: any) => ({ gbnf: options.grammar }) };
+    provider.chatSession = {
+      prompt: async (_prompt: string, options: any) => {
+        prompts.push(options);
+        return '"yes"';
+      }
+    };
+
+    const messages = [{ role: 'user', content: 'yes or no?' }];
+    const raw = 'root ::= "\\"yes\\"" | "\\"no\\""';
+    await provider.completion({ messages, grammar: { type: 'gbnf', grammar: raw } });
+    const format = { name: 'answer', schema: { type: 'object', properties: { ok: { type: 'boolean' } }, required: ['ok'] } };
+    await provider.completion({ messages, response_format: format });
+    await provider.completion({ messages, response_format: format, grammar: { type: 'gbnf', grammar: raw } });
+    await provider.completion({ messages });
+
+    assert(prompts[0].grammar.gbnf === raw, 'the raw grammar should be used');
+    assert(prompts[1].grammar.gbnf === Utils.jsonSchemaToGbnf(format.schema), 'a response format should compile to a grammar');
+    assert(prompts[2].grammar.gbnf === raw, 'an explicit grammar should win');
+    assert(prompts[3].grammar === undefined, 'no grammar unless asked for');
+    return 'ok';
+  });
+
+  runner.printSummary();
+}
+
+// Run the tests
+main().catch(error => {
+  console.error('💥 GBNF grammar tests failed:', error);
+  process.exit(1);
+});
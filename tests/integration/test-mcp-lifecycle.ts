@@ -0,0 +1,373 @@
+/**
+ * Offline tests for the MCP client lifecycle: initialize handshake,
+ * capabilities, request ids, ping keep-alive and shutdown through MCPService
+ */
+
+import { z } from 'zod';
+import { MCP, Agent } from '../../dist/index.js';
+
+
+interface TestResult {
+  name: string;
+  success: boolean;
+  error?: string;
+  duration: number;
+  output?: any;
+}
+
+class TestRunner {
+  private results: TestResult[] = [];
+
+  async runTest(name: string, testFn: () => Promise<any>): Promise<void> {
+    const startTime = Date.now();
+    console.log(`🧪 Testing: ${name}`);
+
+    try {
+      const output = await testFn();
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: true,
+        duration,
+        output
+      });
+
+      console.log(`✅ ${name} - ${duration}ms`);
+      if (output && typeof output === 'string' && output.length < 200) {
+        console.log(`   Output: ${output}`);
+      }
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: false,
+        duration,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      console.log(`❌ ${name} - ${duration}ms`);
+      console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  printSummary(): void {
+    const successful = this.results.filter(r => r.success).length;
+    const total = this.results.length;
+
+    console.log('\n' + '='.repeat(60));
+    console.log('📊 MCP LIFECYCLE TEST SUMMARY');
+    console.log('='.repeat(60));
+    console.log(`✅ Successful: ${successful}/${total}`);
+    console.log(`❌ Failed: ${total - successful}/${total}`);
+
+    if (total - successful > 0) {
+      console.log('\n❌ FAILED TESTS:');
+      this.results
+        .filter(r => !r.success)
+        .forEach(r => console.log(`   - ${r.name}: ${r.error}`));
+    }
+
+    if (total - successful > 0) {
+      process.exit(1);
+    }
+  }
+}
+
+function assert(condition: any, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * In-memory MCP server. Records every message; `handlers` override methods.
+ */
+class FakeServer implements MCP.MCPTransport {
+  messages: any[] = [];
+  closed = 0;
+  sessionGeneration = 0;
+  capabilities: any = { tools: {} };
+  protocolVersion?: string;
+  handlers: Record<string, (params: any) => any> = {};
+
+  async send(request: any): Promise<any> {
+    this.messages.push(request);
+    if (request.id === undefined) return undefined;
+
+    const handler = this.handlers[request.method];
+    if (handler) {
+      try {
+        return { jsonrpc: '2.0', id: request.id, result: await handler(request.params) };
+      } catch (error: any) {
+        return { jsonrpc: '2.0', id: request.id, error: { code: -32000, message: error.message } };
+      }
+    }
+    switch (request.method) {
+      case 'initialize':
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: {
+            protocolVersion: this.protocolVersion || request.params.protocolVersion,
+            capabilities: this.capabilities,
+            serverInfo: { name: 'fake', version: '1.2.3' },
+            instructions: 'Use lookup for facts'
+          }
+        };
+      case 'tools/list':
+        return { jsonrpc: '2.0', id: request.id, result: { tools: [{ name: 'lookup', description: 'Look up', inputSchema: { type: 'object', properties: {} } }] } };
+      case 'tools/call':
+        return { jsonrpc: '2.0', id: request.id, result: { content: [{ type: 'text', text: `called ${request.params.name}` }] } };
+      case 'ping':
+        return { jsonrpc: '2.0', id: request.id, result: {} };
+      default:
+        return { jsonrpc: '2.0', id: request.id, error: { code: -32601, message: `Method not found: ${request.method}` } };
+    }
+  }
+
+  async close(): Promise<void> {
+    this.closed++;
+  }
+
+  methods(): string[] {
+    return this.messages.map(message => message.method);
+  }
+}
+
+async function main() {
+  const runner = new TestRunner();
+
+  await runner.runTest('Handshake comes before the first request', async () => {
+    const server = new FakeServer();
+    const client = new MCP.MCPClient(server, { clientInfo: { name: 'tester', version: '9.9.9' } });
+    const tools = await client.listTools();
+
+    assert(tools.length === 1 && tools[0].name === 'lookup', 'tools should be listed');
+    assert(server.methods().join(',') === 'initialize,notifications/initialized,tools/list', `unexpected order: ${server.methods()}`);
+    const init = server.messages[0].params;
+    assert(init.protocolVersion === MCP.LATEST_PROTOCOL_VERSION, 'the latest protocol version should be requested');
+    assert(init.clientInfo.name === 'tester' && init.clientInfo.version === '9.9.9', 'client info should be sent');
+    assert(init.capabilities && typeof init.capabilities === 'object', 'client capabilities should be sent');
+    assert(server.messages[1].id === undefined, 'initialized should be a notification');
+    return init;
+  });
+
+  await runner.runTest('Server details and capabilities are kept', async () => {
+    const server = new FakeServer();
+    server.capabilities = { tools: { listChanged: true }, prompts: {} };
+    const client = new MCP.MCPClient(server);
+    const result = await client.initialize();
+
+    assert(result.serverInfo.name === 'fake', 'initialize should resolve with the result');
+    assert(client.getServerInfo()?.version === '1.2.3', 'server info should be kept');
+    assert(client.getInstructions() === 'Use lookup for facts', 'instructions should be kept');
+    assert(client.getProtocolVersion() === MCP.LATEST_PROTOCOL_VERSION, 'protocol version should be kept');
+    assert(client.hasCapability('tools') && client.hasCapability('prompts'), 'declared capabilities should be present');
+    assert(!client.hasCapability('resources'), 'undeclared capabilities should be absent');
+    assert(client.getServerCapabilities()?.tools?.listChanged === true, 'capability details should be kept');
+    return client.getServerCapabilities();
+  });
+
+  await runner.runTest('Servers without tools are not asked for them', async () => {
+    const server = new FakeServer();
+    server.capabilities = { resources: {} };
+    const client = new MCP.MCPClient(server);
+    const tools = await client.listTools();
+
+    assert(tools.length === 0, 'no tools should be listed');
+    assert(!server.methods().includes('tools/list'), 'tools/list should not be sent');
+    return server.methods();
+  });
+
+  await runner.runTest('Protocol versions are negotiated', async () => {
+    const older = new FakeServer();
+    older.protocolVersion = '2024-11-05';
+    const client = new MCP.MCPClient(older);
+    await client.initialize();
+    assert(client.getProtocolVersion() === '2024-11-05', 'a supported older version should be accepted');
+
+    const unknown = new FakeServer();
+    unknown.protocolVersion = '1999-01-01';
+    const rejecting = new MCP.MCPClient(unknown);
+    let error: Error | undefined;
+    try {
+      await rejecting.listTools();
+    } catch (caught: any) {
+      error = caught;
+    }
+    assert(error?.message.includes("unsupported protocol version '1999-01-01'"), `unexpected error: ${error?.message}`);
+    assert(!unknown.methods().includes('notifications/initialized'), 'initialized should not be sent after a failed negotiation');
+    return error?.message;
+  });
+
+  await runner.runTest('Request ids increase and the handshake is shared', async () => {
+    const server = new FakeServer();
+    const client = new MCP.MCPClient(server);
+    await Promise.all([
+      client.callTool('lookup', {}),
+      client.callTool('lookup', {}),
+      client.ping()
+    ]);
+    await client.listTools();
+
+    const ids = server.messages.filter(message => message.id !== undefined).map(message => message.id);
+    assert(server.methods().filter(method => method === 'initialize').length === 1, 'concurrent calls should share one handshake');
+    assert(ids.every((id, index) => index === 0 || id > ids[index - 1]), `ids should increase: ${ids}`);
+    assert(new Set(ids).size === ids.length, 'ids should be unique');
+    return ids;
+  });
+
+  await runner.runTest('Errors and pagination', async () => {
+    const server = new FakeServer();
+    const pages: Record<string, any> = {
+      start: { tools: [{ name: 'a', description: 'A', inputSchema: {} }], nextCursor: 'second' },
+      second: { tools: [{ name: 'b', description: 'B', inputSchema: {} }] }
+    };
+    server.handlers['tools/list'] = params => pages[params.cursor || 'start'];
+    server.handlers['tools/call'] = () => {
+      throw new Error('Unknown tool');
+    };
+    const client = new MCP.MCPClient(server);
+
+    const tools = await client.listTools();
+    assert(tools.map(tool => tool.name).join(',') === 'a,b', 'all pages should be listed');
+    let error: Error | undefined;
+    try {
+      await client.callTool('missing', {});
+    } catch (caught: any) {
+      error = caught;
+    }
+    assert(error?.message.includes("'tools/call' failed: Unknown tool"), `unexpected error: ${error?.message}`);
+    return error?.message;
+  });
+
+  await runner.runTest('A new server session initializes again', async () => {
+    const server = new FakeServer();
+    const client = new MCP.MCPClient(server);
+    await client.ping();
+    server.sessionGeneration++;
+    await client.ping();
+
+    const methods = server.methods();
+    assert(methods.filter(method => method === 'initialize').length === 2, 'the handshake should run again');
+    assert(methods[methods.length - 1] === 'ping' && methods[methods.length - 3] === 'initialize', `unexpected order: ${methods}`);
+    return methods;
+  });
+
+  await runner.runTest('Keep-alive pings until closed', async () => {
+    const server = new FakeServer();
+    const failures: Error[] = [];
+    let failing = false;
+    server.handlers.ping = () => {
+      if (failing) throw new Error('unhealthy');
+      return {};
+    };
+    const client = new MCP.MCPClient(server, { pingIntervalMs: 20, onPingError: error => failures.push(error) });
+
+    await sleep(50);
+    assert(!server.methods().includes('ping'), 'pings should wait for initialization');
+    await client.initialize();
+    await sleep(75);
+    const pings = server.methods().filter(method => method === 'ping').length;
+    assert(pings >= 2, `expected repeated pings, got ${pings}`);
+
+    failing = true;
+    await sleep(50);
+    assert(failures.length > 0 && failures[0].message.includes('unhealthy'), 'failed pings should be reported');
+
+    await client.close();
+    const count = server.messages.length;
+    await sleep(50);
+    assert(server.messages.length === count, 'pings should stop after close');
+    assert(server.closed === 1 && client.isClosed(), 'the transport should be closed');
+
+    let error: Error | undefined;
+    try {
+      await client.listTools();
+    } catch (caught: any) {
+      error = caught;
+    }
+    assert(error?.message === 'MCP client was closed', `unexpected error: ${error?.message}`);
+    return { pings, failures: failures.length };
+  });
+
+  await runner.runTest('MCPService closes servers and removes their tools', async () => {
+    const github = new FakeServer();
+    const docs = new FakeServer();
+    docs.capabilities = { tools: {}, resources: { subscribe: true } };
+    const service = new MCP.MCPService();
+    service.registerTool({ name: 'local', description: 'Local', schema: z.object({}), handler: () => 'local' });
+    await service.initializeAllMcpTools([
+      { label: 'github', mcp: github },
+      { label: 'docs', mcp: docs }
+    ]);
+
+    assert(service.listMcpServers().join(',') === 'github,docs', 'servers should be listed');
+    assert(service.getMcpServerCapabilities('docs')?.resources?.subscribe === true, 'capabilities should be exposed per server');
+    assert(service.getMcpClient('github') instanceof MCP.MCPClient, 'clients should be exposed');
+    assert(Object.keys(await service.pingMcpServers()).length === 0, 'healthy servers should answer pings');
+
+    let duplicate: Error | undefined;
+    try {
+      await service.initializeMcpTools('docs', new FakeServer());
+    } catch (caught: any) {
+      duplicate = caught;
+    }
+    assert(duplicate?.message === "MCP server 'docs' is already connected", `unexpected error: ${duplicate?.message}`);
+
+    await service.closeMcpServer('github');
+    assert(github.closed === 1 && !service.hasTool('github.lookup'), 'the closed server and its tools should be gone');
+    assert(service.hasTool('docs.lookup'), 'other servers should keep their tools');
+
+    await service.close();
+    assert(docs.closed === 1 && service.listMcpServers().length === 0, 'every server should be closed');
+    assert(service.listTools().map(tool => tool.name).join(',') === 'local', 'local tools should stay');
+    return service.listTools().map(tool => tool.name);
+  });
+
+  await runner.runTest('Failed connections are closed, Agent.close shuts servers down', async () => {
+    const broken = new FakeServer();
+    broken.handlers['tools/list'] = () => {
+      throw new Error('listing failed');
+    };
+    const service = new MCP.MCPService();
+    let error: Error | undefined;
+    try {
+      await service.initializeMcpTools('broken', broken);
+    } catch (caught: any) {
+      error = caught;
+    }
+    assert(error?.message.includes('listing failed'), `unexpected error: ${error?.message}`);
+    assert(broken.closed === 1 && service.listMcpServers().length === 0, 'a half-connected server should be closed');
+
+    const server = new FakeServer();
+    const agent = new Agent.Agent({
+      id: 'agent',
+      name: 'Agent',
+      description: 'Uses MCP',
+      provider: {} as any,
+      extractor: {} as any,
+      template: { name: 'default', content: '' } as any,
+      mcpClient: { clientInfo: { name: 'agent-client', version: '1.0.0' } }
+    });
+    await agent.addMCPService('fake', server);
+    assert(agent.getTools().some(tool => tool.name === 'lookup'), 'the server tools should be added');
+    assert(server.messages[0].params.clientInfo.name === 'agent-client', 'agent client options should be used');
+
+    await agent.close();
+    assert(server.closed === 1, 'the agent should close its servers');
+    assert(agent.getTools().length === 0, 'the server tools should be removed');
+    return server.methods();
+  });
+
+  runner.printSummary();
+}
+
+main().catch(error => {
+  console.error('💥 MCP lifecycle tests failed:', error);
+  process.exit(1);
+});
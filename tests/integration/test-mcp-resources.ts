@@ -0,0 +1,339 @@
+/**
+ * Offline tests for MCP resources and prompts: listing, reading, templates,
+ * subscriptions, and turning them into session content and messages
+ */
+
+import { MCP, createChatSession } from '../../dist/index.js';
+
+
+interface TestResult {
+  name: string;
+  success: boolean;
+  error?: string;
+  duration: number;
+  output?: any;
+}
+
+class TestRunner {
+  private results: TestResult[] = [];
+
+  async runTest(name: string, testFn: () => Promise<any>): Promise<void> {
+    const startTime = Date.now();
+    console.log(`🧪 Testing: ${name}`);
+
+    try {
+      const output = await testFn();
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: true,
+        duration,
+        output
+      });
+
+      console.log(`✅ ${name} - ${duration}ms`);
+      if (output && typeof output === 'string' && output.length < 200) {
+        console.log(`   Output: ${output}`);
+      }
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: false,
+        duration,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      console.log(`❌ ${name} - ${duration}ms`);
+      console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  printSummary(): void {
+    const successful = this.results.filter(r => r.success).length;
+    const total = this.results.length;
+
+    console.log('\n' + '='.repeat(60));
+    console.log('📊 MCP RESOURCES TEST SUMMARY');
+    console.log('='.repeat(60));
+    console.log(`✅ Successful: ${successful}/${total}`);
+    console.log(`❌ Failed: ${total - successful}/${total}`);
+
+    if (total - successful > 0) {
+      console.log('\n❌ FAILED TESTS:');
+      this.results
+        .filter(r => !r.success)
+        .forEach(r => console.log(`   - ${r.name}: ${r.error}`));
+    }
+
+    if (total - successful > 0) {
+      process.exit(1);
+    }
+  }
+}
+
+function assert(condition: any, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+const PNG = Buffer.from('fake png').toString('base64');
+
+/**
+ * In-memory MCP server with docs, a screenshot, a template and prompts
+ */
+class DocsServer implements MCP.MCPTransport {
+  messages: any[] = [];
+  capabilities: any = { resources: { subscribe: true }, prompts: {} };
+  sessionGeneration = 0;
+  private listeners = new Set<(message: any) => void>();
+
+  addNotificationListener(listener: (message: any) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  notify(message: any): void {
+    this.listeners.forEach(listener => listener(message));
+  }
+
+  listenerCount(): number {
+    return this.listeners.size;
+  }
+
+  methods(): string[] {
+    return this.messages.map(message => message.method);
+  }
+
+  async send(request: any): Promise<any> {
+    this.messages.push(request);
+    if (request.id === undefined) return undefined;
+    const reply = (result: any) => ({ jsonrpc: '2.0', id: request.id, result });
+    const params = request.params || {};
+
+    switch (request.method) {
+      case 'initialize':
+        return reply({ protocolVersion: params.protocolVersion, capabilities: this.capabilities, serverInfo: { name: 'docs', version: '1' } });
+      case 'resources/list':
+        return params.cursor
+          ? reply({ resources: [{ uri: 'file:///shot.png', name: 'shot.png', mimeType: 'image/png' }] })
+          : reply({ resources: [{ uri: 'file:///guide.md', name: 'guide.md', mimeType: 'text/markdown' }], nextCursor: 'page-2' });
+      case 'resources/templates/list':
+        return reply({ resourceTemplates: [{ uriTemplate: 'file:///logs/{date}.log', name: 'logs' }] });
+      case 'resources/read':
+        if (params.uri === 'file:///guide.md') return reply({ contents: [{ uri: params.uri, mimeType: 'text/markdown', text: '# Guide\nRun the tests.' }] });
+        if (params.uri === 'file:///shot.png') return reply({ contents: [{ uri: params.uri, mimeType: 'image/png', blob: PNG }] });
+        return { jsonrpc: '2.0', id: request.id, error: { code: -32002, message: `Resource not found: ${params.uri}` } };
+      case 'resources/subscribe':
+      case 'resources/unsubscribe':
+        return reply({});
+      case 'prompts/list':
+        return reply({ prompts: [{ name: 'review', description: 'Review code', arguments: [{ name: 'language', required: true }] }] });
+      case 'prompts/get':
+        return reply({
+          description: 'Review code',
+          messages: [
+            { role: 'user', content: { type: 'text', text: 'You review code carefully.' } },
+            { role: 'assistant', content: { type: 'text', text: 'Understood.' } },
+            { role: 'user', content: { type: 'resource', resource: { uri: 'file:///main.ts', mimeType: 'text/plain', text: `Review this ${params.arguments.language} file` } } }
+          ]
+        });
+      default:
+        return { jsonrpc: '2.0', id: request.id, error: { code: -32601, message: 'Method not found' } };
+    }
+  }
+}
+
+const textExtractor = {
+  name: 'TextExtractor',
+  supportedFormats: ['text'],
+  extract: (raw: any) => [{ type: 'content', data: String(raw) }]
+};
+
+async function docsSession() {
+  const server = new DocsServer();
+  const mcpService = new MCP.MCPService();
+  await mcpService.initializeMcpTools('docs', server);
+  const requests: any[] = [];
+  const provider: any = {
+    name: 'replay',
+    type: 'api',
+    async completion(params: any) {
+      // The session passes its history; keep what was sent at the time
+      requests.push({ ...params, messages: [...params.messages] });
+      return { content: 'Looks good', raw: 'Looks good' };
+    }
+  };
+  const session = createChatSession({
+    sessionId: `resources-${Date.now()}`,
+    provider: 'custom',
+    providerConfig: { provider, extractor: textExtractor },
+    mcpService
+  });
+  return { server, mcpService, session, requests };
+}
+
+async function main() {
+  const runner = new TestRunner();
+
+  await runner.runTest('Resources and templates are listed across pages', async () => {
+    const server = new DocsServer();
+    const client = new MCP.MCPClient(server);
+    const resources = await client.listResources();
+    const templates = await client.listResourceTemplates();
+    const tools = await client.listTools();
+
+    assert(resources.map(resource => resource.name).join(',') === 'guide.md,shot.png', 'both pages should be listed');
+    assert(templates.length === 1 && templates[0].uriTemplate === 'file:///logs/{date}.log', 'templates should be listed');
+    assert(tools.length === 0 && !server.methods().includes('tools/list'), 'a server without tools should not be asked for them');
+    return { resources: resources.length, templates: templates.length };
+  });
+
+  await runner.runTest('Servers without resources or prompts have none', async () => {
+    const server = new DocsServer();
+    server.capabilities = { tools: {} };
+    const client = new MCP.MCPClient(server);
+    const resources = await client.listResources();
+    const prompts = await client.listPrompts();
+
+    assert(resources.length === 0 && prompts.length === 0, 'nothing should be listed');
+    assert(server.methods().join(',') === 'initialize,notifications/initialized', `unexpected requests: ${server.methods()}`);
+    return server.methods();
+  });
+
+  await runner.runTest('Resource contents become message content', async () => {
+    const { mcpService } = await docsSession();
+    const text = await mcpService.readMcpResourceContent('docs', 'file:///guide.md') as any[];
+    const image = await mcpService.readMcpResourceContent('docs', 'file:///shot.png') as any[];
+
+    assert(text.length === 1 && text[0].type === 'text' && text[0].text.startsWith('# Guide'), 'text resources should be text');
+    assert(image[0].type === 'image' && image[0].data === PNG && image[0].mimeType === 'image/png', 'image blobs should be images');
+    assert(image[0].filename === 'shot.png' && image[0].metadata.uri === 'file:///shot.png', 'the source should be kept');
+
+    let error: Error | undefined;
+    try {
+      await mcpService.readMcpResource('docs', 'file:///missing');
+    } catch (caught: any) {
+      error = caught;
+    }
+    assert(error?.message.includes('Resource not found'), `unexpected error: ${error?.message}`);
+    let unknown: Error | undefined;
+    try {
+      await mcpService.listMcpResources('nope');
+    } catch (caught: any) {
+      unknown = caught;
+    }
+    assert(unknown?.message === "MCP server 'nope' is not connected", `unexpected error: ${unknown?.message}`);
+    return image[0];
+  });
+
+  await runner.runTest('Content blocks of every type convert', async () => {
+    const content = MCP.mcpContentToMessageContent([
+      { type: 'text', text: 'hello' },
+      { type: 'image', data: PNG, mimeType: 'image/png' },
+      { type: 'audio', data: 'UklGRg==', mimeType: 'audio/wav' },
+      { type: 'resource', resource: { uri: 'file:///report.pdf', mimeType: 'application/pdf', blob: 'JVBERi0=' } },
+      { type: 'resource_link', uri: 'file:///big.csv', name: 'big.csv', description: 'All orders' }
+    ]) as any[];
+
+    assert(content.map(part => part.type).join(',') === 'text,image,audio,document,text', `unexpected types: ${content.map(part => part.type)}`);
+    assert(content[3].filename === 'report.pdf', 'embedded documents should keep their name');
+    assert(content[4].text === 'Resource big.csv (All orders): file:///big.csv', `unexpected link text: ${content[4].text}`);
+    return content.map(part => part.type);
+  });
+
+  await runner.runTest('Resources attach to a session turn', async () => {
+    const { session, requests } = await docsSession();
+    const content = await session.attachMcpResources(
+      'Summarize these',
+      { server: 'docs', uri: 'file:///guide.md' },
+      { server: 'docs', uri: 'file:///shot.png' }
+    );
+    await session.chat(content);
+
+    const sent = requests[0].messages[requests[0].messages.length - 1];
+    assert(sent.role === 'user' && Array.isArray(sent.content), 'the turn should be multi-part');
+    assert(sent.content.map((part: any) => part.type).join(',') === 'text,text,image', 'the message should come before the resources');
+    assert(sent.content[0].text === 'Summarize these', 'the message should be kept');
+    return sent.content.map((part: any) => part.type);
+  });
+
+  await runner.runTest('Prompts are listed and become session messages', async () => {
+    const { mcpService, session, requests } = await docsSession();
+    const prompts = await mcpService.listMcpPrompts('docs');
+    assert(prompts[0].name === 'review' && prompts[0].arguments?.[0].required, 'prompts should be listed with arguments');
+
+    const added = await session.addMcpPrompt('docs', 'review', { language: 'TypeScript' });
+    const history = session.getHistory();
+    assert(added.length === 3 && history.length === 3, 'every prompt message should be added');
+    assert(history[0].role === 'user' && history[0].content === 'You review code carefully.', 'text messages should be plain strings');
+    assert(history[1].role === 'assistant', 'roles should be kept');
+    assert(history[2].content === 'Review this TypeScript file', 'arguments should reach the server');
+
+    const { session: other, requests: otherRequests } = await docsSession();
+    const reply = await other.chatMcpPrompt('docs', 'review', { language: 'Go' });
+    const sent = otherRequests[0].messages;
+    assert(reply === 'Looks good', 'the prompt turn should be answered');
+    assert(sent.length === 3 && sent[2].content === 'Review this Go file', 'the last prompt message should be the turn');
+    assert(other.getHistory().length === 4, 'the reply should follow the prompt messages');
+    return { requests: requests.length, history: other.getHistory().map(message => message.role) };
+  });
+
+  await runner.runTest('Subscriptions deliver updates until unsubscribed', async () => {
+    const server = new DocsServer();
+    const client = new MCP.MCPClient(server);
+    const updates: string[] = [];
+    const second: string[] = [];
+
+    const stop = await client.subscribeResource('file:///guide.md', uri => updates.push(uri));
+    const stopSecond = await client.subscribeResource('file:///guide.md', uri => second.push(uri));
+    assert(server.methods().filter(method => method === 'resources/subscribe').length === 1, 'the server should be told once');
+
+    server.notify({ jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: 'file:///guide.md' } });
+    server.notify({ jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: 'file:///other.md' } });
+    assert(updates.join(',') === 'file:///guide.md' && second.length === 1, 'matching updates should reach every callback');
+
+    await stop();
+    assert(!server.methods().includes('resources/unsubscribe'), 'the server should stay subscribed while a callback is left');
+    await stopSecond();
+    assert(server.methods().includes('resources/unsubscribe'), 'the last callback should unsubscribe on the server');
+    assert(server.listenerCount() === 0, 'the notification listener should be removed');
+
+    server.notify({ jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: 'file:///guide.md' } });
+    assert(updates.length === 1, 'no updates after unsubscribing');
+    return server.methods();
+  });
+
+  await runner.runTest('Subscriptions survive a new session and need support', async () => {
+    const server = new DocsServer();
+    const client = new MCP.MCPClient(server);
+    await client.subscribeResource('file:///guide.md', () => undefined);
+    server.sessionGeneration++;
+    await client.listResources();
+    const subscribes = server.messages.filter(message => message.method === 'resources/subscribe');
+    assert(subscribes.length === 2, 'subscriptions should be renewed after initializing again');
+
+    const plain = new DocsServer();
+    plain.capabilities = { resources: {} };
+    let error: Error | undefined;
+    try {
+      await new MCP.MCPClient(plain).subscribeResource('file:///guide.md', () => undefined);
+    } catch (caught: any) {
+      error = caught;
+    }
+    assert(error?.message === 'MCP server does not support resource subscriptions', `unexpected error: ${error?.message}`);
+    return subscribes.length;
+  });
+
+  runner.printSummary();
+}
+
+main().catch(error => {
+  console.error('💥 MCP resources tests failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,317 @@
+/**
+ * Offline tests for MCP tool results: content conversion, isError and
+ * structuredContent validation against output schemas
+ */
+
+import { z } from 'zod';
+import { MCP, Provider, Tools, createChatSession } from '../../dist/index.js';
+
+
+interface TestResult {
+  name: string;
+  success: boolean;
+  error?: string;
+  duration: number;
+  output?: any;
+}
+
+class TestRunner {
+  private results: TestResult[] = [];
+
+  async runTest(name: string, testFn: () => Promise<any>): Promise<void> {
+    const startTime = Date.now();
+    console.log(`🧪 Testing: ${name}`);
+
+    try {
+      const output = await testFn();
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: true,
+        duration,
+        output
+      });
+
+      console.log(`✅ ${name} - ${duration}ms`);
+      if (output && typeof output === 'string' && output.length < 200) {
+        console.log(`   Output: ${output}`);
+      }
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: false,
+        duration,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      console.log(`❌ ${name} - ${duration}ms`);
+      console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  printSummary(): void {
+    const successful = this.results.filter(r => r.success).length;
+    const total = this.results.length;
+
+    console.log('\n' + '='.repeat(60));
+    console.log('📊 MCP TOOL RESULTS TEST SUMMARY');
+    console.log('='.repeat(60));
+    console.log(`✅ Successful: ${successful}/${total}`);
+    console.log(`❌ Failed: ${total - successful}/${total}`);
+
+    if (total - successful > 0) {
+      console.log('\n❌ FAILED TESTS:');
+      this.results
+        .filter(r => !r.success)
+        .forEach(r => console.log(`   - ${r.name}: ${r.error}`));
+    }
+
+    if (total - successful > 0) {
+      process.exit(1);
+    }
+  }
+}
+
+function assert(condition: any, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+const PNG = Buffer.from('fake png').toString('base64');
+
+const weatherOutput = {
+  type: 'object',
+  properties: { city: { type: 'string' }, celsius: { type: 'number' } },
+  required: ['city', 'celsius']
+};
+
+/**
+ * In-memory MCP server with tools returning each kind of result
+ */
+class ToolServer implements MCP.MCPTransport {
+  structured: any = { city: 'Oslo', celsius: 4 };
+
+  async send(request: any): Promise<any> {
+    if (request.id === undefined) return undefined;
+    const reply = (result: any) => ({ jsonrpc: '2.0', id: request.id, result });
+
+    switch (request.method) {
+      case 'initialize':
+        return reply({ protocolVersion: request.params.protocolVersion, capabilities: { tools: {} }, serverInfo: { name: 'tools', version: '1' } });
+      case 'tools/list':
+        return reply({
+          tools: [
+            { name: 'screenshot', description: 'Take a screenshot', inputSchema: { type: 'object', properties: {} } },
+            { name: 'search', description: 'Search', inputSchema: { type: 'object', properties: { query: { type: 'string' } } } },
+            { name: 'weather', description: 'Weather', inputSchema: { type: 'object', properties: {} }, outputSchema: weatherOutput }
+          ]
+        });
+      case 'tools/call':
+        switch (request.params.name) {
+          case 'screenshot':
+            return reply({ content: [{ type: 'text', text: 'Here is the page' }, { type: 'image', data: PNG, mimeType: 'image/png' }] });
+          case 'search':
+            return reply({ content: [{ type: 'text', text: `Rate limited, retry later` }], isError: true });
+          case 'weather':
+            return reply({ content: [{ type: 'text', text: JSON.stringify(this.structured) }], structuredContent: this.structured });
+        }
+    }
+    return { jsonrpc: '2.0', id: request.id, error: { code: -32601, message: 'Method not found' } };
+  }
+}
+
+const toolCallExtractor = {
+  name: 'RecordedExtractor',
+  supportedFormats: ['text'],
+  extract: (raw: any) => typeof raw === 'string'
+    ? [{ type: 'content', data: raw }]
+    : raw.toolCalls.map((toolCall: any) => ({ type: 'tool_call', data: toolCall }))
+};
+
+/**
+ * Session whose provider asks for the tool calls once, then answers
+ */
+async function toolSession(toolCalls: any[]) {
+  const mcpService = new MCP.MCPService();
+  await mcpService.initializeMcpTools('tools', new ToolServer());
+  let requests = 0;
+  const provider: any = {
+    name: 'recorder',
+    type: 'api',
+    async completion() {
+      requests++;
+      return requests === 1 ? { content: '', raw: { toolCalls } } : { content: 'done', raw: 'done' };
+    }
+  };
+  const session = createChatSession({
+    sessionId: `tool-results-${Date.now()}`,
+    provider: 'custom',
+    providerConfig: { provider, extractor: toolCallExtractor },
+    mcpService,
+    options: { agenticMode: true }
+  });
+  return { session, mcpService };
+}
+
+async function main() {
+  const runner = new TestRunner();
+
+  await runner.runTest('Content of every type converts', async () => {
+    const result = MCP.mcpToolResult('fetch', {
+      content: [
+        { type: 'text', text: 'summary' },
+        { type: 'image', data: PNG, mimeType: 'image/png' },
+        { type: 'audio', data: 'UklGRg==', mimeType: 'audio/wav' },
+        { type: 'resource', resource: { uri: 'file:///notes.txt', mimeType: 'text/plain', text: 'notes' } },
+        { type: 'resource_link', uri: 'file:///big.csv', name: 'big.csv' }
+      ]
+    });
+    const parts = result.content as any[];
+    assert(result.type === 'tool_result', 'results should be marked as tool results');
+    assert(parts.map(part => part.type).join(',') === 'text,image,audio,text,text', `unexpected types: ${parts.map(part => part.type)}`);
+    assert(parts[3].text === 'notes' && parts[4].text.includes('file:///big.csv'), 'resources should become text');
+    assert(result.structuredContent === undefined, 'no structured content without one');
+    return parts.map(part => part.type);
+  });
+
+  await runner.runTest('isError results throw', async () => {
+    let error: any;
+    try {
+      MCP.mcpToolResult('search', { content: [{ type: 'text', text: 'Rate limited' }], isError: true });
+    } catch (caught) {
+      error = caught;
+    }
+    assert(error instanceof MCP.MCPToolError, 'an MCPToolError should be thrown');
+    assert(error.message === 'Rate limited' && error.toolName === 'search', `unexpected error: ${error?.message}`);
+    assert(Array.isArray(error.content) && error.content[0].text === 'Rate limited', 'the content should be kept');
+
+    let empty: any;
+    try {
+      MCP.mcpToolResult('search', { content: [], isError: true });
+    } catch (caught) {
+      empty = caught;
+    }
+    assert(empty?.message === "MCP tool 'search' failed", `unexpected error: ${empty?.message}`);
+    return error.message;
+  });
+
+  await runner.runTest('Structured content is checked against the output schema', async () => {
+    const schema = z.object({ city: z.string(), celsius: z.number() });
+    const valid = MCP.mcpToolResult('weather', { content: [], structuredContent: { city: 'Oslo', celsius: 4 } }, schema);
+    assert(valid.structuredContent?.celsius === 4, 'valid structured content should be kept');
+
+    const failures: string[] = [];
+    for (const response of [
+      { content: [], structuredContent: { city: 'Oslo', celsius: 'cold' } },
+      { content: [{ type: 'text', text: '4 degrees' }] }
+    ]) {
+      try {
+        MCP.mcpToolResult('weather', response as any, schema);
+      } catch (caught: any) {
+        failures.push(caught.message);
+      }
+    }
+    assert(failures[0]?.includes('does not match its output schema: celsius'), `unexpected error: ${failures[0]}`);
+    assert(failures[1]?.includes('returned no structured content'), `unexpected error: ${failures[1]}`);
+    return failures;
+  });
+
+  await runner.runTest('Tool messages get text and media', async () => {
+    const plain = Tools.toolResultMessage({ rows: 2 });
+    assert(plain.content === '{"rows":2}' && plain.media === undefined, 'other results should stay JSON');
+
+    const rich = Tools.toolResultMessage({
+      type: 'tool_result',
+      content: [{ type: 'text', text: 'Here it is' }, { type: 'image', data: PNG, mimeType: 'image/png' }]
+    });
+    assert(rich.content === 'Here it is\n[image (image/png)]', `unexpected text: ${rich.content}`);
+    assert(rich.media?.length === 1 && rich.media[0].data === PNG, 'media should be kept');
+
+    const structured = Tools.toolResultMessage({ type: 'tool_result', content: [], structuredContent: { ok: true } });
+    assert(structured.content === '{"ok":true}', 'structured results without text should be JSON');
+    return rich;
+  });
+
+  await runner.runTest('Sessions record MCP results and errors', async () => {
+    const { session } = await toolSession([
+      { id: 'call_shot', name: 'screenshot', arguments: {} },
+      { id: 'call_search', name: 'search', arguments: { query: 'mcp' } },
+      { id: 'call_weather', name: 'weather', arguments: {} }
+    ]);
+    const reply = await session.chat('Look around');
+    const tools = session.getHistory().filter(message => message.role === 'tool') as any[];
+    const results = session.getToolCallResults();
+
+    assert(reply === 'done', 'the turn should finish');
+    assert(tools[0].content === 'Here is the page\n[image (image/png)]' && tools[0].media[0].mimeType === 'image/png', 'images should be attached');
+    assert(tools[1].content === 'Error executing search: Rate limited, retry later', `unexpected error message: ${tools[1].content}`);
+    assert(results[1].error === 'Rate limited, retry later', 'the call should be recorded as failed');
+    assert(tools[2].content === '{"city":"Oslo","celsius":4}' && tools[2].media === undefined, 'text results should stay text');
+    assert(results[2].result.structuredContent.city === 'Oslo', 'structured content should reach the results');
+    return tools.map(message => message.content);
+  });
+
+  await runner.runTest('Invalid structured content fails the call', async () => {
+    const server = new ToolServer();
+    server.structured = { city: 'Oslo' };
+    const mcpService = new MCP.MCPService();
+    await mcpService.initializeMcpTools('tools', server);
+
+    let error: Error | undefined;
+    try {
+      await mcpService.executeTool('weather', {});
+    } catch (caught: any) {
+      error = caught;
+    }
+    assert(error?.message.includes("MCP tool 'weather' returned structured content that does not match its output schema"), `unexpected error: ${error?.message}`);
+    return error?.message;
+  });
+
+  await runner.runTest('Claude receives images in tool results', async () => {
+    const originalFetch = globalThis.fetch;
+    let body: any;
+    globalThis.fetch = (async (_url: any, init: any) => {
+      body = JSON.parse(init.body);
+      return new Response(JSON.stringify({ content: [{ type: 'text', text: 'ok' }], usage: { input_tokens: 1, output_tokens: 1 } }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }) as any;
+    try {
+      await new Provider.ClaudeProvider({ apiKey: 'test', model: 'claude-3-5-haiku-latest' }).completion({
+        messages: [
+          { role: 'user', content: 'Look' },
+          { role: 'assistant', content: '', tool_calls: [{ id: 'call_shot', name: 'screenshot', arguments: {} }] },
+          {
+            role: 'tool',
+            name: 'screenshot',
+            tool_call_id: 'call_shot',
+            content: 'Here is the page\n[image (image/png)] [audio (audio/wav)]',
+            media: [{ type: 'image', data: PNG, mimeType: 'image/png' }, { type: 'audio', data: 'UklGRg==', mimeType: 'audio/wav' }]
+          },
+          { role: 'tool', name: 'search', tool_call_id: 'call_search', content: 'plain' }
+        ]
+      } as any);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+
+    const [withImage, plain] = body.messages[2].content;
+    assert(Array.isArray(withImage.content), 'results with images should be block lists');
+    assert(withImage.content.map((block: any) => block.type).join(',') === 'text,image', 'only images should be attached');
+    assert(withImage.content[1].source.data === PNG, 'the image data should be sent');
+    assert(plain.content === 'plain', 'text results should stay strings');
+    return withImage.content.map((block: any) => block.type);
+  });
+
+  runner.printSummary();
+}
+
+main().catch(error => {
+  console.error('💥 MCP tool results tests failed:', error);
+  process.exit(1);
+});
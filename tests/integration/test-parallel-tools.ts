@@ -0,0 +1,269 @@
+/**
+ * Offline tests for running tool calls concurrently
+ */
+
+import { z } from 'zod';
+import { Agent, Utils, MCPService, createChatSession } from '../../dist/index.js';
+
+interface TestResult {
+  name: string;
+  success: boolean;
+  error?: string;
+  duration: number;
+  output?: any;
+}
+
+class TestRunner {
+  private results: TestResult[] = [];
+
+  async runTest(name: string, testFn: () => Promise<any>): Promise<void> {
+    const startTime = Date.now();
+    console.log(`🧪 Testing: ${name}`);
+
+    try {
+      const output = await testFn();
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: true,
+        duration,
+        output
+      });
+
+      console.log(`✅ ${name} - ${duration}ms`);
+      if (output && typeof output === 'string' && output.length < 200) {
+        console.log(`   Output: ${output}`);
+      }
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: false,
+        duration,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      console.log(`❌ ${name} - ${duration}ms`);
+      console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  printSummary(): void {
+    const successful = this.results.filter(r => r.success).length;
+    const total = this.results.length;
+
+    console.log('\n' + '='.repeat(60));
+    console.log('📊 PARALLEL TOOLS TEST SUMMARY');
+    console.log('='.repeat(60));
+    console.log(`✅ Successful: ${successful}/${total}`);
+    console.log(`❌ Failed: ${total - successful}/${total}`);
+
+    if (total - successful > 0) {
+      console.log('\n❌ FAILED TESTS:');
+      this.results
+        .filter(r => !r.success)
+        .forEach(r => console.log(`   - ${r.name}: ${r.error}`));
+    }
+
+    if (total - successful > 0) {
+      process.exit(1);
+    }
+  }
+}
+
+function assert(condition: any, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+const toolCallExtractor = {
+  name: 'RecordedExtractor',
+  supportedFormats: ['text'],
+  extract: (raw: any) => typeof raw === 'string'
+    ? [{ type: 'content', data: raw }]
+    : raw.toolCalls.map((toolCall: any) => ({ type: 'tool_call', data: toolCall }))
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Session whose model asks for the given tool calls in a single turn
+ */
+function createToolSession(mcpService: any, toolCalls: any[], options: any = {}) {
+  const provider = {
+    name: 'recorder',
+    type: 'api',
+    async completion() {
+      return { content: '', raw: { toolCalls } };
+    }
+  };
+  return createChatSession({
+    sessionId: `parallel-${Date.now()}`,
+    provider: 'custom',
+    providerConfig: { provider, extractor: toolCallExtractor },
+    mcpService,
+    options
+  });
+}
+
+/**
+ * Tools that sleep for `args.ms` and record how many calls overlapped
+ */
+function createTimedTools(parallelSafe: Record<string, boolean> = {}) {
+  const mcpService = new MCPService();
+  const stats = { running: 0, maxRunning: 0, started: [] as string[], finished: [] as string[] };
+
+  for (const name of ['fast', 'slow', 'write']) {
+    mcpService.registerTool({
+      name,
+      description: `${name} tool`,
+      schema: z.object({ label: z.string(), ms: z.number() }),
+      parallelSafe: parallelSafe[name],
+      handler: async (args: { label: string; ms: number }) => {
+        stats.running++;
+        stats.maxRunning = Math.max(stats.maxRunning, stats.running);
+        stats.started.push(args.label);
+        await sleep(args.ms);
+        stats.running--;
+        stats.finished.push(args.label);
+        return args.label;
+      }
+    });
+  }
+  return { mcpService, stats };
+}
+
+function call(name: string, label: string, ms: number) {
+  return { id: `call_${label}`, name, arguments: { label, ms }, type: 'function', format: 'json' };
+}
+
+function toolMessages(session: any): string[] {
+  return session.getHistory()
+    .filter((message: any) => message.role === 'tool')
+    .map((message: any) => message.content);
+}
+
+async function main() {
+  console.log('🚀 Parallel Tool Tests');
+  console.log('=====================\n');
+
+  const runner = new TestRunner();
+
+  // Test 1: Calls overlap up to the limit and keep their order in the history
+  await runner.runTest('ChatSession - Concurrency Limit', async () => {
+    const { mcpService, stats } = createTimedTools();
+    const toolCalls = [call('slow', 'a', 60), call('fast', 'b', 5), call('fast', 'c', 5), call('slow', 'd', 30)];
+    const session = createToolSession(mcpService, toolCalls, { toolConcurrency: 2 });
+
+    const results: string[] = [];
+    session.updateOptions({ onToolCall: (_toolCall: any, result: any) => results.push(result) });
+    await session.chat('go');
+
+    assert(stats.maxRunning === 2, `expected 2 calls at once, saw ${stats.maxRunning}`);
+    assert(stats.finished[0] !== 'a', 'the slow first call should not finish first');
+    assert(toolMessages(session).join('') === 'abcd', `tool messages out of order: ${toolMessages(session).join('')}`);
+    assert(results.join('') === 'abcd', 'results should be reported in call order');
+    session.destroy();
+    return `finished ${stats.finished.join('')}, recorded ${results.join('')}`;
+  });
+
+  // Test 2: Without a limit set, calls stay sequential
+  await runner.runTest('ChatSession - Sequential By Default', async () => {
+    const { mcpService, stats } = createTimedTools();
+    const session = createToolSession(mcpService, [call('slow', 'a', 20), call('fast', 'b', 5)]);
+    await session.chat('go');
+
+    assert(stats.maxRunning === 1, `expected sequential calls, saw ${stats.maxRunning} at once`);
+    assert(stats.finished.join('') === 'ab', 'calls should finish in order');
+    session.destroy();
+    return 'sequential';
+  });
+
+  // Test 3: A tool that is not parallel safe never overlaps another call
+  await runner.runTest('ChatSession - parallelSafe', async () => {
+    const { mcpService, stats } = createTimedTools({ write: false });
+    const toolCalls = [call('fast', 'a', 20), call('fast', 'b', 10), call('write', 'w', 10), call('fast', 'c', 10), call('slow', 'd', 10)];
+    const session = createToolSession(mcpService, toolCalls, { toolConcurrency: 4 });
+    await session.chat('go');
+
+    const writeStart = stats.started.indexOf('w');
+    assert(writeStart === 2 && stats.finished.indexOf('w') === 2, `write should run alone: started ${stats.started.join('')}, finished ${stats.finished.join('')}`);
+    assert(stats.maxRunning === 2, `safe calls should still overlap, saw ${stats.maxRunning}`);
+    assert(toolMessages(session).join('') === 'abwcd', 'tool messages should keep call order');
+    session.destroy();
+    return `started ${stats.started.join('')}`;
+  });
+
+  // Test 4: Each call has its own timeout, and timers are cleared
+  await runner.runTest('ChatSession - Per-Call Timeout', async () => {
+    const { mcpService } = createTimedTools();
+    const toolCalls = [call('slow', 'a', 200), call('fast', 'b', 5), call('fast', 'c', 5)];
+    const session = createToolSession(mcpService, toolCalls, { toolConcurrency: 3, toolCallTimeout: 50 });
+
+    const startTime = Date.now();
+    await session.chat('go');
+    const elapsed = Date.now() - startTime;
+
+    const results = session.getToolCallResults();
+    assert(results.length === 3, `expected 3 results, got ${results.length}`);
+    assert(results[0].error === 'Tool call timeout', `the slow call should time out, got ${JSON.stringify(results[0])}`);
+    assert(results[1].result === 'b' && results[2].result === 'c', 'the other calls should succeed');
+    assert(elapsed < 150, `the turn should end at the timeout, took ${elapsed}ms`);
+    session.destroy();
+    return `${elapsed}ms`;
+  });
+
+  // Test 5: The limiter starts queued tasks as slots free up
+  await runner.runTest('Utils - runWithConcurrency', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const tasks = [30, 10, 10, 10, 10].map((ms, index) => async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await sleep(ms);
+      running--;
+      if (index === 2) throw new Error('task 2 failed');
+      return index;
+    });
+
+    const settled = await Promise.allSettled(Utils.runWithConcurrency(tasks, 3));
+    assert(maxRunning === 3, `expected 3 tasks at once, saw ${maxRunning}`);
+    assert(settled[2].status === 'rejected', 'a failing task should reject its own promise only');
+    assert(settled.filter(outcome => outcome.status === 'fulfilled').length === 4, 'the other tasks should complete');
+    return `max ${maxRunning} running`;
+  });
+
+  // Test 6: Agents advertise parallel execution from their options
+  await runner.runTest('Agent - parallelExecution Capability', async () => {
+    const config = {
+      id: 'parallel-agent',
+      name: 'Parallel',
+      description: 'Runs tools at once',
+      provider: { name: 'recorder', type: 'api', completion: async () => ({ content: 'ok', raw: 'ok' }) } as any,
+      extractor: toolCallExtractor as any,
+      template: { name: 'default', content: '' } as any
+    };
+
+    const sequential = new Agent.Agent(config);
+    const parallel = new Agent.Agent({ ...config, options: { toolConcurrency: 4 } });
+    assert(!sequential.getCapabilities().parallelExecution, 'agents run tools sequentially by default');
+    assert(parallel.getCapabilities().parallelExecution, 'toolConcurrency above 1 should enable parallel execution');
+
+    sequential.updateOptions({ toolConcurrency: 2 });
+    assert(sequential.getCapabilities().parallelExecution, 'updateOptions should update the capability');
+    return 'ok';
+  });
+
+  runner.printSummary();
+}
+
+// Run the tests
+main().catch(error => {
+  console.error('💥 Parallel tool tests failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,426 @@
+/**
+ * Offline tests for session storage backends
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { Session, createChatSession } from '../../dist/index.js';
+
+interface TestResult {
+  name: string;
+  success: boolean;
+  error?: string;
+  duration: number;
+  output?: any;
+}
+
+class TestRunner {
+  private results: TestResult[] = [];
+
+  async runTest(name: string, testFn: () => Promise<any>): Promise<void> {
+    const startTime = Date.now();
+    console.log(`🧪 Testing: ${name}`);
+
+    try {
+      const output = await testFn();
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: true,
+        duration,
+        output
+      });
+
+      console.log(`✅ ${name} - ${duration}ms`);
+      if (output && typeof output === 'string' && output.length < 200) {
+        console.log(`   Output: ${output}`);
+      }
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: false,
+        duration,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      console.log(`❌ ${name} - ${duration}ms`);
+      console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  printSummary(): void {
+    const successful = this.results.filter(r => r.success).length;
+    const total = this.results.length;
+
+    console.log('\n' + '='.repeat(60));
+    console.log('📊 SESSION STORAGE TEST SUMMARY');
+    console.log('='.repeat(60));
+    console.log(`✅ Successful: ${successful}/${total}`);
+    console.log(`❌ Failed: ${total - successful}/${total}`);
+
+    if (total - successful > 0) {
+      console.log('\n❌ FAILED TESTS:');
+      this.results
+        .filter(r => !r.success)
+        .forEach(r => console.log(`   - ${r.name}: ${r.error}`));
+    }
+
+    if (total - successful > 0) {
+      process.exit(1);
+    }
+  }
+}
+
+function assert(condition: any, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function sampleSession(id: string, overrides: Record<string, any> = {}): any {
+  return {
+    id,
+    agentId: 'agent-1',
+    history: [
+      { role: 'user', content: 'Hello' },
+      { role: 'assistant', content: 'Hi there' }
+    ],
+    metadata: {
+      createdAt: new Date('2024-01-01T00:00:00.000Z'),
+      updatedAt: new Date('2024-01-01T00:00:00.000Z'),
+      provider: 'openai',
+      model: 'gpt-4o-mini',
+      messageCount: 2
+    },
+    toolCallResults: [
+      { id: 'call_1', name: 'lookup', arguments: { q: 'x' }, result: 'found', timestamp: 12 }
+    ],
+    summary: { content: 'Earlier greetings', summarizedCount: 1, updatedAt: new Date('2024-01-01T00:00:00.000Z') },
+    options: { maxToolCalls: 3 },
+    ...overrides
+  };
+}
+
+/**
+ * Offline provider that echoes the last user message
+ */
+function echoProvider(): any {
+  return {
+    name: 'echo',
+    type: 'local',
+    async completion(params: any) {
+      const last = params.messages[params.messages.length - 1];
+      return { content: `echo: ${last.content}`, raw: `echo: ${last.content}` };
+    }
+  };
+}
+
+const textExtractor: any = {
+  name: 'TextExtractor',
+  supportedFormats: ['text'],
+  extract: (raw: any) => [{ type: 'content', data: String(raw) }]
+};
+
+function echoSessionConfig(storage: any, extra: Record<string, any> = {}): any {
+  return {
+    sessionId: 'resumable',
+    agentId: 'agent-1',
+    provider: 'custom',
+    providerConfig: { provider: echoProvider(), extractor: textExtractor },
+    storage,
+    ...extra
+  };
+}
+
+/**
+ * Behaviour every SessionStorage implementation must share
+ */
+async function runStorageContract(
+  runner: TestRunner,
+  label: string,
+  createStorage: () => Promise<any>
+): Promise<void> {
+  await runner.runTest(`${label} - Contract: Save and Load`, async () => {
+    const storage = await createStorage();
+    const before = Date.now();
+    await storage.saveSession('s1', sampleSession('s1'));
+
+    const loaded = await storage.loadSession('s1');
+    assert(loaded, 'session should load');
+    assert(loaded.id === 's1' && loaded.agentId === 'agent-1', 'id and agentId should round trip');
+    assert(JSON.stringify(loaded.history) === JSON.stringify(sampleSession('s1').history), 'history should round trip in order');
+    assert(loaded.metadata.createdAt instanceof Date && loaded.metadata.createdAt.toISOString() === '2024-01-01T00:00:00.000Z', 'createdAt should be kept');
+    assert(loaded.metadata.updatedAt instanceof Date && loaded.metadata.updatedAt.getTime() >= before, 'updatedAt should be refreshed on save');
+    assert(loaded.metadata.provider === 'openai' && loaded.metadata.model === 'gpt-4o-mini', 'provider and model should round trip');
+    assert(loaded.metadata.messageCount === 2, 'messageCount should round trip');
+    assert(loaded.options?.maxToolCalls === 3, 'options should round trip');
+    assert(loaded.toolCallResults?.[0]?.result === 'found', 'tool call results should round trip');
+    assert(loaded.summary?.content === 'Earlier greetings' && loaded.summary.updatedAt instanceof Date, 'summary should round trip');
+    assert(await storage.loadSession('missing') === null, 'missing sessions should load as null');
+
+    await storage.close?.();
+    return 'round trip ok';
+  });
+
+  await runner.runTest(`${label} - Contract: Overwrite`, async () => {
+    const storage = await createStorage();
+    await storage.saveSession('s1', sampleSession('s1'));
+    await storage.saveSession('s1', sampleSession('s1', {
+      history: [{ role: 'user', content: [{ type: 'text', text: 'multi-modal' }] }]
+    }));
+
+    const loaded = await storage.loadSession('s1');
+    assert(loaded.history.length === 1, 'overwrite should replace history');
+    assert(loaded.history[0].content[0].text === 'multi-modal', 'structured content should round trip');
+    assert((await storage.listSessions()).length === 1, 'overwrite should not duplicate the session');
+
+    await storage.close?.();
+    return 'overwrite ok';
+  });
+
+  await runner.runTest(`${label} - Contract: List and Delete`, async () => {
+    const storage = await createStorage();
+    await storage.saveSession('a', sampleSession('a'));
+    await storage.saveSession('b', sampleSession('b'));
+
+    const sessions = (await storage.listSessions()).sort();
+    assert(JSON.stringify(sessions) === JSON.stringify(['a', 'b']), `unexpected sessions ${JSON.stringify(sessions)}`);
+
+    await storage.deleteSession('a');
+    await storage.deleteSession('a');
+    assert(await storage.loadSession('a') === null, 'deleted session should be gone');
+    assert(JSON.stringify(await storage.listSessions()) === JSON.stringify(['b']), 'only b should remain');
+
+    await storage.close?.();
+    return JSON.stringify(sessions);
+  });
+
+  await runner.runTest(`${label} - Contract: Cleanup`, async () => {
+    const storage = await createStorage();
+    await storage.saveSession('a', sampleSession('a'));
+    await storage.saveSession('b', sampleSession('b'));
+
+    assert(await storage.cleanup(new Date(Date.now() - 60 * 1000)) === 0, 'recent sessions should be kept');
+    const deleted = await storage.cleanup(new Date(Date.now() + 60 * 1000));
+    assert(deleted === 2, `expected two deleted sessions, got ${deleted}`);
+    assert((await storage.listSessions()).length === 0, 'no sessions should remain');
+
+    await storage.close?.();
+    return `${deleted} deleted`;
+  });
+}
+
+async function main() {
+  console.log('🚀 Session Storage Tests');
+  console.log('========================\n');
+
+  const runner = new TestRunner();
+  const basePath = await fs.mkdtemp(path.join(os.tmpdir(), 'omniporton-sessions-'));
+
+  try {
+    // Test 1: Save and load through JSON files
+    await runner.runTest('FileSessionStorage - Save and Load', async () => {
+      const storage = new Session.FileSessionStorage(basePath);
+      await storage.saveSession('chat/1', sampleSession('chat/1'));
+
+      const files = await fs.readdir(basePath);
+      assert(files.length === 1 && files[0].endsWith('.json'), `expected one JSON file, got ${files.join(', ')}`);
+
+      const loaded = await storage.loadSession('chat/1');
+      assert(loaded, 'session should load');
+      assert(loaded!.history.length === 2 && loaded!.history[1].content === 'Hi there', 'history should round trip');
+      assert(loaded!.metadata.createdAt instanceof Date, 'createdAt should be revived as a Date');
+      assert(loaded!.metadata.updatedAt instanceof Date, 'updatedAt should be revived as a Date');
+      assert(loaded!.metadata.createdAt.toISOString() === '2024-01-01T00:00:00.000Z', 'createdAt should keep its value');
+      assert(await storage.loadSession('missing') === null, 'missing sessions should load as null');
+
+      return files[0];
+    });
+
+    // Test 2: Sessions are listed from disk by a fresh instance
+    await runner.runTest('FileSessionStorage - List and Delete', async () => {
+      const storage = new Session.FileSessionStorage(basePath);
+      await storage.saveSession('chat-2', sampleSession('chat-2'));
+
+      const sessions = (await new Session.FileSessionStorage(basePath).listSessions()).sort();
+      assert(JSON.stringify(sessions) === JSON.stringify(['chat-2', 'chat/1']), `unexpected sessions ${JSON.stringify(sessions)}`);
+
+      await storage.deleteSession('chat-2');
+      await storage.deleteSession('chat-2');
+      assert(await storage.loadSession('chat-2') === null, 'deleted session should be gone');
+
+      return JSON.stringify(sessions);
+    });
+
+    // Test 3: Concurrent writers in one process
+    await runner.runTest('FileSessionStorage - Concurrent Writes', async () => {
+      const storage = new Session.FileSessionStorage(basePath);
+      const writes = [];
+      for (let i = 1; i <= 20; i++) {
+        writes.push(storage.saveSession('busy', sampleSession('busy', {
+          history: Array.from({ length: i }, (_, n) => ({ role: 'user', content: `message ${n}` }))
+        })));
+      }
+      await Promise.all(writes);
+
+      const loaded = await storage.loadSession('busy');
+      assert(loaded!.history.length === 20, `last write should win, got ${loaded!.history.length} messages`);
+
+      const leftovers = (await fs.readdir(basePath)).filter(file => file.endsWith('.tmp'));
+      assert(leftovers.length === 0, 'temp files should be renamed into place');
+
+      return `${loaded!.history.length} messages`;
+    });
+
+    // Test 4: Cleanup by modification time and metadata
+    await runner.runTest('FileSessionStorage - Cleanup', async () => {
+      const storage = new Session.FileSessionStorage(basePath);
+      await storage.saveSession('stale', sampleSession('stale'));
+      const stalePath = path.join(basePath, 'stale.json');
+
+      // Backdate both the file and its metadata
+      const old = new Date(Date.now() - 60 * 60 * 1000);
+      const content = JSON.parse(await fs.readFile(stalePath, 'utf8'));
+      content.metadata.updatedAt = old.toISOString();
+      await fs.writeFile(stalePath, JSON.stringify(content));
+      await fs.utimes(stalePath, old, old);
+
+      const deleted = await storage.cleanup(new Date(Date.now() - 60 * 1000));
+      assert(deleted === 1, `expected one deleted session, got ${deleted}`);
+      assert(await storage.loadSession('stale') === null, 'stale session should be removed');
+      assert(await storage.loadSession('busy') !== null, 'recent sessions should be kept');
+
+      return `${deleted} deleted`;
+    });
+
+    // Test 5: Corrupt files fail loudly
+    await runner.runTest('FileSessionStorage - Corrupt File', async () => {
+      const storage = new Session.FileSessionStorage(basePath);
+      await fs.writeFile(path.join(basePath, 'broken.json'), '{ not json');
+      try {
+        await storage.loadSession('broken');
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        assert(message.includes('broken.json'), `error should name the file, got: ${message}`);
+        return message;
+      }
+      throw new Error('Expected an error for a corrupt session file');
+    });
+    let directoryCount = 0;
+    const freshDirectory = async () => {
+      const directory = path.join(basePath, `contract-${++directoryCount}`);
+      await fs.mkdir(directory);
+      return directory;
+    };
+
+    await runStorageContract(runner, 'MemorySessionStorage', async () => new Session.MemorySessionStorage());
+    await runStorageContract(runner, 'FileSessionStorage', async () => new Session.FileSessionStorage(await freshDirectory()));
+    await runStorageContract(runner, 'DatabaseSessionStorage (memory)', async () => new Session.DatabaseSessionStorage(':memory:'));
+    await runStorageContract(runner, 'DatabaseSessionStorage (file)', async () =>
+      new Session.DatabaseSessionStorage(path.join(await freshDirectory(), 'sessions.db')));
+
+    // SQLite specifics: persistence, agent index and migrations
+    await runner.runTest('DatabaseSessionStorage - Persistence and Agent Lookup', async () => {
+      const file = path.join(await freshDirectory(), 'sessions.db');
+      const first = new Session.DatabaseSessionStorage(`sqlite:${file}`);
+      await first.saveSession('a', sampleSession('a'));
+      await first.saveSession('b', sampleSession('b', { agentId: 'agent-2' }));
+      await first.close();
+
+      const second = new Session.DatabaseSessionStorage(file);
+      const loaded = await second.loadSession('a');
+      assert(loaded && loaded.history.length === 2, 'sessions should survive reopening the database');
+      assert(JSON.stringify(await second.listSessionsByAgent('agent-2')) === JSON.stringify(['b']), 'agent lookup should filter by agentId');
+      await second.close();
+
+      return 'persisted';
+    });
+
+    // Without better-sqlite3 installed, opening the database says what to install
+    await runner.runTest('DatabaseSessionStorage - Missing better-sqlite3', async () => {
+      const directory = await freshDirectory();
+      // Resolve hook that makes the package look uninstalled to import()
+      await fs.writeFile(path.join(directory, 'hooks.mjs'), [
+        'export async function resolve(specifier, context, next) {',
+        "  return next(specifier === 'better-sqlite3' ? 'better-sqlite3-not-installed' : specifier, context);",
+        '}'
+      ].join('\n'));
+      await fs.writeFile(path.join(directory, 'register.mjs'),
+        "import { register } from 'node:module';\nregister('./hooks.mjs', import.meta.url);\n");
+      const script = [
+        `const { Session } = require(${JSON.stringify(path.resolve(__dirname, '../../dist/index.js'))});`,
+        "new Session.DatabaseSessionStorage(':memory:').loadSession('a')",
+        '  .then(() => console.log("opened"), error => console.log(error.message));'
+      ].join('\n');
+
+      const { stdout } = await promisify(execFile)(
+        process.execPath,
+        ['--import', path.join(directory, 'register.mjs'), '-e', script],
+        { timeout: 30000 }
+      );
+      const message = stdout.trim();
+      assert(message.includes('requires the better-sqlite3 package') && message.includes('npm install better-sqlite3'), `unexpected error: ${message}`);
+      return message;
+    });
+
+    // ChatSession autosave and resume on top of a storage
+    await runner.runTest('ChatSession - Autosave and Resume', async () => {
+      const storage = new Session.FileSessionStorage(await freshDirectory());
+      const session = createChatSession(echoSessionConfig(storage, { options: { maxToolCalls: 4 } }));
+      await session.chat('first');
+      await session.chat('second');
+
+      const saved = await storage.loadSession('resumable');
+      assert(saved && saved.history.length === 4, `autosave should persist every turn, got ${saved?.history.length}`);
+      assert(saved!.metadata.provider === 'echo' && saved!.metadata.messageCount === 4, 'metadata should describe the session');
+
+      const resumed = await createChatSession(echoSessionConfig(storage, { resume: true }));
+      assert(resumed.getHistory().length === 4, 'resume should restore history');
+      assert(resumed.toSessionData().options!.maxToolCalls === 4, 'resume should restore options');
+      assert(resumed.toSessionData().metadata.createdAt.getTime() === saved!.metadata.createdAt.getTime(), 'resume should keep createdAt');
+
+      const reply = await resumed.chat('third');
+      assert(reply === 'echo: third', `resumed session should keep chatting, got ${reply}`);
+      assert((await storage.loadSession('resumable'))!.history.length === 6, 'resumed session should keep saving');
+
+      const fresh = await createChatSession(echoSessionConfig(storage, { sessionId: 'new-session', resume: true }));
+      assert(fresh.getHistory().length === 0, 'resume without saved data should start fresh');
+
+      return `${resumed.getHistory().length} messages`;
+    });
+
+    // Debounced autosave only writes once the turns settle
+    await runner.runTest('ChatSession - Debounced Autosave', async () => {
+      const storage = new Session.MemorySessionStorage();
+      const session = createChatSession(echoSessionConfig(storage, { options: { autoSave: { debounceMs: 50 } } }));
+      await session.chat('one');
+      await session.chat('two');
+      assert(await storage.loadSession('resumable') === null, 'debounced save should not run immediately');
+
+      await new Promise(resolve => setTimeout(resolve, 100));
+      assert((await storage.loadSession('resumable'))!.history.length === 4, 'debounced save should run after the delay');
+
+      await session.chat('three');
+      await session.flush();
+      assert((await storage.loadSession('resumable'))!.history.length === 6, 'flush should save pending changes');
+
+      return 'debounced';
+    });
+  } finally {
+    await fs.rm(basePath, { recursive: true, force: true });
+  }
+
+  runner.printSummary();
+}
+
+// Run the tests
+main().catch(error => {
+  console.error('💥 Session storage tests failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,289 @@
+/**
+ * Offline tests for the persistent stdio MCP transport, against a small
+ * JSON-RPC server written to a temp directory
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MCP } from '../../dist/index.js';
+
+interface TestResult {
+  name: string;
+  success: boolean;
+  error?: string;
+  duration: number;
+  output?: any;
+}
+
+class TestRunner {
+  private results: TestResult[] = [];
+
+  async runTest(name: string, testFn: () => Promise<any>): Promise<void> {
+    const startTime = Date.now();
+    console.log(`🧪 Testing: ${name}`);
+
+    try {
+      const output = await testFn();
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: true,
+        duration,
+        output
+      });
+
+      console.log(`✅ ${name} - ${duration}ms`);
+      if (output && typeof output === 'string' && output.length < 200) {
+        console.log(`   Output: ${output}`);
+      }
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: false,
+        duration,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      console.log(`❌ ${name} - ${duration}ms`);
+      console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  printSummary(): void {
+    const successful = this.results.filter(r => r.success).length;
+    const total = this.results.length;
+
+    console.log('\n' + '='.repeat(60));
+    console.log('📊 STDIO TRANSPORT TEST SUMMARY');
+    console.log('='.repeat(60));
+    console.log(`✅ Successful: ${successful}/${total}`);
+    console.log(`❌ Failed: ${total - successful}/${total}`);
+
+    if (total - successful > 0) {
+      console.log('\n❌ FAILED TESTS:');
+      this.results
+        .filter(r => !r.success)
+        .forEach(r => console.log(`   - ${r.name}: ${r.error}`));
+    }
+
+    if (total - successful > 0) {
+      process.exit(1);
+    }
+  }
+}
+
+function assert(condition: any, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+// Line-delimited JSON-RPC server; `--stubborn` ignores stdin closing and SIGTERM
+const SERVER_SOURCE = `
+const stubborn = process.argv.includes('--stubborn');
+let counter = 0;
+const cancelled = [];
+const send = message => process.stdout.write(JSON.stringify(message) + '\\n');
+if (stubborn) process.on('SIGTERM', () => {});
+process.stderr.write('server started\\n');
+
+let buffer = '';
+process.stdin.setEncoding('utf8');
+process.stdin.on('data', chunk => {
+  buffer += chunk;
+  const lines = buffer.split('\\n');
+  buffer = lines.pop();
+  for (const line of lines) if (line.trim()) handle(JSON.parse(line));
+});
+process.stdin.on('end', () => {
+  if (stubborn) setInterval(() => {}, 1000);
+  else process.exit(0);
+});
+
+function handle(message) {
+  const { id, method, params = {} } = message;
+  if (method === undefined) {
+    if (id === 'server-ping') send({ jsonrpc: '2.0', method: 'notifications/pong', params: message });
+    return;
+  }
+  if (method === 'notifications/cancelled') return cancelled.push(params.requestId);
+  const reply = result => send({ jsonrpc: '2.0', id, result });
+  switch (method) {
+    case 'echo': return setTimeout(() => reply(params), params.delayMs || 0);
+    case 'increment': return reply({ counter: ++counter });
+    case 'cancelled': return reply({ cancelled });
+    case 'notify':
+      process.stdout.write('not json, ignored\\n');
+      send({ jsonrpc: '2.0', method: 'notifications/message', params: { level: 'info', data: 'hello' } });
+      return reply({});
+    case 'ask':
+      send({ jsonrpc: '2.0', id: 'server-ping', method: 'ping' });
+      send({ jsonrpc: '2.0', id: 'server-sample', method: 'sampling/createMessage' });
+      return reply({});
+    case 'crash':
+      process.stderr.write('fatal: ' + (params.reason || 'crash') + '\\n');
+      return process.exit(3);
+    default:
+      send({ jsonrpc: '2.0', id, error: { code: -32601, message: 'Method not found' } });
+  }
+}
+`;
+
+const request = (method: string, params: any = {}, id: any = 1) => ({ jsonrpc: '2.0', id, method, params });
+
+async function main() {
+  console.log('🚀 Stdio Transport Tests');
+  console.log('=======================\n');
+
+  const runner = new TestRunner();
+  const basePath = await fs.mkdtemp(path.join(os.tmpdir(), 'omniporton-stdio-'));
+  const serverPath = path.join(basePath, 'server.cjs');
+  await fs.writeFile(serverPath, SERVER_SOURCE, 'utf8');
+  const transports: any[] = [];
+  const transport = (options: any = {}, args: string[] = []) => {
+    const created = new MCP.StdioTransport(process.execPath, [serverPath, ...args], { restartDelayMs: 10, ...options });
+    transports.push(created);
+    return created;
+  };
+
+  try {
+    // Test 1: One process serves every request, so server state survives
+    await runner.runTest('StdioTransport - Persistent Process', async () => {
+      const stdio = transport();
+      const first = await stdio.send(request('increment'));
+      const second = await stdio.send(request('increment'));
+      assert(first.result.counter === 1 && second.result.counter === 2, 'the counter should keep counting');
+      assert(first.id === 1 && stdio.isRunning(), 'responses keep the caller id');
+      await stdio.close();
+      return second.result;
+    });
+
+    // Test 2: Concurrent requests with the same caller id get their own responses
+    await runner.runTest('StdioTransport - Concurrent Correlation', async () => {
+      const stdio = transport();
+      const [slow, fast] = await Promise.all([
+        stdio.send(request('echo', { name: 'slow', delayMs: 50 }, 2)),
+        stdio.send(request('echo', { name: 'fast' }, 2))
+      ]);
+      assert(slow.result.name === 'slow' && fast.result.name === 'fast', 'responses should match their requests');
+      const missing = await stdio.send(request('unknown', {}, 'abc'));
+      assert(missing.id === 'abc' && missing.error.code === -32601, 'errors come back as responses');
+      await stdio.close();
+      return [slow.result.name, fast.result.name];
+    });
+
+    // Test 3: Notifications and stderr reach their handlers; server pings are answered
+    await runner.runTest('StdioTransport - Notifications, Stderr and Server Requests', async () => {
+      const notifications: any[] = [];
+      const stderr: string[] = [];
+      const stdio = transport({ onNotification: (message: any) => notifications.push(message), onStderr: (line: string) => stderr.push(line) });
+
+      await stdio.send(request('notify'));
+      await stdio.send(request('ask'));
+      await stdio.send(request('echo', {}, 9));
+      assert(notifications[0].method === 'notifications/message' && notifications[0].params.data === 'hello', 'notifications should be delivered');
+      assert(stdio.getStderr().includes('server started') && stderr.includes('server started'), 'stderr should be captured');
+
+      // The server reports our answers to its requests back as notifications
+      const answers = notifications.filter(message => message.method === 'notifications/pong');
+      assert(answers.length === 1 && answers[0].params.result && !answers[0].params.error, `unexpected answers ${JSON.stringify(answers)}`);
+      await stdio.close();
+      return notifications.map(message => message.method);
+    });
+
+    // Test 4: Aborting a request tells the server and keeps the process
+    await runner.runTest('StdioTransport - Abort', async () => {
+      const stdio = transport();
+      const controller = new AbortController();
+      const pending = stdio.send(request('echo', { delayMs: 200 }), { signal: controller.signal });
+      setTimeout(() => controller.abort(), 20);
+      try {
+        await pending;
+        throw new Error('Expected the request to be aborted');
+      } catch (error: any) {
+        assert(error.name === 'AbortError', `unexpected error ${error}`);
+      }
+
+      const { result } = await stdio.send(request('cancelled'));
+      assert(result.cancelled.length === 1 && stdio.isRunning(), 'the server should get notifications/cancelled');
+      await stdio.close();
+      return result.cancelled;
+    });
+
+    // Test 5: A crash fails pending requests with stderr, and the next request restarts the server
+    await runner.runTest('StdioTransport - Restart After Crash', async () => {
+      const stdio = transport({ maxRestarts: 1 });
+      await stdio.send(request('increment'));
+      try {
+        await stdio.send(request('crash', { reason: 'out of memory' }));
+        throw new Error('Expected the crash to fail the request');
+      } catch (error) {
+        assert(String(error).includes('code 3') && String(error).includes('fatal: out of memory'), `unexpected error ${error}`);
+      }
+
+      const restarted = await stdio.send(request('increment'));
+      assert(restarted.result.counter === 1, 'a restarted server starts fresh');
+
+      // Restarts count again from a server that answered; two crashes in a row use up the one allowed
+      await stdio.send(request('crash')).catch(() => undefined);
+      await stdio.send(request('crash')).catch(() => undefined);
+      try {
+        await stdio.send(request('increment'));
+        throw new Error('Expected restarts to run out');
+      } catch (error) {
+        assert(String(error).includes('giving up'), `unexpected error ${error}`);
+      }
+      return 'restarted once';
+    });
+
+    // Test 6: close() escalates to signals for servers that ignore stdin closing
+    await runner.runTest('StdioTransport - Graceful Shutdown', async () => {
+      const polite = transport();
+      await polite.send(request('increment'));
+      const started = Date.now();
+      await polite.close();
+      assert(!polite.isRunning() && Date.now() - started < 1000, 'a polite server exits when stdin closes');
+
+      const stubborn = transport({ shutdownTimeoutMs: 100 }, ['--stubborn']);
+      await stubborn.send(request('increment'));
+      const pending = stubborn.send(request('echo', { delayMs: 5000 })).then(() => undefined, (error: any) => error);
+      await stubborn.close();
+      assert(!stubborn.isRunning(), 'a stubborn server is killed');
+      assert(String(await pending).includes('was closed'), 'the pending request should fail');
+      try {
+        await stubborn.send(request('increment'));
+        throw new Error('Expected a closed transport to refuse requests');
+      } catch (error) {
+        assert(String(error).includes('was closed'), `unexpected error ${error}`);
+      }
+      return 'ok';
+    });
+
+    // Test 7: A command that cannot start is reported
+    await runner.runTest('StdioTransport - Spawn Failure', async () => {
+      const stdio = new MCP.StdioTransport(path.join(basePath, 'missing-server'));
+      try {
+        await stdio.send(request('increment'));
+        throw new Error('Expected the spawn to fail');
+      } catch (error) {
+        assert(String(error).includes('Failed to start MCP server'), `unexpected error ${error}`);
+      }
+      return 'ok';
+    });
+  } finally {
+    await Promise.all(transports.map(created => created.close()));
+    await fs.rm(basePath, { recursive: true, force: true });
+  }
+
+  runner.printSummary();
+}
+
+// Run the tests
+main().catch(error => {
+  console.error('💥 Stdio transport tests failed:', error);
+  process.exit(1);
+});
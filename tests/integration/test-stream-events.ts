@@ -0,0 +1,404 @@
+/**
+ * Offline tests for the async iterator streaming API
+ */
+
+import { z } from 'zod';
+import { Agent, Extractor, MCPService, createChatSession } from '../../dist/index.js';
+
+interface TestResult {
+  name: string;
+  success: boolean;
+  error?: string;
+  duration: number;
+  output?: any;
+}
+
+class TestRunner {
+  private results: TestResult[] = [];
+
+  async runTest(name: string, testFn: () => Promise<any>): Promise<void> {
+    const startTime = Date.now();
+    console.log(`🧪 Testing: ${name}`);
+
+    try {
+      const output = await testFn();
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: true,
+        duration,
+        output
+      });
+
+      console.log(`✅ ${name} - ${duration}ms`);
+      if (output && typeof output === 'string' && output.length < 200) {
+        console.log(`   Output: ${output}`);
+      }
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: false,
+        duration,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      console.log(`❌ ${name} - ${duration}ms`);
+      console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  printSummary(): void {
+    const successful = this.results.filter(r => r.success).length;
+    const total = this.results.length;
+
+    console.log('\n' + '='.repeat(60));
+    console.log('📊 STREAM EVENTS TEST SUMMARY');
+    console.log('='.repeat(60));
+    console.log(`✅ Successful: ${successful}/${total}`);
+    console.log(`❌ Failed: ${total - successful}/${total}`);
+
+    if (total - successful > 0) {
+      console.log('\n❌ FAILED TESTS:');
+      this.results
+        .filter(r => !r.success)
+        .forEach(r => console.log(`   - ${r.name}: ${r.error}`));
+    }
+
+    if (total - successful > 0) {
+      process.exit(1);
+    }
+  }
+}
+
+function assert(condition: any, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+const textExtractor = {
+  name: 'TextExtractor',
+  supportedFormats: ['text'],
+  extract: (raw: any) => [{ type: 'content', data: String(raw) }]
+};
+
+function createStreamingSession(stream: (params: any, onChunk: (chunk: any) => Promise<void> | void) => Promise<void>, extra: any = {}) {
+  const provider = {
+    name: 'recorder',
+    type: 'api',
+    async completion() {
+      throw new Error('completion should not be called');
+    },
+    stream
+  };
+  return createChatSession({
+    sessionId: `stream-${Date.now()}`,
+    provider: 'custom',
+    providerConfig: { provider, extractor: textExtractor },
+    ...extra
+  });
+}
+
+function lookupService(): any {
+  const mcpService = new MCPService();
+  mcpService.registerTool({
+    name: 'lookup',
+    description: 'Look up a city',
+    schema: z.object({ city: z.string() }),
+    handler: (args: { city: string }) => `sunny in ${args.city}`
+  });
+  return mcpService;
+}
+
+async function main() {
+  console.log('🚀 Stream Events Tests');
+  console.log('=====================\n');
+
+  const runner = new TestRunner();
+
+  // Test 1: Content, streamed tool call arguments, usage, results and done
+  await runner.runTest('streamEvents - Event Sequence', async () => {
+    const session = createStreamingSession(async (_params, onChunk) => {
+      await onChunk({ content: 'Checking ', finished: false });
+      await onChunk({ content: '', finished: false, toolCallDelta: { index: 0, id: 'call_1', name: 'lookup', arguments: '' } });
+      await onChunk({ content: '', finished: false, toolCallDelta: { index: 0, arguments: '{"city":' } });
+      await onChunk({ content: '', finished: false, toolCallDelta: { index: 0, arguments: '"Paris"}' } });
+      await onChunk({ content: '', finished: true, usage: { prompt_tokens: 12, completion_tokens: 8 } });
+    }, { mcpService: lookupService() });
+
+    const iterator = session.streamEvents('weather?');
+    const types: string[] = [];
+    let step = await iterator.next();
+    while (!step.done) {
+      const event = step.value;
+      types.push(event.type === 'tool_call_delta' ? `delta:${event.argumentsDelta}` : event.type);
+      if (event.type === 'tool_call_complete') {
+        assert(event.toolCall.arguments.city === 'Paris', 'arguments should be parsed from the deltas');
+      }
+      step = await iterator.next();
+    }
+    const result = step.value;
+
+    const expected = ['content', 'tool_call_start', 'delta:{"city":', 'delta:"Paris"}', 'tool_call_complete', 'usage', 'tool_result', 'done'];
+    assert(JSON.stringify(types) === JSON.stringify(expected), `unexpected events ${JSON.stringify(types)}`);
+    assert(result?.content === 'Checking ', 'the iterator should return the aggregated content');
+    assert(result?.toolResults[0].result === 'sunny in Paris', 'the result should include tool results');
+    assert(result?.usage.inputTokens === 12 && result?.usage.outputTokens === 8, 'the result should include usage');
+    session.destroy();
+    return types.join(', ');
+  });
+
+  // Test 2: A slow consumer holds back the provider
+  await runner.runTest('streamEvents - Backpressure', async () => {
+    let sent = 0;
+    let maxAhead = 0;
+    let consumed = 0;
+    const session = createStreamingSession(async (_params, onChunk) => {
+      for (let i = 0; i < 5; i++) {
+        sent++;
+        maxAhead = Math.max(maxAhead, sent - consumed);
+        await onChunk({ content: `${i}`, finished: false });
+      }
+    });
+
+    for await (const event of session.streamEvents('count')) {
+      if (event.type === 'content') {
+        consumed++;
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+    }
+
+    assert(consumed === 5, `expected 5 content events, got ${consumed}`);
+    assert(maxAhead <= 2, `the provider ran ${maxAhead} chunks ahead of the consumer`);
+    session.destroy();
+    return `at most ${maxAhead} chunk(s) ahead`;
+  });
+
+  // Test 3: Leaving the loop early cancels the turn
+  await runner.runTest('streamEvents - Early Exit Cancels', async () => {
+    let providerSignal: AbortSignal | undefined;
+    const session = createStreamingSession(async (params, onChunk) => {
+      providerSignal = params.signal;
+      for (let i = 0; i < 100 && !params.signal?.aborted; i++) {
+        await onChunk({ content: 'word ', finished: false });
+      }
+    });
+
+    for await (const event of session.streamEvents('talk')) {
+      if (event.type === 'content') break;
+    }
+
+    assert(providerSignal?.aborted, 'the provider signal should be aborted');
+    assert(session.getHistory().length === 0, 'the cancelled turn should be rolled back');
+    session.destroy();
+    return 'cancelled';
+  });
+
+  // Test 4: Failures arrive as an error event; the callback API throws
+  await runner.runTest('streamEvents - Error Event', async () => {
+    const session = createStreamingSession(async (_params, onChunk) => {
+      await onChunk({ content: 'partial', finished: false });
+      throw new Error('connection lost');
+    });
+
+    const events: any[] = [];
+    for await (const event of session.streamEvents('hi')) {
+      events.push(event);
+    }
+    const last = events[events.length - 1];
+    assert(last.type === 'error' && last.error.message === 'connection lost', 'the stream should end with an error event');
+
+    let thrown: Error | undefined;
+    try {
+      await session.stream('hi again');
+    } catch (error) {
+      thrown = error as Error;
+    }
+    assert(thrown?.message === 'connection lost', 'stream() should throw the error');
+    session.destroy();
+    return last.error.message;
+  });
+
+  // Test 5: The callback API keeps its shape
+  await runner.runTest('stream - Callback Compatibility', async () => {
+    const session = createStreamingSession(async (_params, onChunk) => {
+      await onChunk({ content: 'Looking up', finished: false });
+      await onChunk({ content: '', finished: false, raw: { toolCall: { id: 'call_2', name: 'lookup', arguments: { city: 'Oslo' } } } });
+      await onChunk({ content: '', finished: true });
+    }, { mcpService: lookupService() });
+
+    const updates: string[] = [];
+    const content = await session.stream('weather?', {}, chunk => updates.push(chunk.type));
+
+    assert(content === 'Looking up', `unexpected content '${content}'`);
+    assert(JSON.stringify(updates) === JSON.stringify(['content', 'tool_call', 'tool_result']), `unexpected updates ${JSON.stringify(updates)}`);
+    session.destroy();
+    return updates.join(', ');
+  });
+
+  // Test 6: Agents stream events too
+  await runner.runTest('Agent - streamEvents', async () => {
+    const agent = new Agent.Agent({
+      id: 'agent-1',
+      name: 'Streamer',
+      description: 'Streams a reply',
+      provider: {
+        name: 'recorder',
+        type: 'api',
+        async completion() {
+          throw new Error('completion should not be called');
+        },
+        async stream(_params: any, onChunk: (chunk: any) => Promise<void>) {
+          await onChunk({ content: 'hello', finished: true });
+        }
+      } as any,
+      extractor: textExtractor as any,
+      template: { name: 'default', content: '' } as any
+    });
+
+    const types: string[] = [];
+    for await (const event of agent.streamEvents('greet')) {
+      types.push(event.type);
+    }
+    // Agents run in agentic mode, so every provider request starts an iteration
+    assert(types[0] === 'iteration' && types[1] === 'content' && types[types.length - 1] === 'done', `unexpected events ${JSON.stringify(types)}`);
+
+    const updates: any[] = [];
+    const content = await agent.stream('greet again', undefined, update => updates.push(update));
+    assert(content === 'hello' && updates[1].type === 'content', 'Agent.stream should report content updates');
+    assert(!agent.isRunning(), 'the agent should not be running afterwards');
+    return types.join(', ');
+  });
+
+  // Test 7: Assembling natively streamed tool calls
+  await runner.runTest('NativeToolCallAssembler - Fragments', async () => {
+    const assembler = new Extractor.NativeToolCallAssembler();
+    const updates = [
+      // Arguments may arrive before the name
+      ...assembler.push({ toolCallDelta: { index: 1, arguments: '{"q"' } }),
+      ...assembler.push({ toolCallDelta: { index: 1, id: 'toolu_1', name: 'search' } }),
+      ...assembler.push({ toolCallDelta: { index: 1, arguments: ':"cats"}' } }),
+      ...assembler.push({ toolCallDelta: { index: 0, id: 'toolu_0', name: 'noop' } }),
+      ...assembler.finalize()
+    ];
+
+    const summary = updates.map((update: any) => update.type === 'complete' ? `complete:${update.toolCall.name}` : update.type);
+    const expected = ['start', 'delta', 'delta', 'start', 'complete:noop', 'complete:search'];
+    assert(JSON.stringify(summary) === JSON.stringify(expected), `unexpected updates ${JSON.stringify(summary)}`);
+    assert((updates[5] as any).toolCall.arguments.q === 'cats', 'arguments should be joined across fragments');
+
+    assembler.push({ toolCallDelta: { index: 0, name: 'broken', arguments: '{"a":' } });
+    try {
+      assembler.finalize();
+    } catch (error) {
+      return summary.join(', ');
+    }
+    throw new Error('Expected invalid JSON arguments to be rejected');
+  });
+
+  // Test 8: Agentic streaming sends tool results back to the model
+  await runner.runTest('streamEvents - Agentic Loop', async () => {
+    const requests: any[] = [];
+    const session = createStreamingSession(async (params, onChunk) => {
+      requests.push(params.messages);
+      if (requests.length === 1) {
+        await onChunk({ content: '', finished: false, toolCallDelta: { index: 0, id: 'call_1', name: 'lookup', arguments: '{"city":"Oslo"}' } });
+        await onChunk({ content: '', finished: true });
+      } else {
+        await onChunk({ content: 'It is sunny.', finished: true });
+      }
+    }, { mcpService: lookupService(), options: { agenticMode: true } });
+
+    const types: string[] = [];
+    let result: any;
+    for await (const event of session.streamEvents('weather in Oslo?')) {
+      types.push(event.type === 'iteration' ? `iteration:${event.iteration}` : event.type);
+      if (event.type === 'done') result = event.result;
+    }
+
+    assert(requests.length === 2, `expected 2 provider requests, got ${requests.length}`);
+    const toolMessage = requests[1].find((message: any) => message.role === 'tool');
+    assert(toolMessage && String(toolMessage.content).includes('sunny in Oslo'), 'the second request should include the tool result');
+    assert(types[0] === 'iteration:0' && types.includes('iteration:1'), `unexpected events ${JSON.stringify(types)}`);
+    assert(types.indexOf('tool_result') < types.indexOf('iteration:1'), 'tool results should precede the next iteration');
+    assert(result.content === 'It is sunny.', 'the result should carry the final answer');
+    assert(result.toolCalls.length === 1 && result.toolResults.length === 1, 'tool calls should accumulate across iterations');
+    return types.join(', ');
+  });
+
+  // Test 9: maxAgenticIterations bounds the streaming loop
+  await runner.runTest('streamEvents - Max Iterations', async () => {
+    let requests = 0;
+    const session = createStreamingSession(async (_params, onChunk) => {
+      requests++;
+      await onChunk({ content: '', finished: false, toolCallDelta: { index: 0, id: `call_${requests}`, name: 'lookup', arguments: '{"city":"Rome"}' } });
+      await onChunk({ content: '', finished: true });
+    }, { mcpService: lookupService(), options: { agenticMode: true, maxAgenticIterations: 3 } });
+
+    const iterations: number[] = [];
+    for await (const event of session.streamEvents('loop forever')) {
+      if (event.type === 'iteration') iterations.push(event.iteration);
+      if (event.type === 'error') throw event.error;
+    }
+
+    assert(requests === 3, `expected 3 provider requests, got ${requests}`);
+    assert(JSON.stringify(iterations) === '[0,1,2]', `unexpected iterations ${JSON.stringify(iterations)}`);
+    return `${requests} requests`;
+  });
+
+  // Test 10: Agent.stream reports the iteration of each update
+  await runner.runTest('Agent - stream Iterations', async () => {
+    let requests = 0;
+    const agent = new Agent.Agent({
+      id: 'agent-2',
+      name: 'Looper',
+      description: 'Calls a tool, then answers',
+      provider: {
+        name: 'recorder',
+        type: 'api',
+        async completion() {
+          throw new Error('completion should not be called');
+        },
+        async stream(_params: any, onChunk: (chunk: any) => Promise<void>) {
+          requests++;
+          if (requests === 1) {
+            await onChunk({ content: '', finished: false, toolCallDelta: { index: 0, id: 'call_1', name: 'lookup', arguments: '{"city":"Lima"}' } });
+            await onChunk({ content: '', finished: true });
+          } else {
+            await onChunk({ content: 'done', finished: true });
+          }
+        }
+      } as any,
+      extractor: textExtractor as any,
+      template: { name: 'default', content: '' } as any,
+      tools: [{
+        name: 'lookup',
+        description: 'Look up a city',
+        schema: z.object({ city: z.string() }),
+        handler: (args: { city: string }) => `sunny in ${args.city}`
+      }]
+    });
+
+    const updates: any[] = [];
+    const content = await agent.stream('weather in Lima?', undefined, update => updates.push(update));
+    const toolResult = updates.find(update => update.type === 'tool_result');
+    const answer = updates.find(update => update.type === 'content');
+
+    assert(content === 'done', `unexpected content '${content}'`);
+    assert(toolResult && toolResult.iteration === 0, 'tool results should belong to iteration 0');
+    assert(answer && answer.iteration === 1, 'the answer should belong to iteration 1');
+    assert(agent.getState().currentIteration === 1, 'the agent state should record the last iteration');
+    return updates.map(update => `${update.type}@${update.iteration}`).join(', ');
+  });
+
+  runner.printSummary();
+}
+
+// Run the tests
+main().catch(error => {
+  console.error('💥 Stream events tests failed:', error);
+  process.exit(1);
+});
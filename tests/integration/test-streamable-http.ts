@@ -0,0 +1,453 @@
+/**
+ * Offline tests for the streamable HTTP MCP transport, against a local
+ * stand-in server on a random port
+ */
+
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { MCP } from '../../dist/index.js';
+
+
+interface TestResult {
+  name: string;
+  success: boolean;
+  error?: string;
+  duration: number;
+  output?: any;
+}
+
+class TestRunner {
+  private results: TestResult[] = [];
+
+  async runTest(name: string, testFn: () => Promise<any>): Promise<void> {
+    const startTime = Date.now();
+    console.log(`🧪 Testing: ${name}`);
+
+    try {
+      const output = await testFn();
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: true,
+        duration,
+        output
+      });
+
+      console.log(`✅ ${name} - ${duration}ms`);
+      if (output && typeof output === 'string' && output.length < 200) {
+        console.log(`   Output: ${output}`);
+      }
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: false,
+        duration,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      console.log(`❌ ${name} - ${duration}ms`);
+      console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  printSummary(): void {
+    const successful = this.results.filter(r => r.success).length;
+    const total = this.results.length;
+
+    console.log('\n' + '='.repeat(60));
+    console.log('📊 STREAMABLE HTTP TEST SUMMARY');
+    console.log('='.repeat(60));
+    console.log(`✅ Successful: ${successful}/${total}`);
+    console.log(`❌ Failed: ${total - successful}/${total}`);
+
+    if (total - successful > 0) {
+      console.log('\n❌ FAILED TESTS:');
+      this.results
+        .filter(r => !r.success)
+        .forEach(r => console.log(`   - ${r.name}: ${r.error}`));
+    }
+
+    if (total - successful > 0) {
+      process.exit(1);
+    }
+  }
+}
+
+function assert(condition: any, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function waitFor(condition: () => boolean, message: string, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error(`Timed out: ${message}`);
+    await sleep(5);
+  }
+}
+
+type Handler = (message: any, res: http.ServerResponse) => void;
+
+/**
+ * Stand-in MCP server: JSON replies by default, `handlers` take over methods,
+ * `replays` answer GETs that resume with Last-Event-ID
+ */
+class StandInServer {
+  private server = http.createServer((req, res) => this.handle(req, res));
+  private nextSession = 1;
+  url = '';
+  sessions = new Set<string>();
+  log: Array<{ http: string; headers: http.IncomingHttpHeaders; message?: any }> = [];
+  handlers: Record<string, Handler> = {};
+  replays: Record<string, string> = {};
+  streams: http.ServerResponse[] = [];
+  allowGet = true;
+  requireSession = true;
+
+  async start(): Promise<this> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', () => resolve()));
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/mcp`;
+    return this;
+  }
+
+  async stop(): Promise<void> {
+    this.streams.forEach(stream => stream.end());
+    this.server.closeAllConnections();
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  posted(): any[] {
+    return this.log.filter(entry => entry.http === 'POST').map(entry => entry.message);
+  }
+
+  // Send a message on every open GET stream
+  push(message: any, id?: string): void {
+    this.streams.forEach(stream => stream.write(sseEvent(message, id)));
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      const message = body ? JSON.parse(body) : undefined;
+      this.log.push({ http: req.method!, headers: req.headers, message });
+      const session = req.headers['mcp-session-id'] as string | undefined;
+      const known = !!session && this.sessions.has(session);
+
+      if (req.method === 'DELETE') {
+        if (session) this.sessions.delete(session);
+        res.writeHead(200).end();
+        return;
+      }
+      if (req.method === 'GET') {
+        if (!known) return void res.writeHead(404).end();
+        if (!this.allowGet) return void res.writeHead(405).end();
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        const lastEventId = req.headers['last-event-id'] as string | undefined;
+        if (lastEventId !== undefined) {
+          res.end(this.replays[lastEventId] || '');
+          return;
+        }
+        res.flushHeaders();
+        this.streams.push(res);
+        return;
+      }
+
+      if (message.method === 'initialize') {
+        const id = `session-${this.nextSession++}`;
+        this.sessions.add(id);
+        res.writeHead(200, { 'Content-Type': 'application/json', 'Mcp-Session-Id': id });
+        res.end(JSON.stringify({
+          jsonrpc: '2.0',
+          id: message.id,
+          result: { protocolVersion: message.params.protocolVersion, capabilities: { tools: {} }, serverInfo: { name: 'stand-in', version: '1.0.0' } }
+        }));
+        return;
+      }
+      if (!known && this.requireSession) return void res.writeHead(404).end('Session not found');
+      // Notifications and responses from the client
+      if (message.method === undefined || message.id === undefined) return void res.writeHead(202).end();
+
+      const handler = this.handlers[message.method];
+      if (handler) return handler(message, res);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ jsonrpc: '2.0', id: message.id, result: message.method === 'tools/list' ? { tools: [] } : { echo: message.params } }));
+    });
+  }
+}
+
+function sseEvent(message: any, id?: string): string {
+  return `${id !== undefined ? `id: ${id}\n` : ''}data: ${JSON.stringify(message)}\n\n`;
+}
+
+function openSse(res: http.ServerResponse): void {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+}
+
+async function withServer(test: (server: StandInServer) => Promise<any>): Promise<any> {
+  const server = await new StandInServer().start();
+  try {
+    return await test(server);
+  } finally {
+    await server.stop();
+  }
+}
+
+async function initialize(transport: MCP.StreamableHTTPTransport): Promise<void> {
+  await transport.send({ jsonrpc: '2.0', id: 0, method: 'initialize', params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test', version: '1' } } });
+  await transport.send({ jsonrpc: '2.0', method: 'notifications/initialized' });
+}
+
+async function main() {
+  const runner = new TestRunner();
+
+  await runner.runTest('Session id and protocol version are sent back', async () => withServer(async server => {
+    const transport = new MCP.StreamableHTTPTransport(server.url, { headers: { Authorization: 'Bearer token' } });
+    await initialize(transport);
+    const response = await transport.send({ jsonrpc: '2.0', id: 1, method: 'echo', params: { value: 1 } });
+
+    assert(response.result.echo.value === 1, 'the response should be returned');
+    assert(transport.getSessionId() === 'session-1', 'the session id should be kept');
+    const last = server.log[server.log.length - 1].headers;
+    assert(last['mcp-session-id'] === 'session-1', 'the session id should be sent');
+    assert(last['mcp-protocol-version'] === '2025-06-18', 'the negotiated protocol version should be sent');
+    assert(last.authorization === 'Bearer token', 'custom headers should be sent');
+    assert(String(last.accept).includes('text/event-stream') && String(last.accept).includes('application/json'), 'both reply types should be accepted');
+    assert(server.log[0].headers['mcp-session-id'] === undefined, 'initialize should go without a session');
+    assert(!transport.isListening(), 'no GET stream without a notification handler');
+    await transport.close();
+    return last;
+  }));
+
+  await runner.runTest('SSE replies are matched to their request', async () => withServer(async server => {
+    const notifications: any[] = [];
+    server.handlers.slow = (message, res) => {
+      openSse(res);
+      res.write(sseEvent({ jsonrpc: '2.0', method: 'notifications/progress', params: { progress: 1 } }));
+      res.write(sseEvent({ jsonrpc: '2.0', id: 999, result: { wrong: true } }));
+      setTimeout(() => res.end(sseEvent({ jsonrpc: '2.0', id: message.id, result: { name: message.params.name } })), message.params.delayMs);
+    };
+    const transport = new MCP.StreamableHTTPTransport(server.url, { listen: false, onNotification: message => notifications.push(message) });
+    await initialize(transport);
+
+    const [a, b] = await Promise.all([
+      transport.send({ jsonrpc: '2.0', id: 'a', method: 'slow', params: { name: 'a', delayMs: 30 } }),
+      transport.send({ jsonrpc: '2.0', id: 'b', method: 'slow', params: { name: 'b', delayMs: 5 } })
+    ]);
+    assert(a.result.name === 'a' && b.result.name === 'b', 'each request should get its own response');
+    assert(notifications.length === 2 && notifications[0].method === 'notifications/progress', 'notifications on the stream should be delivered');
+    await transport.close();
+    return { a: a.result, b: b.result };
+  }));
+
+  await runner.runTest('Server requests on a stream are answered', async () => withServer(async server => {
+    server.handlers.work = (message, res) => {
+      openSse(res);
+      res.write(sseEvent({ jsonrpc: '2.0', id: 'srv-1', method: 'ping' }));
+      res.write(sseEvent({ jsonrpc: '2.0', id: 'srv-2', method: 'sampling/createMessage', params: {} }));
+      setTimeout(() => res.end(sseEvent({ jsonrpc: '2.0', id: message.id, result: { done: true } })), 20);
+    };
+    const transport = new MCP.StreamableHTTPTransport(server.url);
+    await initialize(transport);
+    const response = await transport.send({ jsonrpc: '2.0', id: 5, method: 'work', params: {} });
+    await waitFor(() => server.posted().filter(message => message.method === undefined).length === 2, 'replies to the server');
+
+    const replies = server.posted().filter(message => message.method === undefined);
+    const ping = replies.find(reply => reply.id === 'srv-1');
+    const other = replies.find(reply => reply.id === 'srv-2');
+    assert(response.result.done, 'the request should still complete');
+    assert(ping && ping.result && !ping.error, 'ping should be answered');
+    assert(other?.error?.code === -32601, 'unsupported requests should get method not found');
+    await transport.close();
+    return replies;
+  }));
+
+  await runner.runTest('The GET stream delivers server messages', async () => withServer(async server => {
+    const notifications: any[] = [];
+    const transport = new MCP.StreamableHTTPTransport(server.url, { onNotification: message => notifications.push(message) });
+    await initialize(transport);
+    await waitFor(() => server.streams.length === 1, 'the GET stream to open');
+
+    const get = server.log.find(entry => entry.http === 'GET')!;
+    assert(get.headers['mcp-session-id'] === 'session-1', 'the GET stream should carry the session');
+    server.push({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' }, 'g1');
+    await waitFor(() => notifications.length === 1, 'the notification');
+    assert(notifications[0].method === 'notifications/tools/list_changed', 'the pushed notification should arrive');
+    assert(transport.isListening(), 'the transport should be listening');
+
+    await transport.close();
+    assert(!transport.isListening(), 'close should stop the stream');
+    return notifications;
+  }));
+
+  await runner.runTest('Notification listeners open the GET stream on demand', async () => withServer(async server => {
+    const transport = new MCP.StreamableHTTPTransport(server.url);
+    await initialize(transport);
+    assert(!transport.isListening(), 'no stream without listeners');
+
+    const received: any[] = [];
+    const remove = transport.addNotificationListener(message => received.push(message));
+    await waitFor(() => server.streams.length === 1, 'the GET stream to open');
+    server.push({ jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: 'file:///a' } });
+    await waitFor(() => received.length === 1, 'the notification');
+
+    remove();
+    assert(!transport.isListening(), 'removing the last listener should close the stream');
+    await transport.close();
+    return received;
+  }));
+
+  await runner.runTest('Dropped streams resume with Last-Event-ID', async () => withServer(async server => {
+    const notifications: any[] = [];
+    server.handlers.long = (message, res) => {
+      openSse(res);
+      res.write(sseEvent({ jsonrpc: '2.0', method: 'notifications/progress', params: { progress: 1 } }, 'e1'));
+      server.replays.e1 = sseEvent({ jsonrpc: '2.0', method: 'notifications/progress', params: { progress: 2 } }, 'e2')
+        + sseEvent({ jsonrpc: '2.0', id: message.id, result: { resumed: true } }, 'e3');
+      // The connection drops before the response
+      setTimeout(() => res.destroy(), 10);
+    };
+    const transport = new MCP.StreamableHTTPTransport(server.url, { listen: false, reconnectDelayMs: 10, onNotification: message => notifications.push(message) });
+    await initialize(transport);
+    const response = await transport.send({ jsonrpc: '2.0', id: 7, method: 'long', params: {} });
+
+    const resume = server.log.find(entry => entry.http === 'GET')!;
+    assert(response.result.resumed, 'the response should arrive on the resumed stream');
+    assert(resume.headers['last-event-id'] === 'e1', 'the stream should resume after the last event');
+    assert(notifications.map(n => n.params.progress).join(',') === '1,2', 'notifications from both streams should arrive');
+
+    server.handlers.unresumable = (_message, res) => {
+      openSse(res);
+      res.end(sseEvent({ jsonrpc: '2.0', method: 'notifications/progress', params: {} }));
+    };
+    let error: Error | undefined;
+    try {
+      await transport.send({ jsonrpc: '2.0', id: 8, method: 'unresumable', params: {} });
+    } catch (caught: any) {
+      error = caught;
+    }
+    assert(error?.message.includes('closed before the response to request 8'), `unexpected error: ${error?.message}`);
+    await transport.close();
+    return resume.headers['last-event-id'];
+  }));
+
+  await runner.runTest('Expired sessions make the client initialize again', async () => withServer(async server => {
+    const transport = new MCP.StreamableHTTPTransport(server.url);
+    const client = new MCP.MCPClient(transport);
+    await client.ping();
+    assert(transport.getSessionId() === 'session-1', 'the first session should be used');
+
+    server.sessions.clear();
+    let error: Error | undefined;
+    try {
+      await client.ping();
+    } catch (caught: any) {
+      error = caught;
+    }
+    assert(error?.message.includes('expired'), `unexpected error: ${error?.message}`);
+    assert(transport.sessionGeneration === 1 && transport.getSessionId() === undefined, 'the session should be dropped');
+
+    await client.ping();
+    assert(transport.getSessionId() === 'session-2', 'a new session should be started');
+    const initializes = server.posted().filter(message => message?.method === 'initialize');
+    assert(initializes.length === 2, 'the client should initialize again');
+    await client.close();
+    return transport.getSessionId();
+  }));
+
+  await runner.runTest('Aborting sends cancellation, close ends the session', async () => withServer(async server => {
+    server.handlers.hang = (_message, res) => {
+      openSse(res);
+      res.flushHeaders();
+    };
+    const transport = new MCP.StreamableHTTPTransport(server.url, { onNotification: () => undefined });
+    await initialize(transport);
+    await waitFor(() => server.streams.length === 1, 'the GET stream to open');
+
+    const controller = new AbortController();
+    const pending = transport.send({ jsonrpc: '2.0', id: 11, method: 'hang', params: {} }, { signal: controller.signal });
+    await waitFor(() => server.posted().some(message => message?.method === 'hang'), 'the request to arrive');
+    controller.abort();
+    let aborted: Error | undefined;
+    try {
+      await pending;
+    } catch (caught: any) {
+      aborted = caught;
+    }
+    assert(aborted?.name === 'AbortError', `expected an abort, got ${aborted?.message}`);
+    await waitFor(() => server.posted().some(message => message?.method === 'notifications/cancelled'), 'the cancellation');
+    const cancel = server.posted().find(message => message?.method === 'notifications/cancelled');
+    assert(cancel.params.requestId === 11, 'the cancelled request should be named');
+
+    const inFlight = transport.send({ jsonrpc: '2.0', id: 12, method: 'hang', params: {} }).catch((error: Error) => error);
+    await waitFor(() => server.posted().filter(message => message?.method === 'hang').length === 2, 'the second request');
+    await transport.close();
+    const closedError = await inFlight;
+    const deleted = server.log.find(entry => entry.http === 'DELETE');
+    assert(closedError instanceof Error && closedError.message.includes('was closed'), 'in-flight requests should fail on close');
+    assert(deleted?.headers['mcp-session-id'] === 'session-1', 'close should end the session');
+    assert(!server.sessions.has('session-1'), 'the server should drop the session');
+
+    let later: Error | undefined;
+    try {
+      await transport.send({ jsonrpc: '2.0', id: 13, method: 'echo', params: {} });
+    } catch (caught: any) {
+      later = caught;
+    }
+    assert(later?.message.includes('was closed'), 'sends after close should throw');
+    return cancel;
+  }));
+
+  await runner.runTest('Servers without a GET stream are fine', async () => withServer(async server => {
+    server.allowGet = false;
+    const errors: Error[] = [];
+    const transport = new MCP.StreamableHTTPTransport(server.url, { onNotification: () => undefined, onError: error => errors.push(error) });
+    await initialize(transport);
+    await waitFor(() => server.log.some(entry => entry.http === 'GET'), 'the GET attempt');
+    await waitFor(() => !transport.isListening(), 'listening to stop');
+
+    const response = await transport.send({ jsonrpc: '2.0', id: 1, method: 'echo', params: { ok: true } });
+    assert(response.result.echo.ok, 'requests should still work');
+    assert(errors.length === 0, 'a declined stream is not an error');
+    await transport.close();
+    return server.log.map(entry => entry.http);
+  }));
+
+  await runner.runTest('SSETransport skips messages for other requests', async () => withServer(async server => {
+    server.handlers.echo = (message, res) => {
+      openSse(res);
+      res.write(sseEvent({ jsonrpc: '2.0', method: 'notifications/message', params: { data: 'log' } }));
+      res.write(sseEvent({ jsonrpc: '2.0', id: 'other', result: {} }));
+      res.end(sseEvent({ jsonrpc: '2.0', id: message.id, result: { mine: true } }));
+    };
+    // The plain SSE transport has no sessions
+    server.requireSession = false;
+    const transport = new MCP.SSETransport(server.url);
+    const response = await transport.send({ jsonrpc: '2.0', id: 3, method: 'echo', params: {} });
+    assert(response.id === 3 && response.result.mine, 'the response to the request should be returned');
+    return response;
+  }));
+
+  await runner.runTest('MCPClient uses streamable HTTP for URLs', async () => withServer(async server => {
+    const client = new MCP.MCPClient(server.url);
+    const tools = await client.listTools();
+    assert(Array.isArray(tools), 'tools should be listed');
+    assert(server.log.some(entry => entry.headers['mcp-session-id'] === 'session-1'), 'the session should be used');
+    await client.close();
+    assert(server.log.some(entry => entry.http === 'DELETE'), 'closing the client should end the session');
+    return server.log.map(entry => `${entry.http} ${entry.message?.method ?? ''}`.trim());
+  }));
+
+  runner.printSummary();
+}
+
+main().catch(error => {
+  console.error('💥 Streamable HTTP tests failed:', error);
+  process.exit(1);
+});
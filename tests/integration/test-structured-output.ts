@@ -0,0 +1,270 @@
+/**
+ * Offline tests for zod-validated structured replies
+ */
+
+import { z } from 'zod';
+import { Provider, Session, createChatSession } from '../../dist/index.js';
+
+interface TestResult {
+  name: string;
+  success: boolean;
+  error?: string;
+  duration: number;
+  output?: any;
+}
+
+class TestRunner {
+  private results: TestResult[] = [];
+
+  async runTest(name: string, testFn: () => Promise<any>): Promise<void> {
+    const startTime = Date.now();
+    console.log(`🧪 Testing: ${name}`);
+
+    try {
+      const output = await testFn();
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: true,
+        duration,
+        output
+      });
+
+      console.log(`✅ ${name} - ${duration}ms`);
+      if (output && typeof output === 'string' && output.length < 200) {
+        console.log(`   Output: ${output}`);
+      }
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: false,
+        duration,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      console.log(`❌ ${name} - ${duration}ms`);
+      console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  printSummary(): void {
+    const successful = this.results.filter(r => r.success).length;
+    const total = this.results.length;
+
+    console.log('\n' + '='.repeat(60));
+    console.log('📊 STRUCTURED OUTPUT TEST SUMMARY');
+    console.log('='.repeat(60));
+    console.log(`✅ Successful: ${successful}/${total}`);
+    console.log(`❌ Failed: ${total - successful}/${total}`);
+
+    if (total - successful > 0) {
+      console.log('\n❌ FAILED TESTS:');
+      this.results
+        .filter(r => !r.success)
+        .forEach(r => console.log(`   - ${r.name}: ${r.error}`));
+    }
+
+    if (total - successful > 0) {
+      process.exit(1);
+    }
+  }
+}
+
+function assert(condition: any, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+const textExtractor = {
+  name: 'TextExtractor',
+  supportedFormats: ['text'],
+  extract: (raw: any) => [{ type: 'content', data: String(raw) }]
+};
+
+const Invoice = z.object({
+  number: z.string(),
+  total: z.number(),
+  paid: z.boolean().optional()
+});
+
+/**
+ * Provider that replays `replies` and records each request
+ */
+function replayProvider(replies: string[], native: boolean) {
+  const requests: any[] = [];
+  const provider: any = {
+    name: 'replay',
+    type: 'api',
+    async completion(params: any) {
+      requests.push(params);
+      const content = replies[Math.min(requests.length - 1, replies.length - 1)];
+      return { content, raw: content };
+    }
+  };
+  if (native) provider.supportsStructuredOutput = () => true;
+  return { provider, requests };
+}
+
+function structuredSession(replies: string[], native = true) {
+  const replay = replayProvider(replies, native);
+  const session = createChatSession({
+    sessionId: `structured-${Date.now()}`,
+    provider: 'custom',
+    providerConfig: { provider: replay.provider, extractor: textExtractor }
+  });
+  return { session, requests: replay.requests };
+}
+
+/**
+ * Send a structured request through a provider and return the request body
+ */
+async function captureRequest(provider: any, cannedResponse: any): Promise<any> {
+  const originalFetch = globalThis.fetch;
+  let body: any;
+  globalThis.fetch = (async (_url: any, init: any) => {
+    body = JSON.parse(init.body);
+    return new Response(JSON.stringify(cannedResponse), { status: 200, headers: { 'Content-Type': 'application/json' } });
+  }) as any;
+
+  try {
+    const response = await provider.completion({
+      messages: [{ role: 'user', content: 'invoice please' }],
+      response_format: Session.structuredResponseFormat(Invoice, { name: 'invoice' })
+    });
+    return { body, content: response.content };
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+const invoiceJson = '{"number":"INV-7","total":42.5}';
+
+async function main() {
+  console.log('🚀 Structured Output Tests');
+  console.log('=========================\n');
+
+  const runner = new TestRunner();
+
+  // Test 1: Native providers get the schema as a response format
+  await runner.runTest('ChatSession - Native Structured Output', async () => {
+    const { session, requests } = structuredSession([invoiceJson]);
+    const invoice = await session.chatStructured('Extract the invoice', Invoice, { name: 'invoice' });
+
+    assert(invoice.number === 'INV-7' && invoice.total === 42.5, `unexpected invoice ${JSON.stringify(invoice)}`);
+    const format = requests[0].response_format;
+    assert(format.name === 'invoice' && format.schema.properties.total.type === 'number', 'the schema should be sent natively');
+    assert(!requests[0].messages.some((message: any) => message.role === 'system'), 'no prompt instructions in native mode');
+
+    const history = session.getHistory();
+    assert(history.length === 2 && history[1].content === invoiceJson, 'the reply should be recorded');
+    session.destroy();
+    return invoice;
+  });
+
+  // Test 2: Other providers get the schema in the prompt; fences and prose are tolerated
+  await runner.runTest('ChatSession - Prompt Fallback', async () => {
+    const { session, requests } = structuredSession([`Sure! Here it is:\n\`\`\`json\n${invoiceJson}\n\`\`\``], false);
+    const invoice = await session.chatStructured('Extract the invoice', Invoice);
+
+    const instructions = requests[0].messages[requests[0].messages.length - 1];
+    assert(instructions.role === 'system' && instructions.content.includes('"total"'), 'the schema should be described in the prompt');
+    assert(!requests[0].response_format, 'no response format without native support');
+    assert(invoice.total === 42.5, `unexpected invoice ${JSON.stringify(invoice)}`);
+    session.destroy();
+    return invoice;
+  });
+
+  // Test 3: An invalid reply is sent back with the validation errors
+  await runner.runTest('ChatSession - Repair Invalid Reply', async () => {
+    const { session, requests } = structuredSession(['{"number":"INV-7","total":"lots"}', invoiceJson]);
+    const invoice = await session.chatStructured('Extract the invoice', Invoice);
+
+    assert(requests.length === 2 && invoice.total === 42.5, 'the second reply should be used');
+    const repair = requests[1].messages[requests[1].messages.length - 1];
+    assert(repair.role === 'user' && repair.content.includes('total'), `unexpected repair prompt '${repair.content}'`);
+    assert(session.getHistory().length === 2, 'repair rounds should stay out of the history');
+    session.destroy();
+    return repair.content;
+  });
+
+  // Test 4: A typed error carries the raw text once repairs run out
+  await runner.runTest('ChatSession - StructuredOutputError', async () => {
+    const { session, requests } = structuredSession(['not json at all']);
+    try {
+      await session.chatStructured('Extract the invoice', Invoice, { maxRepairAttempts: 1 });
+      throw new Error('Expected a StructuredOutputError');
+    } catch (error: any) {
+      assert(error instanceof Session.StructuredOutputError, `unexpected error ${error}`);
+      assert(error.rawText === 'not json at all' && error.attempts === 2 && error.issues.length === 0, 'the error should describe the last reply');
+      assert(requests.length === 2, 'one repair should be attempted');
+      session.destroy();
+      return error.message;
+    }
+  });
+
+  // Test 5: Schemas without an object root are wrapped for providers and unwrapped again
+  await runner.runTest('ChatSession - Non-object Schema', async () => {
+    const { session, requests } = structuredSession(['{"value":["a","b"]}']);
+    const tags = await session.chatStructured('List the tags', z.array(z.string()));
+
+    const schema = requests[0].response_format.schema;
+    assert(schema.type === 'object' && schema.properties.value.type === 'array', 'the array schema should be wrapped');
+    assert(Array.isArray(tags) && tags.join() === 'a,b', `unexpected tags ${JSON.stringify(tags)}`);
+    session.destroy();
+    return tags;
+  });
+
+  // Test 6: Native mode refuses providers without structured output
+  await runner.runTest('ChatSession - Native Mode Unsupported', async () => {
+    const { session } = structuredSession([invoiceJson], false);
+    try {
+      await session.chatStructured('Extract the invoice', Invoice, { mode: 'native' });
+      throw new Error('Expected native mode to be refused');
+    } catch (error) {
+      assert(String(error).includes('no native structured output'), `unexpected error ${error}`);
+    }
+    session.destroy();
+    return 'refused';
+  });
+
+  // Test 7: Each provider maps the response format to its own API
+  await runner.runTest('Providers - Native Request Formats', async () => {
+    const openai = await captureRequest(new Provider.OpenAIProvider({ apiKey: 'test', model: 'gpt-4o-mini' }), {
+      choices: [{ message: { content: invoiceJson }, finish_reason: 'stop' }]
+    });
+    assert(openai.body.response_format.type === 'json_schema' && openai.body.response_format.json_schema.name === 'invoice', 'OpenAI should use json_schema');
+
+    const gemini = await captureRequest(new Provider.GeminiProvider({ apiKey: 'test', model: 'gemini-1.5-flash' }), {
+      candidates: [{ content: { parts: [{ text: invoiceJson }] }, finishReason: 'STOP' }]
+    });
+    const config = gemini.body.generationConfig;
+    assert(config.responseMimeType === 'application/json' && config.responseSchema.properties.total.type === 'number', 'Gemini should use responseSchema');
+    assert(config.responseSchema.additionalProperties === undefined, 'Gemini schemas should be sanitized');
+
+    const ollama = await captureRequest(new Provider.OllamaProvider({ model: 'llama3.1' }), {
+      message: { role: 'assistant', content: invoiceJson },
+      done: true
+    });
+    assert(ollama.body.format.properties.number.type === 'string', 'Ollama should use format');
+
+    const claude = await captureRequest(new Provider.ClaudeProvider({ apiKey: 'test', model: 'claude-3-5-haiku-latest' }), {
+      content: [{ type: 'tool_use', id: 'toolu_1', name: 'invoice', input: { number: 'INV-7', total: 42.5 } }],
+      stop_reason: 'tool_use'
+    });
+    assert(claude.body.tool_choice.type === 'tool' && claude.body.tool_choice.name === 'invoice', 'Claude should force the schema tool');
+    assert(JSON.parse(claude.content).total === 42.5, 'Claude should return the tool input as content');
+    return 'openai, gemini, ollama, claude';
+  });
+
+  runner.printSummary();
+}
+
+// Run the tests
+main().catch(error => {
+  console.error('💥 Structured output tests failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,381 @@
+/**
+ * Offline tests for tokenizers and token accounting
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import { Utils, Session, MonitoringService, MonitoredAgent, MCPService, createChatSession } from '../../dist/index.js';
+
+interface TestResult {
+  name: string;
+  success: boolean;
+  error?: string;
+  duration: number;
+  output?: any;
+}
+
+class TestRunner {
+  private results: TestResult[] = [];
+
+  async runTest(name: string, testFn: () => Promise<any>): Promise<void> {
+    const startTime = Date.now();
+    console.log(`🧪 Testing: ${name}`);
+
+    try {
+      const output = await testFn();
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: true,
+        duration,
+        output
+      });
+
+      console.log(`✅ ${name} - ${duration}ms`);
+      if (output && typeof output === 'string' && output.length < 200) {
+        console.log(`   Output: ${output}`);
+      }
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: false,
+        duration,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      console.log(`❌ ${name} - ${duration}ms`);
+      console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  printSummary(): void {
+    const successful = this.results.filter(r => r.success).length;
+    const total = this.results.length;
+
+    console.log('\n' + '='.repeat(60));
+    console.log('📊 TOKENIZER TEST SUMMARY');
+    console.log('='.repeat(60));
+    console.log(`✅ Successful: ${successful}/${total}`);
+    console.log(`❌ Failed: ${total - successful}/${total}`);
+
+    if (total - successful > 0) {
+      console.log('\n❌ FAILED TESTS:');
+      this.results
+        .filter(r => !r.success)
+        .forEach(r => console.log(`   - ${r.name}: ${r.error}`));
+    }
+
+    if (total - successful > 0) {
+      process.exit(1);
+    }
+  }
+}
+
+function assert(condition: any, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+/**
+ * Write a tiny `.tiktoken` vocabulary: every single byte plus a few merges
+ */
+async function writeVocabulary(directory: string): Promise<string> {
+  const lines: string[] = [];
+  for (let byte = 0; byte < 256; byte++) {
+    lines.push(`${Buffer.from([byte]).toString('base64')} ${byte}`);
+  }
+  ['he', 'll', 'hell', 'hello', ' w', ' wo', ' wor', 'ld'].forEach((token, index) => {
+    lines.push(`${Buffer.from(token, 'utf8').toString('base64')} ${256 + index}`);
+  });
+
+  const filePath = path.join(directory, 'tiny.tiktoken');
+  await fs.writeFile(filePath, lines.join('\n'));
+  return filePath;
+}
+
+async function main() {
+  console.log('🚀 Tokenizer Tests');
+  console.log('=================\n');
+
+  const runner = new TestRunner();
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'omniporton-tokenizers-'));
+
+  try {
+    const vocabulary = await writeVocabulary(directory);
+
+    // Test 1: BPE merges from a local vocabulary file
+    await runner.runTest('BPETokenizer - Merges by Rank', async () => {
+      const tokenizer = await Utils.loadBPETokenizer('cl100k_base', vocabulary);
+      const tokens = tokenizer.encode('hello world');
+
+      // "hello" is a whole token, " world" merges pairwise to " wor" + "ld"
+      assert(JSON.stringify(tokens) === JSON.stringify([259, 262, 263]), `unexpected tokens ${JSON.stringify(tokens)}`);
+      assert(tokenizer.countTokens('hello world') === 3, 'count should match encode');
+      assert(tokenizer.countTokens('héllo') === 5, 'non-ASCII text should fall back to bytes');
+      assert(JSON.stringify(tokenizer.encode('<|endoftext|>')) === JSON.stringify([100257]), 'special tokens should map to their ids');
+
+      return JSON.stringify(tokens);
+    });
+
+    // Test 2: Invalid vocabulary files fail loudly
+    await runner.runTest('BPETokenizer - Invalid Vocabulary', async () => {
+      const broken = path.join(directory, 'broken.tiktoken');
+      await fs.writeFile(broken, 'aGVsbG8= not-a-rank');
+      try {
+        await Utils.loadBPETokenizer('o200k_base', broken);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        assert(message.includes('line 1'), `error should name the line, got: ${message}`);
+        return message;
+      }
+      throw new Error('Expected an error for an invalid vocabulary');
+    });
+
+    // Test 3: Registry selection by provider and model
+    await runner.runTest('TokenizerRegistry - Selection', async () => {
+      const registry = new Utils.TokenizerRegistry();
+      const bpe = await Utils.loadBPETokenizer('o200k_base', vocabulary);
+      const local = new Utils.LlamaCppTokenizer({ tokenize: (text: string) => text.split(' ').map((_, i) => i) });
+
+      registry.registerEncoding('o200k_base', bpe);
+      registry.registerTokenizer('ollama', local);
+      registry.registerTokenizer('openai', local, 'custom-model');
+
+      assert(registry.getTokenizer('openai', 'gpt-4o-mini') === bpe, 'gpt-4o models should use o200k');
+      assert(registry.getTokenizer('openai', 'custom-model') === local, 'exact model registrations should win');
+      assert(registry.getTokenizer('openai', 'gpt-4').name === 'heuristic', 'unloaded encodings should fall back');
+      assert(registry.getTokenizer('ollama', 'llama3').countTokens('a b c') === 3, 'provider tokenizers should apply');
+      assert(Utils.getBPEEncodingForModel('gpt-3.5-turbo') === 'cl100k_base', 'gpt-3.5 should use cl100k');
+
+      return 'selected';
+    });
+
+    // Test 4: ChatSession reports the whole prompt to monitoring
+    await runner.runTest('ChatSession - Token Accounting', async () => {
+      const wordTokenizer = { name: 'words', countTokens: (text: string) => text.split(/\s+/).filter(Boolean).length };
+      const provider = {
+        name: 'recorder',
+        type: 'local',
+        getTokenizer: () => wordTokenizer,
+        async completion() {
+          return { content: 'three word answer', raw: 'three word answer' };
+        }
+      };
+      const extractor = {
+        name: 'TextExtractor',
+        supportedFormats: ['text'],
+        extract: (raw: any) => [{ type: 'content', data: String(raw) }]
+      };
+      const monitoringService = new MonitoringService({ aggregationInterval: 0 });
+      const ended: any[] = [];
+      monitoringService.on('request_end', (metrics: any) => ended.push(metrics));
+
+      const session = createChatSession({
+        sessionId: 'tokens',
+        agentId: 'agent-1',
+        provider: 'custom',
+        providerConfig: { provider, extractor },
+        monitoringService,
+        options: { monitoring: { enabled: true } }
+      });
+      session.addMessage({ role: 'system', content: 'be very brief' });
+      await session.chat('two words');
+      session.destroy();
+
+      // 3 + 2 words plus 4 tokens of overhead per message
+      assert(ended[0].inputTokens === 13, `expected 13 input tokens, got ${ended[0].inputTokens}`);
+      assert(ended[0].outputTokens === 3, `expected 3 output tokens, got ${ended[0].outputTokens}`);
+      assert(session.getTokenizer() === wordTokenizer, 'provider tokenizer should be used');
+
+      return `${ended[0].inputTokens} in / ${ended[0].outputTokens} out`;
+    });
+
+    // Test 5: Provider-reported usage is summed over an agentic turn
+    await runner.runTest('ChatSession - Provider Usage', async () => {
+      const responses = [
+        { content: '', raw: { toolCall: { id: 'call_1', name: 'lookup', arguments: {} } }, usage: { prompt_tokens: 120, completion_tokens: 15 } },
+        { content: 'done', raw: 'done', usage: { prompt_tokens: 150, completion_tokens: 5 } }
+      ];
+      const provider = {
+        name: 'openai',
+        type: 'api',
+        getModel: () => 'gpt-4o-mini',
+        async completion() {
+          return responses.shift();
+        }
+      };
+      const extractor = {
+        name: 'RecordedExtractor',
+        supportedFormats: ['text'],
+        extract: (raw: any) => typeof raw === 'string'
+          ? [{ type: 'content', data: raw }]
+          : [{ type: 'tool_call', data: raw.toolCall }]
+      };
+      const mcpService = new MCPService();
+      mcpService.registerTool({ name: 'lookup', description: 'Look something up', schema: z.object({}), handler: () => 'found' });
+
+      const monitoringService = new MonitoringService({ aggregationInterval: 0 });
+      const ended: any[] = [];
+      monitoringService.on('request_end', (metrics: any) => ended.push(metrics));
+
+      const session = createChatSession({
+        sessionId: 'usage',
+        agentId: 'agent-1',
+        provider: 'custom',
+        providerConfig: { provider, extractor },
+        mcpService,
+        monitoringService,
+        options: { agenticMode: true, monitoring: { enabled: true } }
+      });
+      await session.chat('look it up');
+      session.destroy();
+
+      assert(ended[0].inputTokens === 270, `expected 270 input tokens, got ${ended[0].inputTokens}`);
+      assert(ended[0].outputTokens === 20, `expected 20 output tokens, got ${ended[0].outputTokens}`);
+      assert(ended[0].model === 'gpt-4o-mini', `model should come from the provider, got ${ended[0].model}`);
+      assert(ended[0].cost > 0, 'cost should be priced from the reported usage');
+
+      return `${ended[0].inputTokens} in / ${ended[0].outputTokens} out, $${ended[0].cost}`;
+    });
+
+    // Test 6: Usage from the final stream chunk
+    await runner.runTest('ChatSession - Stream Usage', async () => {
+      const provider = {
+        name: 'recorder',
+        type: 'api',
+        async completion() {
+          throw new Error('completion should not be called');
+        },
+        async stream(_params: any, onChunk: (chunk: any) => void) {
+          onChunk({ content: 'streamed ', finished: false });
+          onChunk({ content: 'answer', finished: false });
+          onChunk({ content: '', finished: true, usage: { prompt_tokens: 42, completion_tokens: 2 } });
+        }
+      };
+      const extractor = {
+        name: 'TextExtractor',
+        supportedFormats: ['text'],
+        extract: (raw: any) => [{ type: 'content', data: String(raw) }]
+      };
+      const monitoringService = new MonitoringService({ aggregationInterval: 0 });
+      const ended: any[] = [];
+      monitoringService.on('request_end', (metrics: any) => ended.push(metrics));
+
+      const session = createChatSession({
+        sessionId: 'stream-usage',
+        agentId: 'agent-1',
+        provider: 'custom',
+        providerConfig: { provider, extractor },
+        monitoringService,
+        options: { monitoring: { enabled: true } }
+      });
+      await session.stream('stream it');
+      session.destroy();
+
+      assert(ended[0].inputTokens === 42, `expected 42 input tokens, got ${ended[0].inputTokens}`);
+      assert(ended[0].outputTokens === 2, `expected 2 output tokens, got ${ended[0].outputTokens}`);
+
+      return `${ended[0].inputTokens} in / ${ended[0].outputTokens} out`;
+    });
+
+    // Test 7: A custom tokenizer is not saved and can be passed again on resume
+    await runner.runTest('ChatSession - Resume With Custom Tokenizer', async () => {
+      const wordTokenizer = { name: 'words', countTokens: (text: string) => text.split(/\s+/).filter(Boolean).length };
+      const provider = {
+        name: 'echo',
+        type: 'local',
+        async completion() {
+          return { content: 'ok', raw: 'ok' };
+        }
+      };
+      const extractor = {
+        name: 'TextExtractor',
+        supportedFormats: ['text'],
+        extract: (raw: any) => [{ type: 'content', data: String(raw) }]
+      };
+      const storage = new Session.MemorySessionStorage();
+      const config = {
+        sessionId: 'resume-tokenizer',
+        provider: 'custom' as const,
+        providerConfig: { provider, extractor },
+        storage,
+        options: { tokenizer: wordTokenizer, contextWindow: { maxTokens: 1000 } }
+      };
+
+      const session = createChatSession(config);
+      await session.chat('first turn');
+      const saved = await storage.loadSession('resume-tokenizer');
+      assert(saved, 'session should be saved');
+      assert(!('tokenizer' in saved.options), 'tokenizer should not be saved with the session options');
+      session.destroy();
+
+      const resumed = await createChatSession({ ...config, resume: true });
+      assert(resumed.getTokenizer() === wordTokenizer, 'resumed session should use the tokenizer passed again');
+      await resumed.chat('second turn');
+      assert(resumed.getHistory().length === 4, `expected 4 messages, got ${resumed.getHistory().length}`);
+      resumed.destroy();
+
+      return 'tokenizer passed on resume';
+    });
+    // Test 8: Monitored agents report the provider's usage, not estimates
+    await runner.runTest('MonitoredAgent - Provider Usage', async () => {
+      const provider = {
+        name: 'recorder',
+        type: 'local',
+        async completion() {
+          return { content: 'done', raw: 'done', usage: { prompt_tokens: 77, completion_tokens: 9 } };
+        },
+        async stream(_params: any, onChunk: (chunk: any) => void) {
+          onChunk({ content: 'done', finished: false });
+          onChunk({ content: '', finished: true, usage: { prompt_tokens: 55, completion_tokens: 3 } });
+        }
+      };
+      const extractor = {
+        name: 'TextExtractor',
+        supportedFormats: ['text'],
+        extract: (raw: any) => [{ type: 'content', data: String(raw) }]
+      };
+      const monitoringService = new MonitoringService({ aggregationInterval: 0 });
+      const ended: any[] = [];
+      monitoringService.on('request_end', (metrics: any) => ended.push(metrics));
+
+      const agent = new MonitoredAgent({
+        id: 'monitored',
+        name: 'Monitored',
+        description: 'Reports usage',
+        provider: provider as any,
+        extractor: extractor as any,
+        template: { name: 'default', content: '' } as any,
+        monitoringService
+      });
+      await agent.execute('a task with several words in it');
+      for await (const _event of agent.streamEvents('another task')) {
+        // Drain the stream
+      }
+      await agent.close();
+
+      const [executed, streamed] = ended;
+      assert(executed.inputTokens === 77 && executed.outputTokens === 9, `execute should report 77/9, got ${executed.inputTokens}/${executed.outputTokens}`);
+      assert(streamed.inputTokens === 55 && streamed.outputTokens === 3, `stream should report 55/3, got ${streamed.inputTokens}/${streamed.outputTokens}`);
+      return `${executed.inputTokens}/${executed.outputTokens} and ${streamed.inputTokens}/${streamed.outputTokens}`;
+    });
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+
+  runner.printSummary();
+  // MonitoringService keeps its daily cleanup timer running
+  process.exit(0);
+}
+
+// Run the tests
+main().catch(error => {
+  console.error('💥 Tokenizer tests failed:', error);
+  process.exit(1);
+});
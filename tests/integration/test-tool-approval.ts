@@ -0,0 +1,403 @@
+/**
+ * Offline tests for pausing tool calls until the caller approves them
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import { Agent, Session, MCPService, createChatSession } from '../../dist/index.js';
+
+interface TestResult {
+  name: string;
+  success: boolean;
+  error?: string;
+  duration: number;
+  output?: any;
+}
+
+class TestRunner {
+  private results: TestResult[] = [];
+
+  async runTest(name: string, testFn: () => Promise<any>): Promise<void> {
+    const startTime = Date.now();
+    console.log(`🧪 Testing: ${name}`);
+
+    try {
+      const output = await testFn();
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: true,
+        duration,
+        output
+      });
+
+      console.log(`✅ ${name} - ${duration}ms`);
+      if (output && typeof output === 'string' && output.length < 200) {
+        console.log(`   Output: ${output}`);
+      }
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: false,
+        duration,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      console.log(`❌ ${name} - ${duration}ms`);
+      console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  printSummary(): void {
+    const successful = this.results.filter(r => r.success).length;
+    const total = this.results.length;
+
+    console.log('\n' + '='.repeat(60));
+    console.log('📊 TOOL APPROVAL TEST SUMMARY');
+    console.log('='.repeat(60));
+    console.log(`✅ Successful: ${successful}/${total}`);
+    console.log(`❌ Failed: ${total - successful}/${total}`);
+
+    if (total - successful > 0) {
+      console.log('\n❌ FAILED TESTS:');
+      this.results
+        .filter(r => !r.success)
+        .forEach(r => console.log(`   - ${r.name}: ${r.error}`));
+    }
+
+    if (total - successful > 0) {
+      process.exit(1);
+    }
+  }
+}
+
+function assert(condition: any, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+const toolCallExtractor = {
+  name: 'RecordedExtractor',
+  supportedFormats: ['text'],
+  extract: (raw: any) => typeof raw === 'string'
+    ? [{ type: 'content', data: raw }]
+    : raw.toolCalls.map((toolCall: any) => ({ type: 'tool_call', data: toolCall }))
+};
+
+/**
+ * Tools of a shop: `pay` needs approval, `refund` is high risk, `lookup` runs freely
+ */
+function shopTools() {
+  const calls: Array<{ name: string; args: any }> = [];
+  const mcpService = new MCPService();
+  const register = (name: string, extra: any) => mcpService.registerTool({
+    name,
+    description: `${name} tool`,
+    schema: z.object({ amount: z.number().optional(), order: z.string().optional() }),
+    handler: (args: any) => {
+      calls.push({ name, args });
+      return `${name} ok`;
+    },
+    ...extra
+  });
+  register('pay', { requiresApproval: true });
+  register('refund', { risk: 'high' });
+  register('lookup', { risk: 'high', requiresApproval: false });
+  return { mcpService, calls };
+}
+
+/**
+ * Provider that asks for the given tool calls once, then answers with `reply`
+ */
+function scriptedProvider(toolCalls: any[], reply = 'done') {
+  const requests: any[] = [];
+  return {
+    requests,
+    provider: {
+      name: 'recorder',
+      type: 'api',
+      async completion(params: any) {
+        requests.push(params.messages);
+        return requests.length === 1
+          ? { content: '', raw: { toolCalls } }
+          : { content: reply, raw: reply };
+      }
+    }
+  };
+}
+
+function shopSession(toolCalls: any[], options: any = {}, extra: any = {}) {
+  const tools = shopTools();
+  const scripted = scriptedProvider(toolCalls);
+  const session = createChatSession({
+    sessionId: extra.sessionId || `approval-${Date.now()}`,
+    provider: 'custom',
+    providerConfig: { provider: scripted.provider, extractor: toolCallExtractor },
+    mcpService: tools.mcpService,
+    options: { agenticMode: true, ...options },
+    ...extra
+  });
+  return { session, calls: tools.calls, requests: scripted.requests };
+}
+
+const payCall = { id: 'call_pay', name: 'pay', arguments: { amount: 50 } };
+
+async function main() {
+  console.log('🚀 Tool Approval Tests');
+  console.log('=====================\n');
+
+  const runner = new TestRunner();
+  const basePath = await fs.mkdtemp(path.join(os.tmpdir(), 'omniporton-approvals-'));
+
+  try {
+    // Test 1: A call that needs approval pauses the turn until it is approved
+    await runner.runTest('ChatSession - Pause and Approve', async () => {
+      const { session, calls, requests } = shopSession([payCall]);
+
+      const reply = await session.chat('pay the invoice');
+      const pending = session.getPendingApprovals();
+      assert(reply === '' && calls.length === 0, 'nothing should run before approval');
+      assert(pending.length === 1 && pending[0].toolCallId === 'call_pay' && pending[0].arguments.amount === 50, 'the call should wait for approval');
+
+      try {
+        await session.chat('anything else?');
+        throw new Error('Expected chat to refuse while approvals are pending');
+      } catch (error) {
+        assert(String(error).includes('waiting for approval'), `unexpected error ${error}`);
+      }
+
+      const answer = await session.resolveApprovals({ call_pay: { action: 'approve' } });
+      assert(answer === 'done', `unexpected reply '${answer}'`);
+      assert(calls.length === 1 && calls[0].args.amount === 50, 'the approved call should run once');
+      assert(session.getPendingApprovals().length === 0, 'nothing should be pending afterwards');
+
+      const tool = requests[1].find((message: any) => message.role === 'tool');
+      assert(tool.tool_call_id === 'call_pay' && tool.content === 'pay ok', 'the model should get the result');
+      session.destroy();
+      return answer;
+    });
+
+    // Test 2: Denial is reported back to the model as the tool result
+    await runner.runTest('ChatSession - Deny', async () => {
+      const { session, calls, requests } = shopSession([payCall]);
+      await session.chat('pay the invoice');
+      await session.resolveApprovals({ call_pay: { action: 'deny', reason: 'over budget' } });
+
+      const tool = requests[1].find((message: any) => message.role === 'tool');
+      assert(calls.length === 0, 'a denied call should not run');
+      assert(tool.tool_call_id === 'call_pay' && tool.content.includes('denied') && tool.content.includes('over budget'), `unexpected result '${tool.content}'`);
+
+      const [result] = session.getToolCallResults();
+      assert(result.denied === true && result.id === 'call_pay', 'the tool result should be marked as denied');
+      session.destroy();
+      return tool.content;
+    });
+
+    // Test 3: The caller may change the arguments
+    await runner.runTest('ChatSession - Edit Arguments', async () => {
+      const { session, calls } = shopSession([payCall]);
+      await session.chat('pay the invoice');
+      await session.resolveApprovals({ call_pay: { action: 'edit', arguments: { amount: 20 } } });
+
+      const tool = session.getHistory().find(message => message.role === 'tool') as any;
+      assert(calls[0].args.amount === 20, 'the call should run with the edited arguments');
+      assert(tool.args.amount === 20, 'the history should record the edited arguments');
+      session.destroy();
+      return `amount ${calls[0].args.amount}`;
+    });
+
+    // Test 4: High risk implies approval; other calls of the turn wait and keep their order
+    await runner.runTest('ChatSession - Risk Levels and Held Calls', async () => {
+      const toolCalls = [
+        { id: 'call_lookup', name: 'lookup', arguments: { order: 'A1' } },
+        { id: 'call_refund', name: 'refund', arguments: { order: 'A1' } }
+      ];
+      const { session, calls } = shopSession(toolCalls);
+      await session.chat('refund order A1');
+
+      const pending = session.getPendingApprovals();
+      assert(pending.length === 1 && pending[0].toolName === 'refund' && pending[0].risk === 'high', 'only the high risk call needs approval');
+      assert(calls.length === 0, 'calls of a paused turn should wait');
+
+      await expectMissingDecision(() => session.resolveApprovals({}));
+      await session.resolveApprovals({ call_refund: { action: 'approve' } });
+      const order = session.getHistory().filter(message => message.role === 'tool').map((message: any) => message.tool_call_id);
+      assert(order.join(',') === 'call_lookup,call_refund', `results out of order: ${order.join(',')}`);
+      session.destroy();
+      return order.join(', ');
+    });
+
+    // Test 5: An approval handler decides inline, without pausing
+    await runner.runTest('ChatSession - Inline Handler', async () => {
+      const seen: any[] = [];
+      const { session, calls } = shopSession([payCall], {
+        onApprovalRequest: async (request: any) => {
+          seen.push(request);
+          return { action: 'edit', arguments: { amount: 5 } };
+        }
+      });
+
+      const reply = await session.chat('pay the invoice');
+      assert(reply === 'done' && seen.length === 1 && seen[0].toolName === 'pay', 'the handler should be asked once');
+      assert(calls[0].args.amount === 5, 'the handler decision should apply');
+      assert(session.getPendingApprovals().length === 0, 'nothing should be pending');
+      session.destroy();
+      return reply;
+    });
+
+    // Test 6: Streaming emits the approval request and reports it in the result
+    await runner.runTest('ChatSession - streamEvents Approval Event', async () => {
+      const tools = shopTools();
+      const session = createChatSession({
+        sessionId: 'approval-stream',
+        provider: 'custom',
+        providerConfig: {
+          provider: {
+            name: 'recorder',
+            type: 'api',
+            async completion() {
+              return { content: 'paid', raw: 'paid' };
+            },
+            async stream(_params: any, onChunk: (chunk: any) => Promise<void>) {
+              await onChunk({ content: '', finished: false, toolCallDelta: { index: 0, id: 'call_pay', name: 'pay', arguments: '{"amount":50}' } });
+              await onChunk({ content: '', finished: true });
+            }
+          },
+          extractor: toolCallExtractor
+        },
+        mcpService: tools.mcpService,
+        options: { agenticMode: true }
+      });
+
+      const types: string[] = [];
+      let result: any;
+      for await (const event of session.streamEvents('pay the invoice')) {
+        types.push(event.type);
+        if (event.type === 'approval_required') assert(event.requests[0].toolCallId === 'call_pay', 'the event should name the call');
+        if (event.type === 'done') result = event.result;
+      }
+
+      assert(types.includes('approval_required') && !types.includes('tool_result'), `unexpected events ${JSON.stringify(types)}`);
+      assert(types.filter(type => type === 'iteration').length === 1, 'the loop should stop at the pause');
+      assert(result.pendingApprovals?.length === 1, 'the result should list the pending approvals');
+
+      const reply = await session.resolveApprovals({ call_pay: { action: 'approve' } });
+      assert(reply === 'paid' && tools.calls.length === 1, 'the turn should continue after approval');
+      session.destroy();
+      return types.join(', ');
+    });
+
+    // Test 7: Pending approvals survive saving and resuming the session
+    for (const [label, storage] of [
+      ['Memory', new Session.MemorySessionStorage()],
+      ['File', new Session.FileSessionStorage(basePath)],
+      ['Database', new Session.DatabaseSessionStorage(':memory:')]
+    ] as Array<[string, any]>) {
+      await runner.runTest(`${label}SessionStorage - Resume Pending Approvals`, async () => {
+        const first = shopSession([payCall], {}, { sessionId: 'paused', storage });
+        await first.session.chat('pay the invoice');
+        await first.session.flush();
+        first.session.destroy();
+
+        const tools = shopTools();
+        const scripted = scriptedProvider([]);
+        scripted.requests.push('first request already made');
+        const resumed = await createChatSession({
+          sessionId: 'paused',
+          provider: 'custom',
+          providerConfig: { provider: scripted.provider, extractor: toolCallExtractor },
+          mcpService: tools.mcpService,
+          storage,
+          resume: true
+        });
+
+        const pending = resumed.getPendingApprovals();
+        assert(pending.length === 1 && pending[0].toolCallId === 'call_pay', 'pending approvals should be restored');
+        const reply = await resumed.resolveApprovals({ call_pay: { action: 'approve' } });
+        assert(reply === 'done' && tools.calls.length === 1, 'the resumed session should continue the turn');
+
+        const saved = await storage.loadSession('paused');
+        assert(!saved.pendingApprovals, 'resolved approvals should be cleared from storage');
+        resumed.destroy();
+        if (storage.close) await storage.close();
+        return reply;
+      });
+    }
+
+    // Test 8: Agents pause and resume the same way
+    await runner.runTest('Agent - resolveApprovals', async () => {
+      const scripted = scriptedProvider([payCall], 'paid');
+      const agent = new Agent.Agent({
+        id: 'cashier',
+        name: 'Cashier',
+        description: 'Pays invoices',
+        provider: scripted.provider as any,
+        extractor: toolCallExtractor as any,
+        template: { name: 'default', content: '' } as any,
+        tools: [{
+          name: 'pay',
+          description: 'Pay an amount',
+          schema: z.object({ amount: z.number() }),
+          requiresApproval: true,
+          handler: (args: { amount: number }) => `paid ${args.amount}`
+        }]
+      });
+
+      await agent.execute('pay 50');
+      const pending = agent.getPendingApprovals();
+      assert(pending.length === 1 && pending[0].toolName === 'pay', 'the agent should be paused on the call');
+      assert(!agent.isRunning(), 'a paused agent is not running');
+
+      const reply = await agent.resolveApprovals({ call_pay: { action: 'approve' } });
+      assert(reply === 'paid' && !agent.isRunning(), `unexpected reply '${reply}'`);
+      return reply;
+    });
+    // Test 9: Clearing the history drops the calls waiting for approval
+    await runner.runTest('ChatSession - Clear History While Paused', async () => {
+      const { session, calls } = shopSession([payCall]);
+      await session.chat('pay the invoice');
+      assert(session.getPendingApprovals().length === 1, 'the call should wait for approval');
+
+      session.clearHistory();
+      assert(session.getPendingApprovals().length === 0, 'nothing should be pending after clearing');
+      try {
+        await session.resolveApprovals({ call_pay: { action: 'approve' } });
+        throw new Error('Expected resolveApprovals to fail after clearing');
+      } catch (error) {
+        assert(String(error).includes('no tool calls waiting for approval'), `unexpected error ${error}`);
+      }
+      assert(calls.length === 0, 'the cleared call should never run');
+
+      const reply = await session.chat('start over');
+      assert(reply === 'done' && session.getHistory().length === 2, 'the session should chat again from scratch');
+      session.destroy();
+      return reply;
+    });
+  } finally {
+    await fs.rm(basePath, { recursive: true, force: true });
+  }
+
+  runner.printSummary();
+}
+
+async function expectMissingDecision(resolve: () => Promise<any>): Promise<void> {
+  try {
+    await resolve();
+  } catch (error) {
+    assert(String(error).includes('Missing approval decisions'), `unexpected error ${error}`);
+    return;
+  }
+  throw new Error('Expected a missing decision to be rejected');
+}
+
+// Run the tests
+main().catch(error => {
+  console.error('💥 Tool approval tests failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,335 @@
+/**
+ * Offline tests for caching tool results
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import { MCP, MCPService, MonitoringService } from '../../dist/index.js';
+
+interface TestResult {
+  name: string;
+  success: boolean;
+  error?: string;
+  duration: number;
+  output?: any;
+}
+
+class TestRunner {
+  private results: TestResult[] = [];
+
+  async runTest(name: string, testFn: () => Promise<any>): Promise<void> {
+    const startTime = Date.now();
+    console.log(`🧪 Testing: ${name}`);
+
+    try {
+      const output = await testFn();
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: true,
+        duration,
+        output
+      });
+
+      console.log(`✅ ${name} - ${duration}ms`);
+      if (output && typeof output === 'string' && output.length < 200) {
+        console.log(`   Output: ${output}`);
+      }
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: false,
+        duration,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      console.log(`❌ ${name} - ${duration}ms`);
+      console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  printSummary(): void {
+    const successful = this.results.filter(r => r.success).length;
+    const total = this.results.length;
+
+    console.log('\n' + '='.repeat(60));
+    console.log('📊 TOOL CACHE TEST SUMMARY');
+    console.log('='.repeat(60));
+    console.log(`✅ Successful: ${successful}/${total}`);
+    console.log(`❌ Failed: ${total - successful}/${total}`);
+
+    if (total - successful > 0) {
+      console.log('\n❌ FAILED TESTS:');
+      this.results
+        .filter(r => !r.success)
+        .forEach(r => console.log(`   - ${r.name}: ${r.error}`));
+    }
+
+    if (total - successful > 0) {
+      process.exit(1);
+    }
+  }
+}
+
+function assert(condition: any, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * A service with a counting `search` tool; `extra` is merged into its definition
+ */
+function searchService(options: any, extra: any = {}) {
+  const calls: any[] = [];
+  const contexts: any[] = [];
+  const mcpService = new MCPService(options);
+  mcpService.registerTool({
+    name: 'search',
+    description: 'Search documents',
+    schema: z.object({ query: z.string(), filters: z.record(z.any()).optional() }),
+    cacheable: true,
+    handler: (args: any, context: any) => {
+      calls.push(args);
+      contexts.push(context);
+      if (args.query === 'fail') throw new Error('search failed');
+      return { hits: [args.query], call: calls.length };
+    },
+    ...extra
+  });
+  return { mcpService, calls, contexts };
+}
+
+/**
+ * In-memory MCP server with a read-only lookup and a tool that writes
+ */
+class CountingServer implements MCP.MCPTransport {
+  calls: string[] = [];
+
+  async send(request: any): Promise<any> {
+    if (request.id === undefined) return undefined;
+    const reply = (result: any) => ({ jsonrpc: '2.0', id: request.id, result });
+    const inputSchema = { type: 'object', properties: { key: { type: 'string' } }, required: ['key'] };
+
+    switch (request.method) {
+      case 'initialize':
+        return reply({ protocolVersion: request.params.protocolVersion, capabilities: { tools: {} }, serverInfo: { name: 'kv', version: '1' } });
+      case 'tools/list':
+        return reply({
+          tools: [
+            { name: 'get', description: 'Read a key', inputSchema, annotations: { readOnlyHint: true } },
+            { name: 'set', description: 'Write a key', inputSchema, annotations: { readOnlyHint: false, destructiveHint: true } }
+          ]
+        });
+      case 'tools/call':
+        this.calls.push(request.params.name);
+        return reply({ content: [{ type: 'text', text: `${request.params.name} ${request.params.arguments.key} #${this.calls.length}` }] });
+      default:
+        return { jsonrpc: '2.0', id: request.id, error: { code: -32601, message: 'Method not found' } };
+    }
+  }
+
+  async close(): Promise<void> {}
+}
+
+async function main() {
+  console.log('🚀 Tool Cache Tests');
+  console.log('==================\n');
+
+  const runner = new TestRunner();
+  const basePath = await fs.mkdtemp(path.join(os.tmpdir(), 'omniporton-tool-cache-'));
+
+  try {
+    // Test 1: Keys ignore object key order
+    await runner.runTest('toolCacheKey - Canonical Arguments', async () => {
+      const a = MCP.toolCacheKey('search', { query: 'x', filters: { year: 2024, tag: ['a', 'b'] } });
+      const b = MCP.toolCacheKey('search', { filters: { tag: ['a', 'b'], year: 2024 }, query: 'x', unused: undefined });
+      const c = MCP.toolCacheKey('search', { query: 'x', filters: { tag: ['b', 'a'], year: 2024 } });
+      assert(a === b, `keys should match: ${a} vs ${b}`);
+      assert(a !== c, 'array order should matter');
+      assert(MCP.toolCacheKey('lookup', { query: 'x' }) !== MCP.toolCacheKey('search', { query: 'x' }), 'the tool name should be part of the key');
+      return a;
+    });
+
+    // Test 2: Cacheable tools reuse results for identical arguments
+    await runner.runTest('MCPService - Cache Hits', async () => {
+      const { mcpService, calls } = searchService({ cache: {} });
+      const first = await mcpService.executeTool('search', { query: 'cats', filters: { a: 1, b: 2 } });
+      const second = await mcpService.executeTool('search', { filters: { b: 2, a: 1 }, query: 'cats' });
+      await mcpService.executeTool('search', { query: 'dogs' });
+
+      assert(calls.length === 2, `expected 2 handler calls, got ${calls.length}`);
+      assert(first.call === 1 && second.call === 1, 'the second call should get the cached result');
+      const stats = mcpService.getCacheStats();
+      assert(stats.hits === 1 && stats.misses === 2, `unexpected stats ${JSON.stringify(stats)}`);
+
+      await mcpService.clearCache();
+      await mcpService.executeTool('search', { query: 'cats', filters: { a: 1, b: 2 } });
+      assert(calls.length === 3, 'clearing the cache should force a new call');
+      return JSON.stringify(stats);
+    });
+
+    // Test 3: Caching is opt in, for the service and for each tool
+    await runner.runTest('MCPService - Opt In', async () => {
+      const uncachedService = searchService({});
+      await uncachedService.mcpService.executeTool('search', { query: 'cats' });
+      await uncachedService.mcpService.executeTool('search', { query: 'cats' });
+      assert(uncachedService.calls.length === 2, 'a service without a cache should always call the tool');
+
+      const uncachedTool = searchService({ cache: {} }, { cacheable: false });
+      await uncachedTool.mcpService.executeTool('search', { query: 'cats' });
+      await uncachedTool.mcpService.executeTool('search', { query: 'cats' });
+      assert(uncachedTool.calls.length === 2, 'tools not marked cacheable should always run');
+      return 'ok';
+    });
+
+    // Test 4: Entries expire after the tool's TTL, or the default one
+    await runner.runTest('MCPService - TTL', async () => {
+      const perTool = searchService({ cache: { defaultTtlMs: 60000 } }, { cacheTtlMs: 20 });
+      await perTool.mcpService.executeTool('search', { query: 'cats' });
+      await perTool.mcpService.executeTool('search', { query: 'cats' });
+      await sleep(40);
+      await perTool.mcpService.executeTool('search', { query: 'cats' });
+      assert(perTool.calls.length === 2, `the entry should expire after cacheTtlMs, got ${perTool.calls.length} calls`);
+
+      const byDefault = searchService({ cache: { defaultTtlMs: 20 } });
+      await byDefault.mcpService.executeTool('search', { query: 'cats' });
+      await sleep(40);
+      await byDefault.mcpService.executeTool('search', { query: 'cats' });
+      assert(byDefault.calls.length === 2, 'the default TTL should apply');
+      return 'expired';
+    });
+
+    // Test 5: Failures are not cached
+    await runner.runTest('MCPService - Errors Not Cached', async () => {
+      const { mcpService, calls } = searchService({ cache: {} });
+      for (let i = 0; i < 2; i++) {
+        try {
+          await mcpService.executeTool('search', { query: 'fail' });
+          throw new Error('Expected the tool to fail');
+        } catch (error) {
+          assert(String(error).includes('search failed'), `unexpected error ${error}`);
+        }
+      }
+      assert(calls.length === 2, 'a failed call should run again');
+      return `${calls.length} calls`;
+    });
+
+    // Test 6: Handlers get a key that identifies the call
+    await runner.runTest('MCPService - Idempotency Key', async () => {
+      const { mcpService, contexts } = searchService({});
+      await mcpService.executeTool('search', { query: 'cats' });
+      await mcpService.executeTool('search', { query: 'cats' });
+      await mcpService.executeTool('search', { query: 'cats' }, { idempotencyKey: 'order-42' });
+
+      assert(contexts[0].idempotencyKey === MCP.toolCacheKey('search', { query: 'cats' }), 'the key should derive from the arguments');
+      assert(contexts[0].idempotencyKey === contexts[1].idempotencyKey, 'identical calls should share a key');
+      assert(contexts[2].idempotencyKey === 'order-42', 'a caller key should be passed through');
+      return contexts[0].idempotencyKey;
+    });
+
+    // Test 7: The memory store evicts the least recently used entry
+    await runner.runTest('MemoryToolCacheStore - LRU', async () => {
+      const store = new MCP.MemoryToolCacheStore(2);
+      await store.set('a', { value: 1 });
+      await store.set('b', { value: 2 });
+      await store.get('a');
+      await store.set('c', { value: 3 });
+
+      assert(store.size() === 2, `expected 2 entries, got ${store.size()}`);
+      assert(await store.get('b') === undefined, 'the least recently used entry should be evicted');
+      assert((await store.get('a'))?.value === 1 && (await store.get('c'))?.value === 3, 'recent entries should stay');
+      return 'evicted b';
+    });
+
+    // Test 8: The file store keeps entries across instances
+    await runner.runTest('FileToolCacheStore - Persistence', async () => {
+      const first = searchService({ cache: { store: new MCP.FileToolCacheStore(basePath) } });
+      await first.mcpService.executeTool('search', { query: 'cats' });
+
+      const second = searchService({ cache: { store: new MCP.FileToolCacheStore(basePath) } });
+      const result = await second.mcpService.executeTool('search', { query: 'cats' });
+      assert(second.calls.length === 0 && result.hits[0] === 'cats', 'a new service should read the stored result');
+
+      const files = await fs.readdir(basePath);
+      assert(files.length === 1 && files[0].endsWith('.json'), `expected one entry file, got ${files.join(', ')}`);
+      await new MCP.FileToolCacheStore(basePath).clear();
+      assert((await fs.readdir(basePath)).length === 0, 'clear should remove the entries');
+      return files[0];
+    });
+
+    // Test 9: Hits and misses reach the monitoring service
+    await runner.runTest('MonitoringService - Cache Metrics', async () => {
+      const monitoringService = new MonitoringService();
+      const events: any[] = [];
+      monitoringService.on('tool_cache', event => events.push(event));
+
+      const { mcpService } = searchService({ cache: {}, monitoringService });
+      await mcpService.executeTool('search', { query: 'cats' });
+      await mcpService.executeTool('search', { query: 'cats' });
+      await mcpService.executeTool('search', { query: 'cats' });
+
+      const metrics = monitoringService.getToolCacheMetrics();
+      assert(metrics.hits === 2 && metrics.misses === 1, `unexpected metrics ${JSON.stringify(metrics)}`);
+      assert(Math.abs(metrics.hitRate - 2 / 3) < 1e-9 && metrics.byTool.search.hits === 2, 'per tool metrics should add up');
+      assert(events.length === 3 && events[0].hit === false && events[1].hit === true, 'each lookup should be emitted');
+      return `hit rate ${metrics.hitRate.toFixed(2)}`;
+    });
+    // Test 10: MCP server tools are cacheable when read-only, or as configured
+    await runner.runTest('MCPService - MCP Server Tools', async () => {
+      const annotated = new CountingServer();
+      const byHint = new MCPService({ cache: {} });
+      await byHint.initializeMcpTools('kv', annotated);
+      const first = await byHint.executeTool('get', { key: 'a' });
+      const second = await byHint.executeTool('get', { key: 'a' });
+      await byHint.executeTool('set', { key: 'a' });
+      await byHint.executeTool('set', { key: 'a' });
+      assert(JSON.stringify(first) === JSON.stringify(second), 'the read-only tool should return the cached result');
+      assert(annotated.calls.join(',') === 'get,set,set', `unexpected server calls ${annotated.calls.join(',')}`);
+      assert(byHint.getTool('get')?.cacheable && !byHint.getTool('set')?.cacheable, 'only the read-only tool should be cacheable');
+
+      const configured = new CountingServer();
+      const byOption = new MCPService({ cache: {} });
+      await byOption.initializeAllMcpTools([
+        { label: 'kv', mcp: configured, cacheable: tool => tool.name === 'set', cacheTtlMs: 1000 }
+      ]);
+      await byOption.executeTool('kv.get', { key: 'a' });
+      await byOption.executeTool('kv.get', { key: 'a' });
+      await byOption.executeTool('kv.set', { key: 'a' });
+      await byOption.executeTool('kv.set', { key: 'a' });
+      assert(configured.calls.join(',') === 'get,get,set', `unexpected server calls ${configured.calls.join(',')}`);
+      assert(byOption.getTool('kv.set')?.cacheTtlMs === 1000, 'the server TTL should apply to its tools');
+
+      const disabled = new CountingServer();
+      const optedOut = new MCPService({ cache: {} });
+      await optedOut.initializeMcpTools('kv', disabled, { cacheable: false });
+      await optedOut.executeTool('get', { key: 'a' });
+      await optedOut.executeTool('get', { key: 'a' });
+      assert(disabled.calls.length === 2, 'cacheable: false should override the read-only hint');
+
+      await Promise.all([byHint.close(), byOption.close(), optedOut.close()]);
+      return JSON.stringify(byHint.getCacheStats());
+    });
+  } finally {
+    await fs.rm(basePath, { recursive: true, force: true });
+  }
+
+  runner.printSummary();
+  // MonitoringService keeps its daily cleanup timer running
+  process.exit(0);
+}
+
+// Run the tests
+main().catch(error => {
+  console.error('💥 Tool cache tests failed:', error);
+  process.exit(1);
+});
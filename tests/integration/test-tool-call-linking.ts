@@ -0,0 +1,295 @@
+/**
+ * Offline tests for pairing tool calls with their results by id
+ */
+
+import { z } from 'zod';
+import { Provider, MCPService, createChatSession } from '../../dist/index.js';
+
+interface TestResult {
+  name: string;
+  success: boolean;
+  error?: string;
+  duration: number;
+  output?: any;
+}
+
+class TestRunner {
+  private results: TestResult[] = [];
+
+  async runTest(name: string, testFn: () => Promise<any>): Promise<void> {
+    const startTime = Date.now();
+    console.log(`🧪 Testing: ${name}`);
+
+    try {
+      const output = await testFn();
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: true,
+        duration,
+        output
+      });
+
+      console.log(`✅ ${name} - ${duration}ms`);
+      if (output && typeof output === 'string' && output.length < 200) {
+        console.log(`   Output: ${output}`);
+      }
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: false,
+        duration,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      console.log(`❌ ${name} - ${duration}ms`);
+      console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  printSummary(): void {
+    const successful = this.results.filter(r => r.success).length;
+    const total = this.results.length;
+
+    console.log('\n' + '='.repeat(60));
+    console.log('📊 TOOL CALL LINKING TEST SUMMARY');
+    console.log('='.repeat(60));
+    console.log(`✅ Successful: ${successful}/${total}`);
+    console.log(`❌ Failed: ${total - successful}/${total}`);
+
+    if (total - successful > 0) {
+      console.log('\n❌ FAILED TESTS:');
+      this.results
+        .filter(r => !r.success)
+        .forEach(r => console.log(`   - ${r.name}: ${r.error}`));
+    }
+
+    if (total - successful > 0) {
+      process.exit(1);
+    }
+  }
+}
+
+function assert(condition: any, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+const toolCallExtractor = {
+  name: 'RecordedExtractor',
+  supportedFormats: ['text'],
+  extract: (raw: any) => typeof raw === 'string'
+    ? [{ type: 'content', data: raw }]
+    : raw.toolCalls.map((toolCall: any) => ({ type: 'tool_call', data: toolCall }))
+};
+
+function weatherService(): any {
+  const mcpService = new MCPService();
+  mcpService.registerTool({
+    name: 'weather',
+    description: 'Weather for a city',
+    schema: z.object({ city: z.string() }),
+    handler: (args: { city: string }) => {
+      if (args.city === 'Atlantis') throw new Error('unknown city');
+      return `sunny in ${args.city}`;
+    }
+  });
+  return mcpService;
+}
+
+// History after the assistant asked for two tools, one of which failed
+const linkedHistory: any[] = [
+  { role: 'system', content: 'be brief' },
+  { role: 'user', content: 'weather in Oslo and Atlantis?' },
+  {
+    role: 'assistant',
+    content: 'Checking.',
+    tool_calls: [
+      { id: 'call_oslo', name: 'weather', arguments: { city: 'Oslo' } },
+      { id: 'call_atlantis', name: 'weather', arguments: { city: 'Atlantis' } }
+    ]
+  },
+  { role: 'tool', name: 'weather', content: 'sunny in Oslo', tool_call_id: 'call_oslo' },
+  { role: 'tool', name: 'weather', content: 'Error executing weather: unknown city', tool_call_id: 'call_atlantis' }
+];
+
+// A response every provider under test can parse
+const cannedResponse = {
+  choices: [{ message: { content: 'ok' }, finish_reason: 'stop' }],
+  content: [{ type: 'text', text: 'ok' }],
+  stop_reason: 'end_turn',
+  candidates: [{ content: { parts: [{ text: 'ok' }] }, finishReason: 'STOP' }],
+  message: { role: 'assistant', content: 'ok' },
+  done: true
+};
+
+/**
+ * Send the linked history through a provider and return the request body
+ */
+async function captureRequest(provider: any): Promise<any> {
+  const originalFetch = globalThis.fetch;
+  let body: any;
+  globalThis.fetch = (async (_url: any, init: any) => {
+    body = JSON.parse(init.body);
+    return new Response(JSON.stringify(cannedResponse), { status: 200, headers: { 'Content-Type': 'application/json' } });
+  }) as any;
+
+  try {
+    await provider.completion({ messages: linkedHistory });
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+  return body;
+}
+
+async function main() {
+  console.log('🚀 Tool Call Linking Tests');
+  console.log('=========================\n');
+
+  const runner = new TestRunner();
+
+  // Test 1: The assistant's tool calls and their results share ids in the history
+  await runner.runTest('ChatSession - Linked History', async () => {
+    let requests = 0;
+    const provider = {
+      name: 'recorder',
+      type: 'api',
+      async completion() {
+        requests++;
+        return requests === 1
+          ? { content: '', raw: { toolCalls: [{ name: 'weather', arguments: { city: 'Oslo' } }, { name: 'weather', arguments: { city: 'Atlantis' } }] } }
+          : { content: 'done', raw: 'done' };
+      }
+    };
+    const session = createChatSession({
+      sessionId: 'linked-history',
+      provider: 'custom',
+      providerConfig: { provider, extractor: toolCallExtractor },
+      mcpService: weatherService(),
+      options: { agenticMode: true }
+    });
+
+    await session.chat('weather in Oslo and Atlantis?');
+    const history = session.getHistory() as any[];
+    const roles = history.map(message => message.role).join(',');
+    assert(roles === 'user,assistant,tool,tool,assistant', `unexpected roles ${roles}`);
+
+    const calls = history[1].tool_calls;
+    assert(calls.length === 2 && calls.every((call: any) => typeof call.id === 'string' && call.id), 'tool calls should get ids');
+    assert(history[2].tool_call_id === calls[0].id && history[3].tool_call_id === calls[1].id, 'results should reference their calls');
+    assert(history[3].content.includes('unknown city'), 'a failed call should be answered with its error');
+    assert(session.getToolCallResults()[0].id === calls[0].id, 'tool call results should keep the same id');
+    session.destroy();
+    return roles;
+  });
+
+  // Test 2: Streamed native calls keep the provider's ids
+  await runner.runTest('ChatSession - Streamed Call IDs', async () => {
+    const requests: any[] = [];
+    const provider = {
+      name: 'recorder',
+      type: 'api',
+      async completion() {
+        throw new Error('completion should not be called');
+      },
+      async stream(params: any, onChunk: (chunk: any) => Promise<void>) {
+        requests.push(params.messages);
+        if (requests.length === 1) {
+          await onChunk({ content: '', finished: false, toolCallDelta: { index: 0, id: 'toolu_42', name: 'weather', arguments: '{"city":"Oslo"}' } });
+          await onChunk({ content: '', finished: true });
+        } else {
+          await onChunk({ content: 'sunny', finished: true });
+        }
+      }
+    };
+    const session = createChatSession({
+      sessionId: 'streamed-ids',
+      provider: 'custom',
+      providerConfig: { provider, extractor: toolCallExtractor },
+      mcpService: weatherService(),
+      options: { agenticMode: true }
+    });
+
+    await session.stream('weather in Oslo?');
+    const followUp = requests[1];
+    const assistant = followUp.find((message: any) => message.role === 'assistant');
+    const tool = followUp.find((message: any) => message.role === 'tool');
+    assert(assistant?.tool_calls?.[0]?.id === 'toolu_42', 'the follow-up request should carry the assistant tool call');
+    assert(tool?.tool_call_id === 'toolu_42', 'the tool result should reference the streamed call id');
+    session.destroy();
+    return 'toolu_42';
+  });
+
+  // Test 3: OpenAI pairs tool_calls with tool messages
+  await runner.runTest('OpenAIProvider - Tool Message Format', async () => {
+    const body = await captureRequest(new Provider.OpenAIProvider({ apiKey: 'test', model: 'gpt-4o-mini' }));
+    const [, , assistant, first, second] = body.messages;
+
+    assert(assistant.tool_calls.length === 2, 'the assistant message should list its tool calls');
+    assert(assistant.tool_calls[0].id === 'call_oslo' && assistant.tool_calls[0].type === 'function', 'tool calls should keep their ids');
+    assert(assistant.tool_calls[0].function.arguments === '{"city":"Oslo"}', 'arguments should be sent as a JSON string');
+    assert(first.role === 'tool' && first.tool_call_id === 'call_oslo', 'results should reference their call');
+    assert(second.tool_call_id === 'call_atlantis' && second.args === undefined, 'results should only carry API fields');
+    return `${body.messages.length} messages`;
+  });
+
+  // Test 4: Claude pairs tool_use with tool_result blocks in one user turn
+  await runner.runTest('ClaudeProvider - Tool Message Format', async () => {
+    const body = await captureRequest(new Provider.ClaudeProvider({ apiKey: 'test', model: 'claude-3-5-haiku-latest' }));
+    const roles = body.messages.map((message: any) => message.role).join(',');
+    assert(roles === 'user,assistant,user', `unexpected roles ${roles}`);
+
+    const [text, toolUse] = body.messages[1].content;
+    assert(text.type === 'text' && text.text === 'Checking.', 'the assistant text should come first');
+    assert(toolUse.type === 'tool_use' && toolUse.id === 'call_oslo' && toolUse.input.city === 'Oslo', 'tool calls should be tool_use blocks');
+
+    const results = body.messages[2].content;
+    assert(results.length === 2, 'both results should share one user message');
+    assert(results[0].type === 'tool_result' && results[0].tool_use_id === 'call_oslo', 'results should reference their tool_use');
+    assert(results[1].tool_use_id === 'call_atlantis', 'results should keep call order');
+    return roles;
+  });
+
+  // Test 5: Gemini pairs functionCall with functionResponse parts
+  await runner.runTest('GeminiProvider - Tool Message Format', async () => {
+    const body = await captureRequest(new Provider.GeminiProvider({ apiKey: 'test', model: 'gemini-1.5-flash' }));
+    const model = body.contents.find((content: any) => content.role === 'model');
+    const calls = model.parts.filter((part: any) => part.functionCall);
+    assert(calls.length === 2 && calls[1].functionCall.args.city === 'Atlantis', 'tool calls should be functionCall parts');
+
+    const responses = body.contents.filter((content: any) => content.role === 'function');
+    assert(responses.length === 1 && responses[0].parts.length === 2, 'results should share one function turn');
+    assert(responses[0].parts[0].functionResponse.name === 'weather', 'results should name their function');
+    return `${body.contents.length} contents`;
+  });
+
+  // Test 6: OpenAI-compatible and local providers
+  await runner.runTest('Mistral, Groq, Ollama - Tool Message Format', async () => {
+    const compatible = [
+      new Provider.MistralProvider({ apiKey: 'test', model: 'mistral-small-latest' }),
+      new Provider.GroqProvider({ apiKey: 'test', model: 'llama-3.1-8b-instant' })
+    ];
+    for (const provider of compatible) {
+      const body = await captureRequest(provider);
+      assert(body.messages[2].tool_calls[1].id === 'call_atlantis', `${provider.name} should send tool call ids`);
+      assert(body.messages[4].tool_call_id === 'call_atlantis', `${provider.name} should link results by id`);
+    }
+
+    const body = await captureRequest(new Provider.OllamaProvider({ model: 'llama3.1' }));
+    assert(body.messages[2].tool_calls[0].function.arguments.city === 'Oslo', 'Ollama should send tool calls with object arguments');
+    assert(body.messages[3].role === 'tool' && body.messages[3].name === 'weather', 'Ollama results should name their tool');
+    return 'ok';
+  });
+
+  runner.printSummary();
+}
+
+// Run the tests
+main().catch(error => {
+  console.error('💥 Tool call linking tests failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,446 @@
+/**
+ * Offline tests for tool schema conversion (zod <-> JSON Schema)
+ */
+
+import { z } from 'zod';
+import { Utils, Tools, MCP } from '../../dist/index.js';
+
+interface TestResult {
+  name: string;
+  success: boolean;
+  error?: string;
+  duration: number;
+  output?: any;
+}
+
+class TestRunner {
+  private results: TestResult[] = [];
+
+  async runTest(name: string, testFn: () => Promise<any>): Promise<void> {
+    const startTime = Date.now();
+    console.log(`🧪 Testing: ${name}`);
+
+    try {
+      const output = await testFn();
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: true,
+        duration,
+        output
+      });
+
+      console.log(`✅ ${name} - ${duration}ms`);
+      if (output && typeof output === 'string' && output.length < 200) {
+        console.log(`   Output: ${output}`);
+      }
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: false,
+        duration,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      console.log(`❌ ${name} - ${duration}ms`);
+      console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  printSummary(): void {
+    const successful = this.results.filter(r => r.success).length;
+    const total = this.results.length;
+
+    console.log('\n' + '='.repeat(60));
+    console.log('📊 TOOL SCHEMA TEST SUMMARY');
+    console.log('='.repeat(60));
+    console.log(`✅ Successful: ${successful}/${total}`);
+    console.log(`❌ Failed: ${total - successful}/${total}`);
+
+    if (total - successful > 0) {
+      console.log('\n❌ FAILED TESTS:');
+      this.results
+        .filter(r => !r.success)
+        .forEach(r => console.log(`   - ${r.name}: ${r.error}`));
+    }
+
+    if (total - successful > 0) {
+      process.exit(1);
+    }
+  }
+}
+
+function assert(condition: any, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+/**
+ * Convert zod -> JSON Schema -> zod and check both schemas agree on every sample
+ */
+function assertRoundTrip(schema: z.ZodTypeAny, samples: any[]): string {
+  const jsonSchema = Utils.zodToJsonSchema(schema);
+  const restored = Utils.zodFromJsonSchema(jsonSchema);
+
+  for (const sample of samples) {
+    const expected = schema.safeParse(sample).success;
+    const actual = restored.safeParse(sample).success;
+    if (expected !== actual) {
+      throw new Error(`Round trip mismatch for ${JSON.stringify(sample)}: original=${expected}, restored=${actual}`);
+    }
+  }
+
+  return `${samples.length} samples agree`;
+}
+
+async function main() {
+  console.log('🚀 Tool Schema Tests');
+  console.log('===================\n');
+
+  const runner = new TestRunner();
+
+  // Test 1: Object properties, required list and descriptions
+  await runner.runTest('zodToJsonSchema - Object Properties and Descriptions', async () => {
+    const schema = z.object({
+      city: z.string().describe('City name'),
+      days: z.number().int().optional(),
+      metric: z.boolean().default(true)
+    }).describe('Weather lookup');
+
+    const json = Utils.zodToJsonSchema(schema);
+
+    assert(json.type === 'object', 'top-level type should be object');
+    assert(json.description === 'Weather lookup', 'object description should be kept');
+    assert(json.properties.city.description === 'City name', 'property description should be kept');
+    assert(json.properties.days.type === 'integer', 'int() should map to integer');
+    assert(json.properties.metric.default === true, 'default should be kept');
+    assert(JSON.stringify(json.required) === JSON.stringify(['city']), `required should only list city, got ${JSON.stringify(json.required)}`);
+    assert(json.$schema === undefined, '$schema should be stripped');
+
+    return JSON.stringify(json.required);
+  });
+
+  // Test 2: Arrays, enums, unions and nullables
+  await runner.runTest('zodToJsonSchema - Arrays, Enums and Unions', async () => {
+    const schema = z.object({
+      tags: z.array(z.string()),
+      priority: z.enum(['low', 'medium', 'high']),
+      target: z.union([z.string(), z.object({ id: z.number() })]),
+      note: z.string().nullable()
+    });
+
+    const json = Utils.zodToJsonSchema(schema);
+
+    assert(json.properties.tags.type === 'array' && json.properties.tags.items.type === 'string', 'array items should be converted');
+    assert(JSON.stringify(json.properties.priority.enum) === JSON.stringify(['low', 'medium', 'high']), 'enum values should be kept');
+    assert(Array.isArray(json.properties.target.anyOf) && json.properties.target.anyOf.length === 2, 'union should become anyOf');
+    assert(JSON.stringify(json.properties.note.type) === JSON.stringify(['string', 'null']), 'nullable should allow null');
+
+    return 'arrays, enums, unions and nullables converted';
+  });
+
+  // Test 3: Nested and recursive references
+  await runner.runTest('zodToJsonSchema - Nested References', async () => {
+    interface Category { name: string; children: Category[] }
+    const category: z.ZodType<Category> = z.lazy(() => z.object({
+      name: z.string(),
+      children: z.array(category)
+    }));
+
+    const json = Utils.zodToJsonSchema(z.object({ root: category }));
+    const ref = json.properties.root.properties.children.items.$ref;
+
+    assert(ref === '#/properties/root', `recursive schema should reference its root, got ${ref}`);
+    return ref;
+  });
+
+  // Test 4: Tool parameters are objects; schemas that accept anything fall back, others throw
+  await runner.runTest('toolParametersSchema - Non-object Fallback', async () => {
+    const json = Utils.toolParametersSchema(z.any());
+    assert(json.type === 'object', 'non-object schemas should fall back to an object schema');
+
+    const objectJson = Utils.toolParametersSchema(z.object({ q: z.string() }));
+    assert(objectJson.properties.q.type === 'string', 'object schemas should be converted');
+
+    const rejected: string[] = [];
+    for (const schema of [z.string(), z.union([z.object({ a: z.string() }), z.object({ b: z.string() })])]) {
+      try {
+        Utils.toolParametersSchema(schema);
+      } catch (error) {
+        rejected.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+    assert(rejected.length === 2 && rejected[0].includes("got 'string'") && rejected[1].includes("got 'anyOf'"), `other schemas should throw, got ${JSON.stringify(rejected)}`);
+
+    const mcpService = new MCP.MCPService();
+    let registerError = '';
+    try {
+      mcpService.registerTool({ name: 'echo', description: 'Echo text', schema: z.string(), handler: (text: string) => text });
+    } catch (error) {
+      registerError = error instanceof Error ? error.message : String(error);
+    }
+    assert(registerError.startsWith("Invalid schema for tool 'echo'"), `registering should fail, got: ${registerError}`);
+    assert(!mcpService.getTool('echo'), 'the tool should not be registered');
+
+    return 'fallback applied';
+  });
+
+  // Test 5: Round trip through zodFromJsonSchema
+  await runner.runTest('Round Trip - Flat Object', async () => {
+    return assertRoundTrip(
+      z.object({ query: z.string(), limit: z.number(), exact: z.boolean() }),
+      [
+        { query: 'weather', limit: 5, exact: true },
+        { query: 'weather', limit: '5', exact: true },
+        { query: 42, limit: 5, exact: false },
+        { limit: 5, exact: false }
+      ]
+    );
+  });
+
+  // Test 6: Round trip for nested, optional, enum, union and array shapes
+  await runner.runTest('Round Trip - Nested Structures', async () => {
+    const address = z.object({ street: z.string(), zip: z.string().optional() });
+    return assertRoundTrip(
+      z.object({
+        name: z.string().min(1),
+        shipping: address,
+        billing: address.optional(),
+        priority: z.enum(['low', 'high']),
+        target: z.union([z.string(), z.number().int()]),
+        tags: z.array(z.string()).max(2),
+        note: z.string().nullable()
+      }),
+      [
+        { name: 'a', shipping: { street: 'x' }, priority: 'low', target: 'id', tags: [], note: null },
+        { name: 'a', shipping: { street: 'x', zip: '1' }, billing: { street: 'y' }, priority: 'high', target: 3, tags: ['t'], note: 'n' },
+        { name: '', shipping: { street: 'x' }, priority: 'low', target: 'id', tags: [], note: null },
+        { name: 'a', shipping: { zip: '1' }, priority: 'low', target: 'id', tags: [], note: null },
+        { name: 'a', shipping: { street: 'x' }, priority: 'urgent', target: 'id', tags: [], note: null },
+        { name: 'a', shipping: { street: 'x' }, priority: 'low', target: 1.5, tags: [], note: null },
+        { name: 'a', shipping: { street: 'x' }, priority: 'low', target: 'id', tags: ['1', '2', '3'], note: null },
+        { name: 'a', shipping: { street: 'x' }, priority: 'low', target: 'id', tags: [] }
+      ]
+    );
+  });
+
+  // Test 7: Round trip for recursive schemas through $ref
+  await runner.runTest('Round Trip - Recursive References', async () => {
+    interface Category { name: string; children: Category[] }
+    const category: z.ZodType<Category> = z.lazy(() => z.object({
+      name: z.string(),
+      children: z.array(category)
+    }));
+    return assertRoundTrip(
+      z.object({ root: category }),
+      [
+        { root: { name: 'a', children: [] } },
+        { root: { name: 'a', children: [{ name: 'b', children: [{ name: 'c', children: [] }] }] } },
+        { root: { name: 'a', children: [{ name: 'b', children: [{ name: 3, children: [] }] }] } },
+        { root: { name: 'a' } }
+      ]
+    );
+  });
+
+  // Test 8: Defaults, formats and $defs from a hand-written schema
+  await runner.runTest('zodFromJsonSchema - $defs, Formats and Defaults', async () => {
+    const schema = Utils.zodFromJsonSchema({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: {
+        contact: { $ref: '#/$defs/contact' },
+        limit: { type: 'integer', minimum: 1, exclusiveMaximum: 100, default: 10 }
+      },
+      required: ['contact'],
+      $defs: {
+        contact: {
+          type: 'object',
+          properties: { email: { type: 'string', format: 'email' } },
+          required: ['email'],
+          additionalProperties: false
+        }
+      }
+    });
+
+    const parsed = schema.parse({ contact: { email: 'a@example.com' } });
+    assert(parsed.limit === 10, 'default should be applied');
+    assert(!schema.safeParse({ contact: { email: 'not-an-email' } }).success, 'email format should be enforced');
+    assert(!schema.safeParse({ contact: { email: 'a@example.com', extra: 1 } }).success, 'additionalProperties: false should be enforced');
+    assert(!schema.safeParse({ contact: { email: 'a@example.com' }, limit: 100 }).success, 'exclusiveMaximum should be enforced');
+    assert(schema.safeParse({ contact: { email: 'a@example.com' }, other: true }).success, 'additional properties should be allowed by default');
+
+    return 'refs, formats and defaults applied';
+  });
+
+  // Test 9: Combinators and tuples
+  await runner.runTest('zodFromJsonSchema - oneOf, not and prefixItems', async () => {
+    const oneOf = Utils.zodFromJsonSchema({ oneOf: [{ type: 'integer' }, { type: 'number', minimum: 0 }] });
+    assert(oneOf.safeParse(-1).success, '-1 matches only the integer branch');
+    assert(!oneOf.safeParse(2).success, '2 matches both branches');
+
+    const not = Utils.zodFromJsonSchema({ type: 'string', not: { enum: ['admin'] } });
+    assert(not.safeParse('user').success && !not.safeParse('admin').success, 'not should exclude matches');
+
+    const tuple = Utils.zodFromJsonSchema({ type: 'array', prefixItems: [{ type: 'string' }, { type: 'number' }], items: false });
+    assert(tuple.safeParse(['a', 1]).success, 'matching tuple should pass');
+    assert(!tuple.safeParse([1, 'a']).success, 'positional types should be enforced');
+    assert(!tuple.safeParse(['a', 1, 2]).success, 'items: false should reject extra items');
+
+    return 'combinators enforced';
+  });
+
+  // Test 10: Unsupported keywords fail loudly
+  await runner.runTest('zodFromJsonSchema - Unsupported Keywords', async () => {
+    const schema = { type: 'object', if: { required: ['a'] }, then: { required: ['b'] } };
+    try {
+      Utils.zodFromJsonSchema(schema);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      assert(message.includes("'if'") && message.includes('#'), `error should name the keyword and location, got: ${message}`);
+
+      Utils.zodFromJsonSchema(schema, { unsupported: 'ignore' });
+      return message;
+    }
+    throw new Error('Expected an error for the if keyword');
+  });
+
+  // Test 11: Provider adapters produce native tool shapes
+  await runner.runTest('Tool Schema Adapters - Native Provider Formats', async () => {
+    const tools = [{
+      name: 'get_weather',
+      description: 'Get the weather',
+      schema: z.object({ city: z.string() }),
+      handler: () => 'sunny'
+    }];
+    const registry = Tools.toolSchemaAdapterRegistry;
+
+    const openai = registry.formatTools('openai', tools)[0];
+    assert(openai.type === 'function' && openai.function.parameters.properties.city, 'openai should use function wrapper');
+    assert(registry.formatTools('groq', tools)[0].type === 'function', 'groq should use the openai format');
+
+    const claude = registry.formatTools('claude', tools)[0];
+    assert(claude.name === 'get_weather' && claude.input_schema.type === 'object', 'claude should use input_schema');
+
+    const gemini = registry.formatTools('gemini', tools);
+    assert(gemini.length === 1 && gemini[0].functionDeclarations.length === 1, 'gemini should group function declarations');
+
+    const generic = registry.formatTools('custom-provider', tools)[0];
+    assert(generic.parameters && !generic.type, 'unknown providers should get the generic format');
+
+    registry.registerAdapter('custom-provider', { formatTools: (defs: any[]) => defs.map(def => def.name) });
+    assert(registry.formatTools('custom-provider', tools)[0] === 'get_weather', 'registered adapters should be used');
+    registry.removeAdapter('custom-provider');
+
+    return registry.listAdapters().join(', ');
+  });
+
+  // Test 12: Gemini OpenAPI subset restrictions
+  await runner.runTest('Tool Schema Adapters - Gemini Schema Restrictions', async () => {
+    interface Node { label: string; next?: Node }
+    const node: z.ZodType<Node> = z.lazy(() => z.object({ label: z.string(), next: node.optional() }));
+    const schema = Utils.toolParametersSchema(z.object({
+      mode: z.enum(['fast', 'slow']),
+      level: z.union([z.literal(1), z.literal(2)]),
+      note: z.string().nullable(),
+      head: node
+    }).strict());
+
+    const gemini = Tools.geminiParametersSchema(schema)!;
+    const text = JSON.stringify(gemini);
+
+    assert(!text.includes('additionalProperties'), 'additionalProperties should be stripped');
+    assert(!text.includes('$ref'), 'references should be inlined');
+    assert(JSON.stringify(gemini.properties.mode.enum) === JSON.stringify(['fast', 'slow']), 'string enums should be kept');
+    assert(!text.includes('"enum":[1'), 'numeric enums should be dropped');
+    assert(gemini.properties.level.type === 'number' && gemini.properties.level.description.includes('1, 2'), 'numeric enums should move into the description');
+    assert(gemini.properties.note.type === 'string' && gemini.properties.note.nullable === true, 'nullable should replace null types');
+    assert(gemini.properties.head.properties.next.type === 'object', 'recursive references should be cut off');
+    assert(Tools.geminiParametersSchema({ type: 'object', properties: {} }) === undefined, 'empty parameters should be omitted');
+
+    return text.length + ' chars';
+  });
+
+  // Test 13: Server schemas with unsupported keywords still register their tools
+  await runner.runTest('MCPService - Lenient Server Schemas', async () => {
+    const conditional = {
+      type: 'object',
+      properties: { a: { type: 'string' }, b: { type: 'string' } },
+      required: ['a'],
+      patternProperties: { '(': { type: 'string' } },
+      if: { required: ['a'] },
+      then: { required: ['b'] }
+    };
+    const server: MCP.MCPTransport = {
+      async send(request: any) {
+        if (request.id === undefined) return undefined;
+        const reply = (result: any) => ({ jsonrpc: '2.0', id: request.id, result });
+        switch (request.method) {
+          case 'initialize':
+            return reply({ protocolVersion: request.params.protocolVersion, capabilities: { tools: {} }, serverInfo: { name: 'schemas', version: '1' } });
+          case 'tools/list':
+            return reply({
+              tools: [
+                { name: 'conditional', description: 'Uses if/then', inputSchema: conditional, outputSchema: conditional },
+                { name: 'plain', description: 'Plain schema', inputSchema: { type: 'object', properties: {} } }
+              ]
+            });
+          default:
+            return reply({ content: [{ type: 'text', text: 'ok' }], structuredContent: { a: 'x', b: 'y' } });
+        }
+      },
+      async close() {}
+    };
+
+    const mcpService = new MCP.MCPService();
+    await mcpService.initializeMcpTools('schemas', server);
+    assert(mcpService.listTools().map(tool => tool.name).join(',') === 'conditional,plain', 'every tool should be registered');
+
+    const schema = mcpService.getTool('conditional')!.schema;
+    assert(schema.safeParse({ a: 'x' }).success, 'unsupported keywords should be left unchecked');
+    assert(!schema.safeParse({}).success, 'supported keywords should still be checked');
+    const result = await mcpService.executeTool('conditional', { a: 'x' });
+    assert(result.structuredContent.b === 'y', 'the output schema should accept the result');
+    await mcpService.close();
+
+    return 'conditional schema accepted';
+  });
+
+  // Test 14: Patterns that need no u flag compile; broken ones fail or are skipped
+  await runner.runTest('zodFromJsonSchema - Pattern Flags', async () => {
+    const legacy = Utils.zodFromJsonSchema({
+      type: 'object',
+      properties: { id: { type: 'string', pattern: '^id\\-[0-9]+$' } },
+      patternProperties: { '^x\\-': { type: 'number' } },
+      additionalProperties: false
+    });
+    assert(legacy.safeParse({ id: 'id-7', 'x-a': 1 }).success, 'patterns invalid under the u flag should still apply');
+    assert(!legacy.safeParse({ id: 'id-x' }).success, 'the string pattern should be checked');
+    assert(!legacy.safeParse({ 'x-a': 'one' }).success, 'pattern properties should be checked');
+    assert(!legacy.safeParse({ y: 1 }).success, 'other keys should still be rejected');
+
+    const broken = { type: 'object', patternProperties: { '(': { type: 'string' } }, additionalProperties: { type: 'number' } };
+    let message = '';
+    try {
+      Utils.zodFromJsonSchema(broken);
+    } catch (error) {
+      message = error instanceof Error ? error.message : String(error);
+    }
+    assert(message.includes("Invalid pattern '('") && message.includes('#/patternProperties/('), `unexpected error: ${message}`);
+
+    const lenient = Utils.zodFromJsonSchema(broken, { unsupported: 'ignore' });
+    assert(lenient.safeParse({ a: 'text' }).success, 'keys that may match a skipped pattern should be left unchecked');
+    return message;
+  });
+
+  runner.printSummary();
+}
+
+// Run the tests
+main().catch(error => {
+  console.error('💥 Tool schema tests failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,321 @@
+/**
+ * Offline tests for scoping which registered tools a session offers
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import { Agent, Session, MCPService, Tools, createChatSession } from '../../dist/index.js';
+
+interface TestResult {
+  name: string;
+  success: boolean;
+  error?: string;
+  duration: number;
+  output?: any;
+}
+
+class TestRunner {
+  private results: TestResult[] = [];
+
+  async runTest(name: string, testFn: () => Promise<any>): Promise<void> {
+    const startTime = Date.now();
+    console.log(`🧪 Testing: ${name}`);
+
+    try {
+      const output = await testFn();
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: true,
+        duration,
+        output
+      });
+
+      console.log(`✅ ${name} - ${duration}ms`);
+      if (output && typeof output === 'string' && output.length < 200) {
+        console.log(`   Output: ${output}`);
+      }
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      this.results.push({
+        name,
+        success: false,
+        duration,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      console.log(`❌ ${name} - ${duration}ms`);
+      console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  printSummary(): void {
+    const successful = this.results.filter(r => r.success).length;
+    const total = this.results.length;
+
+    console.log('\n' + '='.repeat(60));
+    console.log('📊 TOOL SCOPING TEST SUMMARY');
+    console.log('='.repeat(60));
+    console.log(`✅ Successful: ${successful}/${total}`);
+    console.log(`❌ Failed: ${total - successful}/${total}`);
+
+    if (total - successful > 0) {
+      console.log('\n❌ FAILED TESTS:');
+      this.results
+        .filter(r => !r.success)
+        .forEach(r => console.log(`   - ${r.name}: ${r.error}`));
+    }
+
+    if (total - successful > 0) {
+      process.exit(1);
+    }
+  }
+}
+
+function assert(condition: any, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+const toolCallExtractor = {
+  name: 'RecordedExtractor',
+  supportedFormats: ['text'],
+  extract: (raw: any) => typeof raw === 'string'
+    ? [{ type: 'content', data: raw }]
+    : raw.toolCalls.map((toolCall: any) => ({ type: 'tool_call', data: toolCall }))
+};
+
+/**
+ * Tools as `initializeAllMcpTools` labels them, from a `github` and a `files` server
+ */
+function labelledTools() {
+  const calls: string[] = [];
+  const mcpService = new MCPService();
+  const register = (name: string, description: string) => mcpService.registerTool({
+    name,
+    description,
+    schema: z.object({ query: z.string().optional() }),
+    handler: () => {
+      calls.push(name);
+      return `${name} ok`;
+    }
+  });
+  register('github.searchIssues', 'Search issues in a repository');
+  register('github.createIssue', 'Open a new issue');
+  register('github.deleteRepo', 'Delete a repository');
+  register('files.read_file', 'Read a file from disk');
+  register('files.write_file', 'Write a file to disk');
+  register('weather', 'Current weather for a city');
+  return { mcpService, calls };
+}
+
+/**
+ * Provider that records the tools of each request and replays `responses`
+ */
+function recordingProvider(responses: any[] = []) {
+  const requests: Array<{ tools: string[]; messages: any[] }> = [];
+  return {
+    requests,
+    provider: {
+      name: 'recorder',
+      type: 'api',
+      async completion(params: any) {
+        requests.push({ tools: (params.tools || []).map((tool: any) => tool.name), messages: params.messages });
+        const response = responses[requests.length - 1] ?? 'ok';
+        return typeof response === 'string'
+          ? { content: response, raw: response }
+          : { content: '', raw: response };
+      }
+    }
+  };
+}
+
+function scopedSession(toolScope: any, responses: any[] = [], extra: any = {}) {
+  const tools = labelledTools();
+  const recorded = recordingProvider(responses);
+  const session = createChatSession({
+    sessionId: extra.sessionId || `scope-${Date.now()}`,
+    provider: 'custom',
+    providerConfig: { provider: recorded.provider, extractor: toolCallExtractor },
+    mcpService: tools.mcpService,
+    options: { agenticMode: true, toolScope },
+    ...extra
+  });
+  return { session, calls: tools.calls, requests: recorded.requests };
+}
+
+async function main() {
+  console.log('🚀 Tool Scoping Tests');
+  console.log('====================\n');
+
+  const runner = new TestRunner();
+  const basePath = await fs.mkdtemp(path.join(os.tmpdir(), 'omniporton-scope-'));
+
+  try {
+    // Test 1: Glob patterns match whole names, `*` spans any characters
+    await runner.runTest('matchesToolPattern - Globs', async () => {
+      const cases: Array<[string, string, boolean]> = [
+        ['github.searchIssues', 'github.*', true],
+        ['githubx.search', 'github.*', false],
+        ['files.read_file', '*.read_*', true],
+        ['weather', 'weather', true],
+        ['weather.today', 'weather', false],
+        ['anything', '*', true]
+      ];
+      for (const [name, pattern, expected] of cases) {
+        assert(Tools.matchesToolPattern(name, pattern) === expected, `'${pattern}' on '${name}' should be ${expected}`);
+      }
+      return `${cases.length} cases`;
+    });
+
+    // Test 2: Allow and deny lists decide which tools the model sees
+    await runner.runTest('ChatSession - Allow and Deny Lists', async () => {
+      const { session, requests } = scopedSession({ allow: ['github.*', 'weather'], deny: ['github.delete*'] });
+      await session.chat('hello');
+
+      const offered = requests[0].tools;
+      assert(offered.join() === 'github.searchIssues,github.createIssue,weather', `unexpected tools ${offered}`);
+      assert(session.getAvailableTools().length === 3, 'available tools should match the scope');
+      session.destroy();
+      return offered;
+    });
+
+    // Test 3: Enabling and disabling mid-conversation applies to the next request
+    await runner.runTest('ChatSession - Enable and Disable Tools', async () => {
+      const { session, requests } = scopedSession({ allow: ['weather'] });
+      await session.chat('first');
+
+      session.enableTools('files.*');
+      session.disableTools('weather', 'files.write_file');
+      await session.chat('second');
+
+      session.enableTools('weather');
+      await session.chat('third');
+
+      const [first, second, third] = requests.map(request => request.tools.join());
+      assert(first === 'weather', `unexpected first tools ${first}`);
+      assert(second === 'files.read_file', `unexpected second tools ${second}`);
+      assert(third === 'files.read_file,weather', `unexpected third tools ${third}`);
+      assert(session.toSessionData().options.toolScope.overrides.length === 3, 'a repeated pattern should replace its override');
+      session.destroy();
+      return [first, second, third];
+    });
+
+    // Test 4: A call to a tool out of scope fails without running it
+    await runner.runTest('ChatSession - Reject Out of Scope Calls', async () => {
+      const call = { id: 'call_delete', name: 'github.deleteRepo', arguments: {} };
+      const { session, calls, requests } = scopedSession({ deny: ['github.deleteRepo'] }, [{ toolCalls: [call] }, 'sorry']);
+
+      const reply = await session.chat('delete the repo');
+      const tool = requests[1].messages.find((message: any) => message.role === 'tool');
+      assert(reply === 'sorry' && calls.length === 0, 'the denied tool should not run');
+      assert(tool.tool_call_id === 'call_delete' && tool.content.includes('not enabled'), `unexpected result '${tool.content}'`);
+      session.destroy();
+      return tool.content;
+    });
+
+    // Test 5: Past `maxTools`, the tools most relevant to recent messages are sent
+    await runner.runTest('ChatSession - Top-K Relevant Tools', async () => {
+      const { session, requests } = scopedSession({ maxTools: 2 });
+      await session.chat('Please read the config file');
+      await session.chat('Any open issues in that repository?');
+
+      const [first, second] = requests.map(request => request.tools);
+      assert(first.length === 2 && first[0] === 'files.read_file', `unexpected first selection ${first}`);
+      assert(second.includes('github.searchIssues'), `unexpected second selection ${second}`);
+      session.destroy();
+      return { first, second };
+    });
+
+    // Test 6: A custom selector replaces the keyword ranking
+    await runner.runTest('ChatSession - Custom Tool Selector', async () => {
+      const seen: any[] = [];
+      const { session, requests } = scopedSession({
+        maxTools: 1,
+        deny: ['files.*'],
+        selectTools: (tools: any[], context: any) => {
+          seen.push(context);
+          return [...tools].reverse();
+        }
+      });
+      await session.chat('hi');
+
+      assert(requests[0].tools.join() === 'weather', `unexpected tools ${requests[0].tools}`);
+      assert(seen[0].maxTools === 1 && seen[0].messages.some((message: any) => message.content === 'hi'), 'the selector should see the conversation');
+      session.destroy();
+      return requests[0].tools;
+    });
+
+    // Test 7: The scope, including runtime changes, is saved with the session
+    await runner.runTest('FileSessionStorage - Resume Tool Scope', async () => {
+      const storage = new Session.FileSessionStorage(basePath);
+      const first = scopedSession({ allow: ['github.*'] }, [], { sessionId: 'scoped', storage });
+      first.session.disableTools('github.create*');
+      await first.session.chat('hello');
+      await first.session.flush();
+      first.session.destroy();
+
+      const tools = labelledTools();
+      const recorded = recordingProvider();
+      const resumed = await createChatSession({
+        sessionId: 'scoped',
+        provider: 'custom',
+        providerConfig: { provider: recorded.provider, extractor: toolCallExtractor },
+        mcpService: tools.mcpService,
+        storage,
+        resume: true
+      });
+      await resumed.chat('again');
+
+      const offered = recorded.requests[0].tools.join();
+      assert(offered === 'github.searchIssues,github.deleteRepo', `unexpected tools ${offered}`);
+      resumed.destroy();
+      return offered;
+    });
+
+    // Test 8: Agents expose the same controls
+    await runner.runTest('Agent - Tool Scope', async () => {
+      const recorded = recordingProvider(['done', 'done']);
+      const agent = new Agent.Agent({
+        id: 'researcher',
+        name: 'Researcher',
+        description: 'Looks things up',
+        provider: recorded.provider as any,
+        extractor: toolCallExtractor as any,
+        template: { name: 'default', content: '' } as any,
+        tools: ['search', 'browse', 'shell'].map(name => ({
+          name,
+          description: `${name} tool`,
+          schema: z.object({}),
+          handler: () => name
+        })),
+        options: { toolScope: { deny: ['shell'] } }
+      });
+
+      await agent.execute('look it up');
+      agent.disableTools('browse');
+      agent.enableTools('shell');
+      await agent.execute('again');
+
+      const [first, second] = recorded.requests.map(request => request.tools.join());
+      assert(first === 'search,browse' && second === 'search,shell', `unexpected tools ${first} / ${second}`);
+      assert(agent.getAvailableTools().length === 2 && agent.getTools().length === 3, 'scoping should not unregister tools');
+      return [first, second];
+    });
+  } finally {
+    await fs.rm(basePath, { recursive: true, force: true });
+  }
+
+  runner.printSummary();
+}
+
+// Run the tests
+main().catch(error => {
+  console.error('💥 Tool scoping tests failed:', error);
+  process.exit(1);
+});